@@ -1,7 +1,18 @@
 import type { NextConfig } from "next";
 
+// Cookie sessions are served by a route handler, which a static export cannot include
+const cookieSessions = process.env.NEXT_PUBLIC_SESSION_MODE === "cookie";
+
 const nextConfig: NextConfig = {
-  output: "export",
+  output: cookieSessions ? undefined : "export",
+
+  // Route handlers and the middleware use the ".server.ts" extension so the static export leaves them out
+  pageExtensions: cookieSessions ? ["tsx", "ts", "server.ts"] : ["tsx", "ts"],
+
+  // Always defined, so the bundler can leave the fake backend out of builds that do not use it
+  env: {
+    NEXT_PUBLIC_FAKE_BACKEND: process.env.NEXT_PUBLIC_FAKE_BACKEND ?? "false",
+  },
 
   images: {
     unoptimized: true,
@@ -0,0 +1,207 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Card from "../components/ui/Card";
+import Button from "../components/ui/Button";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
+import { useAuth } from "../context/AuthContext";
+import { isAbortError, setLocalStorageItem } from "@/lib/api/apiClient";
+import { InvitationDetails, invitationApi } from "@/lib/api/invitationApi";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from "@/lib/companyPermissions";
+import { loginUrl, RETURN_URL_PARAM } from "@/lib/routeAccess";
+import { normalizeFieldErrors } from "@/utils/fieldErrors";
+
+/**
+ * Accept Invitation Page Content
+ *
+ * Opened from the link in an invitation email (?key=...). Signed-in users with the
+ * invited address join the company right away and land on its dashboard. Everyone
+ * else signs in or registers first and is brought back to this page afterwards.
+ */
+function AcceptInvitePageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const key = searchParams.get("key") ?? "";
+  const { user, isAuthenticated, isLoading, refreshUser } = useAuth();
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // This page, to return to after signing in or registering
+  const acceptPath = `/accept-invite?${new URLSearchParams({ key })}`;
+
+  // Load the company and role of the invitation, also for visitors who are not signed in
+  useEffect(() => {
+    if (!key) {
+      setLoadFailed(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    invitationApi
+      .get(key, { signal: controller.signal })
+      .then(setInvitation)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Failed to load invitation:", error);
+        setLoadFailed(true);
+      });
+    return () => controller.abort();
+  }, [key]);
+
+  /**
+   * Join the company and open its dashboard
+   */
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      const company = await invitationApi.accept(key);
+      // Accepting confirms the email address, which lifts the restrictions of unverified accounts
+      await refreshUser();
+
+      // Select the company before navigating, its pages require a selected company
+      setLocalStorageItem("selected_company_id", String(company.id));
+      window.dispatchEvent(new CustomEvent("companyListChanged"));
+      window.dispatchEvent(new CustomEvent("companyChanged"));
+      router.push("/dashboard");
+    } catch (err) {
+      const errors = normalizeFieldErrors(err);
+      setError(
+        errors?.formError ||
+          Object.values(errors?.fieldErrors ?? {})[0] ||
+          (err instanceof Error && err.message) ||
+          "The invitation could not be accepted. Please try again."
+      );
+      setIsAccepting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loadFailed) {
+      return (
+        <div className="space-y-6" role="alert">
+          <p className="text-gray-700 dark:text-gray-300">
+            This invitation is invalid or has expired. Ask the person who invited you to send it
+            again.
+          </p>
+          <Button
+            className="w-full"
+            onClick={() => router.push(isAuthenticated ? "/list-companies" : "/login")}
+          >
+            {isAuthenticated ? "Go to your companies" : "Go to login"}
+          </Button>
+        </div>
+      );
+    }
+
+    if (!invitation || isLoading) return <LoadingSkeleton />;
+
+    const roleName = ROLE_LABELS[invitation.role].toLowerCase();
+    const summary = (
+      <div className="space-y-2">
+        <p className="text-gray-700 dark:text-gray-300">
+          {invitation.invited_by ?? "A member"} invited <strong>{invitation.email}</strong> to join{" "}
+          <strong>{invitation.company.name}</strong> as {roleName}.
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {ROLE_DESCRIPTIONS[invitation.role]}. The invitation expires on{" "}
+          {new Date(invitation.expires_at).toLocaleDateString()}.
+        </p>
+      </div>
+    );
+
+    if (!isAuthenticated || !user) {
+      const registerParams = new URLSearchParams({
+        email: invitation.email,
+        [RETURN_URL_PARAM]: acceptPath,
+      });
+      return (
+        <div className="space-y-6">
+          {summary}
+          <p className="text-gray-700 dark:text-gray-300">
+            Sign in with {invitation.email} to accept, or create an account if you do not have one
+            yet.
+          </p>
+          <div className="flex gap-4">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => router.push(`/register?${registerParams}`)}
+            >
+              Create account
+            </Button>
+            <Button className="w-full" onClick={() => router.push(loginUrl(acceptPath))}>
+              Sign in
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      return (
+        <div className="space-y-6">
+          {summary}
+          <p className="text-gray-700 dark:text-gray-300" role="alert">
+            You are signed in as <strong>{user.email}</strong>. Sign out and sign in with{" "}
+            {invitation.email} to accept this invitation.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {summary}
+        {error && (
+          <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+        <Button
+          className="w-full"
+          onClick={handleAccept}
+          disabled={isAccepting}
+          loading={isAccepting}
+        >
+          {isAccepting ? "Joining..." : `Join ${invitation.company.name}`}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Page header with title and description */}
+      <div className="text-center mb-12">
+        <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
+          Company Invitation
+        </h1>
+        <p className="mt-4 max-w-2xl mx-auto text-xl text-gray-500 dark:text-gray-400">
+          Join your colleagues on CarbonInsight
+        </p>
+      </div>
+
+      <Card className="max-w-md mx-auto">{renderContent()}</Card>
+    </div>
+  );
+}
+
+// Main page component with Suspense wrapper, required for reading the link's query parameters
+export default function AcceptInvitePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <AcceptInvitePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Button from "../../components/ui/Button";
+import PopupModal from "../../components/ui/PopupModal";
+import { isAbortError } from "@/lib/api/apiClient";
+import { ActiveSession, sessionsApi } from "@/lib/api/sessionsApi";
+
+// Dialog currently asking for confirmation: one session, or all other sessions
+type PendingRevoke = ActiveSession | "others" | null;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+// Active sessions section of the account page
+// Lists the devices the user is signed in on and signs out single sessions or all
+// other sessions. Revoked devices are sent to the login page on their next request
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<PendingRevoke>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the sessions of the account
+  useEffect(() => {
+    const controller = new AbortController();
+    sessionsApi
+      .list({ signal: controller.signal })
+      .then(setSessions)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setError("Failed to load your active sessions.");
+      });
+    return () => controller.abort();
+  }, []);
+
+  const otherSessions = sessions?.filter(session => !session.is_current) ?? [];
+
+  // Sign out the session or sessions of the open dialog
+  const handleConfirmRevoke = async () => {
+    if (!pendingRevoke) return;
+    setIsSubmitting(true);
+    setError("");
+    try {
+      if (pendingRevoke === "others") {
+        await sessionsApi.revokeOthers();
+        setSessions(current => current?.filter(session => session.is_current) ?? null);
+      } else {
+        await sessionsApi.revoke(pendingRevoke.id);
+        setSessions(current => current?.filter(session => session.id !== pendingRevoke.id) ?? null);
+      }
+    } catch {
+      setError("The session could not be signed out. Please try again.");
+    } finally {
+      setPendingRevoke(null);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Active sessions</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Devices where you are signed in to CarbonInsight
+          </p>
+        </div>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => setPendingRevoke("others")}
+            disabled={isSubmitting}
+          >
+            Sign out other sessions
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {sessions && (
+        <ul className="mt-6 divide-y divide-gray-200 dark:divide-gray-700">
+          {sessions.map(session => (
+            <li key={session.id} className="py-4 flex justify-between items-center gap-4">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {session.browser} on {session.device}
+                  {session.is_current && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {session.ip_address} · Signed in {formatTime(session.created_at)} · Last active{" "}
+                  {formatTime(session.last_used_at)}
+                </p>
+              </div>
+              {!session.is_current && (
+                <Button
+                  variant="outline"
+                  onClick={() => setPendingRevoke(session)}
+                  disabled={isSubmitting}
+                  ariaLabel={`Sign out ${session.browser} on ${session.device}`}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Confirmation for signing out one or all other sessions */}
+      {pendingRevoke && (
+        <PopupModal
+          title={pendingRevoke === "others" ? "Sign out other sessions" : "Sign out session"}
+          confirmLabel="Sign out"
+          onConfirm={handleConfirmRevoke}
+          onClose={() => setPendingRevoke(null)}
+        >
+          <p className="text-gray-800 dark:text-gray-200">
+            {pendingRevoke === "others"
+              ? `All ${otherSessions.length} other ${
+                  otherSessions.length === 1 ? "session" : "sessions"
+                } will be signed out. You stay signed in on this device.`
+              : `${pendingRevoke.browser} on ${pendingRevoke.device} will be signed out and has to sign in again.`}
+          </p>
+        </PopupModal>
+      )}
+    </div>
+  );
+}
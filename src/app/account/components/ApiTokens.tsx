@@ -0,0 +1,352 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Button from "../../components/ui/Button";
+import PopupModal from "../../components/ui/PopupModal";
+import { isAbortError } from "@/lib/api/apiClient";
+import { ApiToken, ApiTokenAccess, apiTokenApi, CreatedApiToken } from "@/lib/api/apiTokenApi";
+import { Company, companyApi } from "@/lib/api/companyApi";
+import { normalizeFieldErrors } from "@/utils/fieldErrors";
+
+// Validity periods offered when creating a token, in days
+const EXPIRY_OPTIONS = [30, 90, 180, 365];
+
+const ACCESS_LABELS: Record<ApiTokenAccess, string> = {
+  read: "Read only",
+  read_write: "Read and write",
+};
+
+const inputClassName =
+  "p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600";
+
+// Validation errors carry their message per field, other errors in the error itself
+const errorMessage = (error: unknown, fallback: string) => {
+  const errors = normalizeFieldErrors(error);
+  if (errors) return errors.formError || Object.values(errors.fieldErrors)[0] || fallback;
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+const emptyForm = () => ({
+  name: "",
+  access: "read" as ApiTokenAccess,
+  companies: [] as number[],
+  expiresInDays: EXPIRY_OPTIONS[1],
+});
+
+// Personal API tokens section of the account page
+// Scripts send a token as bearer token instead of a session's access token. Tokens are
+// limited to the chosen companies and access level, expire, and their key is only
+// shown once, right after creation
+export default function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [form, setForm] = useState<ReturnType<typeof emptyForm> | null>(null);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [pendingRevoke, setPendingRevoke] = useState<ApiToken | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the tokens and the companies they can be granted access to
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      apiTokenApi.list({ signal: controller.signal }),
+      companyApi.listCompanies({ signal: controller.signal }),
+    ])
+      .then(([tokens, companies]) => {
+        setTokens(tokens);
+        setCompanies(companies);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setError("Failed to load your API tokens.");
+      });
+    return () => controller.abort();
+  }, []);
+
+  const companyName = (companyId: number) =>
+    companies.find(company => Number(company.id) === companyId)?.name ?? `Company ${companyId}`;
+
+  const toggleCompany = (companyId: number) =>
+    setForm(
+      current =>
+        current && {
+          ...current,
+          companies: current.companies.includes(companyId)
+            ? current.companies.filter(id => id !== companyId)
+            : [...current.companies, companyId],
+        }
+    );
+
+  // Create the token and show its key once
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const expiresAt = new Date(Date.now() + form.expiresInDays * 24 * 60 * 60 * 1000);
+      const token = await apiTokenApi.create({
+        name: form.name.trim(),
+        access: form.access,
+        companies: form.companies,
+        expires_at: expiresAt.toISOString(),
+      });
+      setTokens(current => [...(current ?? []), token]);
+      setCreatedToken(token);
+      setIsCopied(false);
+      setForm(null);
+    } catch (error) {
+      setError(errorMessage(error, "The API token could not be created. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken.key);
+      setIsCopied(true);
+    } catch (error) {
+      console.error("Failed to copy API token:", error);
+    }
+  };
+
+  // Revoke the token of the open dialog
+  const handleConfirmRevoke = async () => {
+    if (!pendingRevoke) return;
+    setIsSubmitting(true);
+    setError("");
+    try {
+      await apiTokenApi.revoke(pendingRevoke.id);
+      setTokens(current => current?.filter(token => token.id !== pendingRevoke.id) ?? null);
+      if (createdToken?.id === pendingRevoke.id) setCreatedToken(null);
+    } catch (error) {
+      setError(errorMessage(error, "The API token could not be revoked. Please try again."));
+    } finally {
+      setPendingRevoke(null);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Tokens for scripts and integrations that use the CarbonInsight API on your behalf
+        </p>
+        {!form && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setForm(emptyForm());
+              setError("");
+            }}
+            disabled={!tokens}
+          >
+            Create token
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* New token, the key is only shown once */}
+      {createdToken && (
+        <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md dark:bg-yellow-900/20 dark:border-yellow-900">
+          <h4 className="font-medium text-yellow-800 dark:text-yellow-200">
+            Your new API token &quot;{createdToken.name}&quot;
+          </h4>
+          <p className="mt-1 text-sm text-yellow-800 dark:text-yellow-200">
+            Copy the token now and store it securely. It will not be shown again. Send it as{" "}
+            <code className="font-mono">Authorization: Bearer &lt;token&gt;</code> header.
+          </p>
+          <code className="mt-4 block p-2 font-mono text-sm break-all bg-white rounded-md dark:bg-gray-800">
+            {createdToken.key}
+          </code>
+          <div className="mt-4 flex justify-end space-x-4">
+            <Button variant="outline" onClick={handleCopy}>
+              {isCopied ? "Copied" : "Copy"}
+            </Button>
+            <Button onClick={() => setCreatedToken(null)}>I have saved this token</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Token creation form */}
+      {form && (
+        <form onSubmit={handleCreate} className="mt-6 space-y-4">
+          <div>
+            <label
+              htmlFor="api_token_name"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Name
+            </label>
+            <input
+              id="api_token_name"
+              type="text"
+              required
+              maxLength={100}
+              placeholder="e.g. Nightly BOM import"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="api_token_access"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Access
+            </label>
+            <select
+              id="api_token_access"
+              value={form.access}
+              onChange={e => setForm({ ...form, access: e.target.value as ApiTokenAccess })}
+              className={inputClassName}
+            >
+              {Object.entries(ACCESS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Companies
+            </legend>
+            {companies.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                You are not a member of any company yet.
+              </p>
+            ) : (
+              <div className="mt-2 space-y-2">
+                {companies.map(company => (
+                  <label
+                    key={company.id}
+                    className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.companies.includes(Number(company.id))}
+                      onChange={() => toggleCompany(Number(company.id))}
+                      className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    {company.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+          <div>
+            <label
+              htmlFor="api_token_expiry"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Expires after
+            </label>
+            <select
+              id="api_token_expiry"
+              value={form.expiresInDays}
+              onChange={e => setForm({ ...form, expiresInDays: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {EXPIRY_OPTIONS.map(days => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end space-x-4">
+            <Button variant="outline" type="button" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !form.name.trim() || form.companies.length === 0}
+            >
+              {isSubmitting ? "Creating..." : "Create token"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {tokens && tokens.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map(token => {
+            const isExpired = new Date(token.expires_at).getTime() <= Date.now();
+            return (
+              <li key={token.id} className="py-4 flex justify-between items-center gap-4">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {token.name}{" "}
+                    <code className="ml-1 font-mono text-xs text-gray-500 dark:text-gray-400">
+                      {token.prefix}…
+                    </code>
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {ACCESS_LABELS[token.access]} · {token.companies.map(companyName).join(", ")}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {token.last_used_at
+                      ? `Last used ${formatDate(token.last_used_at)}`
+                      : "Never used"}{" "}
+                    ·{" "}
+                    {isExpired ? (
+                      <span className="text-red-700 dark:text-red-400">
+                        Expired {formatDate(token.expires_at)}
+                      </span>
+                    ) : (
+                      `Expires ${formatDate(token.expires_at)}`
+                    )}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setPendingRevoke(token)}
+                  disabled={isSubmitting}
+                  ariaLabel={`Revoke API token ${token.name}`}
+                >
+                  Revoke
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {tokens?.length === 0 && !form && (
+        <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">
+          You have not created any API tokens.
+        </p>
+      )}
+
+      {/* Confirmation for revoking a token */}
+      {pendingRevoke && (
+        <PopupModal
+          title="Revoke API token"
+          confirmLabel="Revoke"
+          onConfirm={handleConfirmRevoke}
+          onClose={() => setPendingRevoke(null)}
+        >
+          <p className="text-gray-800 dark:text-gray-200">
+            Scripts using &quot;{pendingRevoke.name}&quot; will no longer be able to access
+            CarbonInsight. This cannot be undone.
+          </p>
+        </PopupModal>
+      )}
+    </div>
+  );
+}
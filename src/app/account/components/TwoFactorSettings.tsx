@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Button from "../../components/ui/Button";
+import PopupModal from "../../components/ui/PopupModal";
+import { isAbortError } from "@/lib/api/apiClient";
+import { mfaApi, MfaStatus, TotpSetup } from "@/lib/api/mfaApi";
+import { normalizeFieldErrors } from "@/utils/fieldErrors";
+
+// Dialog currently asking for confirmation of a change to the two-factor settings
+type PendingAction = "disable" | "regenerate" | null;
+
+const inputClassName =
+  "p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600";
+
+// Validation errors carry their message per field, other errors in the error itself
+const errorMessage = (error: unknown, fallback: string) => {
+  const errors = normalizeFieldErrors(error);
+  if (errors) return errors.formError || Object.values(errors.fieldErrors)[0] || fallback;
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+// Shows the base32 secret in groups of four so it can be typed into an app
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+// Two-factor authentication section of the account page
+// Enrolls an authenticator app (QR code, verification code, recovery codes),
+// and lets users with 2FA enabled disable it or replace their recovery codes
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the two-factor state of the account
+  useEffect(() => {
+    const controller = new AbortController();
+    mfaApi
+      .getStatus({ signal: controller.signal })
+      .then(setStatus)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setError(errorMessage(error, "Failed to load two-factor authentication settings."));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setError("");
+  };
+
+  // Start enrolling an authenticator app
+  const handleStartSetup = async () => {
+    resetForm();
+    setIsSubmitting(true);
+    try {
+      setSetup(await mfaApi.setupTotp());
+    } catch (error) {
+      setError(errorMessage(error, "Failed to start two-factor authentication setup."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirm the enrollment with the first code from the app
+  const handleConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const { recovery_codes } = await mfaApi.confirmTotp(code.trim());
+      setSetup(null);
+      setRecoveryCodes(recovery_codes);
+      setStatus({ enabled: true, recovery_codes_remaining: recovery_codes.length });
+      setCode("");
+    } catch (error) {
+      setError(errorMessage(error, "The code could not be verified. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Disable two-factor authentication or replace the recovery codes
+  const handleConfirmAction = async () => {
+    setIsSubmitting(true);
+    setError("");
+    try {
+      if (pendingAction === "disable") {
+        await mfaApi.disable({ password, code: code.trim() });
+        setStatus({ enabled: false, recovery_codes_remaining: 0 });
+      } else {
+        const { recovery_codes } = await mfaApi.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(recovery_codes);
+        setStatus({ enabled: true, recovery_codes_remaining: recovery_codes.length });
+      }
+      setPendingAction(null);
+      resetForm();
+    } catch (error) {
+      setError(errorMessage(error, "The change could not be saved. Please try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Save the recovery codes as a text file
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "carboninsight-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Two-factor authentication
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {status?.enabled
+              ? `Enabled. ${status.recovery_codes_remaining} recovery ${
+                  status.recovery_codes_remaining === 1 ? "code" : "codes"
+                } left.`
+              : "Require a code from an authenticator app when signing in"}
+          </p>
+        </div>
+        {status && !setup && !status.enabled && (
+          <Button variant="outline" onClick={handleStartSetup} disabled={isSubmitting}>
+            Enable
+          </Button>
+        )}
+        {status?.enabled && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setPendingAction("regenerate")}>
+              New recovery codes
+            </Button>
+            <Button variant="outline" onClick={() => setPendingAction("disable")}>
+              Disable
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && !pendingAction && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* Enrollment: scan the QR code and confirm with the first code */}
+      {setup && (
+        <form onSubmit={handleConfirmSetup} className="mt-6 space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Scan this QR code with an authenticator app, then enter the code it shows.
+          </p>
+          {setup.qr_code && (
+            <img
+              src={setup.qr_code}
+              alt="QR code for your authenticator app"
+              className="w-48 h-48 bg-white p-2 rounded-md"
+            />
+          )}
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Can&apos;t scan the code? Enter this key in the app instead:{" "}
+            <code className="font-mono break-all">{formatSecret(setup.secret)}</code>
+          </p>
+          <div>
+            <label
+              htmlFor="totp_code"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Verification code
+            </label>
+            <input
+              id="totp_code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex justify-end space-x-4">
+            <Button variant="outline" type="button" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !code.trim()}>
+              {isSubmitting ? "Verifying..." : "Verify and enable"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Recovery codes, only shown right after they were issued */}
+      {recoveryCodes && (
+        <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md dark:bg-yellow-900/20 dark:border-yellow-900">
+          <h4 className="font-medium text-yellow-800 dark:text-yellow-200">Your recovery codes</h4>
+          <p className="mt-1 text-sm text-yellow-800 dark:text-yellow-200">
+            Store these codes somewhere safe. Each code signs you in once if you lose access to your
+            authenticator app. They will not be shown again.
+          </p>
+          <ul className="mt-4 grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="mt-4 flex justify-end space-x-4">
+            <Button variant="outline" onClick={handleDownloadCodes}>
+              Download
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I have saved these codes</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Confirmation for disabling 2FA or replacing the recovery codes */}
+      {pendingAction && (
+        <PopupModal
+          title={
+            pendingAction === "disable"
+              ? "Disable two-factor authentication"
+              : "Generate new recovery codes"
+          }
+          confirmLabel={pendingAction === "disable" ? "Disable" : "Generate"}
+          onConfirm={handleConfirmAction}
+          onClose={() => {
+            setPendingAction(null);
+            resetForm();
+          }}
+        >
+          <div className="space-y-4">
+            <p className="text-gray-800 dark:text-gray-200">
+              {pendingAction === "disable"
+                ? "Signing in will only require your password. Confirm with your password and a code from your authenticator app."
+                : "Your current recovery codes will stop working. Confirm with a code from your authenticator app."}
+            </p>
+            {pendingAction === "disable" && (
+              <div>
+                <label
+                  htmlFor="mfa_password"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Password
+                </label>
+                <input
+                  id="mfa_password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label
+                htmlFor="mfa_confirm_code"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Authentication code
+              </label>
+              <input
+                id="mfa_confirm_code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+        </PopupModal>
+      )}
+    </div>
+  );
+}
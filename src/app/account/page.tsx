@@ -22,6 +22,10 @@ import { useAuth } from "../context/AuthContext";
 // API service for user-related operations like profile updates, password changes, and account deletion
 // Centralizes all user data management and provides consistent error handling across the application
 import { userApi } from "@/lib/api/userApi";
+// Two-factor authentication settings shown in the security section
+import TwoFactorSettings from "./components/TwoFactorSettings";
+import ActiveSessions from "./components/ActiveSessions";
+import ApiTokens from "./components/ApiTokens";
 
 // Main account management page component that allows users to view and modify their account settings
 // This component handles three main sections: profile information, security (password), and account deletion
@@ -31,13 +35,11 @@ export default function AccountPage() {
   // user: Contains current user's profile information (name, email, username, etc.)
   // logout: Function to clear authentication state and redirect to login page
   // isLoading: Boolean indicating if authentication state is still being determined
-  // requireAuth: Function that enforces authentication requirement for this page
-  const { user, logout, isLoading, requireAuth } = useAuth();
+  const { user, logout, isLoading, refreshUser, authMethod } = useAuth();
 
-  // Enforce authentication requirement for accessing this page
-  // This will redirect unauthenticated users to the login page automatically
-  // Must be called at the component level to ensure proper authentication flow
-  requireAuth();
+  // Accounts signed in through single sign-on have their password and second factor
+  // managed by the identity provider
+  const isSsoSession = authMethod === "sso";
 
   // State management for various UI and form states throughout the component
   // These states control loading indicators, form visibility, and user interactions
@@ -168,10 +170,18 @@ export default function AccountPage() {
       // Call the centralized API service to update user profile
       // This abstracts the HTTP request details and provides consistent error handling
       await userApi.updateProfile(formData);
+
+      // A changed email address has to be verified again, so reload the verification state
+      const emailChanged = formData.email !== user?.email;
+      await refreshUser();
       
       // Display success message to confirm the operation completed successfully
       // Provides positive feedback and reassurance to the user
-      setSuccess("Your profile has been updated successfully!");
+      setSuccess(
+        emailChanged
+          ? "Your profile has been updated. Please verify your new email address with the link we sent you."
+          : "Your profile has been updated successfully!"
+      );
     } catch (error) {
       // Log error for debugging purposes while providing user-friendly error message
       // Console logging helps with development and production troubleshooting
@@ -409,7 +419,16 @@ export default function AccountPage() {
           <h2 className="text-xl font-semibold mb-6">Security</h2>
 
           {/* Password change toggle or form display */}
-          {!showPasswordForm ? (
+          {isSsoSession ? (
+            // Passwords of SSO accounts are changed at the identity provider
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Password</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                You signed in with single sign-on. Your password and two-factor authentication are
+                managed by your organization&apos;s identity provider.
+              </p>
+            </div>
+          ) : !showPasswordForm ? (
             // Password change invitation when form is hidden
             <div className="flex justify-between items-center">
               <div>
@@ -509,6 +528,16 @@ export default function AccountPage() {
               </div>
             </form>
           )}
+
+          {/* Two-factor authentication enrollment and recovery codes */}
+          {!isSsoSession && <TwoFactorSettings />}
+          <ActiveSessions />
+        </Card>
+
+        {/* Personal API tokens for scripted access */}
+        <Card className="max-w-3xl mx-auto">
+          <h2 className="text-xl font-semibold mb-6">API Tokens</h2>
+          <ApiTokens />
         </Card>
 
         {/* Account Management Section - Dangerous Actions */}
@@ -559,6 +588,12 @@ export default function AccountPage() {
                 <li>Delete all your personal data and calculation history</li>
                 <li>Log you out and redirect to the login page</li>
               </ul>
+              {isSsoSession && (
+                <p className="text-sm text-gray-400 dark:text-white">
+                  Your account at your organization&apos;s identity provider is not affected. Signing
+                  in with SSO again creates a new, empty CarbonInsight account.
+                </p>
+              )}
               <p className="text-sm font-medium text-red-600 dark:text-red-400">
                 This action cannot be undone.
               </p>
@@ -0,0 +1,154 @@
+/**
+ * Session route handler for the cookie session mode
+ * Proxies every API call to the backend and keeps the JWTs in httpOnly cookies,
+ * so scripts in the browser never see them:
+ * - responses of the token endpoints (login, registration, refresh) have their tokens moved
+ *   into cookies, other responses are passed through unchanged
+ * - /token/refresh/ takes the refresh token from its cookie
+ * - all other calls get the access token from its cookie as bearer token
+ * - /logout/ ends the session of the refresh cookie on the backend and clears the cookies
+ * - a session cookie without tokens tells the middleware which visitors are signed in
+ *
+ * The ".server.ts" extension is only routed when NEXT_PUBLIC_SESSION_MODE is "cookie",
+ * see next.config.ts, since a static export cannot serve route handlers
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, SESSION_PROXY_PATH, TOKEN_ENDPOINTS } from "@/lib/api/session";
+
+// Backend the calls are forwarded to, a server-only API_URL takes precedence over the public one
+const BACKEND_URL =
+  process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
+
+const ACCESS_COOKIE = "carboninsight_access";
+const REFRESH_COOKIE = "carboninsight_refresh";
+
+// Lifetime of the refresh cookie, the backend decides how long the token itself is valid
+const REFRESH_COOKIE_MAX_AGE_S = 7 * 24 * 60 * 60;
+
+// Request and response headers passed through unchanged
+const FORWARDED_REQUEST_HEADERS = ["content-type", "accept", "x-upload-id", "content-range"];
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "content-disposition", "retry-after"];
+
+const cookieOptions = (maxAge?: number, path = SESSION_PROXY_PATH) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path,
+  maxAge,
+});
+
+// Clear all session cookies, when signing out or once the session can no longer be refreshed
+function clearSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.delete({ name: ACCESS_COOKIE, path: SESSION_PROXY_PATH });
+  response.cookies.delete({ name: REFRESH_COOKIE, path: SESSION_PROXY_PATH });
+  response.cookies.delete({ name: SESSION_COOKIE, path: "/" });
+  return response;
+}
+
+// Respond with the JSON body of a token endpoint, moving its tokens into cookies
+function tokenResponse(data: unknown, init: ResponseInit): NextResponse {
+  if (typeof data !== "object" || data === null || Array.isArray(data) || !("access" in data)) {
+    return NextResponse.json(data, init);
+  }
+
+  const { access, refresh, ...rest } = data as Record<string, unknown>;
+  const response = NextResponse.json(rest, init);
+  if (typeof access === "string") {
+    response.cookies.set(ACCESS_COOKIE, access, cookieOptions());
+  }
+  if (typeof refresh === "string") {
+    response.cookies.set(REFRESH_COOKIE, refresh, cookieOptions(REFRESH_COOKIE_MAX_AGE_S));
+  }
+  if (typeof access === "string" || typeof refresh === "string") {
+    response.cookies.set(SESSION_COOKIE, "1", cookieOptions(REFRESH_COOKIE_MAX_AGE_S, "/"));
+  }
+  return response;
+}
+
+async function proxy(request: NextRequest): Promise<NextResponse> {
+  const endpoint = request.nextUrl.pathname.slice(SESSION_PROXY_PATH.length);
+
+  // The cookies are cleared even if the backend could not end the session
+  if (endpoint === "/logout/") {
+    const refresh = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (refresh) {
+      try {
+        await fetch(`${BACKEND_URL}/logout/`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ refresh }),
+        });
+      } catch {
+        // The session then ends once its refresh token expires
+      }
+    }
+    return clearSessionCookies(new NextResponse(null, { status: 204 }));
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  let body: BodyInit | undefined =
+    request.method === "GET" || request.method === "HEAD" ? undefined : await request.arrayBuffer();
+
+  if (endpoint === "/token/refresh/") {
+    // The browser does not know the refresh token, it is taken from the cookie
+    const refresh = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (!refresh) {
+      return clearSessionCookies(NextResponse.json({ detail: "No session." }, { status: 401 }));
+    }
+    headers.set("content-type", "application/json");
+    body = JSON.stringify({ refresh });
+  } else {
+    const access = request.cookies.get(ACCESS_COOKIE)?.value;
+    if (access) headers.set("authorization", `Bearer ${access}`);
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${BACKEND_URL}${endpoint}${request.nextUrl.search}`, {
+      method: request.method,
+      headers,
+      body,
+    });
+  } catch {
+    return NextResponse.json({ detail: "The server could not be reached." }, { status: 502 });
+  }
+
+  const responseHeaders = new Headers();
+  FORWARDED_RESPONSE_HEADERS.forEach(name => {
+    const value = backendResponse.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  // Token responses are JSON objects, their tokens never reach the browser
+  const isJson = backendResponse.headers.get("content-type")?.includes("application/json");
+  if (isJson && backendResponse.ok && TOKEN_ENDPOINTS.includes(endpoint)) {
+    return tokenResponse(await backendResponse.json(), {
+      status: backendResponse.status,
+      headers: responseHeaders,
+    });
+  }
+
+  const hasBody = ![204, 205, 304].includes(backendResponse.status);
+  const response = new NextResponse(hasBody ? await backendResponse.arrayBuffer() : null, {
+    status: backendResponse.status,
+    headers: responseHeaders,
+  });
+  // A rejected refresh token ends the session, so pages are protected again
+  if (endpoint === "/token/refresh/" && backendResponse.status === 401) {
+    return clearSessionCookies(response);
+  }
+  return response;
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
+export const OPTIONS = proxy;
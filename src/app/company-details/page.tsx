@@ -11,6 +11,8 @@ import { useEffect, useState } from "react";
 // Next.js router hook for programmatic navigation between pages
 // Provides client-side routing with support for redirects and navigation control
 import { useRouter } from "next/navigation";
+// Client-side link to the company's product defaults
+import Link from "next/link";
 // UI components from the local design system for consistent styling and functionality
 // Card: Container component for grouping related content with consistent styling
 // Button: Interactive element with standardized styling and accessibility features
@@ -22,9 +24,18 @@ import PopupModal from "../components/ui/PopupModal";
 // companyApi: Centralized service for all company CRUD operations
 // CompanyCreateData: TypeScript interface defining the structure of company data
 import { companyApi, CompanyCreateData } from "@/lib/api/companyApi";
-// Custom error class for handling API-specific errors with structured error data
-// Provides better error handling and user feedback for API operation failures
-import { ApiError } from "@/lib/api/apiClient";
+// Normalizes the backend's validation errors into per-field messages
+// Lets the form show each error under the field it belongs to
+import { normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+// Notifies the other open tabs when the selected company is deleted
+import { broadcastTabSync } from "@/lib/api/tabSync";
+// Role of the current user, only owners and admins may edit and only owners may delete
+import { useCompanyPermissions } from "@/hooks/useCompanyPermissions";
+// Address, sector, contact, logo and production sites of the company
+import CompanyProfileFields, {
+  EMPTY_COMPANY_PROFILE,
+  pickCompanyProfile,
+} from "../components/CompanyProfileFields";
 
 // Main component for displaying and editing company details
 // Handles company information modification, deletion, and related state management
@@ -34,6 +45,10 @@ export default function CompanyDetailsPage() {
   // Used for redirecting users when company ID is missing or after successful operations
   const router = useRouter();
 
+  // Permissions of the current user in the company
+  const { can, isLoading: isRoleLoading } = useCompanyPermissions();
+  const canEdit = can("edit_company");
+
   // Form data state that mirrors the CompanyCreateData interface
   // Manages the current values of all editable company fields
   // Initialized with empty strings to ensure controlled components
@@ -41,7 +56,13 @@ export default function CompanyDetailsPage() {
     name: "",
     vat_number: "",
     business_registration_number: "",
+    ...EMPTY_COMPANY_PROFILE,
   });
+
+  // Logo shown in the form, and the change to upload on save
+  // The change is undefined while the logo is untouched and null once it was removed
+  const [logo, setLogo] = useState<string | null>(null);
+  const [logoChange, setLogoChange] = useState<File | null | undefined>(undefined);
   
   // Loading state for general operations like data fetching and form submission
   // Controls UI elements like loading indicators and disabled states during async operations
@@ -56,9 +77,10 @@ export default function CompanyDetailsPage() {
   const [successMessage, setSuccessMessage] = useState("");
   
   // Field-specific validation errors returned from the API
-  // Maps field names to arrays of error messages for precise user feedback
-  // Structure: { field_name: ["error message 1", "error message 2"] }
-  const [fieldErrors, setFieldErrors] = useState<{ [key: string]: string[] }>({});
+  // Maps field names to their first error message for precise user feedback
+  const [fieldErrors, setFieldErrors] = useState<
+    Partial<Record<keyof CompanyCreateData | "logo", string>>
+  >({});
   
   // Current company identifier retrieved from localStorage
   // Used for all API operations and determines which company data to load/modify
@@ -81,23 +103,16 @@ export default function CompanyDetailsPage() {
 
   // Effect 1: Initialize component by retrieving selected company ID from localStorage
   // This effect runs on component mount to determine which company to display/edit
-  // Redirects to company list if no company is selected, ensuring proper navigation flow
+  // RouteGuard only renders the page once a company is selected
   useEffect(() => {
     // Retrieve the currently selected company ID from browser storage
     // This ID is set when user selects a company from the company list page
     const id = localStorage.getItem("selected_company_id");
     
-    // Guard clause: redirect to company list if no company is selected
-    // Prevents users from accessing this page without a valid company context
-    if (!id) {
-      router.push("/list-companies");
-      return;
-    }
-    
     // Set the company ID in component state to trigger data fetching
     // This will cause the second useEffect to run and load company data
     setCompanyId(id);
-  }, [router]);
+  }, []);
 
   // Effect 2: Fetch company data when company ID becomes available
   // Loads the current company information and populates the form for editing
@@ -117,7 +132,15 @@ export default function CompanyDetailsPage() {
       .getCompany(companyId)
       // On successful data retrieval, populate the form with company information
       // This allows users to see current values and make modifications
-      .then(data => setFormData(data))
+      .then(data => {
+        setFormData({
+          name: data.name,
+          vat_number: data.vat_number,
+          business_registration_number: data.business_registration_number,
+          ...pickCompanyProfile(data),
+        });
+        setLogo(data.logo ?? null);
+      })
       // On error, display user-friendly error message without exposing technical details
       // Provides fallback behavior when company data cannot be loaded
       .catch(() => setError("Could not load company data."))
@@ -182,11 +205,20 @@ export default function CompanyDetailsPage() {
       // Call the API service to update company information
       // Trim whitespace from all fields to ensure clean data storage
       await companyApi.updateCompany(companyId, {
+        ...formData,
         name: formData.name.trim(),
         vat_number: formData.vat_number.trim(),
         business_registration_number: formData.business_registration_number.trim(),
       });
 
+      // The logo is uploaded separately, once the details were accepted
+      if (logoChange) {
+        setLogo((await companyApi.uploadLogo(companyId, logoChange)).logo);
+      } else if (logoChange === null) {
+        await companyApi.deleteLogo(companyId);
+      }
+      setLogoChange(undefined);
+
       // Provide immediate success feedback to confirm operation completion
       // Gives users confidence that their changes have been saved
       setSuccessMessage("Company data successfully edited!");
@@ -207,6 +239,8 @@ export default function CompanyDetailsPage() {
           window.dispatchEvent(new CustomEvent("companyChanged", {
             detail: { companyId }
           }));
+          // The company list shows the logo
+          window.dispatchEvent(new CustomEvent("companyListChanged"));
         }
       }, 1500); // 1.5 second delay for user experience
 
@@ -214,11 +248,16 @@ export default function CompanyDetailsPage() {
     } catch (err) {
       // Handle structured API errors with field-specific validation messages
       // Provides detailed feedback for validation failures and user input errors
-      if (err instanceof ApiError && err.data) {
+      const errors = normalizeFieldErrors(err);
+      if (errors) {
         // Set field-specific errors for precise user guidance
         // Allows users to understand exactly which fields need correction
-        setFieldErrors(err.data as { [key: string]: string[] });
-        setError("Please check company details.");
+        const { fieldErrors, formError } = pickFieldErrors(
+          errors,
+          [...Object.keys(formData), "logo"] as (keyof CompanyCreateData | "logo")[]
+        );
+        setFieldErrors(fieldErrors);
+        setError(formError || "Please check company details.");
       } else {
         // Handle unexpected errors with generic fallback message
         // Ensures users receive feedback even for unanticipated error scenarios
@@ -275,6 +314,8 @@ export default function CompanyDetailsPage() {
       // Prevents stale company references from causing issues in other components
       if (typeof window !== "undefined") {
         localStorage.removeItem("selected_company_id");
+        // Other tabs must not keep working with the deleted company
+        broadcastTabSync({ type: "companyChanged", companyId: null });
 
         // Notify other components about company deletion with strategic timing
         // Delayed dispatch ensures proper event processing order
@@ -333,7 +374,15 @@ export default function CompanyDetailsPage() {
 
       {/* Company Edit Form Section */}
       <Card className="max-w-md mx-auto">
-        <h2 className="text-xl font-semibold mb-4">Edit Company Details</h2>
+        <h2 className="text-xl font-semibold mb-4">
+          {canEdit ? "Edit Company Details" : "Company Details"}
+        </h2>
+        {/* Read-only notice for members who cannot change the details */}
+        {!isRoleLoading && !canEdit && (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            Only owners and admins can change the company details.
+          </p>
+        )}
         <form onSubmit={handleSave} className="space-y-4">
           {/* Business Name Field */}
           <div>
@@ -346,11 +395,12 @@ export default function CompanyDetailsPage() {
               autoComplete="organization"
               value={formData.name}
               onChange={handleChange}
+              disabled={!canEdit}
               required
               className="mt-1 p-2 w-full border rounded focus:ring focus:ring-green-300"
             />
             {/* Field-specific error display */}
-            {fieldErrors.name && <p className="mt-1 text-sm text-red-600">{fieldErrors.name[0]}</p>}
+            {fieldErrors.name && <p className="mt-1 text-sm text-red-600">{fieldErrors.name}</p>}
           </div>
           
           {/* VAT Number Field */}
@@ -364,11 +414,12 @@ export default function CompanyDetailsPage() {
               autoComplete="off"
               value={formData.vat_number}
               onChange={handleChange}
+              disabled={!canEdit}
               className="mt-1 p-2 w-full border rounded focus:ring focus:ring-green-300"
             />
             {/* Field-specific error display */}
             {fieldErrors.vat_number && (
-              <p className="mt-1 text-sm text-red-600">{fieldErrors.vat_number[0]}</p>
+              <p className="mt-1 text-sm text-red-600">{fieldErrors.vat_number}</p>
             )}
           </div>
           
@@ -383,45 +434,75 @@ export default function CompanyDetailsPage() {
               autoComplete="off"
               value={formData.business_registration_number}
               onChange={handleChange}
+              disabled={!canEdit}
               className="mt-1 p-2 w-full border rounded focus:ring focus:ring-green-300"
             />
             {/* Field-specific error display */}
             {fieldErrors.business_registration_number && (
               <p className="mt-1 text-sm text-red-600">
-                {fieldErrors.business_registration_number[0]}
+                {fieldErrors.business_registration_number}
               </p>
             )}
           </div>
+
+          {/* Extended profile: address, sector, contact, logo and sites */}
+          <CompanyProfileFields
+            values={pickCompanyProfile(formData)}
+            onChange={profile => setFormData(p => ({ ...p, ...profile }))}
+            errors={fieldErrors}
+            disabled={!canEdit}
+            logo={logo}
+            onLogoChange={(file, preview) => {
+              setLogoChange(file);
+              setLogo(preview);
+            }}
+          />
           
           {/* Save button with loading state */}
-          <div className="text-right">
-            <Button type="submit" disabled={isLoading}>
-              {isLoading ? "Updating…" : "Save Changes"}
-            </Button>
-          </div>
+          {canEdit && (
+            <div className="text-right">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Updating…" : "Save Changes"}
+              </Button>
+            </div>
+          )}
         </form>
       </Card>
 
-      {/* Company Deletion Section - Dangerous Operations */}
-      <Card className="max-w-md mx-auto mt-8">
-        <h2 className="text-xl font-semibold mb-4">Delete Company</h2>
-        <div className="bg-red-50 border border-red-200 rounded-md p-4 dark:bg-red-900/20 dark:border-red-900">
-          <h3 className="text-lg font-medium text-red-800 dark:text-red-300">Delete Company</h3>
-          <p className="mt-1 text-sm text-red-700 dark:text-red-200">
-            Permanently delete <strong>{formData.name}</strong>. This cannot be undone.
-          </p>
-          <div className="mt-4">
-            <Button
-              onClick={handleDeleteCompany}
-              disabled={isDeleting}
-              className="bg-red-600 text-white hover:bg-red-700 focus:ring-red-500"
-            >
-              {isDeleting ? "Deleting…" : "Delete Company"}
-            </Button>
-          </div>
-        </div>
+      {/* Product Defaults Section - values new products and emissions start from */}
+      <Card className="max-w-md mx-auto">
+        <h2 className="text-xl font-semibold mb-2">Product Defaults</h2>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Calculation method, unit, manufacturer site and emission references that new products
+          start from.
+        </p>
+        <Link href="/company-settings" className="text-sm font-medium underline">
+          {canEdit ? "Edit product defaults" : "View product defaults"}
+        </Link>
       </Card>
 
+      {/* Company Deletion Section - Dangerous Operations, only for owners */}
+      {can("delete_company") && (
+        <Card className="max-w-md mx-auto mt-8">
+          <h2 className="text-xl font-semibold mb-4">Delete Company</h2>
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 dark:bg-red-900/20 dark:border-red-900">
+            <h3 className="text-lg font-medium text-red-800 dark:text-red-300">Delete Company</h3>
+            <p className="mt-1 text-sm text-red-700 dark:text-red-200">
+              Permanently delete <strong>{formData.name}</strong>. This cannot be undone.
+            </p>
+            <div className="mt-4">
+              <Button
+                onClick={handleDeleteCompany}
+                disabled={isDeleting}
+                className="bg-red-600 text-white hover:bg-red-700 focus:ring-red-500"
+              >
+                {isDeleting ? "Deleting…" : "Delete Company"}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <PopupModal
@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Card from "../components/ui/Card";
+import Button from "../components/ui/Button";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
+import { isAbortError } from "@/lib/api/apiClient";
+import { CompanySite, companyApi, ProductDefaults } from "@/lib/api/companyApi";
+import { EmissionReference, emissionReferenceApi } from "@/lib/api/emissionReferenceApi";
+import { productApi } from "@/lib/api/productApi";
+import { LifecycleStageChoice } from "@/lib/api";
+import { useCompanyPermissions } from "@/hooks/useCompanyPermissions";
+import { normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+
+// Emission reference defaults, with the label of their dropdown
+const REFERENCE_FIELDS = [
+  { field: "production_energy_reference", label: "Production energy reference" },
+  { field: "user_energy_reference", label: "User energy reference" },
+  { field: "transport_reference", label: "Transport reference" },
+] as const;
+
+type ReferenceField = (typeof REFERENCE_FIELDS)[number]["field"];
+
+// Everything the form offers to choose from
+interface SettingsOptions {
+  pcfMethods: LifecycleStageChoice[];
+  units: LifecycleStageChoice[];
+  sites: CompanySite[];
+  references: Record<ReferenceField, EmissionReference[]>;
+}
+
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+const inputClassName =
+  "p-2 mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50";
+
+// Dropdown values are strings, IDs are numbers and an empty choice is null
+const toOptionValue = (id: number | null) => (id === null ? "" : String(id));
+const fromOptionValue = (value: string) => (value ? Number(value) : null);
+
+// Company settings page with the defaults new products and emissions start from
+// Saves every member picking the same calculation method, unit, manufacturer site and
+// emission references again for each product. Only owners and admins can change them
+export default function CompanySettingsPage() {
+  const { can, isLoading: isRoleLoading } = useCompanyPermissions();
+  const canEdit = can("edit_company");
+
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [defaults, setDefaults] = useState<ProductDefaults | null>(null);
+  const [options, setOptions] = useState<SettingsOptions | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof ProductDefaults, string>>>(
+    {}
+  );
+
+  // Follow the company selection, which can change while the page is open
+  useEffect(() => {
+    const updateCompanyId = () => setCompanyId(localStorage.getItem("selected_company_id"));
+    updateCompanyId();
+    window.addEventListener("companyChanged", updateCompanyId);
+    return () => window.removeEventListener("companyChanged", updateCompanyId);
+  }, []);
+
+  // Load the defaults and the choices of every field
+  useEffect(() => {
+    if (!companyId) return;
+    const controller = new AbortController();
+    const control = { signal: controller.signal };
+    setDefaults(null);
+    setError("");
+    setSuccessMessage("");
+    Promise.all([
+      companyApi.getProductDefaults(companyId, control),
+      companyApi.getCompany(companyId, control),
+      productApi.getProductOptions(companyId, control),
+      emissionReferenceApi.getAllProductionEnergyReferences(control),
+      emissionReferenceApi.getAllUserEnergyReferences(control),
+      emissionReferenceApi.getAllTransportReferences(control),
+    ])
+      .then(([defaults, company, schema, production, userEnergy, transport]) => {
+        setDefaults(defaults);
+        setOptions({
+          pcfMethods: schema.actions?.POST?.pcf_calculation_method?.choices ?? [],
+          units: schema.actions?.POST?.reference_impact_unit?.choices ?? [],
+          sites: company.sites ?? [],
+          references: {
+            production_energy_reference: production,
+            user_energy_reference: userEnergy,
+            transport_reference: transport,
+          },
+        });
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setError("Could not load the product defaults.");
+      });
+    return () => controller.abort();
+  }, [companyId]);
+
+  const setField = <K extends keyof ProductDefaults>(field: K, value: ProductDefaults[K]) => {
+    setDefaults(current => current && { ...current, [field]: value });
+    setSuccessMessage("");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyId || !defaults) return;
+    setIsSaving(true);
+    setError("");
+    setSuccessMessage("");
+    setFieldErrors({});
+    try {
+      setDefaults(await companyApi.updateProductDefaults(companyId, defaults));
+      setSuccessMessage(
+        "Product defaults saved. They apply to products and emissions added from now on."
+      );
+    } catch (err) {
+      const errors = normalizeFieldErrors(err);
+      if (errors) {
+        const { fieldErrors, formError } = pickFieldErrors(
+          errors,
+          Object.keys(defaults) as (keyof ProductDefaults)[]
+        );
+        setFieldErrors(fieldErrors);
+        setError(formError || "Please check the product defaults.");
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to save the product defaults.");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Dropdown with label and field error
+  const renderSelect = (
+    field: keyof ProductDefaults,
+    label: string,
+    value: string,
+    onValueChange: (value: string) => void,
+    choices: { value: string; label: string }[],
+    emptyLabel: string
+  ) => (
+    <div>
+      <label htmlFor={field} className={labelClassName}>
+        {label}
+      </label>
+      <select
+        id={field}
+        value={value}
+        onChange={e => onValueChange(e.target.value)}
+        aria-invalid={!!fieldErrors[field]}
+        className={inputClassName}
+      >
+        <option value="">{emptyLabel}</option>
+        {choices.map(choice => (
+          <option key={choice.value} value={choice.value}>
+            {choice.label}
+          </option>
+        ))}
+      </select>
+      {fieldErrors[field] && (
+        <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors[field]}</p>
+      )}
+    </div>
+  );
+
+  if (!defaults || !options) {
+    return (
+      <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {error ? (
+          <div className="p-4 bg-red-50 text-red-800 rounded">{error}</div>
+        ) : (
+          <LoadingSkeleton />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      {error && <div className="p-4 bg-red-50 text-red-800 rounded">{error}</div>}
+      {successMessage && (
+        <div className="p-4 bg-green-50 text-green-800 rounded" role="status">
+          {successMessage}
+        </div>
+      )}
+
+      <Card className="max-w-md mx-auto">
+        <h2 className="text-xl font-semibold mb-2">Product Defaults</h2>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          New products and emissions start from these values. Existing products are not changed.
+        </p>
+        {!isRoleLoading && !canEdit && (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            Only owners and admins can change the product defaults.
+          </p>
+        )}
+
+        <form onSubmit={handleSave}>
+          <fieldset disabled={!canEdit} className="space-y-4">
+            {renderSelect(
+              "pcf_calculation_method",
+              "PCF calculation method",
+              defaults.pcf_calculation_method,
+              value => setField("pcf_calculation_method", value),
+              options.pcfMethods.map(c => ({ value: String(c.value), label: c.display_name })),
+              "No default"
+            )}
+            {renderSelect(
+              "reference_impact_unit",
+              "Reference impact unit",
+              defaults.reference_impact_unit,
+              value => setField("reference_impact_unit", value),
+              options.units.map(c => ({ value: String(c.value), label: c.display_name })),
+              "No default"
+            )}
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={defaults.is_public}
+                  onChange={e => setField("is_public", e.target.checked)}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                Make new products public
+              </label>
+            </div>
+
+            <div>
+              {renderSelect(
+                "manufacturer_site",
+                "Manufacturer site",
+                toOptionValue(defaults.manufacturer_site),
+                value => setField("manufacturer_site", fromOptionValue(value)),
+                options.sites.map(site => ({
+                  value: String(site.id),
+                  label: `${site.name} (${site.city}, ${site.country})`,
+                })),
+                "Do not prefill the manufacturer"
+              )}
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                <Link href="/company-details" className="underline">
+                  Manage production sites
+                </Link>{" "}
+                in the company details
+              </p>
+            </div>
+
+            {REFERENCE_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                {renderSelect(
+                  field,
+                  label,
+                  toOptionValue(defaults[field]),
+                  value => setField(field, fromOptionValue(value)),
+                  options.references[field].map(ref => ({
+                    value: String(ref.id),
+                    label: ref.name,
+                  })),
+                  "No default"
+                )}
+              </div>
+            ))}
+
+            {canEdit && (
+              <div className="text-right">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? "Saving…" : "Save Defaults"}
+                </Button>
+              </div>
+            )}
+          </fieldset>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, Trash } from "lucide-react";
+import Button from "./ui/Button";
+import { isAbortError } from "@/lib/api/apiClient";
+import { CompanyProfile, CompanySite, companyApi } from "@/lib/api/companyApi";
+
+// Profile of a new company, every field is optional
+export const EMPTY_COMPANY_PROFILE: CompanyProfile = {
+  address_street: "",
+  address_zip_code: "",
+  address_city: "",
+  address_country: "",
+  nace_code: "",
+  website: "",
+  contact_name: "",
+  contact_email: "",
+  sites: [],
+};
+
+/**
+ * Take the profile fields of a loaded company, older backends may not return them
+ * @param company - Company or form data with any profile fields
+ * @returns Complete profile, missing fields are empty
+ */
+export const pickCompanyProfile = (company: Partial<CompanyProfile>): CompanyProfile => ({
+  ...EMPTY_COMPANY_PROFILE,
+  ...Object.fromEntries(
+    Object.keys(EMPTY_COMPANY_PROFILE).map(key => [
+      key,
+      company[key as keyof CompanyProfile] ?? EMPTY_COMPANY_PROFILE[key as keyof CompanyProfile],
+    ])
+  ),
+});
+
+// Logos the backend accepts, also checked here to avoid uploading files it rejects
+const LOGO_ACCEPT = "image/png,image/jpeg,image/svg+xml,image/webp";
+const LOGO_MAX_SIZE = 1024 * 1024;
+
+const emptySite = (): CompanySite => ({
+  name: "",
+  street: "",
+  zip_code: "",
+  city: "",
+  country: "",
+});
+
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+const inputClassName =
+  "p-2 mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50";
+const sectionClassName =
+  "text-lg font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2 mb-4";
+
+interface CompanyProfileFieldsProps {
+  values: CompanyProfile;
+  onChange: (values: CompanyProfile) => void;
+  errors: Partial<Record<keyof CompanyProfile | "logo", string>>;
+  disabled?: boolean;
+  logo: string | null; // URL of the current logo, or a preview of the chosen file
+  onLogoChange: (file: File | null, preview: string | null) => void; // Null removes the logo
+}
+
+// Extended company profile fields, shared by the create company and company details pages
+// Captures the registered address, sector, contact person, logo and production sites that
+// reports and AAS exports show. Sites can prefill the manufacturer of products later on
+export default function CompanyProfileFields({
+  values,
+  onChange,
+  errors,
+  disabled = false,
+  logo,
+  onLogoChange,
+}: CompanyProfileFieldsProps) {
+  const [countries, setCountries] = useState<{ value: string; display_name: string }[]>([]);
+  const [logoError, setLogoError] = useState("");
+
+  // Load the country choices of addresses and sites
+  useEffect(() => {
+    const controller = new AbortController();
+    companyApi
+      .getCompanyOptions({ signal: controller.signal })
+      .then(schema => setCountries(schema.actions?.POST?.address_country?.choices ?? []))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Error loading country choices:", error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const setField = (field: keyof CompanyProfile, value: string) =>
+    onChange({ ...values, [field]: value });
+
+  const setSite = (index: number, field: keyof CompanySite, value: string) =>
+    onChange({
+      ...values,
+      sites: values.sites.map((site, i) => (i === index ? { ...site, [field]: value } : site)),
+    });
+
+  // Check the chosen file and show it before it is uploaded on save
+  const handleLogoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Choosing the same file again still triggers a change
+    if (!file) return;
+    if (!LOGO_ACCEPT.split(",").includes(file.type)) {
+      setLogoError("Upload a PNG, JPEG, SVG or WebP image.");
+      return;
+    }
+    if (file.size > LOGO_MAX_SIZE) {
+      setLogoError("The logo can be at most 1 MB.");
+      return;
+    }
+    setLogoError("");
+    const reader = new FileReader();
+    reader.onload = () => onLogoChange(file, reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  // Text input with label and field error
+  const renderInput = (
+    id: string,
+    label: string,
+    value: string,
+    onValueChange: (value: string) => void,
+    error: string | undefined,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <label htmlFor={id} className={labelClassName}>
+        {label}
+      </label>
+      <input
+        id={id}
+        value={value}
+        onChange={e => onValueChange(e.target.value)}
+        disabled={disabled}
+        aria-invalid={!!error}
+        className={inputClassName}
+        {...props}
+      />
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+
+  // Country dropdown, a text input for the country code if the choices could not be loaded
+  const renderCountry = (
+    id: string,
+    value: string,
+    onValueChange: (value: string) => void,
+    error: string | undefined
+  ) =>
+    countries.length === 0 ? (
+      renderInput(id, "Country", value, onValueChange, error, {
+        placeholder: "NL",
+        maxLength: 2,
+      })
+    ) : (
+      <div>
+        <label htmlFor={id} className={labelClassName}>
+          Country
+        </label>
+        <select
+          id={id}
+          value={value}
+          onChange={e => onValueChange(e.target.value)}
+          disabled={disabled}
+          aria-invalid={!!error}
+          className={inputClassName}
+        >
+          <option value="">Select country</option>
+          {countries.map(country => (
+            <option key={country.value} value={country.value}>
+              {country.display_name}
+            </option>
+          ))}
+        </select>
+        {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    );
+
+  return (
+    <div className="space-y-8">
+      {/* Registered address */}
+      <fieldset className="space-y-4">
+        <legend className={sectionClassName}>Registered address</legend>
+        {renderInput(
+          "address_street",
+          "Street",
+          values.address_street,
+          value => setField("address_street", value),
+          errors.address_street,
+          { autoComplete: "street-address" }
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          {renderInput(
+            "address_zip_code",
+            "ZIP code",
+            values.address_zip_code,
+            value => setField("address_zip_code", value),
+            errors.address_zip_code,
+            { autoComplete: "postal-code" }
+          )}
+          {renderInput(
+            "address_city",
+            "City",
+            values.address_city,
+            value => setField("address_city", value),
+            errors.address_city,
+            { autoComplete: "address-level2" }
+          )}
+        </div>
+        {renderCountry(
+          "address_country",
+          values.address_country,
+          value => setField("address_country", value),
+          errors.address_country
+        )}
+      </fieldset>
+
+      {/* Sector, website and contact person */}
+      <fieldset className="space-y-4">
+        <legend className={sectionClassName}>Sector and contact</legend>
+        {renderInput(
+          "nace_code",
+          "NACE sector code",
+          values.nace_code,
+          value => setField("nace_code", value),
+          errors.nace_code,
+          { placeholder: "C26.1" }
+        )}
+        {renderInput(
+          "website",
+          "Website",
+          values.website,
+          value => setField("website", value),
+          errors.website,
+          { type: "url", placeholder: "https://example.com", autoComplete: "url" }
+        )}
+        {renderInput(
+          "contact_name",
+          "Contact person",
+          values.contact_name,
+          value => setField("contact_name", value),
+          errors.contact_name,
+          { autoComplete: "name" }
+        )}
+        {renderInput(
+          "contact_email",
+          "Contact email",
+          values.contact_email,
+          value => setField("contact_email", value),
+          errors.contact_email,
+          { type: "email", autoComplete: "email" }
+        )}
+      </fieldset>
+
+      {/* Logo, uploaded when the form is saved */}
+      <fieldset className="space-y-4">
+        <legend className={sectionClassName}>Logo</legend>
+        {logo && (
+          <img
+            src={logo}
+            alt="Company logo"
+            className="h-16 max-w-full object-contain bg-white rounded-md p-1"
+          />
+        )}
+        <div className="flex flex-wrap items-center gap-4">
+          <label
+            htmlFor="company_logo"
+            className={`text-sm font-medium underline ${disabled ? "opacity-50" : "cursor-pointer"}`}
+          >
+            {logo ? "Choose another logo" : "Choose a logo"}
+          </label>
+          <input
+            id="company_logo"
+            type="file"
+            accept={LOGO_ACCEPT}
+            onChange={handleLogoSelect}
+            disabled={disabled}
+            className="sr-only"
+          />
+          {logo && !disabled && (
+            <Button
+              variant="outline"
+              size="sm"
+              type="button"
+              onClick={() => onLogoChange(null, null)}
+            >
+              Remove logo
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          PNG, JPEG, SVG or WebP, at most 1 MB
+        </p>
+        {(logoError || errors.logo) && (
+          <p className="text-sm text-red-600 dark:text-red-400">{logoError || errors.logo}</p>
+        )}
+      </fieldset>
+
+      {/* Production sites */}
+      <fieldset className="space-y-4">
+        <legend className={sectionClassName}>Production sites</legend>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Sites can be picked as manufacturer address when editing a product.
+        </p>
+        {values.sites.map((site, index) => (
+          <div
+            key={site.id ?? `new-${index}`}
+            className="p-4 space-y-4 border border-gray-200 rounded-md dark:border-gray-700"
+          >
+            <div className="flex items-end gap-2">
+              <div className="grow">
+                {renderInput(
+                  `site_${index}_name`,
+                  "Site name",
+                  site.name,
+                  value => setSite(index, "name", value),
+                  undefined,
+                  { placeholder: "Main plant" }
+                )}
+              </div>
+              {!disabled && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  type="button"
+                  onClick={() =>
+                    onChange({ ...values, sites: values.sites.filter((_, i) => i !== index) })
+                  }
+                  ariaLabel={`Remove site ${site.name || index + 1}`}
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {renderInput(
+              `site_${index}_street`,
+              "Street",
+              site.street,
+              value => setSite(index, "street", value),
+              undefined
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              {renderInput(
+                `site_${index}_zip_code`,
+                "ZIP code",
+                site.zip_code,
+                value => setSite(index, "zip_code", value),
+                undefined
+              )}
+              {renderInput(
+                `site_${index}_city`,
+                "City",
+                site.city,
+                value => setSite(index, "city", value),
+                undefined
+              )}
+            </div>
+            {renderCountry(
+              `site_${index}_country`,
+              site.country,
+              value => setSite(index, "country", value),
+              undefined
+            )}
+          </div>
+        ))}
+        {errors.sites && <p className="text-sm text-red-600 dark:text-red-400">{errors.sites}</p>}
+        {!disabled && (
+          <Button
+            variant="outline"
+            type="button"
+            onClick={() => onChange({ ...values, sites: [...values.sites, emptySite()] })}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> Add site
+          </Button>
+        )}
+      </fieldset>
+    </div>
+  );
+}
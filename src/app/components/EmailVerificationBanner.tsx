@@ -0,0 +1,34 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { MailWarning } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+
+// Reminds signed-in users with an unverified email address that some actions are
+// unavailable until they open the link from the verification email
+export default function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const pathname = usePathname();
+
+  // The verification page itself explains what to do
+  if (user?.email_verified !== false || pathname.startsWith("/verify-email")) return null;
+
+  return (
+    <div
+      className="bg-yellow-50 border-b border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-900 dark:text-yellow-200"
+      role="status"
+    >
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2 text-sm">
+        <MailWarning className="w-4 h-4 shrink-0" aria-hidden="true" />
+        <p>
+          Please verify your email address {user.email}. Until then you cannot create companies or
+          approve data sharing requests.{" "}
+          <Link href="/verify-email" className="font-medium underline">
+            Resend verification email
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
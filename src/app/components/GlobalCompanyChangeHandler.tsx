@@ -8,6 +8,8 @@ import { useEffect } from "react";
 // useRouter: Enables programmatic navigation between pages
 // usePathname: Provides current route path for page-specific logic
 import { useRouter, usePathname } from "next/navigation";
+// Cross-tab messages for company selections made in other tabs
+import { subscribeTabSync } from "@/lib/api/tabSync";
 
 // Global company change handler for multi-tenant application state management
 // Listens for custom "companyChanged" events and handles page-specific responses
@@ -27,9 +29,12 @@ export default function GlobalCompanyChangeHandler() {
     // Company change event handler with page-specific logic
     // Responds to custom "companyChanged" events dispatched throughout the application
     // Implements three different strategies based on current page context
-    const handleCompanyChange = () => {
+    const handleCompanyChange = (event: Event) => {
       console.log("Global company change detected on:", pathname);
 
+      // Changes made in another tab never came from this page's own controls
+      const remote = (event as CustomEvent<{ remote?: boolean } | null>).detail?.remote === true;
+
       // Pages that should redirect to dashboard instead of reloading
       // These pages are company-agnostic or become invalid after company change
       // Redirecting provides better UX than showing potentially irrelevant content
@@ -38,14 +43,21 @@ export default function GlobalCompanyChangeHandler() {
       // Pages that should NOT reload when company changes
       // These are navigation/settings pages within the same company context
       // Reloading would interrupt user workflow without providing value
-      const noReloadPages = ["/company-details", "/manage-user", "/product-data-sharing"];
+      const noReloadPages = [
+        "/company-details",
+        "/company-settings",
+        "/manage-user",
+        "/product-data-sharing",
+      ];
 
       // Handle redirect pages - navigate to dashboard for fresh start
+      // A selection in another tab leaves this tab where the user is
       if (redirectPages.includes(pathname)) {
-        router.push("/dashboard");
+        if (!remote) router.push("/dashboard");
       } 
       // Handle navigation pages - skip reload to maintain user workflow
-      else if (noReloadPages.includes(pathname)) {
+      // Pages showing the previous company still reload after a change in another tab
+      else if (noReloadPages.includes(pathname) && !remote) {
         // Don't reload these pages - they're just navigation within the same company
         console.log("Skipping reload for navigation page:", pathname);
         return;
@@ -70,6 +82,23 @@ export default function GlobalCompanyChangeHandler() {
     };
   }, [pathname, router]); // Dependencies ensure handler updates when route or router changes
 
+  // Effect hook for company selections made in other tabs
+  // They already updated the shared localStorage, so this tab only replays the event
+  // Every listener, including the navbar and the handler above, then updates as usual
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type !== "companyChanged") return;
+        window.dispatchEvent(new CustomEvent("companyListChanged"));
+        window.dispatchEvent(
+          new CustomEvent("companyChanged", {
+            detail: { key: "selected_company_id", value: message.companyId, remote: true },
+          })
+        );
+      }),
+    []
+  );
+
   // Component renders nothing - purely functional for event handling
   // Acts as invisible global service for multi-tenant state management
   return null; // This component renders nothing, just handles events
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import PopupModal from "./ui/PopupModal";
+import { useAuth } from "../context/AuthContext";
+
+// Minutes without activity before the user is signed out, 0 turns the timeout off
+const IDLE_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES ?? 30) * 60 * 1000;
+// Seconds before the timeout at which the warning is shown
+const IDLE_WARNING_MS = Number(process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS ?? 60) * 1000;
+
+// Last activity in any tab, shared so working in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = "last_activity";
+// Activity is recorded at most this often to keep storage writes cheap
+const ACTIVITY_THROTTLE_MS = 5000;
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "scroll", "touchstart"];
+
+const recordActivity = () => localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+
+// Signs the user out after a period of inactivity, so shared computers do not stay
+// signed in indefinitely. A countdown warning lets the user stay signed in
+export default function IdleSessionTimeout() {
+  const { isAuthenticated, logout } = useAuth();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  // logout changes with every render of the provider, which must not restart the tracking
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
+  // The idle period starts when the user signs in
+  useEffect(() => {
+    if (isAuthenticated) recordActivity();
+  }, [isAuthenticated]);
+
+  // Track activity and end the session once the timeout passes
+  useEffect(() => {
+    if (!isAuthenticated || IDLE_TIMEOUT_MS <= 0) return;
+
+    let warningShown = false;
+    let lastRecorded = 0;
+
+    // Activity while the warning is shown does not count, the user has to confirm
+    const handleActivity = () => {
+      const now = Date.now();
+      if (warningShown || now - lastRecorded < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded = now;
+      recordActivity();
+    };
+
+    const checkIdle = () => {
+      const lastActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+      const remaining = lastActivity + IDLE_TIMEOUT_MS - Date.now();
+
+      if (remaining <= 0) {
+        clearInterval(interval);
+        setSecondsLeft(null);
+        // Open forms keep their unsaved changes as drafts while signing out
+        logoutRef.current();
+      } else if (remaining <= IDLE_WARNING_MS) {
+        warningShown = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else {
+        // Also closes the warning once the user stayed signed in from another tab
+        warningShown = false;
+        setSecondsLeft(null);
+      }
+    };
+
+    const interval = setInterval(checkIdle, 1000);
+    ACTIVITY_EVENTS.forEach(event =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [isAuthenticated]);
+
+  const staySignedIn = () => {
+    recordActivity();
+    setSecondsLeft(null);
+  };
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <PopupModal
+      title="Are you still there?"
+      confirmLabel="Stay signed in"
+      showCancel={false}
+      onConfirm={staySignedIn}
+      onClose={staySignedIn}
+    >
+      <p className="text-gray-800 dark:text-gray-200" role="timer">
+        You will be signed out in {secondsLeft} {secondsLeft === 1 ? "second" : "seconds"} because
+        of inactivity. Unsaved product changes are kept as a draft.
+      </p>
+    </PopupModal>
+  );
+}
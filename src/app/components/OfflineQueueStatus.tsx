@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import Button from "./ui/Button";
+import PopupModal from "./ui/PopupModal";
+import {
+  discardMutation,
+  getQueuedMutations,
+  OFFLINE_QUEUE_EVENT,
+  QueuedMutation,
+  retryMutation,
+  startOfflineQueue,
+} from "@/lib/api/offlineQueue";
+import { useAuth } from "../context/AuthContext";
+
+// Shows product changes made while offline and lets the user resolve the ones
+// the server rejected when they were replayed
+// Also starts the replay whenever the connection returns, only for the signed-in user
+export default function OfflineQueueStatus() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [mutations, setMutations] = useState<QueuedMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [showConflicts, setShowConflicts] = useState(false);
+  // Conflict that is being retried or discarded, and the error of the last attempt
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolveError, setResolveError] = useState("");
+
+  // Replay the user's queued changes now and whenever the connection returns, until logout
+  useEffect(() => (userId === null ? undefined : startOfflineQueue(userId)), [userId]);
+
+  // Keep the list of queued changes and the connection state up to date
+  useEffect(() => {
+    const loadMutations = () => {
+      getQueuedMutations()
+        .then(setMutations)
+        .catch(error => console.error("Failed to read offline changes:", error));
+    };
+    const updateOnline = () => setIsOnline(navigator.onLine);
+
+    loadMutations();
+    updateOnline();
+    window.addEventListener(OFFLINE_QUEUE_EVENT, loadMutations);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+
+    return () => {
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, loadMutations);
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+
+  const pending = mutations.filter(m => m.status === "pending");
+  const conflicts = mutations.filter(m => m.status === "conflict");
+
+  // Close the conflict view once every conflict was resolved
+  useEffect(() => {
+    if (conflicts.length === 0) setShowConflicts(false);
+  }, [conflicts.length]);
+
+  // Retry or discard a conflict, showing why it failed in the conflict view
+  const resolveConflict = async (
+    resolve: (id: string) => Promise<void>,
+    id: string,
+    fallback: string
+  ) => {
+    setResolvingId(id);
+    setResolveError("");
+    try {
+      await resolve(id);
+    } catch (error) {
+      console.error("Failed to resolve the offline change:", error);
+      setResolveError(error instanceof Error && error.message ? error.message : fallback);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (isOnline && mutations.length === 0) return null;
+
+  const plural = (count: number) => (count === 1 ? "change" : "changes");
+
+  return (
+    <>
+      <div
+        className="fixed bottom-4 right-4 z-50 max-w-sm p-3 space-y-2 text-sm rounded-lg shadow-lg bg-white border dark:bg-gray-800 dark:border-gray-700"
+        role="status"
+        aria-live="polite"
+      >
+        {!isOnline && (
+          <p className="flex items-center gap-2">
+            <CloudOff className="w-4 h-4 flex-shrink-0 text-gray-500" aria-hidden="true" />
+            You are offline.{" "}
+            {pending.length > 0
+              ? `${pending.length} ${plural(pending.length)} will be saved when the connection returns.`
+              : "Changes will be saved when the connection returns."}
+          </p>
+        )}
+
+        {isOnline && pending.length > 0 && (
+          <p className="flex items-center gap-2">
+            <RefreshCw className="w-4 h-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+            Saving {pending.length} offline {plural(pending.length)}…
+          </p>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="flex items-center justify-between gap-2 text-red-700 dark:text-red-400">
+            <p className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+              {conflicts.length} offline {plural(conflicts.length)} could not be saved.
+            </p>
+            <Button size="sm" variant="outline" onClick={() => setShowConflicts(true)}>
+              Review
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {showConflicts && (
+        <PopupModal title="Offline changes not saved" onClose={() => setShowConflicts(false)}>
+          <p className="mb-4">
+            The server rejected these changes when they were sent after the connection returned.
+            Retry a change once the problem is fixed, or discard it.
+          </p>
+          {resolveError && (
+            <p className="mb-4 text-sm text-red-700 dark:text-red-400" role="alert">
+              {resolveError}
+            </p>
+          )}
+          <ul className="space-y-3">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="p-3 border rounded-md dark:border-gray-700">
+                <p className="font-medium">{conflict.description}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Made {new Date(conflict.createdAt).toLocaleString()}
+                </p>
+                {conflict.error && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">{conflict.error}</p>
+                )}
+                <div className="flex justify-end gap-2 mt-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId !== null}
+                    onClick={() =>
+                      resolveConflict(
+                        discardMutation,
+                        conflict.id,
+                        "The change could not be discarded. Please try again."
+                      )
+                    }
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={resolvingId !== null}
+                    loading={resolvingId === conflict.id}
+                    onClick={() =>
+                      resolveConflict(
+                        retryMutation,
+                        conflict.id,
+                        "The change could not be sent. Please try again."
+                      )
+                    }
+                  >
+                    Retry
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </PopupModal>
+      )}
+    </>
+  );
+}
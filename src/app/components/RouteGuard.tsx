@@ -0,0 +1,63 @@
+"use client";
+
+import { ReactNode, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import LoadingSkeleton from "./ui/LoadingSkeleton";
+import { useAuth } from "../context/AuthContext";
+import { getRouteAccess, loginUrl, SELECT_COMPANY_PATH } from "@/lib/routeAccess";
+
+// Why the current page cannot be shown
+type Redirect = "login" | "company" | null;
+
+const hasSelectedCompany = () => localStorage.getItem("selected_company_id") !== null;
+
+// Enforces the access rules of src/lib/routeAccess.ts for every page
+// Protected pages are not rendered until the session is known, so they never flash
+// before a redirect. Users who are not signed in go to the login page, which brings
+// them back afterwards, and users without a selected company go to the company list
+export default function RouteGuard({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isAuthenticated, isLoading } = useAuth();
+  const access = getRouteAccess(pathname);
+
+  // Read on the client only, null until then
+  const [companySelected, setCompanySelected] = useState<boolean | null>(null);
+
+  // Follow the company selection, which can be cleared while a page is open
+  useEffect(() => {
+    const updateCompanySelected = () => setCompanySelected(hasSelectedCompany());
+    updateCompanySelected();
+    window.addEventListener("companyChanged", updateCompanySelected);
+    return () => window.removeEventListener("companyChanged", updateCompanySelected);
+  }, [pathname]);
+
+  const isResolving = !!access && (isLoading || companySelected === null);
+  const redirect: Redirect =
+    !access || isResolving
+      ? null
+      : access.auth && !isAuthenticated
+        ? "login"
+        : access.company && !companySelected
+          ? "company"
+          : null;
+
+  useEffect(() => {
+    if (redirect === "login") {
+      // Replace, so the back button does not return to the page that was refused
+      router.replace(loginUrl(`${pathname}${window.location.search}`));
+    } else if (redirect === "company") {
+      router.replace(SELECT_COMPANY_PATH);
+    }
+  }, [redirect, pathname, router]);
+
+  if (isResolving || redirect) {
+    return (
+      <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <LoadingSkeleton />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -28,6 +28,7 @@ import CleanCompanySelector from "./CompanySelector";
 interface Company {
   id: string;
   name: string;
+  logo?: string | null; // Shown as avatar in the company selector
 }
 
 // User profile data structure containing authentication and display information
@@ -206,7 +207,7 @@ export default function NavbarDesktop({
       {/* Company Selector */}
       <div className="flex-shrink-0 company-selector-wrapper">
         <CleanCompanySelector
-          companies={allCompanies}
+          companies={allCompanies.map(({ id, name, logo }) => ({ id, name, avatar: logo ?? undefined }))}
           currentCompanyId={companyId}
           onCompanySelect={onCompanySelect}
           onCreateCompany={onCreateCompany}
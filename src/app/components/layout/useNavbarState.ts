@@ -4,11 +4,12 @@ import { useState, useEffect } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useAuth } from "../../context/AuthContext";
 import { companyApi } from "@/lib/api/companyApi";
-import { setLocalStorageItem } from "@/lib/api/apiClient";
+import { isAbortError, setLocalStorageItem } from "@/lib/api/apiClient";
 
 interface Company {
   id: string;
   name: string;
+  logo?: string | null; // Shown as avatar in the company selector
 }
 
 interface CompanyData {
@@ -76,11 +77,14 @@ export function useNavbarState() {
   useEffect(() => {
     if (!mounted || !isAuthenticated || isLoading) return;
 
+    // Cancel pending lookups when the company changes or the navbar unmounts
+    const controller = new AbortController();
+
     const fetchData = async () => {
       try {
-        await fetchAllCompanies();
+        await fetchAllCompanies(controller.signal);
         if (companyId) {
-          await fetchCompanyData(companyId);
+          await fetchCompanyData(companyId, controller.signal);
         }
       } catch (err) {
         console.error("Error fetching companies:", err);
@@ -89,22 +93,25 @@ export function useNavbarState() {
     };
 
     fetchData();
+    return () => controller.abort();
   }, [companyId, isAuthenticated, isLoading, mounted]);
 
-  const fetchCompanyData = async (companyId: string) => {
+  const fetchCompanyData = async (companyId: string, signal?: AbortSignal) => {
     try {
-      const data = await companyApi.getCompany(companyId);
+      const data = await companyApi.getCompany(companyId, { signal });
       setCompanyData(data);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error fetching company data:", err);
     }
   };
 
-  const fetchAllCompanies = async () => {
+  const fetchAllCompanies = async (signal?: AbortSignal) => {
     try {
-      const companies = await companyApi.listCompanies();
+      const companies = await companyApi.listCompanies({ signal });
       setAllCompanies(companies);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error fetching companies:", err);
       setAllCompanies([]);
     }
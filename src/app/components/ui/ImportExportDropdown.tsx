@@ -9,6 +9,8 @@ import {useState, useRef} from "react";
 // Lucide React chevron down icon for dropdown indicator
 // Provides visual cue for expandable menu functionality
 import {ChevronDown} from "lucide-react";
+import {apiRequest, ApiError, FileDownload} from "@/lib/api/apiClient";
+import {invalidateProductEmissions} from "@/lib/api/queryCache";
 
 // Props interface for import/export dropdown component
 // Supports multi-tenant product emissions data management
@@ -51,48 +53,39 @@ const ImportExportDropdown = ({companyId, productId, section, onImportComplete,
 
     // Asynchronous download handler for both templates and data files
     // Supports multiple file formats (CSV, XLSX) with template flag option
-    // Implements secure API communication with bearer token authentication
+    // Authentication and error handling are provided by the shared API client
     const handleDownload = async (
         type: "csv" | "xlsx",        // File format selection for download
         template = false             // Flag to determine template vs data download
     ) => {
-        // Retrieve authentication token from localStorage for API access
-        // Essential for secure multi-tenant data access control
-        const token = localStorage.getItem("access_token");
-        
         // Construct query parameter for template requests
         // Backend uses this flag to return empty template structure vs actual data
         const query = template ? "?template=true" : "";
         
-        // Build complete API endpoint URL with all required parameters
+        // Build API endpoint with all required parameters
         // Follows RESTful pattern: /companies/{id}/products/{id}/emissions/{section}/export/{format}
-        const url = `${process.env.NEXT_PUBLIC_API_URL}/companies/${companyId}/products/${productId}/emissions/${sectionPath}/export/${type}/${query}`;
-
-        // Execute API request with authorization header
-        // Uses fetch API for modern async HTTP communication
-        const response = await fetch(url, {
-            headers: {Authorization: `Bearer ${token}`},
-        });
+        const endpoint = `/companies/${companyId}/products/${productId}/emissions/${sectionPath}/export/${type}/${query}`;
 
-        // Handle API error responses with user notification
-        // Provides immediate feedback for failed download attempts
-        if (!response.ok) {
+        // Download the file as a blob, keeping the filename chosen by the backend
+        let download: FileDownload;
+        try {
+            download = await apiRequest<FileDownload>(endpoint, {responseType: "file"});
+        } catch (err) {
+            // Provides immediate feedback for failed download attempts
+            console.error("Download failed:", err);
             alert("Download failed.");
             return;
         }
-
-        // Convert response to blob for file download handling
-        // Blob format enables browser file save functionality
-        const blob = await response.blob();
         
         // Create temporary anchor element for programmatic download
         // Modern browser-compatible approach for file downloads
         const a = document.createElement("a");
-        a.href = URL.createObjectURL(blob);
+        a.href = URL.createObjectURL(download.blob);
         
-        // Generate descriptive filename with section and type information
+        // Fall back to a descriptive filename with section and type information
         // Helps users identify downloaded files in their filesystem
-        a.download = `emissions_${section}_${template ? "template" : "data"}.${type}`;
+        a.download =
+            download.filename ?? `emissions_${section}_${template ? "template" : "data"}.${type}`;
         
         // Trigger download by programmatically clicking anchor element
         a.click();
@@ -131,14 +124,6 @@ const ImportExportDropdown = ({companyId, productId, section, onImportComplete,
         const formData = new FormData();
         formData.append("file", file);
 
-        // Retrieve and validate authentication token
-        // Ensures user has valid session before attempting upload
-        const token = localStorage.getItem("access_token");
-        if (!token) {
-            alert("Missing authentication token.");
-            return;
-        }
-
         // Construct API endpoint for tabular data import
         // Follows RESTful pattern with section-specific routing
         const endpoint = `/companies/${companyId}/products/${productId}/emissions/${sectionPath}/import/tabular/`;
@@ -146,25 +131,15 @@ const ImportExportDropdown = ({companyId, productId, section, onImportComplete,
         try {
             // Execute POST request with file data and authentication
             // Uses FormData for proper multipart encoding
-            const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
+            // Large spreadsheets easily take longer than the default timeout to upload and import
+            await apiRequest<unknown, FormData>(endpoint, {
                 method: "POST",
-                headers: {Authorization: `Bearer ${token}`},
                 body: formData,
+                timeout: 0,
             });
 
-            // Handle API error responses with detailed logging
-            // Provides both user notification and developer debugging information
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error("Upload failed:", errorText);
-                alert("Upload failed.");
-                return;
-            }
-
-            // Process successful upload response
-            // Triggers completion callback and success modal display
-            const result = await response.json();
-            console.log("Upload success:", result);
+            // Drop cached emissions and totals so the refresh below sees the imported rows
+            invalidateProductEmissions(companyId, productId, `${sectionPath}_emissions`);
             
             // Notify parent component of successful import completion
             // Enables data refresh or UI updates in parent context
@@ -180,10 +155,10 @@ const ImportExportDropdown = ({companyId, productId, section, onImportComplete,
             }
 
         } catch (err) {
-            // Handle unexpected errors with comprehensive logging
-            // Provides fallback error handling for network issues or unexpected failures
-            console.error("Unexpected upload error:", err);
-            alert("Unexpected error during upload.");
+            // Handle API error responses and network failures with detailed logging
+            // Provides both user notification and developer debugging information
+            console.error("Upload failed:", err);
+            alert(err instanceof ApiError && err.status !== 0 ? "Upload failed." : "Unexpected error during upload.");
         }
         
         // Clear file input value to allow re-upload of same file if needed
@@ -8,6 +8,13 @@
 import { useRef, useState } from "react";
 // Custom button component with accessibility features and consistent styling
 import Button from "./Button";
+import { ApiError, isAbortError } from "@/lib/api/apiClient";
+import { importFile, ImportProgress } from "@/lib/api/uploadApi";
+import { invalidateQueries, queryKeys } from "@/lib/api/queryCache";
+
+// Format a byte count for display, e.g. 1.5 MB
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
 // Props interface for reusable file import component
 // Supports multiple file formats and customizable success handling
@@ -43,6 +50,13 @@ export default function ReusableFileImport({
   // Error state for displaying validation and upload failures
   // Provides user feedback for invalid files or upload issues
   const [fileError, setFileError] = useState<string | null>(null);
+
+  // Progress of the running import, null while no import is running
+  // Covers both the byte-level upload and the server-side processing afterwards
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  // Abort controller of the running import, used by the cancel button
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // DOM reference to hidden file input element
   // Enables custom styled upload button while using native file picker
@@ -79,26 +93,27 @@ export default function ReusableFileImport({
     fileInputRef.current?.click();
   };
 
+  // Cancel handler for the running import
+  // Aborts the upload or stops waiting for the server, whichever is in progress
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Async submit handler for file upload with format-specific routing
   // Implements multi-tenant authentication and error handling
   // Routes to different endpoints based on file format
   const handleSubmit = async () => {
-    // Early return if no file selected
-    if (!selectedFile) return;
-
-    // Prepare FormData for multipart file upload
-    const formData = new FormData();
-    formData.append("file", selectedFile);
+    // Early return if no file selected or an import is already running
+    if (!selectedFile || abortControllerRef.current) return;
 
-    // Retrieve authentication and company context from localStorage
-    // Required for multi-tenant API access and security
+    // Retrieve company context from localStorage
+    // Required for multi-tenant API access
     const companyId = localStorage.getItem("selected_company_id");
-    const token = localStorage.getItem("access_token");
     const fileExtension = selectedFile.name.split(".").pop()?.toLowerCase();
 
-    // Validate required authentication data
-    if (!companyId || !token) {
-      setFileError("Missing company or token.");
+    // Validate required company context
+    if (!companyId) {
+      setFileError("Missing company.");
       return;
     }
 
@@ -131,33 +146,26 @@ export default function ReusableFileImport({
         return;
     }
 
-    try {
-      // Execute POST request with file data and authentication
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-        body: formData,
-      });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setFileError(null);
+    setProgress({ phase: "uploading", loaded: 0, total: selectedFile.size });
 
-      // Handle file size limit error (413 Payload Too Large)
-      if (res.status === 413) {
-        setFileError("File too large. Must be under 25MB.");
-        return;
-      }
+    try {
+      // Upload the file, large files are sent in resumable chunks
+      const data = await importFile<{ product_id?: string | number } | null>(
+        companyId,
+        endpoint,
+        selectedFile,
+        { signal: controller.signal, onProgress: setProgress }
+      );
 
-      // Handle general API errors
-      if (!res.ok) {
-        const err = await res.json();
-        setFileError(err?.detail || "Upload failed.");
-        return;
-      }
+      // Imports can create or update any of the company's products
+      invalidateQueries(queryKeys.company(companyId));
 
       // Handle successful upload with format-specific response processing
       if (fileExtension === "aasx") {
         // AASX files return product ID for direct navigation
-        const data = await res.json();
         const productId = data?.product_id;
         if (productId) {
           // Navigate directly to product emissions tree with ID
@@ -171,12 +179,50 @@ export default function ReusableFileImport({
         onSuccess?.(redirectPath);
       }
     } catch (error) {
+      // Cancelled imports only get a short notice
+      if (isAbortError(error)) {
+        setFileError("Import cancelled.");
+        return;
+      }
+
+      // Handle file size limit error (413 Payload Too Large)
+      if (error instanceof ApiError && error.status === 413) {
+        setFileError("File too large. Must be under 25MB.");
+        return;
+      }
+
+      // Handle general API errors, using the backend's message when it sent one
+      if (error instanceof ApiError && error.status !== 0) {
+        const detail = (error.data as { detail?: string } | null)?.detail;
+        setFileError(detail || "Upload failed.");
+        return;
+      }
+
       // Handle unexpected errors (network issues, etc.)
       console.error(error);
       setFileError("Unexpected error occurred.");
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
     }
   };
 
+  // Human-readable description of the running import and its completion percentage
+  const progressPercent =
+    progress?.phase === "uploading"
+      ? progress.total
+        ? Math.round((progress.loaded / progress.total) * 100)
+        : null
+      : progress?.total
+        ? Math.round((progress.processed / progress.total) * 100)
+        : null;
+  const progressLabel =
+    progress?.phase === "uploading"
+      ? `Uploading… ${formatBytes(progress.loaded)}${progress.total ? ` of ${formatBytes(progress.total)}` : ""}`
+      : progress?.phase === "processing"
+        ? `Processing… ${progress.processed}${progress.total ? ` of ${progress.total}` : ""} rows`
+        : "";
+
   return (
     <>
       {/* Hidden file input element */}
@@ -201,6 +247,33 @@ export default function ReusableFileImport({
             </p>
           )}
 
+          {/* Import progress with cancel option */}
+          {progress && (
+            <div className="mt-4 w-64" aria-live="polite">
+              <div
+                className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                role="progressbar"
+                aria-label={progressLabel}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={progressPercent ?? undefined}
+              >
+                <div
+                  className={`h-2 rounded-full bg-red-600 transition-all duration-300 ${
+                    progressPercent === null ? "w-1/3 animate-pulse" : ""
+                  }`}
+                  style={progressPercent === null ? undefined : { width: `${progressPercent}%` }}
+                />
+              </div>
+              <div className="mt-1 flex items-center justify-between">
+                <p className="text-xs text-gray-700 dark:text-gray-300">{progressLabel}</p>
+                <Button variant="outline" size="sm" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Error message display */}
           {fileError && <p className="mt-4 text-sm text-red-600 dark:text-red-500">{fileError}</p>}
 
@@ -214,7 +287,8 @@ export default function ReusableFileImport({
           {/* Submit button */}
           <Button
             onClick={selectedFile ? handleSubmit : undefined}
-            disabled={!selectedFile}
+            disabled={!selectedFile || progress !== null}
+            loading={progress !== null}
             className={!selectedFile ? "opacity-50 cursor-not-allowed" : ""}
           >
             Go to results
@@ -5,9 +5,36 @@ import { createContext, ReactNode, useContext, useEffect, useState } from "react
 import { useRouter } from "next/navigation";
 
 // API imports for authentication operations
-import { authApi, LoginCredentials, RegisterData } from "@/lib/api/authApi";
+import {
+  AuthTokens,
+  authApi,
+  isMfaChallenge,
+  LoginCredentials,
+  MfaChallenge,
+  RegisterData,
+} from "@/lib/api/authApi";
 import { User, userApi } from "@/lib/api/userApi";
-import { ApiError, isTokenExpired } from "@/lib/api/apiClient";
+import {
+  ApiError,
+  isTokenExpired,
+  refreshSession,
+  SESSION_EXPIRED_EVENT,
+  SessionExpiredDetail,
+} from "@/lib/api/apiClient";
+import { clearQueryCache } from "@/lib/api/queryCache";
+import { readSsoCallback } from "@/lib/api/oidc";
+import {
+  AuthMethod,
+  clearSession,
+  getAccessToken,
+  getAuthMethod,
+  hasSession,
+  storeAuthMethod,
+  storeSession,
+  storeSignOutReason,
+} from "@/lib/api/session";
+import { broadcastTabSync, subscribeTabSync } from "@/lib/api/tabSync";
+import { loginUrl, RETURN_URL_PARAM, safeReturnUrl } from "@/lib/routeAccess";
 
 /**
  * Interface defining the shape of the authentication context
@@ -17,12 +44,21 @@ interface AuthContextType {
   user: User | null; // Current authenticated user or null if not logged in
   isAuthenticated: boolean; // Boolean indicating if user is currently authenticated
   isLoading: boolean; // Loading state for authentication operations
-  login: (credentials: LoginCredentials) => Promise<void>; // Method to log in a user
+  authMethod: AuthMethod | null; // How the current session was started, null if not logged in
+  login: (credentials: LoginCredentials) => Promise<MfaChallenge | null>; // Method to log in a user, may ask for a second step
+  verifyMfa: (challenge: MfaChallenge, code: string) => Promise<void>; // Method to complete a login with a two-factor code
+  loginWithSso: (callbackParams: URLSearchParams) => Promise<string>; // Method to complete a single sign-on login, resolves to the page to return to
   register: (userData: RegisterData) => Promise<void>; // Method to register a new user
   logout: () => void; // Method to log out the current user
   refreshToken: () => Promise<boolean>; // Method to refresh authentication token
+  refreshUser: () => Promise<void>; // Method to reload the user profile after it changed
 }
 
+// Name of the window event dispatched right before the session of the signed-in user is cleared,
+// whether it was ended here, in another tab or by the backend
+// Pages with unsaved changes keep them as drafts when it fires
+export const SESSION_ENDING_EVENT = "sessionEnding";
+
 // Create the authentication context with undefined default value
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -58,17 +94,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
      */
     const checkAuth = async () => {
       try {
-        // Attempt to retrieve stored access token
-        const token = localStorage.getItem("access_token");
-        if (!token) {
-          // No token found, user is not authenticated
+        // Check for a stored session before calling the API
+        if (!hasSession()) {
+          // No session found, user is not authenticated
           setUser(null);
           setIsLoading(false);
           return;
         }
 
-        // Check if the current token has expired
-        if (isTokenExpired(token)) {
+        // Check if the current token has expired, cookie sessions are refreshed on demand
+        const token = getAccessToken();
+        if (token && isTokenExpired(token)) {
           // Token is expired, attempt to refresh
           const refreshed = await refreshToken();
           if (!refreshed) {
@@ -129,13 +165,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Ensure we're in browser environment before accessing localStorage
     if (typeof window === "undefined") return;
 
-    // Clear authentication tokens
-    localStorage.removeItem("access_token");
-    localStorage.removeItem("refresh_token");
+    // Clear authentication tokens, or the marker of a cookie session
+    clearSession();
 
     // Clear all user-related application data
     localStorage.removeItem("selected_company_id");
     localStorage.removeItem("currentAssessmentId"); // For future PCF calculation data
+
+    // Cached API responses belong to the previous user
+    clearQueryCache();
+  };
+
+  /**
+   * Helper function to let open forms keep their unsaved changes
+   * Must run while the user and the selected company are still stored
+   */
+  const announceSessionEnd = () => {
+    window.dispatchEvent(new CustomEvent(SESSION_ENDING_EVENT));
   };
 
   /**
@@ -161,6 +207,64 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return false;
   };
 
+  /**
+   * Effect to end the session when the API client can no longer refresh the token
+   * The client dispatches this event once the refresh token itself has been rejected
+   */
+  useEffect(() => {
+    const handleSessionExpired = (event: Event) => {
+      // Explain on the login page why the user has to sign in again
+      if ((event as CustomEvent<SessionExpiredDetail>).detail?.revoked) {
+        storeSignOutReason("revoked");
+      }
+      announceSessionEnd();
+      clearTokens();
+      setUser(null);
+      // Bring the user back to the page they were on once signed in again
+      router.push(loginUrl(`${window.location.pathname}${window.location.search}`));
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, [router]);
+
+  /**
+   * Effect to follow logins and logouts made in other tabs
+   * The session itself is shared through storage, only the user state has to catch up
+   */
+  useEffect(
+    () =>
+      subscribeTabSync(message => {
+        if (message.type === "logout") {
+          if (user) announceSessionEnd();
+          clearTokens();
+          setUser(null);
+          // Only tabs that were signed in leave the page they are on
+          if (user) router.push("/login");
+        } else if (message.type === "login") {
+          // Another account may have signed in, so nothing cached may be reused
+          clearQueryCache();
+          userApi
+            .getProfile()
+            .then(userData => {
+              setUser(userData);
+              if (window.location.pathname.startsWith("/login")) {
+                const returnTo = new URLSearchParams(window.location.search).get(RETURN_URL_PARAM);
+                router.push(safeReturnUrl(returnTo));
+              }
+            })
+            .catch(error => console.error("Failed to load the user signed in elsewhere:", error));
+        } else if (message.type === "userUpdated" && user) {
+          // For example the email address was verified in another tab
+          userApi
+            .getProfile()
+            .then(setUser)
+            .catch(error => console.error("Failed to reload the user profile:", error));
+        }
+      }),
+    [router, user]
+  );
+
   /**
    * Effect to set up automatic token refresh interval
    * Periodically refreshes tokens to maintain user session
@@ -172,39 +276,71 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     // Refresh token every 45 minutes (assuming token expires in 60 minutes)
-    const refreshInterval = setInterval(
-      () => {
-        // Only refresh if user is currently authenticated
-        if (user) {
-          refreshToken().catch(console.error);
-        }
-      },
-      45 * 60 * 1000 // 45 minutes in milliseconds
-    );
+    const startInterval = () =>
+      setInterval(
+        () => {
+          // Only refresh if user is currently authenticated
+          if (user) {
+            refreshToken().catch(console.error);
+          }
+        },
+        45 * 60 * 1000 // 45 minutes in milliseconds
+      );
+    let refreshInterval = startInterval();
+
+    // A refresh in another tab renewed the shared session, so restart the countdown
+    const unsubscribe = subscribeTabSync(message => {
+      if (message.type === "sessionRefreshed") {
+        clearInterval(refreshInterval);
+        refreshInterval = startInterval();
+      }
+    });
 
     // Cleanup interval on component unmount
-    return () => clearInterval(refreshInterval);
+    return () => {
+      clearInterval(refreshInterval);
+      unsubscribe();
+    };
   }, [user]);
 
+  /**
+   * Helper function to start the session once the backend issued tokens
+   * Stores the tokens, loads the user profile and tells the other tabs
+   *
+   * @param tokens - Tokens returned by the login endpoints
+   * @param method - Whether the user signed in with a password or through SSO
+   */
+  const startSession = async (tokens: AuthTokens, method: AuthMethod = "password") => {
+    // Store received tokens for session persistence, cookie sessions only keep a marker
+    storeSession(tokens);
+    storeAuthMethod(method);
+
+    // Fetch and set user profile data
+    const userData = await userApi.getProfile();
+    setUser(userData);
+    broadcastTabSync({ type: "login" });
+  };
+
   /**
    * Login function to authenticate a user with credentials
    * Validates credentials, stores tokens, and sets user state
    * 
    * @param credentials - User login credentials (username/email and password)
+   * @returns Two-factor challenge to complete with verifyMfa, or null once signed in
    */
-  const login = async (credentials: LoginCredentials) => {
+  const login = async (credentials: LoginCredentials): Promise<MfaChallenge | null> => {
     setIsLoading(true); // Set loading state during login attempt
     try {
       // Attempt to authenticate with the backend
-      const tokens = await authApi.login(credentials);
-      
-      // Store received tokens in localStorage for session persistence
-      localStorage.setItem("access_token", tokens.access);
-      localStorage.setItem("refresh_token", tokens.refresh);
+      const response = await authApi.login(credentials);
 
-      // Fetch and set user profile data
-      const userData = await userApi.getProfile();
-      setUser(userData);
+      // Accounts with two-factor authentication get no tokens until a code is verified
+      if (isMfaChallenge(response)) {
+        return response;
+      }
+
+      await startSession(response);
+      return null;
     } catch (error) {
       console.error("Login failed:", error);
       clearTokens(); // Ensure no partial authentication state remains
@@ -236,6 +372,82 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Second login step for accounts with two-factor authentication
+   * Exchanges the challenge and a code from the authenticator app or a recovery code for tokens
+   *
+   * @param challenge - Challenge returned by login
+   * @param code - Two-factor code entered by the user
+   */
+  const verifyMfa = async (challenge: MfaChallenge, code: string) => {
+    setIsLoading(true); // Set loading state during verification
+    try {
+      const tokens = await authApi.verifyMfa({ mfa_token: challenge.mfa_token, code });
+      await startSession(tokens);
+    } catch (error) {
+      console.error("Two-factor verification failed:", error);
+      clearTokens(); // Ensure no partial authentication state remains
+
+      if (error instanceof ApiError) {
+        if (error.status === 400) {
+          throw new Error("Invalid code. Please check your authenticator app and try again.");
+        } else if (error.status === 401) {
+          throw new Error("Your login attempt has expired. Please sign in again.");
+        } else if (error.status === 429) {
+          throw new Error("Too many attempts. Please wait a few minutes and try again.");
+        } else if (error.status >= 500) {
+          throw new Error("Server error. Please try again later.");
+        }
+        throw new Error(error.message);
+      }
+
+      throw new Error("Verification failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Complete a single sign-on login when the identity provider redirects back
+   * Checks the redirect against the login started in this tab and lets the backend
+   * exchange the authorization code for CarbonInsight tokens
+   *
+   * @param callbackParams - Query parameters of the SSO callback page
+   * @returns Page the user was on when the login started
+   */
+  const loginWithSso = async (callbackParams: URLSearchParams): Promise<string> => {
+    setIsLoading(true); // Set loading state during the token exchange
+    try {
+      const { data, returnTo } = readSsoCallback(callbackParams);
+      const tokens = await authApi.ssoLogin(data);
+      await startSession(tokens, "sso");
+      return returnTo;
+    } catch (error) {
+      console.error("Single sign-on failed:", error);
+      clearTokens(); // Ensure no partial authentication state remains
+
+      if (isAccountBlocked(error)) {
+        throw new Error(
+          "Your account access is restricted. Please contact support for assistance."
+        );
+      }
+
+      if (error instanceof ApiError) {
+        if (error.status === 400 || error.status === 401) {
+          throw new Error("Your identity provider login could not be verified. Please try again.");
+        } else if (error.status >= 500) {
+          throw new Error("Server error. Please try again later.");
+        }
+        throw new Error(error.message);
+      }
+
+      // Errors reported by the provider or a callback that matches no started login
+      throw error instanceof Error ? error : new Error("Single sign-on failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   /**
    * Registration function to create a new user account
    * Creates account, stores tokens, and sets user state
@@ -249,27 +461,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authApi.register(userData);
       
       // Store authentication tokens received from registration
-      localStorage.setItem("access_token", response.access);
-      localStorage.setItem("refresh_token", response.refresh);
+      storeSession(response);
+      storeAuthMethod("password");
 
       // Mark as new user for tour system
       localStorage.setItem("isNewUser", "true");
 
       // Set the newly registered user data
       setUser(response.user);
+      broadcastTabSync({ type: "login" });
     } catch (error) {
       console.error("Registration failed:", error);
 
       // Handle API errors by preserving error structure for form validation
       if (error instanceof ApiError) {
-        // Pass through the ApiError with its original data structure
-        // Create a new error with the original error data as the cause
-        throw new Error("Registration failed", {
-          cause: {
-            status: error.status,
-            data: error.data,
-          },
-        });
+        // Keep the ApiError as the cause, so the form can show its validation errors
+        throw new Error("Registration failed", { cause: error });
       }
 
       // Fallback error for non-API errors
@@ -282,35 +489,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   /**
    * Token refresh function to maintain user session
-   * Uses refresh token to obtain new access token
-   * 
+   * Delegates to the API client so timer-based and 401-triggered refreshes share one request
+   *
    * @returns Promise<boolean> - Success status of token refresh operation
    */
-  const refreshToken = async (): Promise<boolean> => {
-    try {
-      // Attempt to retrieve stored refresh token
-      const refreshToken = localStorage.getItem("refresh_token");
-      if (!refreshToken) {
-        console.error("No refresh token available");
-        return false;
-      }
-
-      // Call API to refresh access token
-      const { access } = await authApi.refreshToken(refreshToken);
-      
-      // Store the new access token
-      localStorage.setItem("access_token", access);
-      return true;
-    } catch (error) {
-      console.error("Token refresh failed:", error);
+  const refreshToken = (): Promise<boolean> => refreshSession();
 
-      // If refresh token is also expired or invalid, clear everything
-      if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
-        clearTokens();
-      }
-
-      return false;
-    }
+  /**
+   * Reload the profile of the signed-in user, for changes made outside of the profile form
+   * such as verifying the email address, and let the other tabs pick it up as well
+   */
+  const refreshUser = async () => {
+    const userData = await userApi.getProfile();
+    setUser(userData);
+    broadcastTabSync({ type: "userUpdated" });
   };
 
   /**
@@ -318,8 +510,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    * Clears all authentication data and redirects to login
    */
   const logout = () => {
+    announceSessionEnd();
+    // Tell the backend before the tokens are cleared, cookie sessions also get their
+    // httpOnly cookies cleared by the route handler
+    authApi.logout().catch(error => console.error("Failed to end the session:", error));
     clearTokens(); // Remove all stored authentication data
     setUser(null); // Clear user state
+    broadcastTabSync({ type: "logout" }); // Sign out the other open tabs as well
     router.push("/login"); // Redirect to login page
   };
 
@@ -328,10 +525,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user,
     isAuthenticated: !!user, // Convert user object to boolean
     isLoading,
+    // Read from storage, so a login in another tab is picked up with its user
+    authMethod: user ? getAuthMethod() : null,
     login,
+    verifyMfa,
+    loginWithSso,
     register,
     logout,
     refreshToken,
+    refreshUser,
   };
 
   // Provide authentication context to all child components
@@ -340,9 +542,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
 /**
  * Custom hook to access authentication context
- * Provides authentication state and methods with additional utilities
+ * Route protection is handled centrally by RouteGuard, see src/lib/routeAccess.ts
  * 
- * @returns Extended authentication context with requireAuth method
+ * @returns Authentication state and methods
  */
 export function useAuth() {
   // Ensure hook is used within AuthProvider
@@ -351,22 +553,5 @@ export function useAuth() {
     throw new Error("useAuth must be used within an AuthProvider");
   }
 
-  // Extend the context with requireAuth method for protected routes
-  return {
-    ...context,
-    /**
-     * Method to require authentication and redirect if not authenticated
-     * Should be called in components that require user authentication
-     */
-    requireAuth: () => {
-      const router = useRouter();
-
-      useEffect(() => {
-        // Redirect to login if user is not authenticated and loading is complete
-        if (!context.isLoading && !context.isAuthenticated) {
-          router.push("/login");
-        }
-      }, [context.isLoading, context.isAuthenticated, router]);
-    },
-  };
+  return context;
 }
@@ -2,14 +2,26 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import PopupModal from "../components/ui/PopupModal";
 import { useAuth } from "../context/AuthContext";
-import { companyApi, CompanyCreateData } from "@/lib/api/companyApi";
-import { ApiError } from "@/lib/api/apiClient";
+import { Company, companyApi, CompanyCreateData } from "@/lib/api/companyApi";
 import { setLocalStorageItem } from "@/lib/api/apiClient";
+import { listQuery } from "@/lib/api/pagination";
 import LoadingSkeleton from "../components/ui/LoadingSkeleton";
+import { normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+import {
+  checkRegistrationNumber,
+  checkVatNumber,
+  normalizeCompanyNumber,
+  vatNumberCountry,
+} from "@/utils/companyNumbers";
+import CompanyProfileFields, {
+  EMPTY_COMPANY_PROFILE,
+  pickCompanyProfile,
+} from "../components/CompanyProfileFields";
 
 /**
  * Create Company Page Component
@@ -19,6 +31,8 @@ import LoadingSkeleton from "../components/ui/LoadingSkeleton";
  * 
  * Key Features:
  * - Form validation with field-specific error handling
+ * - VAT and registration number checks per country, and detection of companies
+ *   that are already registered
  * - API integration for company creation
  * - Success modal with automatic navigation
  * - Authentication requirements and loading states
@@ -27,27 +41,35 @@ import LoadingSkeleton from "../components/ui/LoadingSkeleton";
  * 
  * Form Fields:
  * - Business name (required)
- * - VAT number (required)
- * - Business registration number (required)
+ * - VAT number (required, EU format with check digits)
+ * - Business registration number (required, format of the company's country)
+ * - Registered address, sector, contact person, logo and production sites (optional)
  */
 export default function CreateCompanyPage() {
   const router = useRouter();
-  const { isLoading, requireAuth } = useAuth();
+  const { user, isLoading } = useAuth();
 
-  // Require authentication for this page - redirects to login if not authenticated
-  requireAuth();
+  // Companies can only be created once the user's email address is verified
+  const emailUnverified = user?.email_verified === false;
 
   // Company form data state matching the API interface
   const [formData, setFormData] = useState<CompanyCreateData>({
     name: "",
     vat_number: "",
     business_registration_number: "",
+    ...EMPTY_COMPANY_PROFILE,
   });
+
+  // Logo chosen in the form with its preview, uploaded once the company exists
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
   
   // Error handling and validation states
   const [error, setError] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [fieldErrors, setFieldErrors] = useState<{ [key: string]: string[] }>({});
+  const [fieldErrors, setFieldErrors] = useState<
+    Partial<Record<keyof CompanyCreateData | "logo", string>>
+  >({});
   
   // Success modal and navigation states
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -65,6 +87,62 @@ export default function CreateCompanyPage() {
     }));
   };
 
+  // Country the registration number is checked for, the registered address or else the VAT prefix
+  const registrationCountry =
+    formData.address_country || vatNumberCountry(formData.vat_number) || "";
+
+  /**
+   * Check the VAT and registration number formats
+   * @returns Error messages of the numbers that are not valid
+   */
+  const checkNumbers = (): Partial<Record<keyof CompanyCreateData, string>> => {
+    const errors: Partial<Record<keyof CompanyCreateData, string>> = {};
+    const vatError = checkVatNumber(formData.vat_number);
+    if (vatError) errors.vat_number = vatError;
+    const registrationError = checkRegistrationNumber(
+      formData.business_registration_number,
+      registrationCountry
+    );
+    if (registrationError) errors.business_registration_number = registrationError;
+    return errors;
+  };
+
+  /**
+   * Show number errors as soon as a number field is left
+   * Empty fields are left to the required check on submit
+   */
+  const handleNumberBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const name = e.target.name as "vat_number" | "business_registration_number";
+    setFieldErrors(prev => ({
+      ...prev,
+      [name]: e.target.value.trim() ? checkNumbers()[name] : undefined,
+    }));
+  };
+
+  /**
+   * Find the registered companies with the same number, through every page of the search
+   * The server matches the stored text, so the number is searched both as entered and
+   * without separators, and the results are compared without separators
+   */
+  const findCompaniesWithNumber = async (
+    field: "vat_number" | "business_registration_number",
+    value: string
+  ): Promise<Company[]> => {
+    const number = normalizeCompanyNumber(value);
+    const matches = new Map<string, Company>();
+    for (const search of new Set([value.trim(), number])) {
+      let query: string | null = listQuery({ search });
+      while (query) {
+        const page = await companyApi.listCompaniesPage(query);
+        page.results
+          .filter(company => normalizeCompanyNumber(company[field]) === number)
+          .forEach(company => matches.set(company.id, company));
+        query = page.next;
+      }
+    }
+    return [...matches.values()];
+  };
+
   /**
    * Handle form submission
    * Validates data, creates company via API, and manages UI state
@@ -78,11 +156,68 @@ export default function CreateCompanyPage() {
     setFieldErrors({});
 
     try {
+      // Check the numbers before sending, typos in them break imports later on
+      const numberErrors = checkNumbers();
+      if (Object.keys(numberErrors).length > 0) {
+        setFieldErrors(numberErrors);
+        return;
+      }
+
+      // Companies that are already registered are joined rather than created again
+      let vatTaken: boolean;
+      let registrationTaken: boolean;
+      try {
+        const [vatMatches, registrationMatches] = await Promise.all([
+          findCompaniesWithNumber("vat_number", formData.vat_number),
+          findCompaniesWithNumber(
+            "business_registration_number",
+            formData.business_registration_number
+          ),
+        ]);
+        vatTaken = vatMatches.length > 0;
+        // Registration numbers only identify a company within the country of its register
+        registrationTaken = registrationMatches.some(
+          company =>
+            (company.address_country || vatNumberCountry(company.vat_number) || "") ===
+            registrationCountry
+        );
+      } catch (lookupError) {
+        console.error("Error checking for registered companies:", lookupError);
+        setError(
+          "We could not check whether this company is already registered. Please try again."
+        );
+        return;
+      }
+      if (vatTaken || registrationTaken) {
+        setFieldErrors({
+          vat_number: vatTaken
+            ? "A company with this VAT number is already registered. Ask its admins for an invitation."
+            : undefined,
+          business_registration_number: registrationTaken
+            ? "A company with this registration number is already registered. Ask its admins for an invitation."
+            : undefined,
+        });
+        return;
+      }
+
       console.log("About to call API");
-      // Create new company via API with form data
-      const newCompany = await companyApi.createCompany(formData);
+      // Create new company via API with form data, the VAT number without separators
+      const newCompany = await companyApi.createCompany({
+        ...formData,
+        vat_number: normalizeCompanyNumber(formData.vat_number),
+        business_registration_number: formData.business_registration_number.trim(),
+      });
       console.log("API call successful");
 
+      // Upload the logo, the company is created even if this fails
+      if (logoFile) {
+        try {
+          await companyApi.uploadLogo(newCompany.id, logoFile);
+        } catch (logoError) {
+          console.error("Error uploading company logo:", logoError);
+        }
+      }
+
       // Store company ID for success modal and subsequent navigation
       setNewCompanyId(newCompany.id);
 
@@ -91,35 +226,15 @@ export default function CreateCompanyPage() {
     } catch (err) {
       console.log("Error caught:", err);
 
-      // Handle API validation errors with structured error format
-      if (err instanceof ApiError && err.data && typeof err.data === "object") {
-        const errorResponse = err.data as { type: string, errors: Array<{ attr: string, code: string, detail: string }> };
-        
-        if (errorResponse.errors && Array.isArray(errorResponse.errors)) {
-          // Process field-specific errors for display under form fields
-          const newFieldErrors: { [key: string]: string[] } = {};
-          
-          // Group error messages by field attribute
-          errorResponse.errors.forEach(error => {
-            if (!newFieldErrors[error.attr]) {
-              newFieldErrors[error.attr] = [];
-            }
-            newFieldErrors[error.attr].push(error.detail);
-          });
-          
-          setFieldErrors(newFieldErrors);
-          
-          // Only display non-field errors at the top of the form
-          const nonFieldErrors = newFieldErrors['non_field_errors'] || [];
-          if (nonFieldErrors.length > 0) {
-            setError(nonFieldErrors.join('. '));
-          } else {
-            // Don't show any general error if there are no non-field errors
-            setError("");
-          }
-        } else {
-          setError("Invalid response format from server");
-        }
+      // Show validation errors under their fields, errors of other fields at the top of the form
+      const errors = normalizeFieldErrors(err);
+      if (errors) {
+        const { fieldErrors, formError } = pickFieldErrors(
+          errors,
+          Object.keys(formData) as (keyof CompanyCreateData)[]
+        );
+        setFieldErrors(fieldErrors);
+        setError(formError);
       } else {
         setError(err instanceof Error ? err.message : "An unexpected error occurred.");
       }
@@ -152,7 +267,7 @@ export default function CreateCompanyPage() {
   };
 
   // Determine if form should be disabled during operations
-  const isDisabled = isSubmitting;
+  const isDisabled = isSubmitting || emailUnverified;
 
   // Show loading skeleton while authentication state is being determined
   if (isLoading) {
@@ -177,6 +292,16 @@ export default function CreateCompanyPage() {
 
       {/* Company creation form */}
       <Card className="max-w-md mx-auto">
+        {/* Unverified accounts cannot create companies yet */}
+        {emailUnverified && (
+          <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md dark:bg-yellow-900/20 dark:text-yellow-200">
+            Please verify your email address before creating a company.{" "}
+            <Link href="/verify-email" className="underline">
+              Resend verification email
+            </Link>
+          </div>
+        )}
+
         {/* General error message display */}
         {error && <div className="mb-4 p-3 bg-red-100 text-red-800 rounded-md">{error}</div>}
 
@@ -202,7 +327,7 @@ export default function CreateCompanyPage() {
             />
             {/* Field-specific error display */}
             {fieldErrors.name && (
-              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.name[0]}</p>
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.name}</p>
             )}
           </div>
 
@@ -221,6 +346,7 @@ export default function CreateCompanyPage() {
               autoComplete="off"
               value={formData.vat_number}
               onChange={handleChange}
+              onBlur={handleNumberBlur}
               required
               disabled={isDisabled}
               className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600"
@@ -228,7 +354,7 @@ export default function CreateCompanyPage() {
             {/* Field-specific error display */}
             {fieldErrors.vat_number && (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                {fieldErrors.vat_number[0]}
+                {fieldErrors.vat_number}
               </p>
             )}
           </div>
@@ -248,6 +374,7 @@ export default function CreateCompanyPage() {
               autoComplete="off"
               value={formData.business_registration_number}
               onChange={handleChange}
+              onBlur={handleNumberBlur}
               required
               disabled={isDisabled}
               className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 dark:bg-gray-700 dark:border-gray-600"
@@ -255,11 +382,24 @@ export default function CreateCompanyPage() {
             {/* Field-specific error display */}
             {fieldErrors.business_registration_number && (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                {fieldErrors.business_registration_number[0]}
+                {fieldErrors.business_registration_number}
               </p>
             )}
           </div>
 
+          {/* Optional extended profile: address, sector, contact, logo and sites */}
+          <CompanyProfileFields
+            values={pickCompanyProfile(formData)}
+            onChange={profile => setFormData(prev => ({ ...prev, ...profile }))}
+            errors={fieldErrors}
+            disabled={isDisabled}
+            logo={logoPreview}
+            onLogoChange={(file, preview) => {
+              setLogoFile(file);
+              setLogoPreview(preview);
+            }}
+          />
+
           {/* Submit button with loading state */}
           <Button type="submit" disabled={isDisabled} className="w-full">
             {isSubmitting ? "Creating company..." : "Submit"}
@@ -18,9 +18,12 @@ import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 import { useRouter } from "next/navigation";
 // Audit log component for displaying company activity
 import AuditLog from "../components/ui/AuditLog";
-// API functions for product and audit log operations
+// API functions for company, product and audit log operations
+import { apiRequest, ApiError } from "@/lib/api/apiClient";
+import { companyApi } from "@/lib/api/companyApi";
 import { productApi } from "@/lib/api/productApi";
 import { auditLogApi, LogItem } from "@/lib/api/auditLogApi";
+import { clearSession } from "@/lib/api/session";
 // Tooltip components for providing additional information
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -41,13 +44,9 @@ interface CompanyData {
 // of the user's companies, products, and environmental impact metrics
 export default function DashboardPage() {
   // Authentication and routing hooks from custom context and Next.js
-  const { user, isLoading, requireAuth } = useAuth();
+  const { user, isLoading } = useAuth();
   const router = useRouter();
 
-  // Enforce authentication requirement for this protected route
-  // This will redirect unauthenticated users to the login page automatically
-  requireAuth();
-
   // State variables for dashboard metrics and data
   // These track various counts and data needed for the dashboard display
   const [companyCount, setCompanyCount] = useState(0); // Total number of user's companies
@@ -68,10 +67,6 @@ export default function DashboardPage() {
     companies_using_count: 0, // Number of external companies using this company's products
   });
 
-  // API base URL configuration with fallback for local development
-  // Uses environment variable for production, falls back to localhost for development
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
-
   // Client-side mounting effect to prevent hydration mismatches
   // This ensures localStorage access only happens on the client side
   // Without this, SSR would fail because localStorage is not available on the server
@@ -79,15 +74,6 @@ export default function DashboardPage() {
     setMounted(true);
   }, []);
 
-  // Navigation guard: redirect to company selection if no company is selected
-  // This effect runs after authentication is resolved and component is mounted
-  // It ensures users always have a company context before viewing the dashboard
-  useEffect(() => {
-    if (!isLoading && mounted && typeof window !== "undefined" && !localStorage.getItem("selected_company_id")) {
-      router.push("/list-companies");
-    }
-  }, [isLoading, router, mounted]);
-
   // Navigation handler with tour system integration
   // Dispatches tour events when navigation occurs during an active tour
   // This allows the guided tour system to track user progress and trigger next steps
@@ -105,10 +91,9 @@ export default function DashboardPage() {
   // This ensures consistent behavior across all API calls in this component
   const handleUnauthorized = (status: number) => {
     if (status === 401) {
-      // Clear all authentication-related data from localStorage to force re-login
+      // Clear the stored session to force re-login
       if (typeof window !== "undefined") {
-        localStorage.removeItem("access_token");
-        localStorage.removeItem("refresh_token");
+        clearSession();
         localStorage.removeItem("selected_company_id"); // Also clear company selection
       }
       // Redirect to login page for re-authentication
@@ -125,41 +110,19 @@ export default function DashboardPage() {
     // Early return if component hasn't mounted yet (prevents SSR issues)
     if (!mounted) return;
 
+    // Cancel every dashboard request if the page unmounts before loading finishes
+    const controller = new AbortController();
+    const { signal } = controller;
+
     // Async function to fetch all dashboard data in sequence
     // We define this inside the effect to have access to all state setters
     const fetchDashboardData = async () => {
       try {
         setDataLoading(true); // Show loading state to user
-        
-        // Retrieve authentication token from localStorage
-        // This token is required for all authenticated API calls
-        const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
-
-        // Early return with error if no authentication token is found
-        if (!token) {
-          setError("No authentication token found");
-          setDataLoading(false);
-          return;
-        }
 
         // Step 1: Fetch all companies associated with the authenticated user
         // This provides the count for the "Your Companies" card
-        const companiesResponse = await fetch(`${API_URL}/companies/my/`, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`, // JWT token for authentication
-          },
-        });
-
-        // Handle unauthorized access (token expired or invalid)
-        if (handleUnauthorized(companiesResponse.status)) return;
-
-        if (!companiesResponse.ok) {
-          throw new Error(`Error fetching companies: ${companiesResponse.status}`);
-        }
-
-        const companiesData = await companiesResponse.json();
+        const companiesData = await companyApi.listCompanies({ signal });
         setCompanyCount(companiesData.length); // Update companies count for dashboard card
 
         // Step 2: Get the currently selected company from localStorage
@@ -171,55 +134,29 @@ export default function DashboardPage() {
         if (selectedCompanyId) {
           // Step 3: Fetch detailed information for the selected company
           // This includes company stats like emissions and usage metrics
-          const companyResponse = await fetch(`${API_URL}/companies/${selectedCompanyId}/`, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
+          const companyData = await apiRequest<CompanyData>(`/companies/${selectedCompanyId}/`, {
+            signal,
           });
-
-          if (handleUnauthorized(companyResponse.status)) return;
-
-          if (!companyResponse.ok) {
-            throw new Error(`Error fetching company details: ${companyResponse.status}`);
-          }
-
-          const companyData = await companyResponse.json();
           setSelectedCompany(companyData); // Store company details for header display
 
           // Step 4: Fetch all products belonging to the selected company
           // This provides the count for the "Products" card
-          const productsResponse = await fetch(
-            `${API_URL}/companies/${selectedCompanyId}/products/`,
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            }
-          );
-
-          if (handleUnauthorized(productsResponse.status)) return;
-
-          if (!productsResponse.ok) {
-            throw new Error(`Error fetching products: ${productsResponse.status}`);
-          }
-
-          const productsData = await productsResponse.json();
+          const productsData = await productApi.listProducts(selectedCompanyId, { signal });
           setProductCount(productsData.length); // Update products count for dashboard card
 
           // Step 5: Fetch product sharing requests and filter for pending ones
           // This is wrapped in try-catch to handle potential API errors gracefully
           // Some companies may not have sharing functionality enabled
           try {
-            const sharingRequests = await productApi.getProductSharingRequests(selectedCompanyId);
+            const sharingRequests = await productApi.getProductSharingRequests(selectedCompanyId, {
+              signal,
+            });
             // Filter for pending requests and count them for the dashboard card
             setPendingRequestsCount(sharingRequests.filter(request => request.status === "Pending").length);
           } catch (err) {
+            if (signal.aborted) return;
             // Handle 401 errors specifically for sharing requests
-            // Type checking is verbose but necessary for TypeScript safety
-            if (typeof err === 'object' && err !== null && 'response' in err && typeof err.response === 'object' && err.response !== null && 'status' in err.response && err.response.status === 401) {
-              handleUnauthorized(401);
-              return;
-            }
+            if (err instanceof ApiError && handleUnauthorized(err.status)) return;
             console.error("Error fetching sharing requests:", err);
             setPendingRequestsCount(0); // Default to 0 if sharing requests fail
           }
@@ -228,9 +165,13 @@ export default function DashboardPage() {
           // This provides a history of actions performed within the company
           // Used for compliance, transparency, and debugging purposes
           try {
-            const auditLogItems = await auditLogApi.getCompanyAuditLogs(parseInt(selectedCompanyId));
+            const auditLogItems = await auditLogApi.getCompanyAuditLogs(
+              parseInt(selectedCompanyId),
+              { signal }
+            );
             setLogItems(auditLogItems); // Store audit log for display at bottom of page
           } catch (err) {
+            if (signal.aborted) return;
             console.error("Error fetching audit logs:", err);
             // Continue execution even if audit logs fail (not critical for dashboard functionality)
           }
@@ -247,11 +188,15 @@ export default function DashboardPage() {
 
         setError(null); // Clear any previous errors on successful data fetch
       } catch (err) {
+        // Requests cancelled on unmount are not errors worth showing
+        if (signal.aborted) return;
+        // Handle unauthorized access (session expired and could not be refreshed)
+        if (err instanceof ApiError && handleUnauthorized(err.status)) return;
         console.error("Error fetching dashboard data:", err);
         // Set user-friendly error message based on error type
         setError(err instanceof Error ? err.message : "Failed to load dashboard data");
       } finally {
-        setDataLoading(false); // Always hide loading state when done (success or failure)
+        if (!signal.aborted) setDataLoading(false); // Hide loading state when done (success or failure)
       }
     };
 
@@ -260,7 +205,8 @@ export default function DashboardPage() {
     if (!isLoading && mounted) {
       fetchDashboardData();
     }
-  }, [API_URL, isLoading, mounted]); // Re-run effect if API URL, loading state, or mount state changes
+    return () => controller.abort();
+  }, [isLoading, mounted]); // Re-run effect if loading state or mount state changes
 
   // Show loading skeleton while authentication or data is being fetched
   if (isLoading || dataLoading || !mounted) {
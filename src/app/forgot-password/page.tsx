@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Card from "../components/ui/Card";
+import Button from "../components/ui/Button";
+import { ApiError } from "@/lib/api/apiClient";
+import { authApi } from "@/lib/api/authApi";
+import { normalizeFieldErrors } from "@/utils/fieldErrors";
+
+/**
+ * Forgot Password Page Component
+ *
+ * Lets users who cannot sign in request an email with a password reset link.
+ * The confirmation is the same whether or not the address belongs to an account,
+ * so the page does not reveal which email addresses are registered.
+ */
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Address the link was requested for, shown in the confirmation
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  /**
+   * Handle reset request submission
+   * Sends the email address to the backend, which emails the reset link
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await authApi.requestPasswordReset({ email: email.trim() });
+      setSentTo(email.trim());
+    } catch (err) {
+      const errors = normalizeFieldErrors(err);
+      if (errors) {
+        setError(errors.fieldErrors.email || errors.formError || "Please enter a valid email.");
+      } else if (err instanceof ApiError && err.status === 429) {
+        setError("Too many reset requests. Please wait a few minutes and try again.");
+      } else {
+        setError("The reset link could not be requested. Please try again later.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Page header with title and description */}
+      <div className="text-center mb-12">
+        <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
+          Forgot Password
+        </h1>
+        <p className="mt-4 max-w-2xl mx-auto text-xl text-gray-500 dark:text-gray-400">
+          We will email you a link to choose a new password
+        </p>
+      </div>
+
+      <Card className="max-w-md mx-auto">
+        {sentTo ? (
+          // Confirmation once the request was accepted
+          <div className="space-y-6" role="status" aria-live="polite">
+            <p className="text-gray-700 dark:text-gray-300">
+              If an account exists for <strong>{sentTo}</strong>, you will receive an email with a
+              link to reset your password. The link is valid for a limited time.
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No email? Check your spam folder or{" "}
+              <button
+                type="button"
+                onClick={() => setSentTo(null)}
+                className="font-medium text-red hover:text-red-700 dark:text-red-400 underline focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+              >
+                request a new link
+              </button>
+              .
+            </p>
+            <Link
+              href="/login"
+              className="block text-sm font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+            >
+              Back to login
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+            {/* Error message display */}
+            {error && (
+              <div
+                className="p-3 bg-red-100 text-red-800 rounded-md dark:bg-red-900/20 dark:text-red-300 border border-red-200 dark:border-red-800"
+                role="alert"
+                aria-live="assertive"
+              >
+                {error}
+              </div>
+            )}
+
+            {/* Email Field */}
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Email{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                inputMode="email"
+                required
+                aria-required="true"
+                aria-invalid={!!error}
+                aria-describedby="email-hint"
+                value={email}
+                onChange={e => {
+                  setEmail(e.target.value);
+                  if (error) setError(null);
+                }}
+                disabled={isLoading}
+                className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                placeholder="your@email.com"
+              />
+              <span id="email-hint" className="sr-only">
+                Enter the email address of your account
+              </span>
+            </div>
+
+            <div className="text-sm">
+              <Link
+                href="/login"
+                className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+              >
+                Remembered your password? Sign in
+              </Link>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !email.trim()}
+              loading={isLoading}
+            >
+              {isLoading ? "Sending..." : "Send reset link"}
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
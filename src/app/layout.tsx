@@ -8,6 +8,10 @@ import TourProvider from "./components/TourProvider";
 import GlobalCompanyChangeHandler from "./components/GlobalCompanyChangeHandler";
 import KeyboardShortcutsProvider from "./components/KeyboardShortcutsProvider";
 import TourTrigger from "./components/TourTrigger";
+import OfflineQueueStatus from "./components/OfflineQueueStatus";
+import IdleSessionTimeout from "./components/IdleSessionTimeout";
+import EmailVerificationBanner from "./components/EmailVerificationBanner";
+import RouteGuard from "./components/RouteGuard";
 import "./globals.css";
 
 // SEO metadata configuration for the entire application
@@ -90,15 +94,25 @@ export default function RootLayout({
                 
                 {/* Primary navigation component with accessibility features */}
                 <Navbar />
+
+                {/* Reminder for accounts whose email address is not verified yet */}
+                <EmailVerificationBanner />
                 
                 {/* Main content landmark with proper focus management */}
                 {/* tabIndex={-1} allows programmatic focus for skip links */}
                 <main id="main-content" className="flex-grow" tabIndex={-1}>
-                  {children}
+                  {/* Protected pages only render for signed-in users with the required company */}
+                  <RouteGuard>{children}</RouteGuard>
                 </main>
                 
                 {/* Footer component with consistent styling and links */}
                 <Footer />
+
+                {/* Status of product changes made offline, replays them once back online */}
+                <OfflineQueueStatus />
+
+                {/* Signs out inactive users after a countdown warning */}
+                <IdleSessionTimeout />
               </KeyboardShortcutsProvider>
             </TourProvider>
           </ThemeProvider>
@@ -7,7 +7,7 @@ import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Link from "next/link";
 import { companyApi, Company } from "@/lib/api/companyApi";
-import { setLocalStorageItem } from "@/lib/api/apiClient";
+import { isAbortError, setLocalStorageItem } from "@/lib/api/apiClient";
 import { useAuth } from "../context/AuthContext";
 import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 
@@ -38,10 +38,7 @@ export default function ListCompaniesPage() {
   const [mounted, setMounted] = useState(false);
   
   const router = useRouter();
-  const { isLoading: authLoading, requireAuth } = useAuth();
-
-  // Require authentication for this page - redirect to login if not authenticated
-  requireAuth();
+  const { isLoading: authLoading } = useAuth();
 
   /**
    * Ensure component is mounted before fetching data
@@ -56,18 +53,22 @@ export default function ListCompaniesPage() {
    * Loads all companies the user has access to via the company API
    */
   useEffect(() => {
+    // Cancel the request if the page unmounts before it completes
+    const controller = new AbortController();
+
     async function fetchCompanies() {
       try {
         setLoading(true);
         // Using centralized companyApi instead of direct fetch for consistency
-        const data = await companyApi.listCompanies();
+        const data = await companyApi.listCompanies({ signal: controller.signal });
         setCompanies(data);
         setError(null);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Error fetching companies:", err);
         setError(err instanceof Error ? err.message : "Failed to fetch companies");
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }
 
@@ -75,6 +76,7 @@ export default function ListCompaniesPage() {
     if (!authLoading && mounted) {
       fetchCompanies();
     }
+    return () => controller.abort();
   }, [authLoading, mounted]);
 
   /**
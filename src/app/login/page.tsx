@@ -1,12 +1,16 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState, useRef, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import { useAuth } from "../context/AuthContext";
-import { LoginCredentials } from "@/lib/api/authApi";
+import { LoginCredentials, MfaChallenge } from "@/lib/api/authApi";
+import { SSO_ENABLED, startSsoLogin } from "@/lib/api/oidc";
+import { takeSignOutReason } from "@/lib/api/session";
+import { RETURN_URL_PARAM, safeReturnUrl } from "@/lib/routeAccess";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 
 /**
  * Login Page Component
@@ -23,15 +27,24 @@ import { LoginCredentials } from "@/lib/api/authApi";
  * - Accessible form design with proper labeling
  * - Loading states and disabled form elements
  * - Support contact information and troubleshooting
+ * - Second step for a two-factor code when the account requires it
+ * - Single sign-on through the company's identity provider, when configured
+ * - Return to the page that required signing in (?next=...)
  */
-export default function LoginPage() {
+function LoginPageContent() {
   const router = useRouter();
-  const { login } = useAuth();
+  const searchParams = useSearchParams();
+  const { login, verifyMfa } = useAuth();
+
+  // Page to continue to after signing in, only paths within the app are followed
+  const returnTo = safeReturnUrl(searchParams.get(RETURN_URL_PARAM));
   
   // Loading and error state management
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isAccountBlocked, setIsAccountBlocked] = useState(false);
+  // Set when this tab was signed out because its session was ended on another device
+  const [wasRevoked, setWasRevoked] = useState(false);
   
   // Form and accessibility references
   const formRef = useRef<HTMLFormElement>(null);
@@ -43,6 +56,21 @@ export default function LoginPage() {
     password: "",
   });
 
+  // Two-factor step state, set once the password was accepted for an account with 2FA
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const mfaInputRef = useRef<HTMLInputElement>(null);
+
+  // Read once, so the notice does not come back after reloading the page
+  useEffect(() => {
+    setWasRevoked(takeSignOutReason() === "revoked");
+  }, []);
+
+  // Move focus to the code field when the second step appears
+  useEffect(() => {
+    if (mfaChallenge) mfaInputRef.current?.focus();
+  }, [mfaChallenge]);
+
   /**
    * Announce errors to screen readers for accessibility
    * Creates live region announcements when errors occur
@@ -84,6 +112,70 @@ export default function LoginPage() {
     }
   };
 
+  /**
+   * Announce the successful login and continue to the page that required it
+   */
+  const completeLogin = () => {
+    // Announce successful login to screen readers
+    const announcement = document.createElement("div");
+    announcement.setAttribute("role", "status");
+    announcement.setAttribute("aria-live", "polite");
+    announcement.className = "sr-only";
+    announcement.textContent = "Login successful. Redirecting...";
+    document.body.appendChild(announcement);
+
+    // Navigate to the requested page, the dashboard by default
+    router.push(returnTo);
+  };
+
+  /**
+   * Handle two-factor code submission
+   * Completes the login with a code from the authenticator app or a recovery code
+   */
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await verifyMfa(mfaChallenge, mfaCode.trim());
+      completeLogin();
+    } catch (err) {
+      console.error("Two-factor verification error:", err);
+      setMfaCode("");
+      setError(err instanceof Error ? err.message : "Verification failed. Please try again.");
+      mfaInputRef.current?.focus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Leave the two-factor step and start over with email and password
+   */
+  const handleMfaCancel = () => {
+    setMfaChallenge(null);
+    setMfaCode("");
+    setError(null);
+    setFormData(prev => ({ ...prev, password: "" }));
+  };
+
+  /**
+   * Continue to the identity provider, which redirects back to the SSO callback page
+   */
+  const handleSsoLogin = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await startSsoLogin(returnTo);
+    } catch (err) {
+      console.error("Failed to start single sign-on:", err);
+      setError("Your identity provider could not be reached. Please try again later.");
+      setIsLoading(false);
+    }
+  };
+
   /**
    * Handle login form submission
    * Validates credentials, handles authentication, and manages error states
@@ -96,18 +188,15 @@ export default function LoginPage() {
 
     try {
       // Attempt login via authentication context
-      await login(formData);
+      const challenge = await login(formData);
 
-      // Announce successful login to screen readers
-      const announcement = document.createElement("div");
-      announcement.setAttribute("role", "status");
-      announcement.setAttribute("aria-live", "polite");
-      announcement.className = "sr-only";
-      announcement.textContent = "Login successful. Redirecting to dashboard...";
-      document.body.appendChild(announcement);
+      // Accounts with two-factor authentication continue with the code step
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
+      }
 
-      // Navigate to dashboard after successful authentication
-      router.push("/dashboard");
+      completeLogin();
     } catch (err) {
       console.error("Login error:", err);
 
@@ -150,6 +239,17 @@ export default function LoginPage() {
 
       {/* Login form card */}
       <Card className="max-w-md mx-auto">
+        {/* Notice for a session that was signed out from another device */}
+        {wasRevoked && !error && (
+          <div
+            role="status"
+            className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md dark:bg-yellow-900/20 dark:text-yellow-200 border border-yellow-200 dark:border-yellow-900"
+          >
+            You were signed out because this session was ended from another device. Sign in again
+            to continue.
+          </div>
+        )}
+
         {/* Regular Error Message Display */}
         {error && !isAccountBlocked && (
           <div
@@ -212,102 +312,193 @@ export default function LoginPage() {
           </div>
         )}
 
-        {/* Login Form */}
-        <form ref={formRef} onSubmit={handleSubmit} className="space-y-6" noValidate>
-          {/* Email/Username Field */}
-          <div>
-            <label
-              htmlFor="username"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
-            >
-              Email{" "}
-              <span className="text-red-500" aria-label="required">
-                *
-              </span>
-            </label>
-            <input
-              id="username"
-              name="username"
-              type="email"
-              autoComplete="username email"
-              inputMode="email"
-              required
-              aria-required="true"
-              aria-invalid={!!error}
-              aria-describedby={error ? "login-error" : "email-hint"}
-              value={formData.username}
-              onChange={handleChange}
-              disabled={isLoading}
-              className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="your@email.com"
-            />
-            {/* Screen reader hint for email field */}
-            <span id="email-hint" className="sr-only">
-              Enter your registered email address
-            </span>
-          </div>
+        {/* Two-factor Form - second step for accounts with 2FA enabled */}
+        {mfaChallenge ? (
+          <form onSubmit={handleMfaSubmit} className="space-y-6" noValidate>
+            <div>
+              <label
+                htmlFor="mfa_code"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Authentication code{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                ref={mfaInputRef}
+                id="mfa_code"
+                name="mfa_code"
+                type="text"
+                autoComplete="one-time-code"
+                required
+                aria-required="true"
+                aria-invalid={!!error}
+                aria-describedby={error ? "login-error mfa-hint" : "mfa-hint"}
+                value={mfaCode}
+                onChange={e => {
+                  setMfaCode(e.target.value);
+                  if (error) setError(null);
+                }}
+                disabled={isLoading}
+                className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed tracking-widest"
+                placeholder="123456"
+              />
+              <p id="mfa-hint" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Enter the 6-digit code from your authenticator app. Lost access to the app? Enter
+                one of your recovery codes instead.
+              </p>
+              {error && (
+                <span id="login-error" className="sr-only">
+                  {error}
+                </span>
+              )}
+            </div>
 
-          {/* Password Field */}
-          <div>
-            <label
-              htmlFor="password"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
-            >
-              Password{" "}
-              <span className="text-red-500" aria-label="required">
-                *
-              </span>
-            </label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              autoComplete="current-password"
-              required
-              aria-required="true"
-              aria-invalid={!!error}
-              aria-describedby={error ? "login-error" : "password-hint"}
-              value={formData.password}
-              onChange={handleChange}
-              disabled={isLoading}
-              className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
-            />
-            {/* Screen reader hints for password field */}
-            <span id="password-hint" className="sr-only">
-              Enter your password
-            </span>
-            {error && (
-              <span id="login-error" className="sr-only">
-                {error}
+            <div className="flex gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleMfaCancel}
+                disabled={isLoading}
+              >
+                Back
+              </Button>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || !mfaCode.trim()}
+                loading={isLoading}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          /* Login Form */
+          <form ref={formRef} onSubmit={handleSubmit} className="space-y-6" noValidate>
+            {/* Email/Username Field */}
+            <div>
+              <label
+                htmlFor="username"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Email{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                id="username"
+                name="username"
+                type="email"
+                autoComplete="username email"
+                inputMode="email"
+                required
+                aria-required="true"
+                aria-invalid={!!error}
+                aria-describedby={error ? "login-error" : "email-hint"}
+                value={formData.username}
+                onChange={handleChange}
+                disabled={isLoading}
+                className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                placeholder="your@email.com"
+              />
+              {/* Screen reader hint for email field */}
+              <span id="email-hint" className="sr-only">
+                Enter your registered email address
               </span>
-            )}
-          </div>
+            </div>
 
-          {/* Navigation and Support Links */}
-          <div className="flex items-center justify-between">
-            <div className="text-sm">
-              <Link
-                href="/register"
-                className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+            {/* Password Field */}
+            <div>
+              <label
+                htmlFor="password"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
               >
-                Need an account? Register
-              </Link>
+                Password{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="current-password"
+                required
+                aria-required="true"
+                aria-invalid={!!error}
+                aria-describedby={error ? "login-error" : "password-hint"}
+                value={formData.password}
+                onChange={handleChange}
+                disabled={isLoading}
+                className="p-2 mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+              {/* Screen reader hints for password field */}
+              <span id="password-hint" className="sr-only">
+                Enter your password
+              </span>
+              {error && (
+                <span id="login-error" className="sr-only">
+                  {error}
+                </span>
+              )}
+              {/* Password reset for users who cannot sign in */}
+              <div className="mt-1 text-right text-sm">
+                <Link
+                  href="/forgot-password"
+                  className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+                >
+                  Forgot password?
+                </Link>
+              </div>
             </div>
-            <div className="text-sm">
-              <Link
-                href="/support"
-                className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
-              >
-                Need help?
-              </Link>
+
+            {/* Navigation and Support Links */}
+            <div className="flex items-center justify-between">
+              <div className="text-sm">
+                <Link
+                  href={
+                    searchParams.has(RETURN_URL_PARAM)
+                      ? `/register?${new URLSearchParams({ [RETURN_URL_PARAM]: returnTo })}`
+                      : "/register"
+                  }
+                  className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+                >
+                  Need an account? Register
+                </Link>
+              </div>
+              <div className="text-sm">
+                <Link
+                  href="/support"
+                  className="font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+                >
+                  Need help?
+                </Link>
+              </div>
             </div>
-          </div>
 
-          {/* Submit Button with Loading State */}
-          <Button type="submit" className="w-full" disabled={isLoading} loading={isLoading}>
-            {isLoading ? "Signing in..." : "Login"}
-          </Button>
-        </form>
+            {/* Submit Button with Loading State */}
+            <Button type="submit" className="w-full" disabled={isLoading} loading={isLoading}>
+              {isLoading ? "Signing in..." : "Login"}
+            </Button>
+
+            {/* Single sign-on for organizations with their own identity provider */}
+            {SSO_ENABLED && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleSsoLogin}
+                disabled={isLoading}
+              >
+                Sign in with SSO
+              </Button>
+            )}
+          </form>
+        )}
 
         {/* Additional Support Information Section */}
         <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
@@ -327,3 +518,18 @@ export default function LoginPage() {
     </div>
   );
 }
+
+// Main page component with Suspense wrapper, required for reading the return URL
+export default function LoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <LoginPageContent />
+    </Suspense>
+  );
+}
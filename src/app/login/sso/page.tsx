@@ -0,0 +1,71 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import Card from "../../components/ui/Card";
+import LoadingSkeleton from "../../components/ui/LoadingSkeleton";
+import { useAuth } from "../../context/AuthContext";
+import { safeReturnUrl } from "@/lib/routeAccess";
+
+/**
+ * SSO Callback Page Content
+ *
+ * The identity provider redirects here after the user signed in (?code=...&state=...).
+ * The code is exchanged for CarbonInsight tokens, then the user continues to the page
+ * the login was started from.
+ */
+function SsoCallbackPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { loginWithSso } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code can only be exchanged once
+  const exchangeStarted = useRef(false);
+
+  useEffect(() => {
+    if (exchangeStarted.current) return;
+    exchangeStarted.current = true;
+
+    loginWithSso(searchParams)
+      .then(returnTo => router.replace(safeReturnUrl(returnTo)))
+      .catch(err => setError(err instanceof Error ? err.message : "Single sign-on failed."));
+  }, [loginWithSso, router, searchParams]);
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <Card className="max-w-md mx-auto">
+        {error ? (
+          <div className="space-y-6" role="alert">
+            <p className="text-gray-700 dark:text-gray-300">{error}</p>
+            <Link
+              href="/login"
+              className="block text-sm font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+            >
+              Back to login
+            </Link>
+          </div>
+        ) : (
+          <p className="text-gray-700 dark:text-gray-300" role="status" aria-live="polite">
+            Signing you in...
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+// Main page component with Suspense wrapper, required for reading the provider's redirect parameters
+export default function SsoCallbackPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <SsoCallbackPageContent />
+    </Suspense>
+  );
+}
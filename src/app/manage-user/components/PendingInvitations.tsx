@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Button from "../../components/ui/Button";
+import Card from "../../components/ui/Card";
+import PopupModal from "../../components/ui/PopupModal";
+import { isAbortError } from "@/lib/api/apiClient";
+import { Invitation, invitationApi } from "@/lib/api/invitationApi";
+import {
+  canManageMember,
+  COMPANY_ROLES,
+  CompanyRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+} from "@/lib/companyPermissions";
+import { normalizeFieldErrors } from "@/utils/fieldErrors";
+
+interface PendingInvitationsProps {
+  companyId: string;
+  myRole: CompanyRole | null; // Role of the current user, decides which invitations they manage
+}
+
+const inputClassName =
+  "w-full border dark:border-gray-300 rounded-md px-4 py-2 bg-white text-black dark:bg-gray-800 dark:text-white";
+
+// Validation errors carry their message per field, other errors in the error itself
+const errorMessage = (error: unknown, fallback: string) => {
+  const errors = normalizeFieldErrors(error);
+  if (errors) return errors.formError || Object.values(errors.fieldErrors)[0] || fallback;
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+// Invitations section of the manage users page, only shown to members who manage users
+// People are invited by email with a role and join the company from the link in the
+// email, even when they do not have an account yet. Invitations expire, so they can be
+// resent with a new link, and revoked until they are accepted
+export default function PendingInvitations({ companyId, myRole }: PendingInvitationsProps) {
+  const [invitations, setInvitations] = useState<Invitation[] | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CompanyRole>("viewer");
+  const [pendingRevoke, setPendingRevoke] = useState<Invitation | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Roles the current user may invite people with, only owners can invite owners
+  const assignableRoles = COMPANY_ROLES.filter(r => canManageMember(myRole, "viewer", r));
+
+  // Load the invitations of the company
+  useEffect(() => {
+    const controller = new AbortController();
+    setInvitations(null);
+    invitationApi
+      .list(companyId, { signal: controller.signal })
+      .then(setInvitations)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setError("Failed to load the pending invitations.");
+      });
+    return () => controller.abort();
+  }, [companyId]);
+
+  /**
+   * Run an invitation action with shared submitting state and feedback
+   * @param action - Request to send, resolves to the success message
+   * @param fallback - Error shown when the request fails without a message
+   */
+  const submit = async (action: () => Promise<string>, fallback: string) => {
+    setIsSubmitting(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await action());
+    } catch (error) {
+      setError(errorMessage(error, fallback));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(async () => {
+      const invitation = await invitationApi.create(companyId, email.trim(), role);
+      setInvitations(current => [...(current ?? []), invitation]);
+      setIsFormOpen(false);
+      setEmail("");
+      return `Invitation sent to ${invitation.email}.`;
+    }, "The invitation could not be sent. Please try again.");
+  };
+
+  const handleResend = (invitation: Invitation) =>
+    submit(async () => {
+      const updated = await invitationApi.resend(companyId, invitation.id);
+      setInvitations(current => current?.map(i => (i.id === updated.id ? updated : i)) ?? null);
+      return `Invitation sent to ${invitation.email} again.`;
+    }, "The invitation could not be resent. Please try again.");
+
+  // Revoke the invitation of the open dialog
+  const handleConfirmRevoke = () => {
+    if (!pendingRevoke) return;
+    const invitation = pendingRevoke;
+    setPendingRevoke(null);
+    submit(async () => {
+      await invitationApi.revoke(companyId, invitation.id);
+      setInvitations(current => current?.filter(i => i.id !== invitation.id) ?? null);
+      return `The invitation for ${invitation.email} was revoked.`;
+    }, "The invitation could not be revoked. Please try again.");
+  };
+
+  return (
+    <Card className="mt-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Pending invitations</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Invite people by email, they join the company once they accept
+          </p>
+        </div>
+        {!isFormOpen && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setIsFormOpen(true);
+              setMessage(null);
+              setError(null);
+            }}
+          >
+            Invite by email
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <p className="mt-4 text-sm text-green-700 dark:text-green-400" role="status">
+          {message}
+        </p>
+      )}
+      {error && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* Invitation form */}
+      {isFormOpen && (
+        <form onSubmit={handleInvite} className="mt-6 space-y-4">
+          <div>
+            <label htmlFor="invite_email" className="block mb-1">
+              Email
+            </label>
+            <input
+              id="invite_email"
+              type="email"
+              required
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="invite_role" className="block mb-1">
+              Role
+            </label>
+            <select
+              id="invite_role"
+              value={role}
+              onChange={e => setRole(e.target.value as CompanyRole)}
+              className={inputClassName}
+            >
+              {assignableRoles.map(r => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {ROLE_DESCRIPTIONS[role]}
+            </p>
+          </div>
+          <div className="flex justify-end space-x-4">
+            <Button variant="outline" type="button" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !email.trim()}>
+              {isSubmitting ? "Sending..." : "Send invitation"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {invitations && invitations.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-200 dark:divide-gray-700">
+          {invitations.map(invitation => {
+            const isExpired = new Date(invitation.expires_at).getTime() <= Date.now();
+            const canManage = canManageMember(myRole, invitation.role);
+            return (
+              <li
+                key={invitation.id}
+                className="py-4 flex flex-wrap justify-between items-center gap-4"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">{invitation.email}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {ROLE_LABELS[invitation.role]}
+                    {invitation.invited_by && ` · Invited by ${invitation.invited_by}`} ·{" "}
+                    {isExpired ? (
+                      <span className="text-red-700 dark:text-red-400">
+                        Expired {formatDate(invitation.expires_at)}
+                      </span>
+                    ) : (
+                      `Expires ${formatDate(invitation.expires_at)}`
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResend(invitation)}
+                    disabled={isSubmitting || !canManage}
+                    ariaLabel={`Resend invitation to ${invitation.email}`}
+                  >
+                    Resend
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPendingRevoke(invitation)}
+                    disabled={isSubmitting || !canManage}
+                    ariaLabel={`Revoke invitation to ${invitation.email}`}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {invitations?.length === 0 && !isFormOpen && (
+        <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">
+          There are no pending invitations.
+        </p>
+      )}
+
+      {/* Confirmation for revoking an invitation */}
+      {pendingRevoke && (
+        <PopupModal
+          title="Revoke invitation"
+          confirmLabel="Revoke"
+          onConfirm={handleConfirmRevoke}
+          onClose={() => setPendingRevoke(null)}
+        >
+          <p className="text-gray-800 dark:text-gray-200">
+            The invitation link sent to {pendingRevoke.email} will stop working.
+          </p>
+        </PopupModal>
+      )}
+    </Card>
+  );
+}
@@ -3,22 +3,34 @@
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { Trash, X } from "lucide-react";
 import { companyApi, AuthenticatedUser } from "@/lib/api/companyApi";
+import { isAbortError } from "@/lib/api/apiClient";
 import { useAuth } from "../context/AuthContext";
 import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 import { Column, OurTable } from "../components/ui/OurTable";
+import { useCompanyPermissions } from "@/hooks/useCompanyPermissions";
+import PendingInvitations from "./components/PendingInvitations";
+import {
+  canManageMember,
+  COMPANY_ROLES,
+  CompanyRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+} from "@/lib/companyPermissions";
 
 /**
  * Manage Users Page Component
  * 
  * This component provides a comprehensive interface for managing authorized users within a company.
- * Company administrators can view, add, and remove users who have access to company data.
+ * Every member can view the users and their roles, owners and admins can add and remove users
+ * and change their roles.
  * 
  * Key Features:
- * - Display all authorized users in a tabular format
- * - Add new users by username with validation
+ * - Display all authorized users and their roles in a tabular format
+ * - Add new users by username with a role
+ * - Invite people by email, with resend and revoke for pending invitations
+ * - Change roles, only owners can assign or change the owner role
  * - Remove existing users with confirmation
  * - Real-time user list updates after operations
  * - Modal-based user interactions for add/remove operations
@@ -28,11 +40,8 @@ import { Column, OurTable } from "../components/ui/OurTable";
  * - Authentication requirements and company selection validation
  */
 export default function ManageUserPage() {
-  const router = useRouter();
-  const { isLoading, requireAuth } = useAuth();
-
-  // Require authentication for this page - redirect to login if not authenticated
-  requireAuth();
+  const { user: currentUser, isLoading } = useAuth();
+  const { role: myRole, can, reload: reloadMyRole } = useCompanyPermissions();
 
   // Company identification state
   const [companyId, setCompanyId] = useState<string | null>(null);
@@ -46,6 +55,7 @@ export default function ManageUserPage() {
   // Add User Modal and Form State Management
   const [activeAddingModal, setAddingModal] = useState(false);
   const [userToAdd, setUserToAdd] = useState<string>("");
+  const [roleToAdd, setRoleToAdd] = useState<CompanyRole>("viewer");
   const [isAddingUser, setIsAddingUser] = useState(false);
   const [addingMessage, setAddingMessage] = useState<string | null>(null);
   const [addingError, setAddingError] = useState<string | null>(null);
@@ -58,18 +68,20 @@ export default function ManageUserPage() {
   const [removalMessage, setRemovalMessage] = useState<string | null>(null);
   const [removingError, setRemovingError] = useState<string | null>(null);
 
+  // Role change feedback
+  const [roleMessage, setRoleMessage] = useState<string | null>(null);
+  const [roleError, setRoleError] = useState<string | null>(null);
+
+  // Roles the current user may give to others, only owners can make someone an owner
+  const assignableRoles = COMPANY_ROLES.filter(role => canManageMember(myRole, "viewer", role));
+
   /**
-   * Check authentication and extract company ID from localStorage
-   * Redirects to company list if no company is selected
+   * Extract company ID from localStorage
+   * RouteGuard only renders the page once a company is selected
    */
   useEffect(() => {
-    const id = localStorage.getItem("selected_company_id");
-    if (!id) {
-      router.push("/list-companies");
-      return;
-    }
-    setCompanyId(id);
-  }, [router]);
+    setCompanyId(localStorage.getItem("selected_company_id"));
+  }, []);
 
   /**
    * Fetch users data when company ID changes or refresh is triggered
@@ -78,24 +90,29 @@ export default function ManageUserPage() {
   useEffect(() => {
     if (!companyId) return;
 
+    // Cancel the request if the company changes or the page unmounts
+    const controller = new AbortController();
+
     const fetchUsers = async () => {
       try {
         setDataLoading(true);
         if (companyId) {
           // Explicit null check for TypeScript safety
-          const userData = await companyApi.listUsers(companyId);
+          const userData = await companyApi.listUsers(companyId, { signal: controller.signal });
           setUsers(userData);
           setLoadingError(null);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Error fetching users:", err);
         setLoadingError(err instanceof Error ? err.message : "Failed to load authorized users");
       } finally {
-        setDataLoading(false);
+        if (!controller.signal.aborted) setDataLoading(false);
       }
     };
 
     fetchUsers();
+    return () => controller.abort();
   }, [companyId, refreshKey]);
 
   /**
@@ -113,8 +130,10 @@ export default function ManageUserPage() {
 
     try {
       // Add user via company API
-      await companyApi.addUser(companyId, userToAdd);
-      setAddingMessage(`Successfully added ${userToAdd} to the company!`);
+      await companyApi.addUser(companyId, userToAdd, roleToAdd);
+      setAddingMessage(
+        `Successfully added ${userToAdd} to the company as ${ROLE_LABELS[roleToAdd].toLowerCase()}!`
+      );
       
       // Trigger refresh of users list to show new user
       setRefreshKey(prev => prev + 1);
@@ -159,6 +178,26 @@ export default function ManageUserPage() {
     }
   };
 
+  /**
+   * Handle changing the role of a member
+   * Reloads the current user's own permissions when they changed their own role
+   */
+  const handleRoleChange = async (member: AuthenticatedUser, role: CompanyRole) => {
+    if (!companyId || role === member.role) return;
+
+    setRoleMessage(null);
+    setRoleError(null);
+    try {
+      const updated = await companyApi.updateUserRole(companyId, member.id, role);
+      setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+      setRoleMessage(`${member.username} is now ${ROLE_LABELS[role].toLowerCase()}.`);
+      if (member.id === currentUser?.id) reloadMyRole();
+    } catch (err) {
+      console.error("Error changing role:", err);
+      setRoleError(err instanceof Error ? err.message : "Failed to change the role of the user");
+    }
+  };
+
   // Show loading skeleton while authentication state is being determined
   if (isLoading) {
     return (
@@ -176,6 +215,29 @@ export default function ManageUserPage() {
     { key: "email", label: "Email" },
     { key: "first_name", label: "First Name" },
     { key: "last_name", label: "Last Name" },
+    {
+      key: "role",
+      label: "Role",
+      render: (_value, user) =>
+        // Members the current user may manage get a role selector, others a plain label
+        canManageMember(myRole, user.role) ? (
+          <select
+            value={user.role}
+            onChange={e => handleRoleChange(user, e.target.value as CompanyRole)}
+            onClick={e => e.stopPropagation()}
+            aria-label={`Role of ${user.username}`}
+            className="border px-2 py-1 rounded-md bg-white text-black dark:bg-gray-800 dark:text-white"
+          >
+            {COMPANY_ROLES.filter(role => canManageMember(myRole, user.role, role)).map(role => (
+              <option key={role} value={role} title={ROLE_DESCRIPTIONS[role]}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span title={ROLE_DESCRIPTIONS[user.role]}>{ROLE_LABELS[user.role]}</span>
+        ),
+    },
     {
       key: "actions",
       label: "Remove",
@@ -184,6 +246,8 @@ export default function ManageUserPage() {
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+          disabled={!canManageMember(myRole, user.role)}
+          ariaLabel={`Remove ${user.username}`}
           onClick={e => {
             e.stopPropagation();
             setUserIdToRemove(user.id);
@@ -233,6 +297,28 @@ export default function ManageUserPage() {
                 className="w-full border dark:border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
 
+              {/* Role of the new member */}
+              <div className="w-full">
+                <label htmlFor="role_to_add" className="block mb-1">
+                  Role
+                </label>
+                <select
+                  id="role_to_add"
+                  value={roleToAdd}
+                  onChange={e => setRoleToAdd(e.target.value as CompanyRole)}
+                  className="w-full border dark:border-gray-300 rounded-md px-4 py-2 bg-white text-black dark:bg-gray-800 dark:text-white"
+                >
+                  {assignableRoles.map(role => (
+                    <option key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {ROLE_DESCRIPTIONS[roleToAdd]}
+                </p>
+              </div>
+
               {/* Success message display for adding users */}
               {addingMessage && (
                 <div className="w-100 max-w-full text-center text-green-500 rounded-md">
@@ -301,22 +387,28 @@ export default function ManageUserPage() {
           <div>
             <h1 className="text-3xl font-semibold mb-2">Manage Authorized Users</h1>
             <h2 className="text-md dark:text-gray-400">
-              View or remove users from the company here.
+              {can("manage_users")
+                ? "View, add or remove users and change their roles here."
+                : "View the users of the company and their roles. Only owners and admins can change them."}
             </h2>
           </div>
-          <div className="flex items-end">
-            <Button
-              className="w-3xs mt-6 hover:cursor-pointer"
-              onClick={() => setAddingModal(true)}
-            >
-              Add user
-            </Button>
-          </div>
+          {can("manage_users") && (
+            <div className="flex items-end">
+              <Button
+                className="w-3xs mt-6 hover:cursor-pointer"
+                onClick={() => setAddingModal(true)}
+              >
+                Add user
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Status Messages Display */}
         {removalMessage && <div className="text-green-500 rounded-md mb-6">{removalMessage}</div>}
         {removingError && <div className="text-red-500 rounded-md mb-6">{removingError}</div>}
+        {roleMessage && <div className="text-green-500 rounded-md mb-6">{roleMessage}</div>}
+        {roleError && <div className="text-red-500 rounded-md mb-6">{roleError}</div>}
 
         {/* Users Table Display with Loading and Error States */}
         {dataLoading ? (
@@ -335,6 +427,11 @@ export default function ManageUserPage() {
             />
           </Card>
         )}
+
+        {/* Invitations by email, managed by the same roles that add users */}
+        {companyId && can("manage_users") && (
+          <PendingInvitations companyId={companyId} myRole={myRole} />
+        )}
       </div>
     </div>
   );
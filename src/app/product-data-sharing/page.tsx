@@ -3,13 +3,15 @@
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Check, X } from "lucide-react";
 import { productApi, ProductSharingRequest } from "@/lib/api/productApi";
 import { companyApi } from "@/lib/api/companyApi";
+import { isAbortError } from "@/lib/api/apiClient";
 import { useAuth } from "../context/AuthContext";
 import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 import { Column, OurTable } from "../components/ui/OurTable";
+import { useCompanyPermissions } from "@/hooks/useCompanyPermissions";
 
 /**
  * Enhanced data structure for display purposes
@@ -41,11 +43,14 @@ interface DataSharingRequestDisplay {
  * - Refresh mechanism for updated data display
  */
 export default function ProductDataSharing() {
-  const router = useRouter();
-  const { isLoading, requireAuth } = useAuth();
+  const { user, isLoading } = useAuth();
 
-  // Require authentication for this page - redirect to login if not authenticated
-  requireAuth();
+  // Requests can only be answered once the user's email address is verified
+  const emailUnverified = user?.email_verified === false;
+
+  // Only owners and admins may answer requests for the company's data
+  const { can, isLoading: isRoleLoading } = useCompanyPermissions();
+  const canAnswer = can("manage_sharing") && !emailUnverified;
 
   // Company identification state
   const [companyId, setCompanyId] = useState<string | null>(null);
@@ -75,17 +80,12 @@ export default function ProductDataSharing() {
   const [requestedProduct, setRequestedProduct] = useState<string | null>(null);
 
   /**
-   * Extract and validate company ID from localStorage
-   * Redirects to company list if no company is selected
+   * Extract company ID from localStorage
+   * RouteGuard only renders the page once a company is selected
    */
   useEffect(() => {
-    const id = localStorage.getItem("selected_company_id");
-    if (!id) {
-      router.push("/list-companies");
-      return;
-    }
-    setCompanyId(id);
-  }, [router]);
+    setCompanyId(localStorage.getItem("selected_company_id"));
+  }, []);
 
   /**
    * Fetch and process sharing requests when company ID changes or refresh is triggered
@@ -94,13 +94,19 @@ export default function ProductDataSharing() {
   useEffect(() => {
     if (!companyId) return;
 
+    // Cancel all lookups if the company changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchRequests = async () => {
       try {
         setDataLoading(true);
         // Using centralized productApi instead of direct fetch
         if (companyId) {
           // Explicit null check for TypeScript safety
-          const sharingRequests = await productApi.getProductSharingRequests(companyId);
+          const sharingRequests = await productApi.getProductSharingRequests(companyId, {
+            signal,
+          });
 
           // Process the requests to include resolved company names for better UX
           const requestsWithCompanyNames: DataSharingRequestDisplay[] = await Promise.all(
@@ -109,9 +115,12 @@ export default function ProductDataSharing() {
 
               try {
                 // Resolve the requesting company details for display
-                const companyData = await companyApi.getCompany(request.requester.toString());
+                const companyData = await companyApi.getCompany(request.requester.toString(), {
+                  signal,
+                });
                 companyName = companyData.name;
               } catch (err) {
+                if (isAbortError(err)) throw err;
                 console.error("Error fetching company name:", err);
                 // Continue with default name if company lookup fails
               }
@@ -130,14 +139,16 @@ export default function ProductDataSharing() {
           setLoadingError(null);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Error fetching sharing requests:", err);
         setLoadingError(err instanceof Error ? err.message : "Failed to load sharing requests");
       } finally {
-        setDataLoading(false);
+        if (!signal.aborted) setDataLoading(false);
       }
     };
 
     fetchRequests();
+    return () => controller.abort();
   }, [companyId, refreshKey]);
 
   /**
@@ -260,6 +271,7 @@ export default function ProductDataSharing() {
           <Button
             size="sm"
             className="flex items-center gap-1 text-xs !bg-green-500 !border-green-500 !text-white hover:cursor-pointer"
+            disabled={!canAnswer}
             onClick={e => {
               e.stopPropagation();
               setRequestToApprove(request.id.toString());
@@ -275,6 +287,7 @@ export default function ProductDataSharing() {
           <Button
             size="sm"
             className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+            disabled={!canAnswer}
             onClick={e => {
               e.stopPropagation();
               setRequestToDeny(request.id.toString());
@@ -373,6 +386,23 @@ export default function ProductDataSharing() {
           the emission data related to that product.
         </h2>
 
+        {/* Unverified accounts cannot answer requests yet */}
+        {emailUnverified && (
+          <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md mb-6 dark:bg-yellow-900/20 dark:text-yellow-200">
+            Please verify your email address before approving or denying requests.{" "}
+            <Link href="/verify-email" className="underline">
+              Resend verification email
+            </Link>
+          </div>
+        )}
+
+        {/* Members without the right role can only view requests */}
+        {!isRoleLoading && !can("manage_sharing") && (
+          <div className="p-3 bg-gray-50 text-gray-700 rounded-md mb-6 dark:bg-gray-800 dark:text-gray-300">
+            Only owners and admins of the company can approve or deny requests.
+          </div>
+        )}
+
         {/* Status Messages Display */}
         {approveMessage && <div className="text-green-500 rounded-md mb-6">{approveMessage}</div>}
         {approveError && <div className="text-red-500 rounded-md mb-6">{approveError}</div>}
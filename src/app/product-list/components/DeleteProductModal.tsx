@@ -1,6 +1,6 @@
 import { useRouter } from "next/navigation";
 import Modal from "@/app/components/ui/PopupModal";
-import { Product } from "@/lib/api/productApi";
+import { Product, productApi } from "@/lib/api/productApi";
 
 /**
  * Props interface for the DeleteProductModal component
@@ -58,29 +58,19 @@ export const confirmDelete = async ({
   setIsDeleting(true);
 
   try {
-    // Retrieve authentication token and company ID from localStorage
+    // Retrieve company ID from localStorage
     // Using typeof check for SSR compatibility
-    const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
     const company_pk =
       typeof window !== "undefined" ? localStorage.getItem("selected_company_id") : null;
 
-    // Redirect to login if authentication is missing
-    if (!token || !company_pk) {
+    // Redirect to login if the company context is missing
+    if (!company_pk) {
       router.push("/login");
       return;
     }
 
-    // Make API call to delete the product
-    const res = await fetch(
-      `${process.env.NEXT_PUBLIC_API_URL}/companies/${company_pk}/products/${toDeleteProduct.id}/`,
-      { method: "DELETE", headers: { Authorization: `Bearer ${token}` } }
-    );
-
-    // Handle API errors with improved error message extraction
-    if (!res.ok) {
-      const errData = await res.json().catch(() => null);
-      throw new Error(errData?.detail || "Failed to delete product");
-    }
+    // Make API call to delete the product, which also drops cached BOM data that lists it
+    await productApi.deleteProduct(company_pk, toDeleteProduct.id);
 
     // Update UI to show success state
     setDeleteSuccess(true);
@@ -1,45 +1,92 @@
-import { Trash, Edit, Sparkles, FileDown, Info, Boxes } from "lucide-react";
+import { ReactNode } from "react";
+import {
+  Trash,
+  Edit,
+  Sparkles,
+  FileDown,
+  Info,
+  Boxes,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+} from "lucide-react";
 import Link from "next/link";
 import Button from "@/app/components/ui/Button";
 import { TableRow } from "@/app/components/ui/tableRow";
 import { Product } from "@/lib/api/productApi";
 
 interface ProductTableProps {
-  products: Product[];
-  paginatedProducts: Product[];
+  products: Product[]; // Products loaded so far
+  count: number | null; // Total number of matching products, null if unknown
+  hasMore: boolean;
   dataLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
-  currentPage: number;
-  rowsPerPage: number;
   isDeleting: boolean;
+  canEdit: boolean; // Whether the user's role allows changing and deleting products
   searchQuery: string;
+  ordering: string;
+  sentinelRef: (node: Element | null) => void; // Loads the next page once it scrolls into view
   // Event handlers
   onProductClick: (id: string) => void;
   onExportClick: (product: Product, e: React.MouseEvent) => void;
   onAIButtonClick: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
-  onPageChange: (page: number) => void;
-  onRowsPerPageChange: (rows: number) => void;
+  onLoadMore: () => void;
+  onOrderingChange: (ordering: string) => void;
+}
+
+interface SortableHeaderProps {
+  field: string;
+  label: ReactNode;
+  ordering: string;
+  onOrderingChange: (ordering: string) => void;
+}
+
+// Column header that orders the list by its field, a second click reverses the order
+function SortableHeader({ field, label, ordering, onOrderingChange }: SortableHeaderProps) {
+  const direction =
+    ordering === field ? "ascending" : ordering === `-${field}` ? "descending" : "none";
+  const Icon =
+    direction === "ascending" ? ArrowUp : direction === "descending" ? ArrowDown : ArrowUpDown;
+
+  return (
+    <th scope="col" className="p-2" aria-sort={direction}>
+      <button
+        type="button"
+        className="flex items-center gap-1 hover:cursor-pointer"
+        onClick={() => onOrderingChange(direction === "ascending" ? `-${field}` : field)}
+      >
+        {label}
+        <Icon className="w-3 h-3 text-gray-400" aria-hidden="true" />
+      </button>
+    </th>
+  );
 }
 
 export default function ProductTable({
   products,
-  paginatedProducts,
+  count,
+  hasMore,
   dataLoading,
+  isLoadingMore,
   error,
-  currentPage,
-  rowsPerPage,
   isDeleting,
   searchQuery,
+  ordering,
+  sentinelRef,
   onProductClick,
   onExportClick,
   onAIButtonClick,
   onEdit,
   onDelete,
-  onPageChange,
-  onRowsPerPageChange,
+  onLoadMore,
+  onOrderingChange,
+  canEdit,
 }: ProductTableProps) {
+  const total = count ?? products.length;
+
   return (
     <>
       {dataLoading ? (
@@ -60,22 +107,34 @@ export default function ProductTable({
           <div className="hidden sm:block overflow-x-auto">
             <table className="min-w-full table-auto text-base" role="table">
               <caption className="sr-only">
-                Product list showing {paginatedProducts.length} of {products.length} products
+                Product list showing {products.length} of {total} products
               </caption>
               <thead>
                 <tr className="text-left border-b">
-                  <th scope="col" className="p-2">
-                    Manufacturer
-                  </th>
-                  <th scope="col" className="p-2">
-                    Product name
-                  </th>
-                  <th scope="col" className="p-2">
-                    <abbr title="Stock Keeping Unit">SKU</abbr>
-                  </th>
-                  <th scope="col" className="p-2">
-                    <abbr title="Product Carbon Footprint">PCF</abbr>
-                  </th>
+                  <SortableHeader
+                    field="manufacturer_name"
+                    label="Manufacturer"
+                    ordering={ordering}
+                    onOrderingChange={onOrderingChange}
+                  />
+                  <SortableHeader
+                    field="name"
+                    label="Product name"
+                    ordering={ordering}
+                    onOrderingChange={onOrderingChange}
+                  />
+                  <SortableHeader
+                    field="sku"
+                    label={<abbr title="Stock Keeping Unit">SKU</abbr>}
+                    ordering={ordering}
+                    onOrderingChange={onOrderingChange}
+                  />
+                  <SortableHeader
+                    field="emission_total"
+                    label={<abbr title="Product Carbon Footprint">PCF</abbr>}
+                    ordering={ordering}
+                    onOrderingChange={onOrderingChange}
+                  />
                   <th scope="col" className="p-2 text-right">
                     Actions
                   </th>
@@ -83,7 +142,7 @@ export default function ProductTable({
               </thead>
 
               <tbody className="text-base">
-                {paginatedProducts.map(product => (
+                {products.map(product => (
                   <TableRow
                     key={product.id}
                     onClick={() => onProductClick(product.id)}
@@ -135,7 +194,7 @@ export default function ProductTable({
                             e.stopPropagation();
                             onEdit(product.id);
                           }}
-                          aria-label={`Edit ${product.name}`}
+                          aria-label={`${canEdit ? "Edit" : "View"} ${product.name}`}
                         >
                           <Edit className="w-4 h-4" aria-hidden="true" />
                         </Button>
@@ -148,7 +207,7 @@ export default function ProductTable({
                             e.stopPropagation();
                             onDelete(product.id);
                           }}
-                          disabled={isDeleting}
+                          disabled={isDeleting || !canEdit}
                           aria-label={`Delete ${product.name}`}
                         >
                           <Trash className="w-4 h-4" aria-hidden="true" />
@@ -159,7 +218,7 @@ export default function ProductTable({
                 ))}
 
                 {/* Empty state */}
-                {paginatedProducts.length === 0 && !dataLoading && (
+                {products.length === 0 && !dataLoading && (
                   <tr>
                     <td colSpan={5} className="text-center py-8">
                       {searchQuery.length > 0 && searchQuery.length < 4 ? (
@@ -179,9 +238,11 @@ export default function ProductTable({
                               Start by adding your first product to calculate its carbon footprint.
                             </p>
                           </div>
-                          <Link href="/product-list/product">
-                            <Button className="mt-4">Add Your First Product</Button>
-                          </Link>
+                          {canEdit && (
+                            <Link href="/product-list/product">
+                              <Button className="mt-4">Add Your First Product</Button>
+                            </Link>
+                          )}
                         </div>
                       )}
                     </td>
@@ -193,7 +254,7 @@ export default function ProductTable({
 
           {/* Phone only stacked list */}
           <div className="sm:hidden space-y-4">
-            {paginatedProducts.map(product => (
+            {products.map(product => (
               <div
                 key={product.id}
                 className="border rounded-md p-4 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
@@ -263,7 +324,7 @@ export default function ProductTable({
                         e.stopPropagation();
                         onEdit(product.id);
                       }}
-                      aria-label={`Edit ${product.name}`}
+                      aria-label={`${canEdit ? "Edit" : "View"} ${product.name}`}
                     >
                       <Edit className="w-4 h-4 text-white" />
                     </Button>
@@ -276,7 +337,7 @@ export default function ProductTable({
                         e.stopPropagation();
                         onDelete(product.id);
                       }}
-                      disabled={isDeleting}
+                      disabled={isDeleting || !canEdit}
                       aria-label={`Delete ${product.name}`}
                     >
                       <Trash className="w-4 h-4 text-white" />
@@ -287,7 +348,7 @@ export default function ProductTable({
             ))}
 
             {/* Mobile empty-state */}
-            {paginatedProducts.length === 0 && !dataLoading && (
+            {products.length === 0 && !dataLoading && (
               <div className="text-center py-8">
                 {searchQuery.length > 0 && searchQuery.length < 4 ? (
                   <p className="text-gray-500">Please enter at least 4 characters to search.</p>
@@ -311,53 +372,27 @@ export default function ProductTable({
             )}
           </div>
 
-          {/* Pagination */}
+          {/* Infinite scrolling, further pages load when the sentinel scrolls into view */}
           {products.length > 0 && (
             <nav
               className="flex justify-between items-center mt-4"
               aria-label="Product list pagination"
             >
-              <div className="flex items-center gap-2">
-                <Button
-                  className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-                  onClick={() => onPageChange(Math.max(1, currentPage - 1))}
-                  disabled={currentPage === 1}
-                  aria-label="Go to previous page"
-                >
-                  Previous
-                </Button>
-                <span className="text-sm" aria-current="page" aria-live="polite">
-                  Page {currentPage} of {Math.ceil(products.length / rowsPerPage)}
-                </span>
-                <Button
-                  className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-                  onClick={() => onPageChange(currentPage + 1)}
-                  disabled={currentPage * rowsPerPage >= products.length}
-                  aria-label="Go to next page"
-                >
-                  Next
-                </Button>
-              </div>
-              <div>
-                <label htmlFor="rows-per-page" className="text-sm">
-                  Rows per page:
-                </label>
-                <select
-                  id="rows-per-page"
-                  className="border rounded px-2 py-1 text-sm ml-2 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  value={rowsPerPage}
-                  onChange={e => {
-                    const newValue = Number(e.target.value);
-                    onRowsPerPageChange(newValue);
-                    onPageChange(1);
-                  }}
-                  aria-label="Select number of rows per page"
-                >
-                  <option value={15}>15</option>
-                  <option value={30}>30</option>
-                  <option value={50}>50</option>
-                </select>
-              </div>
+              <span className="text-sm" aria-live="polite">
+                Showing {products.length} of {total} products
+              </span>
+              {hasMore && (
+                <div ref={sentinelRef}>
+                  <Button
+                    className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                    onClick={onLoadMore}
+                    disabled={isLoadingMore}
+                    aria-label="Load more products"
+                  >
+                    {isLoadingMore ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
             </nav>
           )}
         </>
@@ -23,6 +23,8 @@ interface SearchAndImportSectionProps {
   handleInputChange: (e: React.ChangeEvent<HTMLInputElement>, type: "aasx" | "csv") => void;
   // Callback for displaying errors from operations
   setError: (error: string) => void;
+  // Whether the user's role in the company allows adding and importing products
+  canEdit: boolean;
 }
 
 // Component implementation with type-checked props
@@ -31,6 +33,7 @@ const SearchAndImportSection: React.FC<SearchAndImportSectionProps> = ({
   setSearchQuery,
   handleInputChange,
   setError,
+  canEdit,
 }) => {
   // Router hook for navigation
   const router = useRouter();
@@ -100,21 +103,25 @@ const SearchAndImportSection: React.FC<SearchAndImportSectionProps> = ({
         </span>
       </div>
 
-      {/* Add Product Button */}
-      <Button onClick={() => router.push(`/product-list/product`)} className="text-md truncate">
-        Add Product
-      </Button>
-
-      {/* Import Dropdown Toggle Button */}
-      <Button
-        onClick={() => setShowImportDropdown((prev) => !prev)}
-        className="text-md"
-        aria-haspopup="true"
-        aria-expanded={showImportDropdown}
-        aria-label="Import product data"
-      >
-        <ChevronDown className="w-4 h-4" />
-      </Button>
+      {/* Add Product and Import Buttons, hidden for members who can only view products */}
+      {canEdit && (
+        <>
+          <Button onClick={() => router.push(`/product-list/product`)} className="text-md truncate">
+            Add Product
+          </Button>
+
+          {/* Import Dropdown Toggle Button */}
+          <Button
+            onClick={() => setShowImportDropdown((prev) => !prev)}
+            className="text-md"
+            aria-haspopup="true"
+            aria-expanded={showImportDropdown}
+            aria-label="Import product data"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </>
+      )}
 
       {/* Hidden file inputs triggered programmatically */}
       {/* AASX/JSON/XML file input */}
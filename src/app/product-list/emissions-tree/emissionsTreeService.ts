@@ -9,6 +9,10 @@ import { ReadonlyURLSearchParams } from "next/navigation";
 import { auditLogApi, LogItem } from "@/lib/api/auditLogApi";
 // Import API client modules and type definitions for product and emission data
 import { productApi, EmissionTrace, Product } from "@/lib/api/productApi";
+// Import helper for recognising cancelled requests
+import { isAbortError } from "@/lib/api/apiClient";
+// Import session helper for checking that the user is signed in
+import { hasSession } from "@/lib/api/session";
 
 // Define the parameter interface for the fetchEmissionsTreeData function
 // This ensures type safety and documents all required parameters in a single place
@@ -29,14 +33,14 @@ interface FetchEmissionsTreeDataParams {
   setProduct: Dispatch<SetStateAction<Product | null>>;
   // State setter for storing the product's audit log history
   setLogItems: Dispatch<SetStateAction<LogItem[]>>;
+  // Signal that cancels all requests when the page unmounts or the product changes
+  signal?: AbortSignal;
 }
 
-// Helper function to validate authentication token
+// Helper function to validate the stored session
 // Returns early validation result to prevent unnecessary API calls
 const validateAuthentication = (setError: Dispatch<SetStateAction<string>>, setDataLoading: Dispatch<SetStateAction<boolean>>) => {
-  const token = localStorage.getItem("access_token");
-  
-  if (!token) {
+  if (!hasSession()) {
     setError("No authentication token found");
     setDataLoading(false);
     return false;
@@ -66,14 +70,17 @@ const fetchEmissionTraces = async (
   companyId: string,
   productId: string,
   setEmissions: Dispatch<SetStateAction<EmissionTrace | null>>,
-  setError: Dispatch<SetStateAction<string>>
+  setError: Dispatch<SetStateAction<string>>,
+  signal?: AbortSignal
 ) => {
   try {
     // Call the API to fetch emission trace data
-    const emissionData = await productApi.getProductEmissionTrace(companyId, productId);
+    const emissionData = await productApi.getProductEmissionTrace(companyId, productId, { signal });
     // Update state with the fetched data
     setEmissions(emissionData);
   } catch (err) {
+    // Cancelled requests belong to a page that is no longer shown
+    if (isAbortError(err)) throw err;
     // Log detailed error for debugging purposes
     console.error("Error fetching emission traces:", err);
     // Set user-friendly error message
@@ -87,14 +94,17 @@ const fetchProductData = async (
   companyId: string,
   productId: string,
   setProduct: Dispatch<SetStateAction<Product | null>>,
-  setError: Dispatch<SetStateAction<string>>
+  setError: Dispatch<SetStateAction<string>>,
+  signal?: AbortSignal
 ) => {
   try {
     // Call the API to fetch product details
-    const productData = await productApi.getProduct(companyId, productId);
+    const productData = await productApi.getProduct(companyId, productId, { signal });
     // Update state with the fetched product data
     setProduct(productData);
   } catch (err) {
+    // Cancelled requests belong to a page that is no longer shown
+    if (isAbortError(err)) throw err;
     // Log detailed error for debugging purposes
     console.error("Error fetching product data:", err);
     // Set user-friendly error message
@@ -108,18 +118,22 @@ const fetchProductData = async (
 const fetchAuditLogs = async (
   companyId: string,
   productId: string,
-  setLogItems: Dispatch<SetStateAction<LogItem[]>>
+  setLogItems: Dispatch<SetStateAction<LogItem[]>>,
+  signal?: AbortSignal
 ) => {
   try {
     // Call the API to fetch audit log entries
     // Note: parseInt is used because the audit log API requires numeric IDs
     const auditLogItems = await auditLogApi.getProductAuditLogs(
       parseInt(companyId),
-      parseInt(productId)
+      parseInt(productId),
+      { signal }
     );
     // Update state with the fetched audit log items
     setLogItems(auditLogItems);
   } catch (err) {
+    // Cancelled requests belong to a page that is no longer shown
+    if (isAbortError(err)) throw err;
     // Log error but don't set error state - audit logs are non-critical
     // This allows the page to still function even if audit logs fail to load
     console.error("Error fetching audit logs:", err);
@@ -148,7 +162,8 @@ export const fetchEmissionsTreeData = async ({
   setCompanyId,
   setEmissions,
   setProduct,
-  setLogItems
+  setLogItems,
+  signal,
 }: FetchEmissionsTreeDataParams): Promise<void> => {
   try {
     // Activate loading state to show users that data is being fetched
@@ -168,20 +183,24 @@ export const fetchEmissionsTreeData = async ({
     // Only proceed with data fetching if we have both company and product IDs
     if (companyId && productId) {
       // Fetch emission traces for the product
-      await fetchEmissionTraces(companyId, productId, setEmissions, setError);
+      await fetchEmissionTraces(companyId, productId, setEmissions, setError, signal);
       
       // Fetch detailed product data including metadata and emission totals
-      await fetchProductData(companyId, productId, setProduct, setError);
+      await fetchProductData(companyId, productId, setProduct, setError, signal);
       
       // Fetch audit log items for tracking product changes
-      await fetchAuditLogs(companyId, productId, setLogItems);
+      await fetchAuditLogs(companyId, productId, setLogItems, signal);
     }
   } catch (err: unknown) {
+    // A cancelled load leaves state to the request that replaced it
+    if (isAbortError(err)) return;
     // Global error handler for any uncaught exceptions
     handleGlobalError(err, setError);
   } finally {
     // Always turn off loading state, regardless of success or failure
     // This ensures the UI doesn't get stuck in a loading state
-    setDataLoading(false);
+    if (!signal?.aborted) {
+      setDataLoading(false);
+    }
   }
 };
\ No newline at end of file
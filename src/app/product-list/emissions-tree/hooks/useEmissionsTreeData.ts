@@ -9,8 +9,8 @@ import { fetchEmissionsTreeData } from "../emissionsTreeService";
 // Handles authentication, data loading, and error states for the emissions tree page
 // This hook centralizes the primary data fetching logic and provides loading/error states
 export function useEmissionsTreeData() {
-  // Authentication hook providing loading state and auth enforcement function
-  const { isLoading, requireAuth } = useAuth();
+  // Authentication hook providing the loading state
+  const { isLoading } = useAuth();
   // Next.js router for programmatic navigation and back button functionality
   const router = useRouter();
   // URL search parameters hook for accessing query string values like product ID
@@ -33,21 +33,24 @@ export function useEmissionsTreeData() {
   // Extract product ID from URL query parameters for data fetching
   const productId = searchParams.get("id");
 
-  requireAuth();
-
   useEffect(() => {
-    if (!isLoading) {
-      fetchEmissionsTreeData({
-        searchParams,
-        productId,
-        setDataLoading,
-        setError,
-        setCompanyId,
-        setEmissions,
-        setProduct,
-        setLogItems
-      });
-    }
+    if (isLoading) return;
+
+    // Cancel in-flight requests when the product changes or the page unmounts
+    const controller = new AbortController();
+    fetchEmissionsTreeData({
+      searchParams,
+      productId,
+      setDataLoading,
+      setError,
+      setCompanyId,
+      setEmissions,
+      setProduct,
+      setLogItems,
+      signal: controller.signal,
+    });
+
+    return () => controller.abort();
   }, [isLoading, searchParams, productId]);
 
   return {
@@ -1,5 +1,5 @@
 // Re-export functions from utility modules for backward compatibility
-export { handleRequestProductAdvice, handleTemplateDownload, fetchProducts } from "./utils/productApiHelpers";
+export { handleRequestProductAdvice, handleTemplateDownload, fetchProductPage } from "./utils/productApiHelpers";
 export { handleFileUpload } from "./utils/uploadHandlers";
 
 // Handles initiating the export workflow
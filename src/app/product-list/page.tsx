@@ -1,6 +1,9 @@
 "use client";
 
 import { useProductListHandlers } from "@/hooks/useProductListHandler";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import { useCompanyPermissions } from "@/hooks/useCompanyPermissions";
+import { listQuery } from "@/lib/api/pagination";
 import Card from "../components/ui/Card";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
@@ -29,7 +32,7 @@ if (typeof document !== "undefined") {
 // and AI-assisted product optimization.
 //
 // Features:
-// - Product listing with pagination and search functionality
+// - Product listing with infinite scrolling, server-side search and ordering
 // - Creation of new products with redirect to product form
 // - Editing of existing product details
 // - Deletion of products with confirmation workflow
@@ -45,7 +48,7 @@ if (typeof document !== "undefined") {
 // State management:
 // - Manages complex UI states for modals, loading states, and error handling
 // - Implements debounced search to optimize API calls
-// - Handles pagination locally to improve performance
+// - Loads further pages on demand and restores the scroll position when navigating back
 //
 // @returns {JSX.Element} The rendered product list page with all interactive components
 //
@@ -54,25 +57,60 @@ export default function ProductListPage() {
     // ── Local state declarations ─────────────────────────────────────────────
     // These hold product data, UI states, modals, and async flags
     // State used by useProductListHandlers
-    const [products, setProducts] = useState<Product[]>([]);
+    const [companyId, setCompanyId] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [listSearch, setListSearch] = useState(""); // Search query once the user stopped typing
+    const [ordering, setOrdering] = useState("");
+    const [mounted, setMounted] = useState(false);
     const [error, setError] = useState("");
     const [importNotice, setImportNotice] = useState<string | null>(null);
     const [importErrors, setImportErrors] = useState<{ attr: string; detail: string }[]>([]);
-    const [dataLoading, setDataLoading] = useState(false);
     const [selectedProductForExport, setSelectedProductForExport] = useState<Product | null>(null);
     const [showExportModal, setShowExportModal] = useState(false);
     const [toDeleteProduct, setToDeleteProduct] = useState<Product | null>(null);
     const [pendingProductId, setPendingProductId] = useState<string | null>(null);
+
+    // Viewers can browse and export products, but not add, import or delete them
+    const { can } = useCompanyPermissions();
+    const canEditProducts = can("edit_products");
     const [pendingProductName, setPendingProductName] = useState<string>("");
     const [aiModalStep, setAiModalStep] = useState<"confirm" | "loading" | "result" | null>(null);
 
     // ── Routing & Auth setup ─────────────────────────────────────────────────
     // Page navigation and authentication context
     const router = useRouter();
-    const { isLoading, requireAuth } = useAuth();
-
-    // Require authentication
-    requireAuth();
+    const { isLoading } = useAuth();
+
+    // ── Paginated product list ───────────────────────────────────────────────
+    // Search and ordering happen on the server, further pages load while scrolling
+    // Queries of 1-3 characters leave the list empty until the user types more
+    const listKey =
+        companyId && mounted && (listSearch.length === 0 || listSearch.length >= 4)
+            ? `products:${companyId}?${listQuery({ search: listSearch, ordering })}`
+            : null;
+    const {
+        items: products,
+        count,
+        hasMore,
+        isLoading: dataLoading,
+        isLoadingMore,
+        error: listError,
+        loadMore,
+        reload,
+        removeItems,
+        sentinelRef,
+    } = usePaginatedList<Product>(
+        listKey,
+        (next, signal) =>
+            Helpers.fetchProductPage({
+                companyId: companyId!,
+                next,
+                query: listSearch,
+                ordering,
+                signal,
+            }),
+        { restoreScroll: true }
+    );
 
     // ── Bind product handlers with all required setters and state ────────────
     // Handlers (must come after useRouter and all state setters)
@@ -86,12 +124,11 @@ export default function ProductListPage() {
         handleProductClick,
     } = useProductListHandlers({
         products,
-        setProducts,
+        refreshProducts: reload,
         router,
         setError,
         setImportNotice,
         setImportErrors,
-        setDataLoading,
         setSelectedProductForExport,
         setShowExportModal,
         setToDeleteProduct,
@@ -101,13 +138,8 @@ export default function ProductListPage() {
     });
 
     // ── UI State & Control flags ─────────────────────────────────────────────
-    // Various UI flags, pagination, and modal states
-    const [companyId, setCompanyId] = useState<string | null>(null);
-    const [searchQuery, setSearchQuery] = useState("");
-    const [currentPage, setCurrentPage] = useState(1);
-    const [rowsPerPage, setRowsPerPage] = useState(15);
+    // Various UI flags and modal states
     const [initializing, setInitializing] = useState(true);
-    const [mounted, setMounted] = useState(false);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
     // File input refs
@@ -162,71 +194,18 @@ export default function ProductListPage() {
         // Skip effect if running on server-side or if component isn't mounted yet
         if (typeof window === "undefined" || !mounted) return;
         // Retrieve the selected company ID from browser's localStorage
-        const id = localStorage.getItem("selected_company_id");
-        // If no company ID is found, redirect user to the company selection page
-        if (!id) {
-            router.push("/list-companies");
-        } else {
-            // Store the retrieved company ID in component state
-            setCompanyId(id);
-        }
+        // RouteGuard only renders the page once a company is selected
+        setCompanyId(localStorage.getItem("selected_company_id"));
         // Mark initialization as complete to hide loading indicators
         setInitializing(false);
-    }, [router, mounted]);
-
-    // ── Fetch product list when company ID becomes available ────────────────
-    // Fetch products on company ID change
-    useEffect(() => {
-        // Only fetch products when both company ID is available and component is mounted
-        if (companyId && mounted) {
-            Helpers.fetchProducts({
-                companyId,
-                onLoadingChange: setDataLoading,
-                onError: setError,
-                setProducts,
-                onAuthError: () => router.push("/login"),
-            });
-        }
-    }, [companyId, mounted]);
+    }, [mounted]);
 
     // ── Debounced search logic (300ms delay to limit API hits) ──────────────
-    // Debounced search
+    // Debounced search, the list starts over from its first page once the query settles
     useEffect(() => {
-        if (!mounted) return;
-
-        // Implement debounced search with 300ms delay to avoid excessive API calls
-        const t = setTimeout(() => {
-            // Skip fetching if no company is selected
-            if (!companyId) return;
-
-            // Only search when query is empty (show all) or has sufficient characters (at least 4)
-            // This prevents sending too many requests for very short queries
-            if (searchQuery.length === 0 || searchQuery.length >= 4) {
-                Helpers.fetchProducts({
-                    companyId,
-                    query: searchQuery,
-                    onLoadingChange: setDataLoading,
-                    onError: setError,
-                    setProducts,
-                    onAuthError: () => router.push("/login"),
-                });
-                // Reset to first page when search results change
-                setCurrentPage(1);
-            } else {
-                // Clear products when query is too short (1-3 characters)
-                setProducts([]);
-            }
-        }, 300);
-
+        const t = setTimeout(() => setListSearch(searchQuery), 300);
         return () => clearTimeout(t);
-    }, [searchQuery, companyId, mounted]);
-
-    // ── Local pagination (client-side slicing of products array) ────────────
-    // Pagination & slicing
-    const paginatedProducts = products.slice(
-        (currentPage - 1) * rowsPerPage,
-        currentPage * rowsPerPage
-    );
+    }, [searchQuery]);
 
     // ── Early return: show loading while auth or mount not complete ─────────
     // Early UI states
@@ -267,6 +246,7 @@ export default function ProductListPage() {
               setSearchQuery={setSearchQuery}
               handleInputChange={handleInputChange}
               setError={setError}
+              canEdit={canEditProducts}
             />
 
             {/* Global feedback messages (success, error, notices) */}
@@ -333,23 +313,23 @@ export default function ProductListPage() {
             <Card className="p-4">
                 <ProductTable
                     products={products}
-                    paginatedProducts={paginatedProducts}
+                    count={count}
+                    hasMore={hasMore}
                     dataLoading={dataLoading}
-                    error={error}
-                    currentPage={currentPage}
-                    rowsPerPage={rowsPerPage}
+                    isLoadingMore={isLoadingMore}
+                    error={error || listError}
                     isDeleting={isDeleting}
+                    canEdit={canEditProducts}
                     searchQuery={searchQuery}
+                    ordering={ordering}
+                    sentinelRef={sentinelRef}
                     onProductClick={handleProductClick}
                     onExportClick={handleExportClick}
                     onAIButtonClick={handleAIButtonClick}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
-                    onPageChange={setCurrentPage}
-                    onRowsPerPageChange={rows => {
-                        setRowsPerPage(rows);
-                        setCurrentPage(1);
-                    }}
+                    onLoadMore={loadMore}
+                    onOrderingChange={setOrdering}
                 />
             </Card>
 
@@ -410,7 +390,7 @@ export default function ProductListPage() {
                 onDeleteSuccess={() => {
                     // This will only run after successful deletion, so we don't need another deleteSuccess check
                     if (toDeleteProduct) {
-                        setProducts(products.filter(p => p.id !== toDeleteProduct.id));
+                        removeItems(p => p.id === toDeleteProduct.id);
                     }
                     // Set success message
                     if (toDeleteProduct) {
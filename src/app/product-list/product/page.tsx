@@ -28,6 +28,8 @@ import Button from "@/app/components/ui/Button";
 import PopupModal from "@/app/components/ui/PopupModal";
 import {useRouter} from "next/navigation";
 import {Mode} from "./enums";
+import {SESSION_ENDING_EVENT} from "@/app/context/AuthContext";
+import {useCompanyPermissions} from "@/hooks/useCompanyPermissions";
 
 //
 // API URL (env fallback)
@@ -40,6 +42,13 @@ export interface TabHandle {
     saveTab(): Promise<string>;
 
     updateTab(): Promise<string>;
+
+    /**
+     * called by parent when the session ends, keeps unsaved changes as a draft
+     * @param hasUnsavedChanges whether the tab form was changed since it was last saved,
+     * open modals are kept either way
+     */
+    saveDraft?(hasUnsavedChanges: boolean): void;
 }
 
 export type DataPassedToTabs = {
@@ -104,6 +113,18 @@ export default function ProductClientPage() {
 
     const router = useRouter();
 
+    // ── Permissions: viewers see the product read-only, all inputs are disabled ──
+    const {can, isLoading: isRoleLoading} = useCompanyPermissions();
+    const readOnly = !isRoleLoading && !can("edit_products");
+
+    // ── Effect: Keep unsaved tab changes as drafts whenever the session ends ──
+    useEffect(() => {
+        const handleSessionEnding = () => {
+            tabConfig.forEach(t => t.ref.current?.saveDraft?.(!t.saved));
+        };
+        window.addEventListener(SESSION_ENDING_EVENT, handleSessionEnding);
+        return () => window.removeEventListener(SESSION_ENDING_EVENT, handleSessionEnding);
+    }, [tabConfig]);
 
     // ── new refs for auto-scrolling the stepper on mobile ──────────────────────
     const tabListRef = useRef<HTMLDivElement | null>(null);
@@ -231,12 +252,14 @@ export default function ProductClientPage() {
                 {/* Page Title */}
                 <header className="text-center mb-12">
                     <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
-                        {mode === Mode.ADD ? "Add Product" : "Edit Product"}
+                        {readOnly ? "View Product" : mode === Mode.ADD ? "Add Product" : "Edit Product"}
                     </h1>
                     <p className="mt-2 text-gray-600 dark:text-gray-400">
-                        {mode === Mode.ADD
-                            ? "Create a new product and calculate its carbon footprint"
-                            : "Update product information and emissions data"}
+                        {readOnly
+                            ? "Your role in this company only allows viewing products"
+                            : mode === Mode.ADD
+                                ? "Create a new product and calculate its carbon footprint"
+                                : "Update product information and emissions data"}
                     </p>
                 </header>
 
@@ -332,7 +355,8 @@ export default function ProductClientPage() {
                         <TabPanels>
                             {tabConfig.map(t => (
                                 <TabPanel key={t.key} unmount={false}>
-                                    <div role="tabpanel" aria-labelledby={`tab-${t.key}`}>
+                                    {/* A disabled fieldset disables every control of the tab for viewers */}
+                                    <fieldset disabled={readOnly} role="tabpanel" aria-labelledby={`tab-${t.key}`}>
                                         <t.Comp
                                             ref={t.ref}
                                             productId={productId}
@@ -357,7 +381,7 @@ export default function ProductClientPage() {
                                                 }
                                             }}
                                         />
-                                    </div>
+                                    </fieldset>
                                 </TabPanel>
                             ))}
                         </TabPanels>
@@ -399,7 +423,7 @@ export default function ProductClientPage() {
                             </Button>
                         </div>
 
-                        {activeTab === 0 && (
+                        {activeTab === 0 && !readOnly && (
                             <Button
                                 onClick={onSaveProductInfoTab}
                                 disabled={tabConfig[activeTab].saved}
@@ -435,15 +459,24 @@ export default function ProductClientPage() {
                             Next
                         </Button>
 
-                        <Button
-                            onClick={handleAddProduct}
-                            disabled={false}
-                            variant={!productInfoSavedOnce ? "outline" : "primary"}
-                            className="dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700 w-full sm:w-auto"
-                            aria-label={mode === Mode.ADD ? "Finish creating product" : "Finish updating product"}
-                        >
-                            Finish
-                        </Button>
+                        {readOnly ? (
+                            <Button
+                                onClick={() => router.push("/product-list")}
+                                className="dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700 w-full sm:w-auto"
+                            >
+                                Back to products
+                            </Button>
+                        ) : (
+                            <Button
+                                onClick={handleAddProduct}
+                                disabled={false}
+                                variant={!productInfoSavedOnce ? "outline" : "primary"}
+                                className="dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700 w-full sm:w-auto"
+                                aria-label={mode === Mode.ADD ? "Finish creating product" : "Finish updating product"}
+                            >
+                                Finish
+                            </Button>
+                        )}
                     </nav>
 
                     {/* Success Modal – shows confirmation after product creation/update */}
@@ -9,21 +9,23 @@ import { companyApi, Company } from "@/lib/api/companyApi";
 import { productApi, Product } from "@/lib/api/productApi";
 import { Material } from "./types";
 import { closeDeleteModal } from "@/app/product-list/product/tabs/bill-of-materials/helpers";
-import { ApiError } from "@/lib/api";
+import { ApiError, isAbortError } from "@/lib/api";
+import { listQuery, Page } from "@/lib/api/pagination";
 
 // Function: fetchBOMItems
 // Description: Retrieves all BOM line items for a product from the API.
 // Transforms API data into local Material type for UI consumption.
 // Uses company_pk and productId callback to determine context.
 // Calls setMaterials callback with transformed data.
-// Errors logged to console if fetch fails.
+// Errors logged to console if fetch fails; cancelled requests are ignored.
 export const fetchBOMItems = async (
   company_pk: number,
   productId: () => number,
-  setMaterials: (a: Material[]) => void
+  setMaterials: (a: Material[]) => void,
+  signal?: AbortSignal
 ) => {
   try {
-    const data = await bomApi.getAllLineItems(company_pk, productId());
+    const data = await bomApi.getAllLineItems(company_pk, productId(), { signal });
 
     const transformedMaterials: Material[] = data.map((item: LineItem) => ({
       id: item.id,
@@ -42,59 +44,47 @@ export const fetchBOMItems = async (
 
     setMaterials(transformedMaterials);
   } catch (error) {
+    if (isAbortError(error)) return;
     console.error("Error fetching BoM items:", error);
   }
 };
 
-// Function: fetchCompanies
-// Description: Searches and retrieves companies optionally filtered by search term.
-// Manages isLoading flag to show loading state in UI.
-// Utilizes companyApi.searchAllCompanies with optional searchParam.
-// Populates companies list via setCompanies callback.
-// Ensures isLoading flag reset in finally block.
-export const fetchCompanies = async (
-  setIsLoading: (a: boolean) => void,
-  setCompanies: (a: Company[]) => void,
-  search = ""
-) => {
-  setIsLoading(true);
+// Function: fetchCompanyPage
+// Description: Retrieves a page of companies optionally filtered by search term.
+// The first page is searched on the server, later pages are requested by their query.
+// Utilizes companyApi.listCompaniesPage; search terms shorter than 4 characters are ignored.
+// Errors are logged and rethrown for the paginated list; cancelled requests are not logged.
+export const fetchCompanyPage = async (
+  next: string | null,
+  search = "",
+  signal?: AbortSignal
+): Promise<Page<Company>> => {
   try {
-    const searchParam = search.length >= 4 ? `?search=${encodeURIComponent(search)}` : "";
-
-    const data = await companyApi.searchAllCompanies(searchParam);
-    setCompanies(data);
+    const query = next ?? listQuery({ search: search.length >= 4 ? search : "" });
+    return await companyApi.listCompaniesPage(query, { signal });
   } catch (error) {
-    console.error("Error fetching companies:", error);
-    setCompanies([]);
-  } finally {
-    setIsLoading(false);
+    if (!isAbortError(error)) console.error("Error fetching companies:", error);
+    throw error;
   }
 };
 
-// Function: fetchProducts
-// Description: Searches and retrieves products for selected company.
-// Requires companyId; exits early if not provided.
-// Manages isLoading flag around API call.
-// Populates products via setProducts callback.
-// Ensures clean state on errors.
-export const fetchProducts = async (
-  setIsLoading: (a: boolean) => void,
-  setProducts: (a: Product[]) => void,
+// Function: fetchProductPage
+// Description: Retrieves a page of products of the selected company.
+// The first page is searched on the server, later pages are requested by their query.
+// Utilizes productApi.listProductsPage; search terms shorter than 4 characters are ignored.
+// Errors are logged and rethrown for the paginated list; cancelled requests are not logged.
+export const fetchProductPage = async (
   companyId: string,
-  search = ""
-) => {
-  if (!companyId) return;
-  setIsLoading(true);
+  next: string | null,
+  search = "",
+  signal?: AbortSignal
+): Promise<Page<Product>> => {
   try {
-    const searchParam = search.length >= 4 ? `?search=${encodeURIComponent(search)}` : "";
-
-    const data = await productApi.searchProducts(companyId, searchParam);
-    setProducts(data);
+    const query = next ?? listQuery({ search: search.length >= 4 ? search : "" });
+    return await productApi.listProductsPage(companyId, query, { signal });
   } catch (error) {
-    console.error("Error fetching products:", error);
-    setProducts([]);
-  } finally {
-    setIsLoading(false);
+    if (!isAbortError(error)) console.error("Error fetching products:", error);
+    throw error;
   }
 };
 
@@ -127,10 +117,16 @@ export const handleUpdateQuantity = async (
   }
 
   try {
-    await bomApi.updateLineItem(company_pk, productId(), editingMaterial.id, {
-      quantity: parsedQuantity,
-      line_item_product_id: undefined,
-    });
+    await bomApi.updateLineItem(
+      company_pk,
+      productId(),
+      editingMaterial.id,
+      {
+        quantity: parsedQuantity,
+        line_item_product_id: undefined,
+      },
+      `Change the quantity of ${editingMaterial.productName} to ${parsedQuantity}`
+    );
 
     const updatedMaterials = materials.map(material => {
       if (material.id === editingMaterial.id) {
@@ -157,7 +153,7 @@ export const handleUpdateQuantity = async (
 // Function: handleAddProduct
 // Description: Adds a selected product as a new BoM item.
 // Validates quantity and selected company/product information.
-// Calls bomApi.createNewLineItem to create material on the server.
+// Calls bomApi.createNewLineItem to create material on the server, or queue it offline.
 // Constructs newMaterial object from response and selection data.
 // Updates materials list state and closes modal on success.
 // Handles ApiError to extract and set detailed error messages.
@@ -183,13 +179,20 @@ export const handleAddProduct = async (
 
   if (selectedProduct && selectedCompany) {
     try {
-      const responseData = await bomApi.createNewLineItem(company_pk, productId(), {
-        quantity: parsedQuantity,
-        line_item_product_id: parseInt(selectedProduct.id),
-      });
+      const result = await bomApi.createNewLineItem(
+        company_pk,
+        productId(),
+        {
+          quantity: parsedQuantity,
+          line_item_product_id: parseInt(selectedProduct.id),
+        },
+        `Add ${parsedQuantity} × ${selectedProduct.name} to the bill of materials`
+      );
+      // Offline additions are shown with a temporary ID until they reach the server
+      const responseData = result.queued ? null : result.data;
 
       const newMaterial = {
-        id: responseData.id,
+        id: responseData?.id ?? -Date.now(),
         productName: selectedProduct.name,
         manufacturerName: selectedCompany.name || "Unknown",
         supplierName: selectedProduct.supplier_name || "Unknown",
@@ -197,7 +200,8 @@ export const handleAddProduct = async (
         emission_total: parseFloat((selectedProduct.emission_total * parsedQuantity).toFixed(2)),
         supplierId: parseInt(selectedCompany.id),
         productId: parseInt(selectedProduct.id),
-        product_sharing_request_status: responseData.product_sharing_request_status,
+        product_sharing_request_status:
+          responseData?.product_sharing_request_status ?? "Not requested",
         reference_impact_unit: selectedProduct.reference_impact_unit,
       };
 
@@ -261,7 +265,12 @@ export async function confirmDelete(
   if (!deleteMaterial) return;
 
   try {
-    await bomApi.deleteLineItem(company_pk, productId(), deleteMaterial.id);
+    await bomApi.deleteLineItem(
+      company_pk,
+      productId(),
+      deleteMaterial.id,
+      `Remove ${deleteMaterial.productName} from the bill of materials`
+    );
     // update list and notify parent
     setMaterials((mats: Material[]) => mats.filter((m: Material) => m.id !== deleteMaterial.id));
     onFieldChange();
@@ -31,19 +31,17 @@ export const handleAddMaterial = (
 };
 
 // Handler: Proceed to the product selection step after company chosen
-// Clears previous product search and resets product list
+// Clears previous product search, the product list follows the selected company
 // ── Modal step 1: Select company ───────────────────────────
 export const handleSelectCompany = (
   setSelectedCompany: (a: Company | null) => void,
   setCurrentStep: (a: number) => void,
   setSearchProduct: (a: string) => void,
-  setProducts: (a: Product[]) => void,
   company: Company
 ) => {
   setSelectedCompany(company);
   setCurrentStep(2);
   setSearchProduct("");
-  setProducts([]);
 };
 
 // Handler: Begin editing an existing material's quantity
@@ -33,29 +33,39 @@ import { Product } from "@/lib/api/productApi";
 import { Mode } from "../../enums";
 import { Dialog, DialogPanel, DialogTitle } from "@headlessui/react";
 import * as apiCalls from "./api-calls";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
+import { useModalDraft } from "@/hooks/useModalDraft";
 import * as Helpers from "./helpers";
 import { OurTable } from "@/app/components/ui/OurTable";
 import { Material, getBomColumns } from "./types";
 
+// Open add or edit modal, kept as a draft when the session ends
+type BomModalDraft =
+  | {
+      modal: "add";
+      currentStep: number;
+      selectedCompany: Company | null;
+      selectedProduct: Product | null;
+      quantity: string;
+      isEstimationMode: boolean;
+    }
+  | { modal: "edit"; material: Material; quantity: string };
+
 // ── BillOfMaterials Tab: Handles BoM CRUD (Create, Read, Update, Delete) and UI ───────────────
 const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
-  ({ productId: productId_string, mode, onFieldChange }, ref) => {
+  ({ productId: productId_string, tabKey, mode, onFieldChange }, ref) => {
     // State: array of Material objects representing BOM entries
     // Loaded from API on component mount or mode change
     // State: controls visibility of add/edit modal dialog
     // State: tracks current step in the add material workflow
-    // State: list of companies for selection in step 1
     // State: selected company object or null if none
-    // State: list of products for step 2 based on company
     // State: selected product object or null if none
     // State: quantity string for new material addition
-    // State: loading flags for table and search operations
+    // State: loading flag for the table, last search terms sent to the server
     const [materials, setMaterials] = useState<Material[]>([]);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [currentStep, setCurrentStep] = useState(1);
-    const [companies, setCompanies] = useState<Company[]>([]);
     const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
-    const [products, setProducts] = useState<Product[]>([]);
     const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
     const [quantity, setQuantity] = useState<string>("1");
     const [searchCompany, setSearchCompany] = useState("");
@@ -68,8 +78,40 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
     const [addMaterialError, setAddMaterialError] = useState<string | null>(null);
     const [isEstimationMode, setIsEstimationMode] = useState(false);
     const [isTableLoading, setIsTableLoading] = useState(false);
-    const [isCompanySearchLoading, setIsCompanySearchLoading] = useState(false);
-    const [isProductSearchLoading, setIsProductSearchLoading] = useState(false);
+    const [companyListSearch, setCompanyListSearch] = useState("");
+    const [productListSearch, setProductListSearch] = useState("");
+
+    // Paginated company list for step 1, loaded while the modal is open
+    // Further pages load when the end of the list scrolls into view
+    const companyList = usePaginatedList<Company>(
+      isModalOpen && currentStep === 1 ? `bom-companies?${companyListSearch}` : null,
+      (next, signal) => apiCalls.fetchCompanyPage(next, companyListSearch, signal)
+    );
+
+    // Paginated product list of the selected company for step 2
+    const productList = usePaginatedList<Product>(
+      selectedCompany && currentStep === 2
+        ? `bom-products:${selectedCompany.id}?${productListSearch}`
+        : null,
+      (next, signal) =>
+        apiCalls.fetchProductPage(selectedCompany!.id, next, productListSearch, signal)
+    );
+
+    // Draft of the add or edit modal, reopened with the values it had when the last session ended
+    const keepModalDraft = useModalDraft<BomModalDraft>(tabKey, productId_string, draft => {
+      if (draft.modal === "add") {
+        setCurrentStep(draft.currentStep);
+        setSelectedCompany(draft.selectedCompany);
+        setSelectedProduct(draft.selectedProduct);
+        setQuantity(draft.quantity);
+        setIsEstimationMode(draft.isEstimationMode);
+        setIsModalOpen(true);
+      } else {
+        setEditingMaterial(draft.material);
+        setNewQuantity(draft.quantity);
+        setIsEditModalOpen(true);
+      }
+    });
 
     // ── Get company ID from localStorage ────────────────────────
     let company_pk_string = localStorage.getItem("selected_company_id");
@@ -95,51 +137,42 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
     // Effect: fetch BoM items when in EDIT mode or product changes
     // Uses table-specific loading flag to show spinner
     // Calls apiCalls.fetchBOMItems with company_pk and productId
-    // Resets loading flag after fetch completes
+    // Resets loading flag after fetch completes, aborts it on unmount or product change
     // Dependencies: mode, company_pk, productId_string
     useEffect(() => {
       if (mode == Mode.EDIT) {
+        const controller = new AbortController();
         setIsTableLoading(true); // Use table-specific loading state
-        apiCalls.fetchBOMItems(company_pk, productId, setMaterials)
+        apiCalls.fetchBOMItems(company_pk, productId, setMaterials, controller.signal);
         setIsTableLoading(false);
+        return () => controller.abort();
       }
     }, [mode, company_pk, productId_string]);
 
-    // Effect: perform company search when modal open and step 1
-    // Triggers when searchCompany length >=4 or cleared
-    // Calls apiCalls.fetchCompanies with loading and state callbacks
-    // Ensures up-to-date company list for selection
-    // Dependencies: isModalOpen, searchCompany, currentStep
+    // Effect: restart the company list when the search changes
+    // Triggers when searchCompany length >=4 or cleared, shorter terms keep the current list
+    // The paginated list aborts the previous search, so an older response cannot win
+    // Dependencies: searchCompany
     useEffect(() => {
-      if (
-        isModalOpen &&
-        currentStep === 1 &&
-        (searchCompany.length >= 4 || searchCompany.length === 0)
-      ) {
-        apiCalls.fetchCompanies(setIsCompanySearchLoading, setCompanies, searchCompany);
+      if (searchCompany.length >= 4 || searchCompany.length === 0) {
+        setCompanyListSearch(searchCompany);
       }
-    }, [isModalOpen, searchCompany, currentStep]);
+    }, [searchCompany]);
 
-    // Effect: perform product search when step 2 and company selected
-    // Triggers when searchProduct length >=2 or cleared
-    // Calls apiCalls.fetchProducts with loading and state callbacks
-    // Populates products list for selection in add material modal
-    // Dependencies: selectedCompany, searchProduct, currentStep
+    // Effect: restart the product list when the search changes
+    // Triggers when searchProduct length >=2 or cleared, shorter terms keep the current list
+    // Dependencies: searchProduct
     useEffect(() => {
-      if (
-        selectedCompany &&
-        currentStep === 2 &&
-        (searchProduct.length >= 2 || searchProduct.length === 0)
-      ) {
-        apiCalls.fetchProducts(setIsProductSearchLoading, setProducts, selectedCompany.id, searchProduct);
+      if (searchProduct.length >= 2 || searchProduct.length === 0) {
+        setProductListSearch(searchProduct);
       }
-    }, [selectedCompany, searchProduct, currentStep]);
+    }, [searchProduct]);
 
     // ── Expose saveTab/updateTab to parent ──────────────────────
     // Expose saveTab and updateTab methods to parent via forwarded ref
     // saveTab and updateTab are stub functions returning empty promises
     // Allows parent component to trigger save/update actions programmatically
-    useImperativeHandle(ref, () => ({ saveTab, updateTab }));
+    useImperativeHandle(ref, () => ({ saveTab, updateTab, saveDraft }));
 
     // ── Save/Update stubs for parent API ────────────────────────
     // Stub: saveTab implementation placeholder
@@ -156,6 +189,22 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
       return "";
     };
 
+    // Keeps the open add or edit modal when the session ends
+    const saveDraft = () => {
+      if (isModalOpen) {
+        keepModalDraft({
+          modal: "add",
+          currentStep,
+          selectedCompany,
+          selectedProduct,
+          quantity,
+          isEstimationMode,
+        });
+      } else if (isEditModalOpen && editingMaterial) {
+        keepModalDraft({ modal: "edit", material: editingMaterial, quantity: newQuantity });
+      }
+    };
+
     // ── Define columns of table. ─────────────────────────────────
     // Configure table columns for BOM entries display
     // getBomColumns returns Column definitions for OurTable
@@ -340,10 +389,10 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                         </div>
 
                         <div className="max-h-[40vh] sm:max-h-80 overflow-y-auto">
-                          {isCompanySearchLoading ? (
+                          {companyList.isLoading ? (
                             <div className="text-center py-4">Loading...</div>
-                          ) : companies.length > 0 ? (
-                            companies.map(company => (
+                          ) : companyList.items.length > 0 ? (
+                            companyList.items.map(company => (
                               <button
                                 key={company.id}
                                 onClick={() =>
@@ -351,7 +400,6 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                                     setSelectedCompany,
                                     setCurrentStep,
                                     setSearchProduct,
-                                    setProducts,
                                     company
                                   )
                                 }
@@ -362,7 +410,6 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                                       setSelectedCompany,
                                       setCurrentStep,
                                       setSearchProduct,
-                                      setProducts,
                                       company
                                     );
                                   }
@@ -388,6 +435,14 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                           ) : (
                             <div className="text-center py-4 text-gray-500">No companies found</div>
                           )}
+                          {companyList.hasMore && (
+                            <div
+                              ref={companyList.sentinelRef}
+                              className="text-center py-2 text-sm text-gray-500"
+                            >
+                              {companyList.isLoadingMore ? "Loading more companies..." : ""}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <Button
@@ -440,10 +495,10 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                         </div>
 
                         <div className="max-h-60 overflow-y-auto mb-4">
-                          {isProductSearchLoading ? (
+                          {productList.isLoading ? (
                             <div className="text-center py-4">Loading products...</div>
-                          ) : products.length > 0 ? (
-                            products.map(product => (
+                          ) : productList.items.length > 0 ? (
+                            productList.items.map(product => (
                               <div
                                 key={product.id}
                                 onClick={() => setSelectedProduct(product)}
@@ -458,6 +513,14 @@ const BillOfMaterials = forwardRef<TabHandle, DataPassedToTabs>(
                           ) : (
                             <div className="text-center py-4 text-gray-500">No products found</div>
                           )}
+                          {productList.hasMore && (
+                            <div
+                              ref={productList.sentinelRef}
+                              className="text-center py-2 text-sm text-gray-500"
+                            >
+                              {productList.isLoadingMore ? "Loading more products..." : ""}
+                            </div>
+                          )}
                         </div>
 
                         {selectedProduct && (
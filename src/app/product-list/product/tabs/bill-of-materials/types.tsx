@@ -11,6 +11,7 @@ import Button from "@/app/components/ui/Button";
 import * as Helpers from "./helpers";
 // Import icons used for status and action buttons
 import { Edit, Trash, Info, Clock, EyeOff } from "lucide-react";
+import { isUnsyncedItem, UNSYNCED_ITEM_HINT } from "@/lib/api/offlineQueue";
 
 // Material type describes fields for BOM item display
 export type Material = {
@@ -118,6 +119,8 @@ export const getBomColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-blue-500 !border-blue-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(material)}
+          title={isUnsyncedItem(material) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.handleEdit(
@@ -134,6 +137,8 @@ export const getBomColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(material)}
+          title={isUnsyncedItem(material) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.openDeleteModal(setDeleteMaterial, setIsDeleteModalOpen, material);
@@ -9,6 +9,8 @@ import {
   ComboboxOptions,
 } from "@headlessui/react";
 import { CircleHelp, ChevronDown, Loader2 } from "lucide-react";
+import { productApi } from "@/lib/api/productApi";
+import { isAbortError } from "@/lib/api/apiClient";
 
 // ── Dropdown option interface ───────────────────────────────────────────────
 export interface DropdownOption {
@@ -25,7 +27,6 @@ export interface DropdownFieldProps {
   required: boolean;
   error?: string;
   placeholder?: string;
-  apiUrl: string;
   companyId: string;
   onFieldChange: (val: string) => void; // This expects a string
 }
@@ -39,7 +40,6 @@ export default function DropdownField({
   required,
   error,
   placeholder = "Select an option",
-  apiUrl,
   companyId,
   onFieldChange,
 }: DropdownFieldProps) {
@@ -51,28 +51,14 @@ export default function DropdownField({
   const [selectedOptionDisplayName, setSelectedOptionDisplayName] = useState("");
   // value stands for the selected value
 
-  // ── Fetch options from API on mount ────────────────────────────
+  // ── Fetch options from API on mount and when the company changes ──
   useEffect(() => {
+    const controller = new AbortController();
     const fetchOptions = async () => {
-      if (isLoading || options.length > 0) return;
       setIsLoading(true);
       try {
-        const access_token = localStorage.getItem("access_token");
-        if (!access_token) {
-          throw new Error("No access token found");
-        }
         // Fetch OPTIONS for the products endpoint to get choices for the field
-        const res = await fetch(`${apiUrl}/companies/${companyId}/products/`, {
-          method: "OPTIONS",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${access_token}`,
-          },
-        });
-        if (!res.ok) {
-          throw new Error(`HTTP error! Status: ${res.status}`);
-        }
-        const data = await res.json();
+        const data = await productApi.getProductOptions(companyId, { signal: controller.signal });
         const choices = data.actions?.POST?.[name]?.choices;
         if (Array.isArray(choices)) {
           setOptions(choices);
@@ -80,14 +66,16 @@ export default function DropdownField({
           setHasError(true);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Error fetching options:", err);
         setHasError(true);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
     fetchOptions();
-  }, []);
+    return () => controller.abort();
+  }, [companyId, name]);
 
   // ── Update display name when options or value changes ──────────
   useEffect(() => {
@@ -0,0 +1,34 @@
+import { FC } from "react";
+import { describeFieldPath, NormalizedErrors } from "@/utils/fieldErrors";
+
+interface FormErrorSummaryProps {
+  errors: NormalizedErrors;
+  inlineFields?: string[]; // Field paths whose errors are already shown next to their input
+}
+
+// Lists the backend's validation errors of an emission form
+// Errors of nested items, e.g. a single override factor, are labelled with their position
+export const FormErrorSummary: FC<FormErrorSummaryProps> = ({ errors, inlineFields = [] }) => {
+  const fieldErrors = Object.entries(errors.fieldErrors).filter(
+    ([path]) => !inlineFields.includes(path)
+  );
+  if (!errors.formError && fieldErrors.length === 0) return null;
+
+  return (
+    <div
+      role="alert"
+      className="p-3 text-sm text-red-800 bg-red-100 rounded-md dark:bg-red-900/30 dark:text-red-300"
+    >
+      {errors.formError && <p>{errors.formError}</p>}
+      {fieldErrors.length > 0 && (
+        <ul className="list-disc pl-5 space-y-1">
+          {fieldErrors.map(([path, message]) => (
+            <li key={path}>
+              {describeFieldPath(path)}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,11 @@ import {
 import RadioField from "@/app/product-list/product/tabs/components/RadioField";
 import DropdownField from "@/app/product-list/product/tabs/components/DropdownField";
 import { LifecycleStageChoice } from "@/lib/api";
+import { apiRequest, ApiError } from "@/lib/api/apiClient";
+import { FormErrors, normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+import { productApi } from "@/lib/api/productApi";
+import { Company, companyApi } from "@/lib/api/companyApi";
+import { invalidateQueries, queryKeys } from "@/lib/api/queryCache";
 
 //───────────────────────────────────────────────────────────────
 //Product Tab API Utilities
@@ -23,6 +28,7 @@ import { LifecycleStageChoice } from "@/lib/api";
 //- updateTab: Submit updated product info via PUT
 //- saveTab: Create a new product record via POST
 //- fetchLifecycleStageOptions: Load dropdown options for overrides
+//- fetchCompany: Load the company with its production sites
 //
 //Dependencies:
 //- Form type definitions (FieldValues, FieldErrors, etc.)
@@ -34,82 +40,63 @@ import { LifecycleStageChoice } from "@/lib/api";
 // Fetch detailed product information by ID for initial form load
 // ─────────────────────────────────────────────────────────────
 export const fetchProductData = async (
-  API_URL: string,
   company_pk: string,
-  access_token: string | null,
   setFieldValues: (a: FieldValues) => void,
   productId: string
 ): Promise<boolean> => {
   try {
-    const res = await fetch(API_URL + `/companies/${company_pk}/products/${productId}/`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${access_token}`,
-      },
-    });
-    if (res.ok) {
-      // Parse and apply the returned product data to the form fields
-      const data = await res.json();
-      setFieldValues(data);
-      return true;
-    } else {
-      console.log("Failed to fetch product data", res.status);
-      return false;
-    }
+    const data = await apiRequest<FieldValues>(`/companies/${company_pk}/products/${productId}/`);
+    // Apply the returned product data to the form fields
+    setFieldValues(data);
+    return true;
   } catch (err) {
-    console.error("Network error", err);
+    console.log("Failed to fetch product data", err);
     return false;
   }
 };
 
+// ─────────────────────────────────────────────────────────────
+// Map the backend's validation errors onto the product form fields
+// Returns null if the error is not a validation error
+// ─────────────────────────────────────────────────────────────
+const getValidationErrors = (err: unknown): FormErrors<FieldKey> | null => {
+  const errors = normalizeFieldErrors(err);
+  return errors && pickFieldErrors(errors, Object.keys(tooltipTexts) as FieldKey[]);
+};
+
+// Message for requests that failed without validation errors
+const getRequestErrorMessage = (err: unknown): string => {
+  if (err instanceof ApiError && err.status === 0) {
+    return "A network error occurred. Please try again.";
+  }
+  console.error("Unexpected error", err);
+  return "An unexpected error occurred. Please try again.";
+};
+
 // ─────────────────────────────────────────────────────────────
 // Update product data on the server using PUT
 // Returns error messages if any validation fails
 // ─────────────────────────────────────────────────────────────
 export const updateTab = async (
-  API_URL: string,
   company_pk: string,
   productId: string,
-  access_token: string | null,
   fieldValues: FieldValues,
   setFieldErrors: (a: FieldErrors | ((prev: FieldErrors) => FieldErrors)) => void
 ): Promise<string> => {
   try {
-    const res = await fetch(API_URL + `/companies/${company_pk}/products/${productId}/`, {
+    await apiRequest(`/companies/${company_pk}/products/${productId}/`, {
       method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${access_token}`,
-      },
-      body: JSON.stringify(fieldValues),
+      body: fieldValues as unknown as Record<string, unknown>,
     });
-    if (res.ok) {
-      // save the product id for the next tab
-      const data = await res.json();
-
-      return "";
-    }
-    if (res.status === 400) {
-      // new payload shape: { type, errors: [ { attr, detail, … } ] }
-      const payload: {
-        type: string;
-        errors: Array<{ attr: string; detail: string }>;
-      } = await res.json();
-
-      const flat: Partial<FieldErrors> = {};
-      payload.errors.forEach(({ attr, detail }) => {
-        flat[attr as FieldKey] = detail;
-      });
+    invalidateQueries(queryKeys.productList(company_pk), queryKeys.product(company_pk, productId));
 
-      setFieldErrors(prev => ({ ...prev, ...flat }));
-      return "Please fix the errors in the form.";
-    }
-    console.error("Unexpected status", res.status);
-    return "An unexpected error occurred. Please try again.";
+    return "";
   } catch (err) {
-    console.error("Network error", err);
-    return "A network error occurred. Please try again.";
+    const errors = getValidationErrors(err);
+    if (!errors) return getRequestErrorMessage(err);
+
+    setFieldErrors(prev => ({ ...prev, ...errors.fieldErrors }));
+    return errors.formError || "Please fix the errors in the form.";
   }
 };
 
@@ -118,57 +105,29 @@ export const updateTab = async (
 // Stores the new product ID and handles form-level validation
 // ─────────────────────────────────────────────────────────────
 export const saveTab = async (
-  API_URL: string,
   company_pk: string,
-  access_token: string | null,
   fieldValues: FieldValues,
   setFieldErrors: (a: FieldErrors | ((prev: FieldErrors) => FieldErrors)) => void,
   setProductId: (id: string) => void
 ): Promise<string> => {
   try {
-    const res = await fetch(API_URL + `/companies/${company_pk}/products/`, {
+    const data = await apiRequest<{ id: string | number }>(`/companies/${company_pk}/products/`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${access_token}`,
-      },
-      body: JSON.stringify(fieldValues),
+      body: fieldValues as unknown as Record<string, unknown>,
     });
-    if (res.ok) {
-      // save the product id for the next tab
-      const data = await res.json();
 
-      setProductId(data.id.toString());
+    // save the product id for the next tab
+    setProductId(data.id.toString());
+    invalidateQueries(queryKeys.productList(company_pk));
 
-      return "";
-    }
-    if (res.status === 400) {
-      // new payload shape: { type, errors: [ { attr, detail, … } ] }
-      const payload: {
-        type: string;
-        errors: Array<{ attr: string; detail: string }>;
-      } = await res.json();
-
-      const flat: Partial<FieldErrors> = {};
-      let formError = "";
-
-      payload.errors.forEach(({ attr, detail }) => {
-        if (attr === "non_field_errors") {
-          formError = detail;
-        } else {
-          flat[attr as FieldKey] = detail;
-        }
-      });
-
-      setFieldErrors(prev => ({ ...prev, ...flat }));
-      // return the non_field_errors if present, otherwise fallback
-      return formError || "Please fix the errors in the form.";
-    }
-    console.error("Unexpected status", res.status);
-    return "An unexpected error occurred. Please try again.";
+    return "";
   } catch (err) {
-    console.error("Network error", err);
-    return "A network error occurred. Please try again.";
+    const errors = getValidationErrors(err);
+    if (!errors) return getRequestErrorMessage(err);
+
+    setFieldErrors(prev => ({ ...prev, ...errors.fieldErrors }));
+    // return the non_field_errors if present, otherwise fallback
+    return errors.formError || "Please fix the errors in the form.";
   }
 };
 
@@ -177,37 +136,19 @@ export const saveTab = async (
 // Uses the OPTIONS method to retrieve metadata about the API
 // ─────────────────────────────────────────────────────────────
 export const fetchLifecycleStageOptions = async (
-  apiUrl: string,
   companyId: string
 ): Promise<LifecycleStageChoice[]> => {
   try {
-    const access_token = localStorage.getItem("access_token");
-    if (!access_token) {
-      throw new Error("No access token found");
-    }
     // Fetch OPTIONS for the products endpoint to get choices for the field
-    const res = await fetch(`${apiUrl}/companies/${companyId}/products/`, {
-      method: "OPTIONS",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${access_token}`,
-      },
-    });
-    if (!res.ok) {
-      throw new Error(`HTTP error! Status: ${res.status}`);
-    }
-    const data = await res.json();
+    const data = await productApi.getProductOptions(companyId);
+    const choices = data.actions?.POST?.override_factors?.child?.children?.lifecycle_stage?.choices;
     // Log raw choices data for debugging purposes
-    console.log(
-      "Lifecycle stage options data:",
-      data.actions?.POST?.override_factors.child?.children?.lifecycle_stage?.choices
-    );
-    const choices = data.actions?.POST?.override_factors.child?.children?.lifecycle_stage?.choices;
+    console.log("Lifecycle stage options data:", choices);
     if (Array.isArray(choices)) {
       return choices.map(
-        (choice: any): LifecycleStageChoice => ({
+        (choice): LifecycleStageChoice => ({
           value: choice.value,
-          display_name: choice.display_name ?? choice.display ?? String(choice.value),
+          display_name: choice.display_name ?? String(choice.value),
         })
       );
     }
@@ -217,3 +158,16 @@ export const fetchLifecycleStageOptions = async (
     return [];
   }
 };
+
+// ─────────────────────────────────────────────────────────────
+// Fetch the selected company, whose production sites can prefill
+// the manufacturer fields. Returns null if it cannot be loaded
+// ─────────────────────────────────────────────────────────────
+export const fetchCompany = async (companyId: string): Promise<Company | null> => {
+  try {
+    return await companyApi.getCompany(companyId);
+  } catch (err) {
+    console.error("Error fetching company:", err);
+    return null;
+  }
+};
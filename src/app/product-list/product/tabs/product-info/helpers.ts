@@ -4,6 +4,7 @@ import {
   FieldValues,
 } from "@/app/product-list/product/tabs/product-info/types";
 import React from "react";
+import { Company, ProductDefaults } from "@/lib/api/companyApi";
 
 // ─────────────────────────────────────────────────────────────
 // Handle input field changes in the product info form
@@ -30,3 +31,38 @@ export const handleFieldChange = <K extends FieldKey>(
   // Notify parent that a field has changed (used to mark tab as dirty)
   onFieldChange();
 };
+
+// ─────────────────────────────────────────────────────────────
+// Fill the fields of a new product with the company's defaults
+// Only fields still holding their empty value are filled, so a restored draft is kept.
+// The manufacturer is the company at its default site
+// ─────────────────────────────────────────────────────────────
+export const applyProductDefaults = (
+  values: FieldValues,
+  emptyValues: FieldValues,
+  defaults: ProductDefaults | null,
+  company: Company | null
+): FieldValues => {
+  if (!defaults) return values;
+  const site = company?.sites?.find(s => s.id === defaults.manufacturer_site);
+  const defaultValues: Partial<FieldValues> = {
+    pcf_calculation_method: defaults.pcf_calculation_method,
+    reference_impact_unit: defaults.reference_impact_unit,
+    is_public: defaults.is_public,
+    ...(company &&
+      site && {
+        manufacturer_name: company.name,
+        manufacturer_country: site.country,
+        manufacturer_city: site.city,
+        manufacturer_street: site.street,
+        manufacturer_zip_code: site.zip_code,
+      }),
+  };
+  const filled = { ...values };
+  (Object.keys(defaultValues) as FieldKey[]).forEach(fieldKey => {
+    if (filled[fieldKey] === emptyValues[fieldKey]) {
+      (filled as Record<FieldKey, unknown>)[fieldKey] = defaultValues[fieldKey];
+    }
+  });
+  return filled;
+};
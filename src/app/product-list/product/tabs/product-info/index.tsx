@@ -1,6 +1,14 @@
 "use client"; // Enables client-side rendering in Next.js
 
-import React, { forwardRef, useEffect, useImperativeHandle, useState } from "react";
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 // ── UI Components & Icons ──
 import Button from "@/app/components/ui/Button";
@@ -8,6 +16,7 @@ import { Plus, X } from "lucide-react";
 
 // ── Types and Form Metadata ──
 import { DataPassedToTabs, TabHandle } from "../../page";
+import { Mode } from "../../enums";
 
 // ── Custom Form Fields ──
 import RadioField from "../components/RadioField";
@@ -31,6 +40,17 @@ import {
 } from "./types";
 import OverrideModal, { FormDataWithOverrideFactors } from "../components/OverrideModal";
 import { LifecycleStageChoice, OverrideFactor } from "@/lib/api";
+import { Company } from "@/lib/api/companyApi";
+import { useProductDefaults } from "@/hooks/useProductDefaults";
+
+// ── Drafts of unsaved changes ──
+import { useAuth } from "@/app/context/AuthContext";
+import {
+  clearProductDraft,
+  DraftScope,
+  loadProductDraft,
+  saveProductDraft,
+} from "@/utils/productDrafts";
 
 //──────────────────────────────────────────────────────────────────────────────────────────────────
 //Product Info Form Component (Index)
@@ -44,6 +64,8 @@ import { LifecycleStageChoice, OverrideFactor } from "@/lib/api";
 //- Renders structured form fields using a mix of reusable components (TextField, RadioField, etc.)
 //- Manages form state (`fieldValues`) and validation errors (`fieldErrors`)
 //- Fetches lifecycle stage dropdown options from API on mount
+//- Fetches the company's production sites, which can prefill the manufacturer fields
+//- New products start from the company's product defaults
 //- If editing an existing product, fetches existing product data
 //- Uses `forwardRef` to expose `saveTab` and `updateTab` handlers to parent components
 //- Supports a modal interface for override emissions data entry
@@ -62,6 +84,24 @@ import { LifecycleStageChoice, OverrideFactor } from "@/lib/api";
 //──────────────────────────────────────────────────────────────────────────────────────────────────
 
 
+// ── Field values of a new product, before the company's defaults are applied ──
+const emptyFieldValues: FieldValues = {
+  name: "",
+  description: "",
+  manufacturer_name: "",
+  manufacturer_country: "",
+  manufacturer_city: "",
+  manufacturer_street: "",
+  manufacturer_zip_code: "",
+  year_of_construction: "",
+  family: "",
+  sku: "",
+  reference_impact_unit: "",
+  pcf_calculation_method: "ISO 14040/14044",
+  is_public: false,
+  override_factors: [],
+};
+
 // ── ProductInfo Tab ──
 //// Handles rendering, data loading, and saving for the Product Info tab
 const Index = forwardRef<TabHandle, DataPassedToTabs>(
@@ -69,61 +109,45 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
     // ── Dropdown override options ──
     const [lifecycleChoices, setLifecycleChoices] = useState<LifecycleStageChoice[]>([]);
 
+    // ── Company with its production sites, for prefilling the manufacturer ──
+    const [company, setCompany] = useState<Company | null>(null);
+
     // ── Handles updating product info if editing ──
     const updateTab = async (): Promise<string> => {
-      return apiCalls.updateTab(
-        API_URL,
-        company_pk,
-        productId,
-        access_token,
-        fieldValues,
-        setFieldErrors
-      );
+      const error = await apiCalls.updateTab(company_pk, productId, fieldValues, setFieldErrors);
+      if (!error) discardDraft();
+      return error;
     };
 
     // ── Handles saving a new product entry ──
     // This function sends a POST request with form data to the backend
     // It uses auth and company context from localStorage and sets errors or product ID accordingly
     const saveTab = async (): Promise<string> => {
-      return apiCalls.saveTab(
-        API_URL,
-        company_pk,
-        access_token,
-        fieldValues,
-        setFieldErrors,
-        setProductId
-      );
+      const error = await apiCalls.saveTab(company_pk, fieldValues, setFieldErrors, setProductId);
+      if (!error) discardDraft();
+      return error;
     };
 
-    // Make saveTab and updateTab available to parent components via ref
-    useImperativeHandle(ref, () => ({ saveTab, updateTab }));
+    // ── Keeps the unsaved field values when the session ends ──
+    const saveDraft = (hasUnsavedChanges: boolean) => {
+      if (hasUnsavedChanges && draftScope) saveProductDraft(draftScope, fieldValues);
+    };
+
+    // Make saveTab, updateTab and saveDraft available to parent components via ref
+    useImperativeHandle(ref, () => ({ saveTab, updateTab, saveDraft }));
 
     console.log("mode", mode);
 
-    // ── Get company and auth info from localStorage ──
+    // ── Get company info from localStorage ──
     const company_pk = localStorage.getItem("selected_company_id") ?? ("" as string);
-    const access_token = localStorage.getItem("access_token");
-    const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
     // ── Modal open/close state ──
     const [isModalOpen, setIsModalOpen] = useState(false);
 
     // ── State for all fields and errors ──
-    const [fieldValues, setFieldValues] = useState<FieldValues>({
-      name: "",
-      description: "",
-      manufacturer_name: "",
-      manufacturer_country: "",
-      manufacturer_city: "",
-      manufacturer_street: "",
-      manufacturer_zip_code: "",
-      year_of_construction: "",
-      family: "",
-      sku: "",
-      reference_impact_unit: "",
-      pcf_calculation_method: "ISO 14040/14044",
-      is_public: false,
-      override_factors: [],
-    });
+    const [fieldValues, setFieldValues] = useState<FieldValues>(emptyFieldValues);
+
+    // ── Company defaults of new products ──
+    const productDefaults = useProductDefaults(company_pk);
 
     // Errors from server: fieldName → error message
     const [fieldErrors, setFieldErrors] = useState<FieldErrors>({
@@ -143,26 +167,103 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
       override_factors: "",
     });
 
+    // ── Draft restored from an earlier session, shown until saved or discarded ──
+    const { user } = useAuth();
+    const userId = user?.id;
+    const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+    const draftScope: DraftScope | null = useMemo(
+      () => (userId === undefined ? null : { userId, companyId: company_pk, productId, tabKey }),
+      [userId, company_pk, productId, tabKey]
+    );
+
+    // Removes the stored draft and its notice
+    const discardDraft = () => {
+      if (draftScope) clearProductDraft(draftScope);
+      setDraftSavedAt(null);
+    };
+
+    // Drops the draft and goes back to the saved product, or an empty form for a new one
+    const handleDiscardDraft = () => {
+      discardDraft();
+      if (productId) {
+        apiCalls.fetchProductData(company_pk, setFieldValues, productId);
+      } else {
+        setFieldValues(
+          Helpers.applyProductDefaults(emptyFieldValues, emptyFieldValues, productDefaults, company)
+        );
+      }
+    };
+
+    // onFieldChange is recreated on every render of the page, only the latest one is needed
+    const onFieldChangeRef = useRef(onFieldChange);
+    onFieldChangeRef.current = onFieldChange;
+
+    // Applies a stored draft on top of the loaded form, marking the tab as unsaved
+    const restoreDraft = useCallback(() => {
+      if (!draftScope) return;
+      const draft = loadProductDraft<FieldValues>(draftScope);
+      if (!draft) return;
+      setFieldValues(draft.values);
+      setDraftSavedAt(draft.savedAt);
+      onFieldChangeRef.current();
+    }, [draftScope]);
+
     // Fetch lifecycle stage options for emissions override modal on initial mount
     useEffect(() => {
       apiCalls
-        .fetchLifecycleStageOptions(API_URL, company_pk)
+        .fetchLifecycleStageOptions(company_pk)
         .then(data => setLifecycleChoices(data))
         .catch(() => setLifecycleChoices([])); // handle errors if needed
-    }, []);
+      apiCalls.fetchCompany(company_pk).then(setCompany);
+    }, [company_pk]);
+
+    // Fill the manufacturer fields with the company name and the address of a production site
+    const prefillFromSite = (siteId: string) => {
+      const site = company?.sites?.find(s => String(s.id) === siteId);
+      if (!company || !site) return;
+      const values: Partial<FieldValues> = {
+        manufacturer_name: company.name,
+        manufacturer_country: site.country,
+        manufacturer_city: site.city,
+        manufacturer_street: site.street,
+        manufacturer_zip_code: site.zip_code,
+      };
+      (Object.keys(values) as (keyof typeof values)[]).forEach(fieldKey =>
+        Helpers.handleFieldChange(
+          fieldKey,
+          values[fieldKey] as FieldValues[typeof fieldKey],
+          setFieldValues,
+          setFieldErrors,
+          onFieldChange
+        )
+      );
+    };
 
     // Load existing product data when productId is present (edit mode)
+    // A draft of unsaved changes is applied once the product data is loaded,
+    // again when another user signed in meanwhile
     useEffect(() => {
       if (productId && productId.trim() !== "") {
         apiCalls
-          .fetchProductData(API_URL, company_pk, access_token, setFieldValues, productId)
+          .fetchProductData(company_pk, setFieldValues, productId)
           .then(responseOk => {
             if (responseOk) {
               console.log("Product data fetched successfully", productId);
+              restoreDraft();
             }
           });
+      } else if (mode === Mode.ADD) {
+        restoreDraft();
       }
-    }, [productId]);
+    }, [productId, company_pk, mode, restoreDraft]);
+
+    // Fill a new product with the company's defaults once they and the company's sites are loaded
+    useEffect(() => {
+      if (productId) return;
+      setFieldValues(values =>
+        Helpers.applyProductDefaults(values, emptyFieldValues, productDefaults, company)
+      );
+    }, [productDefaults, company, productId]);
 
     // ── List of all field keys ──
     const fieldKeys = Object.keys(fieldValues) as Array<keyof FieldValues>;
@@ -208,7 +309,6 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
               {...common}
               value={fieldValues[fieldKey] as string}
               placeholder={placeholderTexts[fieldKey] ?? ""}
-              apiUrl={API_URL}
               companyId={company_pk}
               onFieldChange={(val: string) =>
                 Helpers.handleFieldChange(
@@ -334,6 +434,22 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
 
     // ── Form Layout: Split into left and right columns ──
     return (
+      <>
+      {/* ── Notice for a restored draft ── */}
+      {draftSavedAt && (
+        <div
+          className="mb-6 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-900 dark:text-yellow-200"
+          role="status"
+        >
+          <span>
+            Restored unsaved changes from {new Date(draftSavedAt).toLocaleString()}. Save to keep
+            them.
+          </span>
+          <Button size="sm" variant="outline" onClick={handleDiscardDraft}>
+            Discard draft
+          </Button>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8">
         {/* ── Left Column - Product Details & Technical Specs ─  */}
         <div className="space-y-8 md:border-r md:border-gray-200 dark:md:border-gray-700 md:pr-8 md:mr-0">
@@ -363,6 +479,30 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
             <Legend className="pt-6 text-lg font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700 pb-2 w-full mb-4">
               Manufacturer Information
             </Legend>
+            {/* ── Prefill from one of the company's production sites ── */}
+            {company?.sites && company.sites.length > 0 && (
+              <div className="space-y-1">
+                <label
+                  htmlFor="manufacturer_site"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Prefill from production site
+                </label>
+                <select
+                  id="manufacturer_site"
+                  value=""
+                  onChange={e => prefillFromSite(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 p-2 text-sm text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">Select a site</option>
+                  {company.sites.map(site => (
+                    <option key={site.id} value={String(site.id)}>
+                      {site.name} ({site.city}, {site.country})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             {renderField("manufacturer_name")}
             {renderField("manufacturer_country")}
             {renderField("manufacturer_city")}
@@ -372,6 +512,7 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
           </Fieldset>
         </div>
       </div>
+      </>
     );
   }
 );
@@ -4,7 +4,7 @@
 
 // Core React library for component architecture and hooks
 /* Imports */
-import React from "react";
+import React, { useEffect, useState } from "react";
 // Headless UI components for accessible modal and combobox interactions
 // Dialog provides modal foundation with proper focus management and ARIA support
 // Combobox enables searchable dropdown with keyboard navigation and screen reader compatibility
@@ -54,6 +54,9 @@ import BomLineItemsSection from "./BomLineItemsSection";
 // ReferenceSection manages emission factor selection and override capabilities
 // Provides interface for choosing appropriate carbon intensity factors
 import ReferenceSection from "./ReferenceSection";
+// FormErrorSummary lists the backend's validation errors that have no input of their own
+import { FormErrorSummary } from "../components/FormErrorSummary";
+import { NO_ERRORS, NormalizedErrors } from "@/utils/fieldErrors";
 
 // Comprehensive props interface for AddEditModal component
 // Extends functionality from OverrideFactorsModal with additional state management
@@ -172,6 +175,14 @@ const AddEditModal: React.FC<AddEditModalProps> = ({
     setIsLoading,
     setEmissions,
 }) => {
+    // Validation errors returned by the backend for the last submission
+    const [formErrors, setFormErrors] = useState<NormalizedErrors>(NO_ERRORS);
+
+    // Start without errors whenever the modal is opened
+    useEffect(() => {
+        if (isModalOpen) setFormErrors(NO_ERRORS);
+    }, [isModalOpen]);
+
     return (
         /* Add/Edit Emission Modal */
         <Dialog
@@ -232,6 +243,11 @@ const AddEditModal: React.FC<AddEditModalProps> = ({
                             <span id="energy-consumption-help" className="sr-only">
                                 Enter the energy consumption in kilowatt hours
                             </span>
+                            {formErrors.fieldErrors.energy_consumption && (
+                                <p className="mt-1 text-xs text-red-500 dark:text-red-400" role="alert">
+                                    {formErrors.fieldErrors.energy_consumption}
+                                </p>
+                            )}
                         </div>
 
                         {/* Reference Section */}
@@ -438,6 +454,11 @@ const AddEditModal: React.FC<AddEditModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Validation errors returned by the backend */}
+                    <div className="mt-4">
+                        <FormErrorSummary errors={formErrors} inlineFields={["energy_consumption"]} />
+                    </div>
+
                     {/* Modal Actions */}
                     <div className="flex justify-end gap-2 mt-6 pt-4 border-t dark:border-t-gray-700">
                         <Button
@@ -457,7 +478,8 @@ const AddEditModal: React.FC<AddEditModalProps> = ({
                                     setIsModalOpen,
                                     onFieldChange,
                                     setIsLoading,
-                                    setEmissions
+                                    setEmissions,
+                                    setFormErrors
                                 )
                             }
                             variant="primary"
@@ -13,6 +13,12 @@ import { bomApi, LineItem } from "@/lib/api/bomApi";
 import { EmissionReference, emissionReferenceApi } from "@/lib/api/emissionReferenceApi";
 // Local form data type definitions for type safety and validation
 import { FormData } from "./types";
+// Helper for recognising requests cancelled by an unmounting tab
+import { isAbortError } from "@/lib/api/apiClient";
+// Helpers for mutations queued while the device is offline
+import { applyQueuedChange, QueueResult } from "@/lib/api/offlineQueue";
+// Normalizer turning the backend's validation errors into per-field form errors
+import { NO_ERRORS, NormalizedErrors, normalizeFieldErrors } from "@/utils/fieldErrors";
 
 // Comprehensive function to fetch all production energy emissions for a specific product
 // Implements loading state management and error handling for optimal user experience
@@ -26,7 +32,9 @@ export const fetchEmissions = async (
   // Function returning product ID for dynamic product context
   productId: () => number,
   // State setter for updating emission list in parent component
-  setEmissions: (a: ProductionEnergyEmission[]) => void
+  setEmissions: (a: ProductionEnergyEmission[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   // Input validation: ensure product ID is valid before API call
   // Prevents unnecessary API requests and potential errors
@@ -39,16 +47,20 @@ export const fetchEmissions = async (
   try {
     // Fetch all production emissions for the specified company and product
     // Returns array of emission records with calculations and metadata
-    const data = await productionEnergyApi.getAllProductionEmissions(company_pk, productId());
+    const data = await productionEnergyApi.getAllProductionEmissions(company_pk, productId(), {
+      signal,
+    });
     setEmissions(data);
   } catch (error) {
+    // Cancelled requests belong to a tab that is no longer shown
+    if (isAbortError(error)) return;
     // Log error for debugging and monitoring purposes
     // Silent failure prevents disrupting user workflow
     console.error("Error fetching emissions:", error);
   } finally {
-    // Always reset loading state regardless of success or failure
+    // Reset loading state unless the request was cancelled
     // Ensures UI remains responsive and feedback is accurate
-    setIsLoading(false);
+    if (!signal?.aborted) setIsLoading(false);
   }
 };
 
@@ -74,7 +86,11 @@ export const handleSubmit = async (
   // Loading state setter for managing UI feedback during operations
   setIsLoading: (a: boolean) => void,
   // State setter for updating emission list after successful operations
-  setEmissions: (a: ProductionEnergyEmission[]) => void
+  setEmissions: (
+    a: ProductionEnergyEmission[] | ((prev: ProductionEnergyEmission[]) => ProductionEnergyEmission[])
+  ) => void,
+  // State setter for showing the backend's validation errors in the form
+  setFormErrors: (a: NormalizedErrors) => void
 ) => {
   // Parse and validate energy consumption value
   // Ensures numeric input and enforces minimum threshold for meaningful data
@@ -107,6 +123,8 @@ export const handleSubmit = async (
 
   // Set submitting state to prevent double-submission and provide user feedback
   setIsSubmitting(true);
+  // Clear errors of the previous attempt before submitting again
+  setFormErrors(NO_ERRORS);
   try {
     // Parse reference ID from string to integer, handle null case
     // Enables optional reference selection while maintaining type safety
@@ -121,12 +139,13 @@ export const handleSubmit = async (
       line_items: formData.line_items,
     };
 
+    let result: QueueResult<ProductionEnergyEmission>;
     // Determine operation type based on currentEmission state
     // Handles both update and create scenarios with appropriate API calls
     if (currentEmission) {
       // Update existing emission record with new data
       // Preserves emission ID while updating all other fields
-      await productionEnergyApi.updateProductionEmission(
+      result = await productionEnergyApi.updateProductionEmission(
         company_pk,
         productId(),
         currentEmission.id,
@@ -135,12 +154,17 @@ export const handleSubmit = async (
     } else {
       // Create new emission record with form data
       // Generates new emission ID and initializes all calculations
-      await productionEnergyApi.createProductionEmission(company_pk, productId(), data);
+      result = await productionEnergyApi.createProductionEmission(company_pk, productId(), data);
     }
 
-    // Refresh emission list to reflect changes and updated calculations
-    // Ensures UI displays most current data including any server-side calculations
-    await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    if (result.queued) {
+      // Offline: show the change right away, it is sent once the connection returns
+      setEmissions(prev => applyQueuedChange(prev, currentEmission?.id ?? null, data));
+    } else {
+      // Refresh emission list to reflect changes and updated calculations
+      // Ensures UI displays most current data including any server-side calculations
+      await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    }
     
     // Close modal after successful submission to return to main view
     setIsModalOpen(false);
@@ -150,8 +174,14 @@ export const handleSubmit = async (
     onFieldChange();
   } catch (error) {
     // Log error for debugging and monitoring purposes
-    // User-friendly error handling could be added here for better UX
     console.error("Error saving emission:", error);
+    // Show validation errors next to their fields, or a general message otherwise
+    setFormErrors(
+      normalizeFieldErrors(error) ?? {
+        fieldErrors: {},
+        formError: "Could not save the production energy emission. Please try again.",
+      }
+    );
   } finally {
     // Always reset submitting state regardless of success or failure
     // Ensures form controls remain responsive and feedback is accurate
@@ -169,14 +199,17 @@ export const fetchBomLineItems = async (
   // Function returning product ID for dynamic product context
   productId: () => number,
   // State setter for updating BOM line items list in parent component
-  setBomLineItems: (a: LineItem[]) => void
+  setBomLineItems: (a: LineItem[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   try {
     // Fetch all BOM line items for the specified company and product
     // Returns array of component items with quantities and material information
-    const data = await bomApi.getAllLineItems(company_pk, productId());
+    const data = await bomApi.getAllLineItems(company_pk, productId(), { signal });
     setBomLineItems(data);
   } catch (error) {
+    if (isAbortError(error)) return;
     // Log error for debugging and monitoring purposes
     // Silent failure allows form to function without BOM association if needed
     console.error("Error fetching BOM items:", error);
@@ -240,15 +273,18 @@ export const handleDelete = async (
 // ── Fetch emission references on mount ───────────────────────
 export const fetchReferences = async (
   // State setter for updating available emission references list
-  setReferences: (a: EmissionReference[]) => void
+  setReferences: (a: EmissionReference[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   try {
     // Fetch all available production energy emission references
     // Returns standardized carbon intensity factors from recognized databases
     // Includes methodologies like IPCC, ecoinvent, and other LCA databases
-    const data = await emissionReferenceApi.getAllProductionEnergyReferences();
+    const data = await emissionReferenceApi.getAllProductionEnergyReferences({ signal });
     setReferences(data);
   } catch (error) {
+    if (isAbortError(error)) return;
     // Log error for debugging and monitoring purposes
     // Silent failure allows manual override factor entry if references unavailable
     console.error("Error fetching references:", error);
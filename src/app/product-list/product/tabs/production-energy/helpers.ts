@@ -21,6 +21,7 @@ import * as apiCalls from "./api-calls";
 // Comprehensive modal opening handler for both create and edit workflows
 // Handles form initialization, data population, and BOM item loading
 // Determines operation mode based on emission parameter presence
+// New emissions start from the company's default reference, if it has one
 // ── Open modal for add/edit emission ────────────────────────
 export const handleOpenModal = (
   setCurrentEmission: (a: ProductionEnergyEmission | null) => void,
@@ -29,7 +30,8 @@ export const handleOpenModal = (
   productId: () => number,
   setBomLineItems: (a: LineItem[]) => void,
   setIsModalOpen: (a: boolean) => void,
-  emission?: ProductionEnergyEmission | null
+  emission?: ProductionEnergyEmission | null,
+  defaultReference: number | null = null
 ) => {
   // Edit mode: populate form with existing emission data
   // Convert numeric values to strings for form input compatibility
@@ -47,7 +49,7 @@ export const handleOpenModal = (
     setCurrentEmission(null);
     setFormData({
       energy_consumption: "",
-      reference: "",
+      reference: defaultReference?.toString() ?? "",
       override_factors: [],
       line_items: [],
     });
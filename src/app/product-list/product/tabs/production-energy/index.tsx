@@ -16,6 +16,10 @@
 // ── Imports ────────────────────────────────────────────────────────────────
 // React core hooks for component lifecycle and ref forwarding
 import React, { forwardRef, useImperativeHandle, useState, useEffect } from "react";
+// Company defaults prefill the reference of new emissions
+import { useProductDefaults } from "@/hooks/useProductDefaults";
+// An open add/edit modal is kept as a draft when the session ends
+import { useModalDraft } from "@/hooks/useModalDraft";
 // Parent page interface definitions for tab communication
 import { DataPassedToTabs, TabHandle } from "../../page";
 // API types for production energy emissions and related data structures
@@ -51,7 +55,7 @@ import OverrideFactorsModal from "./OverrideFactorsModal";
 // Implements full CRUD operations with modals, validation, and data visualization
 // Uses forwardRef pattern to expose tab methods to parent page component
 const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
-    ({ productId: productIdString, onFieldChange }, ref) => {
+    ({ productId: productIdString, tabKey, onFieldChange }, ref) => {
         // ── State variables ─────────────────────────────────────────────
         // Core data state for emissions list and loading indicators
         const [emissions, setEmissions] = useState<ProductionEnergyEmission[]>([]);
@@ -77,6 +81,7 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
         // Reference data for emission factors dropdown
         const [references, setReferences] = useState<EmissionReference[]>([]);
         const [referenceQuery, setReferenceQuery] = useState("");
+        const productDefaults = useProductDefaults(localStorage.getItem("selected_company_id"));
 
         // Search and filtering state
         const [query, setQuery] = useState("");
@@ -98,6 +103,17 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
         // State management for preventing duplicate file uploads during import operations
         const [showDuplicateModal, setShowDuplicateModal] = useState(false);
 
+        // ── Draft of the add/edit modal ───────────────────────────────
+        // Reopens the modal with the values it had when the last session ended
+        const keepModalDraft = useModalDraft<{
+            emission: ProductionEnergyEmission | null;
+            formData: FormData;
+        }>(tabKey, productIdString, draft => {
+            setCurrentEmission(draft.emission);
+            setFormData(draft.formData);
+            setIsModalOpen(true);
+        });
+
         // ── Company and product ID helpers ────────────────────────────
         // Retrieve company context from localStorage for multi-tenant operations
         // Error handling ensures graceful degradation if company context is missing
@@ -115,12 +131,13 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
             return id;
         };
 
-        // ── Expose saveTab/updateTab to parent ───────────────────────
+        // ── Expose saveTab/updateTab/saveDraft to parent ─────────────
         // Forward tab interface methods to parent component for coordinated saves
         // Implements TabHandle interface for consistent tab management patterns
         useImperativeHandle(ref, () => ({
             saveTab,
             updateTab,
+            saveDraft,
         }));
 
         // ── Save tab function (stub) ─────────────────────────────────
@@ -137,15 +154,29 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
             return "";
         };
 
+        // ── Keep the open add/edit modal when the session ends ───────
+        const saveDraft = () => {
+            if (isModalOpen) keepModalDraft({ emission: currentEmission, formData });
+        };
+
         // ── Fetch emissions and BOM items on mount ──────────────────
         // Load initial data when product context becomes available
         // Dependencies ensure re-fetch when product changes in parent navigation
         useEffect(() => {
             if (productIdString) {
+                // Abort both requests when the product changes or the tab unmounts
+                const controller = new AbortController();
                 // Fetch emissions data with loading state management
-                apiCalls.fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+                apiCalls.fetchEmissions(
+                    setIsLoading,
+                    company_pk,
+                    productId,
+                    setEmissions,
+                    controller.signal
+                );
                 // Fetch BOM line items for association with emissions
-                apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems);
+                apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems, controller.signal);
+                return () => controller.abort();
             }
         }, [productIdString]);
 
@@ -153,7 +184,9 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
         // Load reference data for emission factor dropdown selections
         // Independent of product context as references are company-wide
         useEffect(() => {
-            apiCalls.fetchReferences(setReferences);
+            const controller = new AbortController();
+            apiCalls.fetchReferences(setReferences, controller.signal);
+            return () => controller.abort();
         }, []);
 
         // ── Define columns of table. ─────────────────────────────────
@@ -210,7 +243,9 @@ const ProductionEnergy = forwardRef<TabHandle, DataPassedToTabs>(
                                 company_pk,
                                 productId,
                                 setBomLineItems,
-                                setIsModalOpen
+                                setIsModalOpen,
+                                null,
+                                productDefaults?.production_energy_reference
                             )
                         }
                         className="flex items-center gap-2"
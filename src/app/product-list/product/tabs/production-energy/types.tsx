@@ -18,6 +18,8 @@ import * as Helpers from "./helpers";
 import { EmissionReference } from "@/lib/api/emissionReferenceApi";
 // Bill of Materials line item type for component-level energy attribution
 import { LineItem } from "@/lib/api/bomApi";
+// Emissions created offline cannot be changed until they reached the server
+import { isUnsyncedItem, UNSYNCED_ITEM_HINT } from "@/lib/api/offlineQueue";
 
 // Form data interface for production energy emission input forms
 // Ensures type safety across form operations and API data transformation
@@ -163,6 +165,8 @@ export const getProductionEnergyColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-blue-500 !border-blue-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             // Open modal in edit mode with current emission data
@@ -183,6 +187,8 @@ export const getProductionEnergyColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             // Trigger delete confirmation modal with emission ID
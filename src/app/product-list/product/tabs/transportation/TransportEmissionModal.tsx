@@ -1,4 +1,4 @@
-import React, { useCallback } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { Dialog, DialogPanel } from "@headlessui/react";
 // Type definitions
 import { FormData } from "./types";
@@ -20,6 +20,9 @@ import ReferenceSelector from "./components/ReferenceSelector";
 import BomItemSelector from "./components/BomItemSelector";
 import ModalHeader from "./components/ModalHeader";
 import ModalFooter from "./components/ModalFooter";
+// Summary of the backend's validation errors without an input of their own
+import { FormErrorSummary } from "../components/FormErrorSummary";
+import { NO_ERRORS, NormalizedErrors } from "@/utils/fieldErrors";
 
 // Props interface for TransportEmissionModal component
 // Contains all the state, data and handlers needed for the modal
@@ -114,6 +117,14 @@ const TransportEmissionModal: React.FC<TransportEmissionModalProps> = ({
     getSelectedReferenceValue,
   } = useTransportEmissionForm(formData, setFormData, references, bomLineItems);
 
+  // Validation errors returned by the backend for the last submission
+  const [formErrors, setFormErrors] = useState<NormalizedErrors>(NO_ERRORS);
+
+  // Start without errors whenever the modal is opened
+  useEffect(() => {
+    if (isModalOpen) setFormErrors(NO_ERRORS);
+  }, [isModalOpen]);
+
   // Memoized callback to handle modal close action
   const handleClose = useCallback(() => {
     Helpers.handleCloseModal(setIsModalOpen, setCurrentEmission);
@@ -130,7 +141,8 @@ const TransportEmissionModal: React.FC<TransportEmissionModalProps> = ({
       setIsLoading,
       setEmissions,
       setIsModalOpen,
-      onFieldChange
+      onFieldChange,
+      setFormErrors
     );
   }, [
     formData,
@@ -174,6 +186,7 @@ const TransportEmissionModal: React.FC<TransportEmissionModalProps> = ({
             {/* Transport form fields for distance and weight */}
             <TransportFormFields
               formData={formData}
+              errors={formErrors.fieldErrors}
               onDistanceChange={handleDistanceChange}
               onWeightChange={handleWeightChange}
             />
@@ -207,6 +220,9 @@ const TransportEmissionModal: React.FC<TransportEmissionModalProps> = ({
               onFieldChange={handleOverrideChange}
               renderField={(fieldKey: string) => <></>}
             />
+
+            {/* Validation errors returned by the backend */}
+            <FormErrorSummary errors={formErrors} inlineFields={["distance", "weight"]} />
           </div>
 
           {/* Modal Footer with action buttons */}
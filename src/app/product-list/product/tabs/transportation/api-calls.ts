@@ -12,6 +12,12 @@ import { LifecycleStageChoice } from "@/lib/api";
 import { EmissionReference, emissionReferenceApi } from "@/lib/api/emissionReferenceApi";
 // Import local form data types
 import { FormData } from "./types";
+// Import helper for recognising cancelled requests
+import { isAbortError } from "@/lib/api/apiClient";
+// Import helpers for mutations queued while offline
+import { applyQueuedChange, QueueResult } from "@/lib/api/offlineQueue";
+// Import normalizer for the backend's validation errors
+import { NO_ERRORS, NormalizedErrors, normalizeFieldErrors } from "@/utils/fieldErrors";
 
 // Fetch all transport emissions for a specific product
 // This function retrieves all emissions data from the backend API
@@ -23,7 +29,9 @@ export const fetchEmissions = async (
   // Function that returns the current product ID
   productId: () => number,
   // State setter for emissions data
-  setEmissions: (a: TransportEmission[]) => void
+  setEmissions: (a: TransportEmission[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   // Validate product ID before making API call
   if (isNaN(productId())) {
@@ -35,15 +43,19 @@ export const fetchEmissions = async (
   
   try {
     // Call the API to get all transport emissions for this product
-    const data = await transportEmissionApi.getAllTransportEmissions(company_pk, productId());
+    const data = await transportEmissionApi.getAllTransportEmissions(company_pk, productId(), {
+      signal,
+    });
     // Update state with fetched emissions data
     setEmissions(data);
   } catch (error) {
+    // Cancelled requests belong to a tab that is no longer shown
+    if (isAbortError(error)) return;
     // Log any errors to console for debugging
     console.error("Error fetching transport emissions:", error);
   } finally {
-    // Always set loading to false when done, even if there was an error
-    setIsLoading(false);
+    // Set loading to false when done, even if there was an error, unless cancelled
+    if (!signal?.aborted) setIsLoading(false);
   }
 };
 
@@ -55,14 +67,18 @@ export const fetchBomLineItems = async (
   // Function to get current product ID
   productId: () => number,
   // State setter for BOM items
-  setBomLineItems: (a: LineItem[]) => void
+  setBomLineItems: (a: LineItem[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   try {
     // Retrieve all line items for this product from the BOM API
-    const data = await bomApi.getAllLineItems(company_pk, productId());
+    const data = await bomApi.getAllLineItems(company_pk, productId(), { signal });
     // Update component state with fetched line items
     setBomLineItems(data);
   } catch (error) {
+    // Ignore cancelled requests
+    if (isAbortError(error)) return;
     // Log errors to console for debugging purposes
     console.error("Error fetching BOM items:", error);
   }
@@ -76,14 +92,17 @@ export const fetchLifecycleChoices = async (
   // Function to get product ID
   productId: () => number, 
   // State setter for choices
-  setLifecycleChoices: (a: LifecycleStageChoice[]) => void
+  setLifecycleChoices: (a: LifecycleStageChoice[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
 ) => {
   try {
     // Make API call to get schema options including available lifecycle stages
     // The schema response contains metadata about available choices for fields
     const schema = (await transportEmissionApi.getTransportEmissionOptions(
       company_pk,
-      productId()
+      productId(),
+      { signal }
     )) as {
       actions: {
         POST: {
@@ -108,6 +127,8 @@ export const fetchLifecycleChoices = async (
     // Update component state with the available lifecycle stage choices
     setLifecycleChoices(choices);
   } catch (error) {
+    // Ignore cancelled requests
+    if (isAbortError(error)) return;
     // Log API errors to console
     console.error("Error fetching lifecycle stage choices:", error);
   }
@@ -115,13 +136,20 @@ export const fetchLifecycleChoices = async (
 
 // Fetch reference emission factors for transportation
 // These are standardized factors that can be used for emissions calculations
-export const fetchReferences = async (setReferences: (a: EmissionReference[]) => void) => {
+export const fetchReferences = async (
+  // State setter for reference data
+  setReferences: (a: EmissionReference[]) => void,
+  // Optional signal that cancels the request when the tab unmounts
+  signal?: AbortSignal
+) => {
   try {
     // Call API to get all transportation reference data
-    const data = await emissionReferenceApi.getAllTransportReferences();
+    const data = await emissionReferenceApi.getAllTransportReferences({ signal });
     // Update state with reference data
     setReferences(data);
   } catch (error) {
+    // Ignore cancelled requests
+    if (isAbortError(error)) return;
     // Log any API errors
     console.error("Error fetching transport references:", error);
   }
@@ -143,11 +171,15 @@ export const handleSubmit = async (
   // Function to update loading state
   setIsLoading: (a: boolean) => void,
   // Function to update emissions list
-  setEmissions: (a: TransportEmission[]) => void,
+  setEmissions: (
+    a: TransportEmission[] | ((prev: TransportEmission[]) => TransportEmission[])
+  ) => void,
   // Function to control modal visibility
   setIsModalOpen: (a: boolean) => void,
   // Callback for form changes
-  onFieldChange: (field?: string, value?: any, meta?: any) => void
+  onFieldChange: (field?: string, value?: any, meta?: any) => void,
+  // Function to show the backend's validation errors in the form
+  setFormErrors: (a: NormalizedErrors) => void
 ) => {
   // Parse and validate distance input
   const distanceNum = parseFloat(formData.distance);
@@ -191,6 +223,8 @@ export const handleSubmit = async (
 
   // Set submitting state to show loading indicator
   setIsSubmitting(true);
+  // Clear errors of the previous attempt
+  setFormErrors(NO_ERRORS);
   
   try {
     // Parse reference ID from string to number
@@ -224,10 +258,11 @@ export const handleSubmit = async (
       line_items: formData.line_items.length ? formData.line_items : undefined,
     } as CreateTransportEmission & { override_factors: any[]; line_items?: number[] };
 
+    let result: QueueResult<TransportEmission>;
     // Check if we're updating an existing emission or creating a new one
     if (currentEmission) {
       // Update existing emission with PUT request
-      await transportEmissionApi.updateTransportEmission(
+      result = await transportEmissionApi.updateTransportEmission(
         company_pk,
         productId(),
         currentEmission.id,
@@ -235,11 +270,20 @@ export const handleSubmit = async (
       );
     } else {
       // Create new emission with POST request
-      await transportEmissionApi.createTransportEmission(company_pk, productId(), payloadBase);
+      result = await transportEmissionApi.createTransportEmission(
+        company_pk,
+        productId(),
+        payloadBase
+      );
     }
 
-    // After successful API call, refresh the emissions list
-    await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    if (result.queued) {
+      // Offline: show the change right away, it is sent once the connection returns
+      setEmissions(prev => applyQueuedChange(prev, currentEmission?.id ?? null, payloadBase));
+    } else {
+      // After successful API call, refresh the emissions list
+      await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    }
     // Close the modal after successful submission
     setIsModalOpen(false);
     // Notify parent component that transport emissions have changed
@@ -247,6 +291,13 @@ export const handleSubmit = async (
   } catch (error) {
     // Log API errors to console
     console.error("Error saving transport emission:", error);
+    // Show validation errors next to their fields, or a general message otherwise
+    setFormErrors(
+      normalizeFieldErrors(error) ?? {
+        fieldErrors: {},
+        formError: "Could not save the transport emission. Please try again.",
+      }
+    );
   } finally {
     // Always reset submitting state when done
     setIsSubmitting(false);
@@ -1,10 +1,12 @@
 import React from 'react';
 import { FormData } from '../types';
+import { FieldErrorMap } from '@/utils/fieldErrors';
 
 // Props interface for the TransportFormFields component
 // Defines the form data and event handlers needed for the input fields
 interface TransportFormFieldsProps {
   formData: FormData;
+  errors?: FieldErrorMap; // Validation errors returned by the backend, keyed by field
   onDistanceChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onWeightChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
@@ -28,6 +30,7 @@ interface TransportFormFieldsProps {
 // are essential for emission calculations.
 const TransportFormFields: React.FC<TransportFormFieldsProps> = ({
   formData,
+  errors = {},
   onDistanceChange,
   onWeightChange,
 }) => {
@@ -53,6 +56,12 @@ const TransportFormFields: React.FC<TransportFormFieldsProps> = ({
           className="w-full p-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
           required  // HTML5 validation for required field
         />
+        {/* Validation error returned by the backend */}
+        {errors.distance && (
+          <p className="mt-1 text-xs text-red-500 dark:text-red-400" role="alert">
+            {errors.distance}
+          </p>
+        )}
       </div>
 
       {/* Weight input field container */}
@@ -75,6 +84,12 @@ const TransportFormFields: React.FC<TransportFormFieldsProps> = ({
           className="w-full p-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
           required  // HTML5 validation for required field
         />
+        {/* Validation error returned by the backend */}
+        {errors.weight && (
+          <p className="mt-1 text-xs text-red-500 dark:text-red-400" role="alert">
+            {errors.weight}
+          </p>
+        )}
       </div>
     </>
   );
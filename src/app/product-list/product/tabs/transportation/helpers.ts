@@ -7,7 +7,7 @@ import { LifecycleStageChoice } from "@/lib/api";
 
 // Opens the modal dialog for adding or editing a transport emission
 // When an emission is provided, pre-fills the form for editing
-// When no emission is provided, prepares an empty form for a new entry
+// When no emission is provided, prepares a form for a new entry with the company's default reference
 // Also refreshes reference data needed for the form
 export const handleOpenModal = (
   setCurrentEmission: (a: TransportEmission | null) => void,
@@ -18,7 +18,8 @@ export const handleOpenModal = (
   setLifecycleChoices: (a: LifecycleStageChoice[]) => void,
   setReferences: (a: EmissionReference[]) => void,
   setIsModalOpen: (a: boolean) => void,
-  emission?: TransportEmission | null
+  emission?: TransportEmission | null,
+  defaultReference: number | null = null
 ) => {
   // If an emission is provided, we're editing an existing emission
   if (emission) {
@@ -46,11 +47,11 @@ export const handleOpenModal = (
   } else {
     // Add a new emission, so reset form state
     setCurrentEmission(null);
-    // Initialize empty form data
+    // Initialize empty form data, apart from the default reference
     setFormData({
       distance: "",
       weight: "",
-      reference: "",
+      reference: defaultReference?.toString() ?? "",
       override_factors: [],
       line_items: [],
     });
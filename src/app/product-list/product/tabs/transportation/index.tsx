@@ -2,6 +2,8 @@
 
 // Import React hooks and UI components
 import React, { forwardRef, useImperativeHandle, useState, useEffect } from "react";
+import { useProductDefaults } from "@/hooks/useProductDefaults";
+import { useModalDraft } from "@/hooks/useModalDraft";
 import ImportExportDropdown from "@/app/components/ui/ImportExportDropdown";
 import { DataPassedToTabs, TabHandle } from "../../page";
 // Import API types for transportation data
@@ -29,7 +31,7 @@ import TransportEmissionModal from "./TransportEmissionModal";
 // It maintains several state variables to track emissions data,
 // loading states, and UI interactions
 const Index = forwardRef<TabHandle, DataPassedToTabs>(
-  ({ productId: productIdString, onFieldChange }, ref) => {
+  ({ productId: productIdString, tabKey, onFieldChange }, ref) => {
     // State for emissions data
     const [emissions, setEmissions] = useState<TransportEmission[]>([]);
     // Loading state for data fetching
@@ -56,6 +58,8 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
     const [references, setReferences] = useState<EmissionReference[]>([]);
     // Query for filtering references
     const [referenceQuery, setReferenceQuery] = useState("");
+    // Company defaults, new emissions start from their transport reference
+    const productDefaults = useProductDefaults(localStorage.getItem("selected_company_id"));
     // BOM items for association with emissions
     const [bomLineItems, setBomLineItems] = useState<LineItem[]>([]);
     // Query for filtering BOM line items
@@ -72,6 +76,15 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
     const [showTemplateModal, setShowTemplateModal] = useState(false);
     // State for managing deletion confirmation
     const [isDeleting, setIsDeleting] = useState(false);
+    // Draft of the add/edit modal, reopened with the values it had when the last session ended
+    const keepModalDraft = useModalDraft<{
+      emission: TransportEmission | null;
+      formData: FormData;
+    }>(tabKey, productIdString, draft => {
+      setCurrentEmission(draft.emission);
+      setFormData(draft.formData);
+      setIsModalOpen(true);
+    });
 
     // Convert string product ID to number
     const productId = () => {
@@ -100,20 +113,28 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
         // No update function needed for this tab
         return "";
       },
+      // Method to keep the open add/edit modal when the session ends
+      saveDraft: () => {
+        if (isModalOpen) keepModalDraft({ emission: currentEmission, formData });
+      },
     }));
 
     // Load initial data when component mounts or product ID changes
     useEffect(() => {
       // Only fetch data when a valid product ID is available
       if (productIdString) {
+        // Abort all requests when the product changes or the tab unmounts
+        const controller = new AbortController();
+        const { signal } = controller;
         // Get transportation emissions for this product and update the emissions state
-        apiCalls.fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+        apiCalls.fetchEmissions(setIsLoading, company_pk, productId, setEmissions, signal);
         // Get bill of materials items to associate with emissions
-        apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems);
+        apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems, signal);
         // Get available lifecycle stages for emission override factors
-        apiCalls.fetchLifecycleChoices(company_pk, productId, setLifecycleChoices);
+        apiCalls.fetchLifecycleChoices(company_pk, productId, setLifecycleChoices, signal);
         // Get emission reference data for dropdown selection
-        apiCalls.fetchReferences(setReferences);
+        apiCalls.fetchReferences(setReferences, signal);
+        return () => controller.abort();
       }
     }, [productIdString]);
 
@@ -175,7 +196,9 @@ const Index = forwardRef<TabHandle, DataPassedToTabs>(
                 setBomLineItems,
                 setLifecycleChoices,
                 setReferences,
-                setIsModalOpen
+                setIsModalOpen,
+                null,
+                productDefaults?.transport_reference
               )
             }
             className="flex items-center gap-2"
@@ -15,6 +15,7 @@ import * as Helpers from "./helpers";
 import { LineItem } from "@/lib/api/bomApi";
 // Import lifecycle stage choices for emission categorization
 import { LifecycleStageChoice } from "@/lib/api";
+import { isUnsyncedItem, UNSYNCED_ITEM_HINT } from "@/lib/api/offlineQueue";
 
 // FormData type definition for transportation emission forms
 // Contains fields for distance, weight, reference ID, override factors, and associated line items
@@ -142,6 +143,8 @@ export const getTransportColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-blue-500 !border-blue-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.handleOpenModal(
@@ -162,6 +165,8 @@ export const getTransportColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.handleConfirmDelete(setDeletingEmissionId, setIsDeleteModalOpen, emission.id);
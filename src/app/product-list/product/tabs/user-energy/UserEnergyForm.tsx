@@ -33,6 +33,7 @@ interface UserEnergyFormProps {
   setFormData: (formData: FormData) => void;
   references: EmissionReference[];
   bomLineItems: LineItem[];
+  energyConsumptionError?: string; // Validation error of the energy consumption returned by the backend
 }
 
 // Functional component definition for UserEnergyForm
@@ -41,6 +42,7 @@ export default function UserEnergyForm({
   setFormData,
   references,
   bomLineItems,
+  energyConsumptionError,
 }: UserEnergyFormProps) {
   // State: filter query string for emission references
   const [referenceQuery, setReferenceQuery] = useState("");
@@ -78,6 +80,12 @@ export default function UserEnergyForm({
         <span id="user-energy-consumption-help" className="sr-only">
           Enter the energy consumption during product usage in kilowatt hours
         </span>
+        {/* Validation error returned by the backend */}
+        {energyConsumptionError && (
+          <p className="mt-1 text-xs text-red-500 dark:text-red-400" role="alert">
+            {energyConsumptionError}
+          </p>
+        )}
       </div>
 
       {/* Reference Section: select emission factor */}
@@ -18,6 +18,9 @@ import { LineItem } from "@/lib/api/bomApi";
 import { FormData } from "./types";
 // Import the UserEnergyForm component
 import UserEnergyForm from "./UserEnergyForm";
+// Import summary of the backend's validation errors
+import { FormErrorSummary } from "../components/FormErrorSummary";
+import { NormalizedErrors } from "@/utils/fieldErrors";
 
 // Define props for UserEnergyModal component
 interface UserEnergyModalProps {
@@ -28,6 +31,7 @@ interface UserEnergyModalProps {
   references: EmissionReference[];
   bomLineItems: LineItem[];
   isSubmitting: boolean;
+  formErrors: NormalizedErrors;
   onClose: () => void;
   onSubmit: () => void;
 }
@@ -41,6 +45,7 @@ export default function UserEnergyModal({
   references,
   bomLineItems,
   isSubmitting,
+  formErrors,
   onClose,
   onSubmit,
 }: UserEnergyModalProps) {
@@ -89,8 +94,14 @@ export default function UserEnergyModal({
             setFormData={setFormData}
             references={references}
             bomLineItems={bomLineItems}
+            energyConsumptionError={formErrors.fieldErrors.energy_consumption}
           />
 
+          {/* Validation errors returned by the backend */}
+          <div className="mt-4">
+            <FormErrorSummary errors={formErrors} inlineFields={["energy_consumption"]} />
+          </div>
+
           {/* Footer with action buttons */}
           <div className="flex justify-end gap-2 mt-6 pt-4 border-t dark:border-t-gray-700">
             {/* Cancel action button */}
@@ -5,15 +5,20 @@
 import { userEnergyEmissionApi, UserEnergyEmission } from "@/lib/api/userEnergyEmissionApi";
 import { FormData } from "./types";
 import { bomApi, LineItem } from "@/lib/api/bomApi";
+import { isAbortError } from "@/lib/api/apiClient";
+import { applyQueuedChange, QueueResult } from "@/lib/api/offlineQueue";
+import { NO_ERRORS, NormalizedErrors, normalizeFieldErrors } from "@/utils/fieldErrors";
 
 // Function: fetchEmissions
 // Purpose: Load all user energy emissions, manage loading state, and handle errors.
 // Usage: Called on mount or after create/update operations.
+// An optional signal cancels the request when the tab unmounts.
 export const fetchEmissions = async (
   setIsLoading: (a: boolean) => void,
   company_pk: number,
   productId: () => number,
-  setEmissions: (a: UserEnergyEmission[]) => void
+  setEmissions: (a: UserEnergyEmission[]) => void,
+  signal?: AbortSignal
 ) => {
   // Validate productId: ensure it is a number before API call
   if (isNaN(productId())) {
@@ -22,15 +27,20 @@ export const fetchEmissions = async (
   // Set loading indicator before fetching emissions
   setIsLoading(true);
   try {
-    const data = await userEnergyEmissionApi.getAllUserEnergyEmissions(company_pk, productId());
+    const data = await userEnergyEmissionApi.getAllUserEnergyEmissions(
+      company_pk,
+      productId(),
+      { signal }
+    );
     setEmissions(data);
-  // Handle errors that occur during the fetch call
+  // Handle errors that occur during the fetch call, ignoring cancelled requests
   } catch (error) {
+    if (isAbortError(error)) return;
     console.error("Error fetching emissions:", error);
   }
   // Always executed after try/catch to reset loading
   finally {
-    setIsLoading(false);
+    if (!signal?.aborted) setIsLoading(false);
   }
 };
 
@@ -44,9 +54,12 @@ export const handleSubmit = async (
   company_pk: number,
   productId: () => number,
   setIsLoading: (a: boolean) => void,
-  setEmissions: (a: UserEnergyEmission[]) => void,
+  setEmissions: (
+    a: UserEnergyEmission[] | ((prev: UserEnergyEmission[]) => UserEnergyEmission[])
+  ) => void,
   setIsModalOpen: (a: boolean) => void,
-  onFieldChange: () => void
+  onFieldChange: () => void,
+  setFormErrors: (a: NormalizedErrors) => void
 ) => {
   // Parse and validate energy consumption input from formData
   const energyConsumption = parseFloat(formData.energy_consumption);
@@ -72,6 +85,8 @@ export const handleSubmit = async (
 
   // Mark form as submitting to disable UI during API call
   setIsSubmitting(true);
+  // Clear errors of the previous attempt
+  setFormErrors(NO_ERRORS);
   try {
     const reference = formData.reference ? parseInt(formData.reference) : null;
 
@@ -84,10 +99,11 @@ export const handleSubmit = async (
       line_items: formData.line_items,
     };
 
+    let result: QueueResult<UserEnergyEmission>;
     // Perform API call: create or update emission entry
     if (currentEmission) {
       // Update existing emission
-      await userEnergyEmissionApi.updateUserEnergyEmission(
+      result = await userEnergyEmissionApi.updateUserEnergyEmission(
         company_pk,
         productId(),
         currentEmission.id,
@@ -95,16 +111,28 @@ export const handleSubmit = async (
       );
     } else {
       // Create new emission
-      await userEnergyEmissionApi.createUserEnergyEmission(company_pk, productId(), data);
+      result = await userEnergyEmissionApi.createUserEnergyEmission(company_pk, productId(), data);
     }
 
-    // Refresh the list of emissions
-    await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    if (result.queued) {
+      // Offline: show the change right away, it is sent once the connection returns
+      setEmissions(prev => applyQueuedChange(prev, currentEmission?.id ?? null, data));
+    } else {
+      // Refresh the list of emissions
+      await fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
+    }
     // Close modal after successful submission
     setIsModalOpen(false);
     onFieldChange(); // Notify parent component of changes
   } catch (error) {
     console.error("Error saving emission:", error);
+    // Show validation errors next to their fields, or a general message otherwise
+    setFormErrors(
+      normalizeFieldErrors(error) ?? {
+        fieldErrors: {},
+        formError: "Could not save the user energy emission. Please try again.",
+      }
+    );
   } finally {
     setIsSubmitting(false);
   }
@@ -149,14 +177,16 @@ export const handleDelete = async (
 export const fetchBomLineItems = async (
   company_pk: number,
   productId: () => number,
-  setBomLineItems: (a: LineItem[]) => void
+  setBomLineItems: (a: LineItem[]) => void,
+  signal?: AbortSignal
 ) => {
   // Begin API call to retrieve all BOM line items
   try {
-    const data = await bomApi.getAllLineItems(company_pk, productId());
+    const data = await bomApi.getAllLineItems(company_pk, productId(), { signal });
     // Update state with fetched BOM items
     setBomLineItems(data);
   } catch (error) {
+    if (isAbortError(error)) return;
     console.error("Error fetching BOM items:", error);
   }
 };
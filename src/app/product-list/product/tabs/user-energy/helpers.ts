@@ -18,13 +18,15 @@ import { FormData } from "./types";
 
 // Handler: Opens modal for creating or editing an energy emission entry.
 // Populates form data and triggers BOM line items fetch.
+// New entries start from the company's default reference, if it has one.
 // ── Open modal for add/edit emission. ────────────────────────
 export const handleOpenModal = (
   setCurrentEmission: (a: UserEnergyEmission | null) => void,
   setFormData: (a: FormData) => void,
   fetchBomLineItems: () => void,
   setIsModalOpen: (a: boolean) => void,
-  emission: UserEnergyEmission | null = null
+  emission: UserEnergyEmission | null = null,
+  defaultReference: number | null = null
 ) => {
   if (emission) {
     setCurrentEmission(emission);
@@ -38,7 +40,7 @@ export const handleOpenModal = (
     setCurrentEmission(null);
     setFormData({
       energy_consumption: "",
-      reference: "",
+      reference: defaultReference?.toString() ?? "",
       override_factors: [],
       line_items: [],
     });
@@ -22,6 +22,14 @@ import { DataPassedToTabs, TabHandle } from "../../page";
 import { UserEnergyEmission } from "@/lib/api/userEnergyEmissionApi";
 // Import emission reference types and API client
 import { EmissionReference, emissionReferenceApi } from "@/lib/api/emissionReferenceApi";
+// Import helper for ignoring cancelled requests
+import { isAbortError } from "@/lib/api/apiClient";
+// Company defaults prefill the reference of new emissions
+import { useProductDefaults } from "@/hooks/useProductDefaults";
+// An open add/edit modal is kept as a draft when the session ends
+import { useModalDraft } from "@/hooks/useModalDraft";
+// Import empty error state for the add/edit form
+import { NO_ERRORS, NormalizedErrors } from "@/utils/fieldErrors";
 // Import BOM line item API type
 import { LineItem } from "@/lib/api/bomApi";
 // Import shared Button UI component
@@ -54,7 +62,7 @@ import { FormData, getUserEnergyColumns } from "./types";
 // ── UserEnergy Tab: Handles user energy emissions CRUD ──────────────────────
 // Define UserEnergy component with forwarded ref for parent control
 const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
-  ({ productId: productIdString, onFieldChange }, ref) => {
+  ({ productId: productIdString, tabKey, onFieldChange }, ref) => {
     // State: list of user energy emissions fetched from API
     const [emissions, setEmissions] = useState<UserEnergyEmission[]>([]);
     // State: loading flag for data fetch operations
@@ -75,8 +83,12 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
     // State: ID of emission pending deletion confirmation
     const [deletingEmissionId, setDeletingEmissionId] = useState<number | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // State: validation errors returned by the backend for the add/edit form
+    const [formErrors, setFormErrors] = useState<NormalizedErrors>(NO_ERRORS);
     // State: list of emission reference factors fetched on mount
     const [references, setReferences] = useState<EmissionReference[]>([]);
+    // Defaults of the company, including the reference new emissions start from
+    const productDefaults = useProductDefaults(localStorage.getItem("selected_company_id"));
     // State: emission selected for override factors display modal
     const [showFactorsForEmission, setShowFactorsForEmission] = useState<UserEnergyEmission | null>(
       null
@@ -86,6 +98,15 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
     // State: emission selected for BOM items display modal
     const [showBomItemsForEmission, setShowBomItemsForEmission] =
       useState<UserEnergyEmission | null>(null);
+    // Draft of the add/edit modal, reopened with the values it had when the last session ended
+    const keepModalDraft = useModalDraft<{
+      emission: UserEnergyEmission | null;
+      formData: FormData;
+    }>(tabKey, productIdString, draft => {
+      setCurrentEmission(draft.emission);
+      setFormData(draft.formData);
+      setIsModalOpen(true);
+    });
 
     // Retrieve the selected company ID from localStorage
     const company_pk_string = localStorage.getItem("selected_company_id");
@@ -102,10 +123,11 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
       return id;
     };
 
-    // Expose saveTab and updateTab methods via ref
+    // Expose saveTab, updateTab and saveDraft methods via ref
     useImperativeHandle(ref, () => ({
       saveTab,
       updateTab,
+      saveDraft,
     }));
 
     // Stubbed saveTab implementation returning an empty promise
@@ -118,11 +140,25 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
       return "";
     };
 
+    // Keep the open add/edit modal when the session ends
+    const saveDraft = () => {
+      if (isModalOpen) keepModalDraft({ emission: currentEmission, formData });
+    };
+
     // Effect: fetch initial emissions and BOM items on component mount
+    // Requests are aborted when the product changes or the tab unmounts
     useEffect(() => {
       if (productIdString) {
-        apiCalls.fetchEmissions(setIsLoading, company_pk, productId, setEmissions);
-        apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems);
+        const controller = new AbortController();
+        apiCalls.fetchEmissions(
+          setIsLoading,
+          company_pk,
+          productId,
+          setEmissions,
+          controller.signal
+        );
+        apiCalls.fetchBomLineItems(company_pk, productId, setBomLineItems, controller.signal);
+        return () => controller.abort();
       }
     }, [productIdString]);
 
@@ -133,16 +169,21 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
 
     // Effect: fetch emission reference factors on component mount
     useEffect(() => {
+      const controller = new AbortController();
       const fetchReferences = async () => {
         try {
-          const data = await emissionReferenceApi.getAllUserEnergyReferences();
+          const data = await emissionReferenceApi.getAllUserEnergyReferences({
+            signal: controller.signal,
+          });
           setReferences(data);
         } catch (error) {
+          if (isAbortError(error)) return;
           console.error("Error fetching user energy references:", error);
         }
       };
 
       fetchReferences();
+      return () => controller.abort();
     }, []);
 
     // Event handler: submit formData to add or update emission
@@ -156,7 +197,8 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
         setIsLoading,
         setEmissions,
         setIsModalOpen,
-        onFieldChange
+        onFieldChange,
+        setFormErrors
       );
     };
 
@@ -176,12 +218,14 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
 
     // Event handler: open add/edit modal with optional existing emission
     const handleOpenModal = (emission: UserEnergyEmission | null = null) => {
+      setFormErrors(NO_ERRORS);
       Helpers.handleOpenModal(
         setCurrentEmission,
         setFormData,
         fetchBomLineItems,
         setIsModalOpen,
-        emission
+        emission,
+        productDefaults?.user_energy_reference
       );
     };
 
@@ -259,6 +303,7 @@ const UserEnergy = forwardRef<TabHandle, DataPassedToTabs>(
           references={references}
           bomLineItems={bomLineItems}
           isSubmitting={isSubmitting}
+          formErrors={formErrors}
           onClose={handleCloseModal}
           onSubmit={handleSubmit}
         />
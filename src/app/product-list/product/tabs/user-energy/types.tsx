@@ -11,6 +11,7 @@ import Button from "@/app/components/ui/Button";
 import { Edit, Trash } from "lucide-react";
 import * as Helpers from "./helpers";
 import { EmissionReference } from "@/lib/api/emissionReferenceApi";
+import { isUnsyncedItem, UNSYNCED_ITEM_HINT } from "@/lib/api/offlineQueue";
 
 // FormData: shape of the form state for user energy entries.
 // energy_consumption: kWh value as string for controlled input
@@ -127,6 +128,8 @@ export const getUserEnergyColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-blue-500 !border-blue-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.handleOpenModal(
@@ -143,6 +146,8 @@ export const getUserEnergyColumns = (
         <Button
           size="sm"
           className="flex items-center gap-1 text-xs !bg-red-500 !border-red-500 !text-white hover:cursor-pointer"
+          disabled={isUnsyncedItem(emission)}
+          title={isUnsyncedItem(emission) ? UNSYNCED_ITEM_HINT : undefined}
           onClick={e => {
             e.stopPropagation();
             Helpers.handleConfirmDelete(setDeletingEmissionId, setIsDeleteModalOpen, emission.id);
@@ -1,12 +1,14 @@
+import { hasSession } from "@/lib/api/session";
+
 // Helper function to validate environment requirements
-// Checks for required environment variables and authentication tokens
+// Checks for required environment variables and the stored session
 // Returns validation status and all required values for API operations
 export const validateEnvironment = () => {
   const API_URL = process.env.NEXT_PUBLIC_API_URL;
-  const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
+  const signedIn = hasSession();
   const company = typeof window !== "undefined" ? localStorage.getItem("selected_company_id") : null;
   
-  return { API_URL, token, company, isValid: !!(API_URL && token && company) };
+  return { API_URL, signedIn, company, isValid: !!(API_URL && signedIn && company) };
 };
 
 // Helper function to update live region announcements for accessibility
@@ -1,4 +1,7 @@
 import { productApi } from "@/lib/api/productApi";
+import { isAbortError } from "@/lib/api/apiClient";
+import { listQuery, Page } from "@/lib/api/pagination";
+import { Product } from "@/lib/api/productApi";
 import { validateEnvironment, updateLiveRegion, triggerFileDownload } from "./environmentUtils";
 
 // Handles AI product advice requests including state management
@@ -80,73 +83,50 @@ export const handleTemplateDownload = async (
   }
 };
 
-// Fetches products with accessibility announcements and error handling
-// Handles product search and loading with comprehensive error management
+// Fetches a page of products with accessibility announcements and error handling
+// The first page is searched and ordered on the server, later pages are requested by their query
 // Provides accessibility support through live region announcements
-export const fetchProducts = async (options: {
-  companyId?: string | null;
+export const fetchProductPage = async (options: {
+  companyId: string;
+  next: string | null;
   query?: string;
-  apiBaseUrl?: string;
-  onLoadingChange?: (isLoading: boolean) => void;
-  onError?: (message: string) => void;
-  setProducts?: (products: any[]) => void;
-  onAuthError?: () => void;
+  ordering?: string;
+  signal?: AbortSignal;
   statusRegionId?: string;
   errorRegionId?: string;
-}): Promise<any[]> => {
+}): Promise<Page<Product>> => {
   const {
-    companyId = localStorage.getItem("selected_company_id"),
+    companyId,
+    next,
     query = "",
-    onLoadingChange,
-    onError,
-    setProducts,
-    onAuthError,
+    ordering,
+    signal,
     statusRegionId = "status-announcements",
     errorRegionId = "error-announcements",
   } = options;
 
-  if (!companyId) {
-    if (onError) onError("Company ID not found");
-    return [];
-  }
-
   try {
-    if (onLoadingChange) onLoadingChange(true);
-
     // Announce loading status
-    updateLiveRegion(statusRegionId, "Loading products...");
-
-    // Get auth token
-    const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
-    if (!token) {
-      if (onAuthError) onAuthError();
-      return [];
-    }
+    updateLiveRegion(statusRegionId, next ? "Loading more products..." : "Loading products...");
 
-    // Build the API URL with search parameter
-    const searchParam = query.length >= 4 ? `?search=${encodeURIComponent(query)}` : "";
-    // Parse response
-    const data = await productApi.searchProducts(companyId, searchParam);
-
-    // Update state if callback provided
-    if (setProducts) setProducts(data);
+    // Search terms shorter than 4 characters are not sent to the server
+    const search = query.length >= 4 ? query : "";
+    const page = await productApi.listProductsPage(
+      companyId,
+      next ?? listQuery({ search, ordering }),
+      { signal }
+    );
 
     // Announce completion
-    updateLiveRegion(statusRegionId, `${data.length} products loaded`);
+    updateLiveRegion(
+      statusRegionId,
+      page.count === null ? `${page.results.length} products loaded` : `${page.count} products found`
+    );
 
-    // Return the data
-    return data;
+    return page;
   } catch (err: unknown) {
-    const errorMessage = err instanceof Error ? err.message : "Something went wrong";
-
-    // Update error state if callback provided
-    if (onError) onError(errorMessage);
-
-    // Announce error via ARIA live region
-    updateLiveRegion(errorRegionId, "Error loading products");
-
-    return [];
-  } finally {
-    if (onLoadingChange) onLoadingChange(false);
+    // A newer search superseded this one, the list drops its result
+    if (!isAbortError(err)) updateLiveRegion(errorRegionId, "Error loading products");
+    throw err;
   }
 };
@@ -1,5 +1,8 @@
 // Import utility for translating server error messages into user-friendly text
 import { translateImportError } from "@/utils/translateImportError";
+import { ApiError } from "@/lib/api/apiClient";
+import { importFile } from "@/lib/api/uploadApi";
+import { invalidateQueries, queryKeys } from "@/lib/api/queryCache";
 
 // Helper function to determine API endpoint and redirect path
 // Maps file extensions to appropriate import endpoints and navigation targets
@@ -27,21 +30,21 @@ export const getUploadConfig = (extension: string, companyId: string) => {
   };
 };
 
-// Helper function to handle upload response errors
+// Helper function to handle upload errors
 // Processes different error response formats and sets appropriate error states
 // Handles both JSON and HTML error responses from the server
-export const handleUploadError = async (
-  res: Response,
+export const handleUploadError = (
+  error: ApiError,
   setError: (error: string) => void,
   setImportErrors: (errors: { attr: string; detail: string }[]) => void
 ) => {
-  // Extract content type to determine how to parse the error response
-  const contentType = res.headers.get("Content-Type");
-
   // Handle structured JSON error responses from the API
-  if (contentType?.includes("application/json")) {
-    // Safely parse JSON response, fallback to null if parsing fails
-    const err = await res.json().catch(() => null);
+  if (typeof error.data === "object" && error.data !== null) {
+    const err = error.data as {
+      type?: string;
+      detail?: unknown;
+      errors?: { attr: string; detail: string }[];
+    };
 
     // Check if response contains structured validation errors
     if (err?.errors && Array.isArray(err.errors)) {
@@ -52,7 +55,7 @@ export const handleUploadError = async (
         setImportErrors(err.errors);
       } else {
         // Set general error message for non-validation issues
-        setError(err.detail || "Upload failed due to an unknown issue.");
+        setError(String(err.detail || "Upload failed due to an unknown issue."));
       }
     } else {
       // Handle cases where JSON doesn't contain expected error structure
@@ -64,7 +67,7 @@ export const handleUploadError = async (
     }
   } else {
     // Handle HTML error responses (typically from server errors or proxy issues)
-    const rawText = await res.text();
+    const rawText = typeof error.data === "string" ? error.data : "";
     // Extract error title from HTML response for user-friendly display
     const titleMatch = rawText.match(/<title>(.*?)<\/title>/i);
     const title = titleMatch?.[1] ?? "Unexpected server error";
@@ -72,25 +75,25 @@ export const handleUploadError = async (
   }
 };
 
+// Response of the import endpoints: one product for AAS files, a list for tabular files
+type ImportResponse = { id?: string | number } | { id?: string | number }[] | null;
+
 // Helper function to handle successful upload response
 // Processes successful upload responses and manages navigation and state updates
 // Handles both single product and bulk import scenarios
 export const handleUploadSuccess = async (
-  res: Response,
+  data: ImportResponse,
   extension: string,
   router: any,
   companyId: string,
   setImportNotice: (notice: string | null) => void,
   setImportErrors: (errors: { attr: string; detail: string }[]) => void,
-  setDataLoading: (loading: boolean) => void,
-  setError: (error: string) => void,
-  setProducts: (products: any[]) => void
+  refreshProducts: () => void
 ) => {
   // Handle AAS-based file imports (single product workflow)
   if (["aasx", "json", "xml"].includes(extension)) {
-    // Parse response to extract product information
-    const data = await res.json();
-    const productId = data?.id;
+    // Extract product information from the response
+    const productId = Array.isArray(data) ? undefined : data?.id;
     if (productId) {
       // Navigate directly to emissions tree view for the imported product
       router.push(`/product-list/emissions-tree?id=${productId}&cid=${companyId}`);
@@ -100,8 +103,6 @@ export const handleUploadSuccess = async (
     }
   } else {
     // Handle tabular file imports (potentially multiple products)
-    const data = await res.json();
-
     // Check if this is a single product import
     if (Array.isArray(data) && data.length === 1 && data[0]?.id) {
       // Navigate directly to the single imported product
@@ -118,16 +119,8 @@ export const handleUploadSuccess = async (
       setImportNotice(userFriendlyMsg);
       setImportErrors([]);
       
-      // Import fetchProducts dynamically to avoid circular dependency
-      // This refreshes the product list to show newly imported items
-      const { fetchProducts } = await import("./productApiHelpers");
-      await fetchProducts({
-        companyId,
-        onLoadingChange: setDataLoading,
-        onError: setError,
-        setProducts,
-        onAuthError: () => router.push("/login"),
-      });
+      // Reload the product list from its first page to show newly imported items
+      refreshProducts();
     }
   }
 };
@@ -141,8 +134,7 @@ export const handleFileUpload = async ({
   setImportNotice,
   setImportErrors,
   setError,
-  setDataLoading,
-  setProducts,
+  refreshProducts,
 }: {
   file: File;
   type: "aasx" | "csv";
@@ -150,18 +142,15 @@ export const handleFileUpload = async ({
   setImportNotice: (notice: string | null) => void;
   setImportErrors: (errors: { attr: string; detail: string }[]) => void;
   setError: (error: string) => void;
-  setDataLoading: (loading: boolean) => void;
-  setProducts: (products: any[]) => void;
+  refreshProducts: () => void;
 }) => {
   // Import validation utilities at runtime to avoid circular dependencies
   // This pattern prevents module resolution issues during build time
   const { validateFileType, checkFileEmpty } = await import("./fileValidationUtils");
   
-  // Get authentication and company info from localStorage
-  // These are required for API authorization and proper data scoping
-  const token = localStorage.getItem("access_token");
+  // Get company info from localStorage, required for proper data scoping
   const companyId = localStorage.getItem("selected_company_id");
-  if (!token || !companyId) return;
+  if (!companyId) return;
 
   // Validate file extension against supported formats
   const extension = validateFileType(file.name);
@@ -187,40 +176,41 @@ export const handleFileUpload = async ({
     return;
   }
 
-  // Prepare form data for upload with the file attached
-  const formData = new FormData();
-  formData.append("file", file);
-
   // Get upload configuration based on file type and company context
   const { endpoint } = getUploadConfig(extension, companyId);
 
   try {
-    // Make API request to upload the file to the appropriate endpoint
-    const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
-      method: "POST",
-      headers: { Authorization: `Bearer ${token}` },
-      body: formData,
+    // Upload the file to the appropriate endpoint, large files are sent in resumable chunks
+    // Imports processed in the background report their progress through the import notice
+    const data = await importFile<ImportResponse>(companyId, endpoint, file, {
+      onProgress: progress => {
+        if (progress.phase === "processing") {
+          const total = progress.total ? ` of ${progress.total}` : "";
+          setImportNotice(`Processing import… ${progress.processed}${total} rows`);
+        }
+      },
     });
 
-    // Handle error responses with appropriate user feedback
-    if (!res.ok) {
-      await handleUploadError(res, setError, setImportErrors);
-      return;
-    }
+    // Imports can create or update any of the company's products
+    invalidateQueries(queryKeys.company(companyId));
 
     // Handle successful imports with navigation and state updates
     await handleUploadSuccess(
-      res,
+      data,
       extension,
       router,
       companyId,
       setImportNotice,
       setImportErrors,
-      setDataLoading,
-      setError,
-      setProducts
+      refreshProducts
     );
   } catch (err) {
+    // Handle error responses with appropriate user feedback
+    if (err instanceof ApiError && err.status !== 0) {
+      handleUploadError(err, setError, setImportErrors);
+      return;
+    }
+
     // Handle unexpected network or runtime errors
     console.error("Upload failed:", err);
     alert("Unexpected upload error.");
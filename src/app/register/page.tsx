@@ -1,12 +1,16 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import { useAuth } from "../context/AuthContext";
 import { RegisterData } from "@/lib/api/authApi";
+import { normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+import { checkPasswordStrength, PASSWORD_REQUIREMENTS } from "@/utils/passwordRules";
+import { loginUrl, RETURN_URL_PARAM, safeReturnUrl } from "@/lib/routeAccess";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
 
 /**
  * Field-specific error interface for registration form validation
@@ -37,10 +41,15 @@ interface FieldErrors {
  * - Navigation to login for existing users
  * - Screen reader announcements for status changes
  * - Secure password field clearing on errors
+ * - Email prefilled and return to the invitation page for invited people (?email=...&next=...)
  */
-export default function RegisterPage() {
+function RegisterPageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { register } = useAuth();
+
+  // Page to continue to after registering, only given when another page sent the user here
+  const returnParam = searchParams.get(RETURN_URL_PARAM);
   
   // Loading and error state management
   const [isLoading, setIsLoading] = useState(false);
@@ -50,7 +59,7 @@ export default function RegisterPage() {
   const [formData, setFormData] = useState<RegisterData>({
     first_name: "",
     last_name: "",
-    email: "",
+    email: searchParams.get("email") ?? "",
     password: "",
     confirm_password: "",
   });
@@ -100,10 +109,18 @@ export default function RegisterPage() {
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
     setError(null);
     setFieldErrors({}); // Clear any previous field errors
 
+    // Check the password strength rules before contacting the server
+    const passwordError = checkPasswordStrength(formData.password);
+    if (passwordError) {
+      setFieldErrors({ password: passwordError });
+      document.getElementById("password")?.focus();
+      return;
+    }
+
+    setIsLoading(true);
     try {
       // Attempt user registration via authentication context
       await register(formData);
@@ -113,12 +130,14 @@ export default function RegisterPage() {
       announcement.setAttribute("role", "status");
       announcement.setAttribute("aria-live", "polite");
       announcement.className = "sr-only";
-      announcement.textContent = "Registration successful. Redirecting to home page...";
+      announcement.textContent =
+        "Registration successful. Please verify your email address with the link we sent you.";
       document.body.appendChild(announcement);
 
-      // Navigate to home page after successful registration
+      // New accounts start unverified, so ask the user to check their inbox,
+      // unless they came from a page like an invitation that continues the signup
       setTimeout(() => {
-        router.push("/");
+        router.push(safeReturnUrl(returnParam, "/verify-email"));
       }, 100);
     } catch (err) {
       // Clear password fields immediately for security when any error occurs
@@ -129,37 +148,26 @@ export default function RegisterPage() {
       }));
 
       // Handle structured validation errors from API
-      if (err instanceof Error && err.cause) {
-        const errorCause = err.cause as any;
-
-        // Check if we have structured validation errors with field mappings
-        if (errorCause?.data?.type === 'validation_error' && Array.isArray(errorCause.data.errors)) {
-          const newFieldErrors: FieldErrors = {};
-
-          // Map API errors to form fields for display under relevant inputs
-          errorCause.data.errors.forEach((error: { attr: string; detail: string }) => {
-            if (error.attr && error.detail) {
-              newFieldErrors[error.attr as keyof FieldErrors] = error.detail;
-            }
-          });
+      const errors = normalizeFieldErrors(err instanceof Error ? err.cause : null);
+      if (errors) {
+        const { fieldErrors: newFieldErrors, formError } = pickFieldErrors(
+          errors,
+          Object.keys(formData) as (keyof FieldErrors)[]
+        );
+        setFieldErrors(newFieldErrors);
 
-          if (Object.keys(newFieldErrors).length > 0) {
-            setFieldErrors(newFieldErrors);
-
-            // Focus the first field with an error for accessibility
-            const firstErrorField = Object.keys(newFieldErrors)[0];
-            if (firstErrorField) {
-              setTimeout(() => document.getElementById(firstErrorField)?.focus(), 100);
-            }
-            // Don't set general error when we have field-specific errors
-            return;
-          }
+        // Focus the first field with an error for accessibility
+        const firstErrorField = Object.keys(newFieldErrors)[0];
+        if (firstErrorField) {
+          setTimeout(() => document.getElementById(firstErrorField)?.focus(), 100);
         }
 
-        // Fall back to general error message if no field errors were found
-        setError(err.message);
+        // Only show a general error for errors that belong to no field of the form
+        if (formError || !firstErrorField) {
+          setError(formError || (err as Error).message);
+        }
       } else {
-        setError("An unknown error occurred");
+        setError(err instanceof Error ? err.message : "An unknown error occurred");
       }
     } finally {
       setIsLoading(false);
@@ -325,7 +333,7 @@ export default function RegisterPage() {
             {renderFieldError("password")}
             {/* Password requirements help text */}
             <p id="password-requirements" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              Password must be at least 8 characters long and must not be entirely numeric.
+              {PASSWORD_REQUIREMENTS}
             </p>
           </div>
 
@@ -370,7 +378,7 @@ export default function RegisterPage() {
           <div className="flex items-center">
             <div className="text-sm">
               <Link
-                href="/login"
+                href={returnParam ? loginUrl(returnParam) : "/login"}
                 className="font-medium text-red-600 hover:text-red-500 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
               >
                 Already have an account? Sign in
@@ -396,3 +404,18 @@ export default function RegisterPage() {
     </div>
   );
 }
+
+// Main page component with Suspense wrapper, required for reading the invitation parameters
+export default function RegisterPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <RegisterPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import Card from "../components/ui/Card";
+import Button from "../components/ui/Button";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
+import { authApi } from "@/lib/api/authApi";
+import { normalizeFieldErrors, pickFieldErrors } from "@/utils/fieldErrors";
+import { checkPasswordStrength, PASSWORD_REQUIREMENTS } from "@/utils/passwordRules";
+
+/**
+ * Field-specific error interface for the reset form
+ */
+interface FieldErrors {
+  new_password?: string;
+  new_password_confirm?: string;
+}
+
+/**
+ * Reset Password Page Content
+ *
+ * Reached from the link in the password reset email, which carries the user ID and
+ * reset token as query parameters (?uid=...&token=...). Applies the same password
+ * strength rules as registration before sending the new password.
+ */
+function ResetPasswordPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const uid = searchParams.get("uid") ?? "";
+  const token = searchParams.get("token") ?? "";
+
+  const [formData, setFormData] = useState({ new_password: "", new_password_confirm: "" });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  /**
+   * Render field-specific error messages under the field they belong to
+   */
+  const renderFieldError = (fieldName: keyof FieldErrors) =>
+    fieldErrors[fieldName] ? (
+      <p
+        className="mt-1 text-xs text-red-600 dark:text-red-400"
+        role="alert"
+        id={`${fieldName}-error`}
+      >
+        {fieldErrors[fieldName]}
+      </p>
+    ) : null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (fieldErrors[name as keyof FieldErrors]) {
+      setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  /**
+   * Handle new password submission
+   * Checks the password rules locally, then sends it with the token from the link
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const passwordError = checkPasswordStrength(formData.new_password);
+    if (passwordError) {
+      setFieldErrors({ new_password: passwordError });
+      document.getElementById("new_password")?.focus();
+      return;
+    }
+    if (formData.new_password !== formData.new_password_confirm) {
+      setFieldErrors({ new_password_confirm: "Passwords do not match." });
+      document.getElementById("new_password_confirm")?.focus();
+      return;
+    }
+
+    setFieldErrors({});
+    setIsLoading(true);
+    try {
+      await authApi.confirmPasswordReset({ uid, token, ...formData });
+      setIsDone(true);
+    } catch (err) {
+      setFormData({ new_password: "", new_password_confirm: "" });
+
+      const errors = normalizeFieldErrors(err);
+      if (errors) {
+        const { fieldErrors: newFieldErrors, formError } = pickFieldErrors(errors, [
+          "new_password",
+          "new_password_confirm",
+        ] as const);
+        setFieldErrors(newFieldErrors);
+        // Errors about the link itself belong to no field of the form
+        if (formError || errors.fieldErrors.token || errors.fieldErrors.uid) {
+          setError("This reset link is invalid or has expired.");
+        }
+      } else {
+        setError("Your password could not be reset. Please try again later.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "p-2 mt-1 block w-full rounded-md border-gray-500 shadow-sm focus:border-red-500 focus:ring-red-500 dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Page header with title and description */}
+      <div className="text-center mb-12">
+        <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
+          Reset Password
+        </h1>
+        <p className="mt-4 max-w-2xl mx-auto text-xl text-gray-500 dark:text-gray-400">
+          Choose a new password for your account
+        </p>
+      </div>
+
+      <Card className="max-w-md mx-auto">
+        {!uid || !token ? (
+          // The page was opened without the parameters of a reset link
+          <div className="space-y-6" role="alert">
+            <p className="text-gray-700 dark:text-gray-300">
+              This reset link is incomplete. Please open the link from the email again, or request a
+              new one.
+            </p>
+            <Link
+              href="/forgot-password"
+              className="block text-sm font-medium text-red hover:text-red-700 dark:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded"
+            >
+              Request a new reset link
+            </Link>
+          </div>
+        ) : isDone ? (
+          // Confirmation once the password was changed
+          <div className="space-y-6" role="status" aria-live="polite">
+            <p className="text-gray-700 dark:text-gray-300">
+              Your password has been reset. You can now sign in with your new password.
+            </p>
+            <Button className="w-full" onClick={() => router.push("/login")}>
+              Go to login
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+            {/* General error message display */}
+            {error && (
+              <div
+                className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 dark:bg-red-900/20 dark:border-red-900 dark:text-red-300"
+                role="alert"
+                aria-live="assertive"
+              >
+                {error}{" "}
+                <Link href="/forgot-password" className="underline">
+                  Request a new link
+                </Link>
+              </div>
+            )}
+
+            {/* New Password Field with Security Requirements */}
+            <div>
+              <label
+                htmlFor="new_password"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                New Password{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                id="new_password"
+                name="new_password"
+                type="password"
+                autoComplete="new-password"
+                required
+                aria-required="true"
+                aria-invalid={!!fieldErrors.new_password}
+                aria-describedby="password-requirements"
+                value={formData.new_password}
+                onChange={handleChange}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+              {renderFieldError("new_password")}
+              <p
+                id="password-requirements"
+                className="mt-1 text-xs text-gray-500 dark:text-gray-400"
+              >
+                {PASSWORD_REQUIREMENTS}
+              </p>
+            </div>
+
+            {/* Confirm Password Field */}
+            <div>
+              <label
+                htmlFor="new_password_confirm"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Confirm New Password{" "}
+                <span className="text-red-500" aria-label="required">
+                  *
+                </span>
+              </label>
+              <input
+                id="new_password_confirm"
+                name="new_password_confirm"
+                type="password"
+                autoComplete="new-password"
+                required
+                aria-required="true"
+                aria-invalid={!!fieldErrors.new_password_confirm}
+                value={formData.new_password_confirm}
+                onChange={handleChange}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+              {renderFieldError("new_password_confirm")}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading} loading={isLoading}>
+              {isLoading ? "Resetting..." : "Reset password"}
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+// Main page component with Suspense wrapper, required for reading the link's query parameters
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <ResetPasswordPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import Card from "../components/ui/Card";
+import Button from "../components/ui/Button";
+import LoadingSkeleton from "../components/ui/LoadingSkeleton";
+import { useAuth } from "../context/AuthContext";
+import { ApiError } from "@/lib/api/apiClient";
+import { authApi } from "@/lib/api/authApi";
+
+// Result of opening a verification link
+type VerificationState = "verifying" | "verified" | "failed";
+
+const linkClassName =
+  "font-medium text-red hover:text-red-700 dark:text-red-400 underline focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 rounded";
+
+/**
+ * Verify Email Page Content
+ *
+ * Opened from the link in the verification email (?key=...), it confirms the address
+ * right away. Without a key it is the "check your inbox" screen shown after registration,
+ * where users can have the email sent again.
+ */
+function VerifyEmailPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const key = searchParams.get("key") ?? "";
+  const { user, isAuthenticated, isLoading, refreshUser } = useAuth();
+
+  const [verification, setVerification] = useState<VerificationState>("verifying");
+  const [isResending, setIsResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The key is single use in spirit, so it is only sent once per page load
+  const verificationStarted = useRef(false);
+
+  // Confirm the address once the session was restored, so the profile can be reloaded
+  useEffect(() => {
+    if (!key || isLoading || verificationStarted.current) return;
+    verificationStarted.current = true;
+
+    authApi
+      .verifyEmail({ key })
+      .then(async () => {
+        setVerification("verified");
+        if (isAuthenticated) await refreshUser();
+      })
+      .catch(error => {
+        console.error("Email verification failed:", error);
+        setVerification("failed");
+      });
+  }, [key, isLoading, isAuthenticated, refreshUser]);
+
+  /**
+   * Send the verification email again
+   */
+  const handleResend = async () => {
+    setIsResending(true);
+    setError(null);
+    setResendMessage(null);
+    try {
+      await authApi.resendVerificationEmail();
+      setResendMessage(`We sent a new verification link to ${user?.email}.`);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429) {
+        setError("Too many emails requested. Please wait a few minutes and try again.");
+      } else {
+        setError("The verification email could not be sent. Please try again later.");
+      }
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (key) {
+      if (verification === "verifying") {
+        return (
+          <p className="text-gray-700 dark:text-gray-300" role="status" aria-live="polite">
+            Verifying your email address...
+          </p>
+        );
+      }
+      if (verification === "failed") {
+        return (
+          <div className="space-y-6" role="alert">
+            <p className="text-gray-700 dark:text-gray-300">
+              This verification link is invalid or has expired.
+            </p>
+            {isAuthenticated ? (
+              <Button className="w-full" onClick={() => router.push("/verify-email")}>
+                Send a new link
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <Link href="/login" className={linkClassName}>
+                  Sign in
+                </Link>{" "}
+                to request a new verification link.
+              </p>
+            )}
+          </div>
+        );
+      }
+      return (
+        <div className="space-y-6" role="status" aria-live="polite">
+          <p className="text-gray-700 dark:text-gray-300">
+            Your email address has been verified. All features of your account are now available.
+          </p>
+          <Button
+            className="w-full"
+            onClick={() => router.push(isAuthenticated ? "/dashboard" : "/login")}
+          >
+            {isAuthenticated ? "Go to dashboard" : "Go to login"}
+          </Button>
+        </div>
+      );
+    }
+
+    if (isLoading) return <LoadingSkeleton />;
+
+    if (!isAuthenticated || !user) {
+      return (
+        <p className="text-gray-700 dark:text-gray-300">
+          Open the link from the verification email to verify your address, or{" "}
+          <Link href="/login" className={linkClassName}>
+            sign in
+          </Link>{" "}
+          to have it sent again.
+        </p>
+      );
+    }
+
+    if (user.email_verified !== false) {
+      return (
+        <div className="space-y-6">
+          <p className="text-gray-700 dark:text-gray-300">
+            Your email address <strong>{user.email}</strong> is verified.
+          </p>
+          <Button className="w-full" onClick={() => router.push("/dashboard")}>
+            Go to dashboard
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-gray-700 dark:text-gray-300">
+          We sent a verification link to <strong>{user.email}</strong>. Open it to finish setting up
+          your account. Until then you cannot create companies or approve data sharing requests.
+        </p>
+        {resendMessage && (
+          <p className="text-sm text-green-700 dark:text-green-400" role="status">
+            {resendMessage}
+          </p>
+        )}
+        {error && (
+          <p className="text-sm text-red-700 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No email? Check your spam folder or send it again.
+        </p>
+        <div className="flex gap-4">
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleResend}
+            disabled={isResending}
+            loading={isResending}
+          >
+            {isResending ? "Sending..." : "Resend email"}
+          </Button>
+          <Button className="w-full" onClick={() => router.push("/dashboard")}>
+            Continue
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Page header with title and description */}
+      <div className="text-center mb-12">
+        <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
+          {key ? "Verify Email" : "Check Your Inbox"}
+        </h1>
+        <p className="mt-4 max-w-2xl mx-auto text-xl text-gray-500 dark:text-gray-400">
+          Confirm your email address to use all features of your account
+        </p>
+      </div>
+
+      <Card className="max-w-md mx-auto">{renderContent()}</Card>
+    </div>
+  );
+}
+
+// Main page component with Suspense wrapper, required for reading the link's query parameters
+export default function VerifyEmailPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="py-12 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <LoadingSkeleton />
+        </div>
+      }
+    >
+      <VerifyEmailPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isAbortError } from "@/lib/api/apiClient";
+import { companyApi } from "@/lib/api/companyApi";
+import { CompanyAction, CompanyRole, hasCompanyPermission } from "@/lib/companyPermissions";
+
+// ──────────────────────────────────────────────────────────────
+// Role of the current user in the selected company.
+// Follows the company selection, and can() answers whether an action
+// is allowed. Until the role is loaded every action counts as not
+// allowed, so controls start out disabled rather than flashing enabled.
+// Call reload() after changing the current user's own role.
+// ──────────────────────────────────────────────────────────────
+export function useCompanyPermissions() {
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [role, setRole] = useState<CompanyRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  // Follow the company selection, which can change while a page is open
+  useEffect(() => {
+    const updateCompanyId = () => setCompanyId(localStorage.getItem("selected_company_id"));
+    updateCompanyId();
+    window.addEventListener("companyChanged", updateCompanyId);
+    return () => window.removeEventListener("companyChanged", updateCompanyId);
+  }, []);
+
+  // Load the role of the current user in the selected company
+  useEffect(() => {
+    setRole(null);
+    if (!companyId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    companyApi
+      .getMyRole(companyId, { signal: controller.signal })
+      .then(setRole)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Error loading company role:", error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [companyId, version]);
+
+  const can = useCallback((action: CompanyAction) => hasCompanyPermission(role, action), [role]);
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  return { role, can, isLoading, reload };
+}
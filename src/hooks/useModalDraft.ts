@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/app/context/AuthContext";
+import {
+  clearProductDraft,
+  DraftScope,
+  loadProductDraft,
+  saveProductDraft,
+} from "@/utils/productDrafts";
+
+// ──────────────────────────────────────────────────────────────
+// Draft of the modal form of a product tab. The returned function
+// keeps the values of the open modal when the session ends. The
+// next time the same user opens the tab, the draft is handed to
+// restore once, which reopens the modal with the kept values.
+// ──────────────────────────────────────────────────────────────
+export function useModalDraft<T>(
+  tabKey: string,
+  productId: string,
+  restore: (values: T) => void
+): (values: T) => void {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const companyId = localStorage.getItem("selected_company_id") ?? "";
+
+  // restore is recreated on every render of the tab, only the latest one is needed
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  useEffect(() => {
+    if (userId === undefined || !productId) return;
+    const scope: DraftScope = { userId, companyId, productId, tabKey: `${tabKey}:modal` };
+    const draft = loadProductDraft<T>(scope);
+    if (!draft) return;
+    // The reopened modal holds the values now, closing it discards them as usual
+    clearProductDraft(scope);
+    restoreRef.current(draft.values);
+  }, [userId, companyId, productId, tabKey]);
+
+  return (values: T) => {
+    if (userId === undefined) return;
+    saveProductDraft({ userId, companyId, productId, tabKey: `${tabKey}:modal` }, values);
+  };
+}
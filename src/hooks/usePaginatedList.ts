@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError } from "@/lib/api/apiClient";
+import { Page } from "@/lib/api/pagination";
+
+// sessionStorage key prefix remembering how far a list was scrolled
+const SCROLL_STORAGE_PREFIX = "list_scroll:";
+
+// Position of a list when the user navigated away from it
+type ScrollState = { loaded: number; scrollY: number };
+
+type Options = {
+  restoreScroll?: boolean; // Reload as many items as before and scroll back when the list is shown again
+};
+
+const readScrollState = (listKey: string): ScrollState | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_PREFIX + listKey) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+// ──────────────────────────────────────────────────────────────
+// Loads a paginated list page by page, e.g. for infinite scrolling.
+// The list starts over whenever listKey changes, a null key keeps it empty.
+// fetchPage receives the query of the next page, or null for the first page.
+// Attach sentinelRef to an element below the list to load more items
+// as soon as it scrolls into view.
+// ──────────────────────────────────────────────────────────────
+export function usePaginatedList<T>(
+  listKey: string | null,
+  fetchPage: (next: string | null, signal: AbortSignal) => Promise<Page<T>>,
+  { restoreScroll = false }: Options = {}
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [count, setCount] = useState<number | null>(null);
+  const [next, setNext] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Callers usually pass a new function on every render, the latest one is used
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const controllerRef = useRef<AbortController | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  // Only the first load after mounting restores the previous position
+  const restoredRef = useRef(false);
+
+  // Load the first page, or every page shown before when returning to the list
+  useEffect(() => {
+    setItems([]);
+    setCount(null);
+    setNext(null);
+    setError(null);
+    // Loads of the previous list were aborted and must not block the new one
+    setIsLoading(false);
+    setIsLoadingMore(false);
+    if (listKey === null) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const saved = restoreScroll && !restoredRef.current ? readScrollState(listKey) : null;
+    restoredRef.current = true;
+    setIsLoading(true);
+
+    const load = async () => {
+      try {
+        let page = await fetchPageRef.current(null, controller.signal);
+        let loaded = page.results;
+        while (saved && loaded.length < saved.loaded && page.next) {
+          page = await fetchPageRef.current(page.next, controller.signal);
+          loaded = [...loaded, ...page.results];
+        }
+
+        setItems(loaded);
+        setCount(page.count);
+        setNext(page.next);
+        // Scroll once the restored items have been rendered
+        if (saved) requestAnimationFrame(() => window.scrollTo(0, saved.scrollY));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : "Failed to load the list.");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+    load();
+
+    return () => controller.abort();
+  }, [listKey, version, restoreScroll]);
+
+  // Remember the scroll position, so it can be restored after navigating back
+  useEffect(() => {
+    if (!restoreScroll || listKey === null) return;
+
+    let scrollY = window.scrollY;
+    const onScroll = () => {
+      scrollY = window.scrollY;
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      const state: ScrollState = { loaded: itemsRef.current.length, scrollY };
+      sessionStorage.setItem(SCROLL_STORAGE_PREFIX + listKey, JSON.stringify(state));
+    };
+  }, [listKey, restoreScroll]);
+
+  // Append the next page to the list
+  const loadMore = useCallback(async () => {
+    const controller = controllerRef.current;
+    if (!next || !controller || isLoading || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPageRef.current(next, controller.signal);
+      setItems(prev => [...prev, ...page.results]);
+      setCount(page.count);
+      setNext(page.next);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : "Failed to load more items.");
+    } finally {
+      // A reset of the list may have started a new load in the meantime
+      if (controllerRef.current === controller) setIsLoadingMore(false);
+    }
+  }, [next, isLoading, isLoadingMore]);
+
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
+
+  // Load more items whenever the observed element becomes visible
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const sentinelRef = useCallback((node: Element | null) => {
+    observerRef.current?.disconnect();
+    if (!node) return;
+
+    observerRef.current = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current();
+      },
+      { rootMargin: "200px" }
+    );
+    observerRef.current.observe(node);
+  }, []);
+
+  // Start over from the first page, e.g. after items were imported
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  // Remove items from the loaded pages without reloading, e.g. after a deletion
+  const removeItems = useCallback((predicate: (item: T) => boolean) => {
+    const removed = itemsRef.current.filter(predicate).length;
+    setItems(prev => prev.filter(item => !predicate(item)));
+    setCount(c => (c === null ? c : c - removed));
+  }, []);
+
+  return {
+    items,
+    count,
+    hasMore: next !== null,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    reload,
+    removeItems,
+    sentinelRef,
+  };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { isAbortError } from "@/lib/api/apiClient";
+import { companyApi, ProductDefaults } from "@/lib/api/companyApi";
+
+// ──────────────────────────────────────────────────────────────
+// Defaults new products and emissions of a company start from.
+// Null while they are loading or if they could not be loaded, in
+// which case forms start empty as they did before defaults existed.
+// ──────────────────────────────────────────────────────────────
+export function useProductDefaults(companyId: string | null): ProductDefaults | null {
+  const [defaults, setDefaults] = useState<ProductDefaults | null>(null);
+
+  useEffect(() => {
+    setDefaults(null);
+    if (!companyId) return;
+
+    const controller = new AbortController();
+    companyApi
+      .getProductDefaults(companyId, { signal: controller.signal })
+      .then(setDefaults)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Error loading product defaults:", error);
+      });
+    return () => controller.abort();
+  }, [companyId]);
+
+  return defaults;
+}
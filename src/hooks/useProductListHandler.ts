@@ -11,12 +11,11 @@ import * as Helpers from "@/app/product-list/helpers";
 
 type Params = {
   products: Product[];
-  setProducts: React.Dispatch<React.SetStateAction<Product[]>>;
+  refreshProducts: () => void;
   router: ReturnType<typeof useRouter>;
   setError: (msg: string) => void;
   setImportNotice: (msg: string | null) => void;
   setImportErrors: (e: { attr: string; detail: string }[]) => void;
-  setDataLoading: (val: boolean) => void;
   setSelectedProductForExport: (p: Product | null) => void;
   setShowExportModal: (val: boolean) => void;
   setToDeleteProduct: (p: Product | null) => void;
@@ -27,12 +26,11 @@ type Params = {
 
 export function useProductListHandlers({
   products,
-  setProducts,
+  refreshProducts,
   router,
   setError,
   setImportNotice,
   setImportErrors,
-  setDataLoading,
   setSelectedProductForExport,
   setShowExportModal,
   setToDeleteProduct,
@@ -46,7 +44,7 @@ export function useProductListHandlers({
     setPendingProductId(productId);
     setPendingProductName(product?.name ?? "");
     setAiModalStep("confirm");
-  }, [products]);
+  }, [products, setPendingProductId, setPendingProductName, setAiModalStep]);
 
   // Handle file input change for AASX/CSV import
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>, type: "aasx" | "csv") => {
@@ -58,40 +56,39 @@ export function useProductListHandlers({
         setImportNotice,
         setImportErrors,
         setError,
-        setDataLoading,
-        setProducts,
+        refreshProducts,
       });
     }
-  }, []);
+  }, [router, setImportNotice, setImportErrors, setError, refreshProducts]);
 
   // Handle delete button: sets product to delete state
   const handleDelete = useCallback((id: string) => {
     const prod = products.find(p => p.id === id) ?? null;
     setToDeleteProduct(prod);
-  }, [products]);
+  }, [products, setToDeleteProduct]);
 
   // Handle edit button: navigates to product edit page
   const handleEdit = useCallback((id: string) => {
     router.push(`/product-list/product?product_id=${id}`);
-  }, []);
+  }, [router]);
 
   // Handle export button: shows export modal with selected product
   const handleExportClick = useCallback((product: Product, e: React.MouseEvent) => {
     e.stopPropagation();
     setSelectedProductForExport(product);
     setShowExportModal(true);
-  }, []);
+  }, [setSelectedProductForExport, setShowExportModal]);
 
   // Handle closing of export modal: resets modal state
   const handleExportModalClose = useCallback(() => {
     setShowExportModal(false);
     setSelectedProductForExport(null);
-  }, []);
+  }, [setShowExportModal, setSelectedProductForExport]);
 
   // Handle row click: navigates to emissions tree page for product
   const handleProductClick = useCallback((id: string) => {
     router.push(`/product-list/emissions-tree/?id=${id}`);
-  }, []);
+  }, [router]);
 
   // Return all handlers for use in ProductListPage
   return {
@@ -1,8 +1,38 @@
 import { useRouter } from "next/navigation";
+import type { ZodType } from "zod";
+import { FAKE_BACKEND_ENABLED, loadFakeBackend } from "@/lib/fakeBackend/config";
+import {
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  hasSession,
+  SESSION_MODE,
+  SESSION_PROXY_PATH,
+  SessionTokens,
+  storeSession,
+} from "./session";
+import { broadcastTabSync } from "./tabSync";
 
 // Base configuration for API requests
 // Defaults to localhost for development, can be overridden via environment variable
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
+// In cookie session mode every call goes through the session route handler, which
+// adds the tokens from its httpOnly cookies
+const API_URL =
+  SESSION_MODE === "cookie"
+    ? SESSION_PROXY_PATH
+    : process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
+
+// Cookie sessions need the browser to send the session cookies with every call
+const REQUEST_CREDENTIALS: RequestCredentials = SESSION_MODE === "cookie" ? "include" : "same-origin";
+
+// Serve all API calls from the in-memory fake backend when it is enabled
+// Loaded on demand in the browser only, so builds without it never include the fake backend
+const fakeBackendReady: Promise<void> | null =
+  FAKE_BACKEND_ENABLED && typeof window !== "undefined"
+    ? loadFakeBackend().then(fakeBackend => {
+        fakeBackend?.installFakeBackend(API_URL, { cookieSession: SESSION_MODE === "cookie" });
+      })
+    : null;
 
 /**
  * Custom error class for API-related errors
@@ -26,32 +56,516 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ * Callers typically ignore it, since the result is no longer wanted
+ */
+export class RequestAbortedError extends ApiError {
+  constructor() {
+    super(0, "Request was cancelled");
+    this.name = "RequestAbortedError";
+  }
+}
+
+/**
+ * Error thrown when a request does not complete within its timeout
+ */
+export class RequestTimeoutError extends ApiError {
+  /**
+   * @param timeout - Timeout in milliseconds that was exceeded
+   */
+  constructor(timeout: number) {
+    super(408, `Request timed out after ${timeout} ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a response does not match the schema the client expects
+ * Names the endpoint and the path of the first offending field
+ */
+export class ResponseValidationError extends ApiError {
+  endpoint: string; // Endpoint that returned the unexpected response
+  path: string; // Dot-separated path of the offending field, empty for the root value
+
+  /**
+   * @param status - HTTP status code of the response
+   * @param endpoint - Endpoint that returned the response
+   * @param path - Path of the offending field
+   * @param issue - Description of the mismatch
+   * @param data - Response data that failed validation
+   */
+  constructor(status: number, endpoint: string, path: string, issue: string, data?: unknown) {
+    super(status, `Unexpected response from ${endpoint} at "${path || "(root)"}": ${issue}`, data);
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.path = path;
+  }
+}
+
+/**
+ * Check whether an error was caused by the caller cancelling the request
+ * @param error - Error thrown by an API call
+ * @returns Boolean indicating if the request was aborted
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof RequestAbortedError;
+}
+
 // Type definitions for HTTP request methods
 export type RequestMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
 
+// Methods that can safely be sent again without changing the result
+const IDEMPOTENT_METHODS: RequestMethod[] = ["GET", "PUT", "DELETE", "OPTIONS"];
+
+/**
+ * Interface describing how failed idempotent requests are retried
+ * Delays grow exponentially unless the server sends a Retry-After header
+ */
+export interface RetryPolicy {
+  retries: number; // Number of additional attempts after the first one
+  baseDelayMs: number; // Delay before the first retry, doubled for every further attempt
+  maxDelayMs: number; // Upper bound for a single delay, including Retry-After values
+  retryOn: number[]; // HTTP status codes that are worth retrying
+}
+
+// Retry policy applied to idempotent requests unless a request overrides it
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOn: [429, 502, 503, 504],
+};
+
+// Default time in milliseconds before a request is aborted
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+// Schema mismatches fail loudly during development and are only logged in production
+const STRICT_RESPONSE_VALIDATION = process.env.NODE_ENV !== "production";
+
+/**
+ * Interface for the progress of an upload or download
+ */
+export interface TransferProgress {
+  loaded: number; // Bytes transferred so far
+  total: number | null; // Total bytes, null if the size is unknown
+}
+
+/**
+ * Interface for a downloaded file, returned for the "file" response type
+ */
+export interface FileDownload {
+  blob: Blob; // File contents
+  filename: string | null; // Filename from the Content-Disposition header, if the server sent one
+}
+
 /**
  * Interface for configuring API request options
  * @template T - Type of the request body data
  */
 export interface RequestOptions<T = Record<string, unknown>> {
   method?: RequestMethod; // HTTP method for the request
-  body?: T; // Request body data
+  body?: T; // Request body data, FormData bodies are sent as multipart uploads
   headers?: Record<string, string>; // Additional HTTP headers
   requiresAuth?: boolean; // Whether the request requires authentication
-  responseType?: "json" | "blob"; // Expected response type
+  responseType?: "json" | "blob" | "file"; // Expected response type
+  timeout?: number; // Milliseconds before the request is aborted, 0 disables the timeout
+  signal?: AbortSignal; // Caller-supplied signal for cancelling the request
+  retry?: Partial<RetryPolicy> | false; // Retry policy override, only used for idempotent methods
+  schema?: ZodType; // Schema the JSON response is validated against
+  onUploadProgress?: (progress: TransferProgress) => void; // Called while the body is uploaded
+  onDownloadProgress?: (progress: TransferProgress) => void; // Called while the response is read
+}
+
+// Subset of request options that API modules forward from their callers
+export type RequestControl = Pick<RequestOptions, "signal" | "timeout" | "retry">;
+
+// Name of the window event dispatched when the session can no longer be refreshed
+export const SESSION_EXPIRED_EVENT = "sessionExpired";
+
+// Detail of the session expired event
+export interface SessionExpiredDetail {
+  revoked: boolean; // The session was signed out from another device
+}
+
+// Shared in-flight refresh so concurrent 401 responses trigger a single /token/refresh/ call
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token
+ * Concurrent callers share the same pending request instead of refreshing in parallel
+ *
+ * @returns Promise resolving to true once the session was refreshed, false if it could not be
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
 }
 
 /**
- * Function to safely get authentication token from localStorage
- * Handles browser-safe access to localStorage
- * @returns Access token string or null if not available
+ * Perform the actual refresh request against the token endpoint
+ * Uses fetch directly so a failing refresh can never recurse into another refresh
+ * Clears the stored session and notifies listeners when the refresh token is rejected
+ * In cookie mode the route handler reads the refresh token from its cookie
  */
-function getAuthToken(): string | null {
-  // Check if running in browser environment
+async function performTokenRefresh(): Promise<boolean> {
+  // Sessions only exist in the browser
   if (typeof window === "undefined") {
-    return null; // Return null during server-side rendering
+    return false;
+  }
+
+  const refreshToken = getRefreshToken();
+  if (SESSION_MODE === "token" ? !refreshToken : !hasSession()) {
+    return false;
+  }
+
+  try {
+    await fakeBackendReady;
+    const response = await fetch(`${API_URL}/token/refresh/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: REQUEST_CREDENTIALS,
+      body: JSON.stringify(refreshToken ? { refresh: refreshToken } : {}),
+    });
+
+    if (!response.ok) {
+      // Another tab rotated the refresh token while this request was under way
+      if (refreshToken && getRefreshToken() !== refreshToken && hasSession()) {
+        return true;
+      }
+
+      // The refresh token itself is expired or revoked, so the session is over
+      if (response.status === 401 || response.status === 403) {
+        const error = await response.json().catch(() => null);
+        const detail: SessionExpiredDetail = { revoked: error?.code === "session_revoked" };
+        clearSession();
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail }));
+        broadcastTabSync({ type: "logout" });
+      }
+      return false;
+    }
+
+    // Stores the new access token and the rotated refresh token when the backend issues one
+    const data: SessionTokens = await response.json();
+    storeSession(data);
+    broadcastTabSync({ type: "sessionRefreshed" });
+    return true;
+  } catch (error) {
+    console.error("Token refresh failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ * @param header - Raw Retry-After header value
+ * @returns Delay in milliseconds or null if the header is missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
   }
-  return localStorage.getItem("access_token");
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parse the raw header block returned by XMLHttpRequest
+ */
+function parseXhrHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach(line => {
+      const index = line.indexOf(":");
+      if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    });
+  return headers;
+}
+
+/**
+ * Send a request through XMLHttpRequest, which unlike fetch reports upload progress
+ * Resolves to a regular Response and rejects like fetch on network errors and aborts
+ */
+function fetchWithUploadProgress(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: TransferProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    xhr.responseType = "blob";
+    xhr.withCredentials = init.credentials === "include";
+    Object.entries((init.headers ?? {}) as Record<string, string>).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+
+    xhr.upload.onprogress = event =>
+      onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : null });
+    xhr.onload = () => {
+      // Responses without content must not be given a body
+      const hasBody = ![204, 205, 304].includes(xhr.status);
+      resolve(
+        new Response(hasBody ? xhr.response : null, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(new DOMException("The operation was aborted.", "AbortError"));
+
+    const signal = init.signal;
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(init.body as XMLHttpRequestBodyInit | null);
+  });
+}
+
+/**
+ * Read a response body as a blob, reporting progress while the chunks arrive
+ * @param response - Response whose body is read
+ * @param onProgress - Optional progress callback, the body is read in one go without it
+ */
+async function readResponseBody(
+  response: Response,
+  onProgress?: (progress: TransferProgress) => void
+): Promise<Blob> {
+  if (!onProgress || !response.body) {
+    return response.blob();
+  }
+
+  const contentLength = Number(response.headers.get("Content-Length"));
+  const total = contentLength > 0 ? contentLength : null;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress({ loaded, total });
+  }
+
+  return new Blob(chunks as BlobPart[], { type: response.headers.get("Content-Type") ?? "" });
+}
+
+/**
+ * Extract the filename from a Content-Disposition header
+ * Prefers the RFC 5987 encoded filename* parameter over the plain filename parameter
+ * @param header - Raw Content-Disposition header value
+ * @returns Filename or null if the header does not name a file
+ */
+export function parseContentDispositionFilename(header: string | null): string | null {
+  if (!header) return null;
+
+  const encoded = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // Fall back to the plain filename parameter
+    }
+  }
+
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  return plain ? (plain[2] ?? plain[1]).trim() : null;
+}
+
+/**
+ * Response of a single attempt whose body has not been read yet
+ * The timeout and the caller's signal stay active until the body is read through read(),
+ * so a slow or cancelled body cannot hang or resolve after the caller gave up
+ */
+interface PendingResponse {
+  response: Response;
+  // Read the body, then stop the timer and the abort listener
+  read: <B>(consume: (response: Response) => Promise<B>) => Promise<B>;
+  release: () => void; // Clean up without reading the body, safe to call more than once
+}
+
+/**
+ * Send a single request that is aborted by the caller's signal or after the timeout
+ * Converts both kinds of abort into dedicated ApiError subtypes, also while the body is read
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal,
+  onUploadProgress?: (progress: TransferProgress) => void
+): Promise<PendingResponse> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  // Forward cancellation from the caller's signal to this attempt
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+  const release = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+  const toAbortError = (error: unknown) => {
+    if (timedOut) return new RequestTimeoutError(timeout);
+    if (signal?.aborted) return new RequestAbortedError();
+    return error;
+  };
+
+  const attemptInit = { ...init, signal: controller.signal };
+  let response: Response;
+  try {
+    response =
+      onUploadProgress && typeof XMLHttpRequest !== "undefined"
+        ? await fetchWithUploadProgress(url, attemptInit, onUploadProgress)
+        : await fetch(url, attemptInit);
+  } catch (error) {
+    release();
+    throw toAbortError(error);
+  }
+
+  return {
+    response,
+    read: async consume => {
+      try {
+        return await consume(response);
+      } catch (error) {
+        throw toAbortError(error);
+      } finally {
+        release();
+      }
+    },
+    release,
+  };
+}
+
+/**
+ * Send a request, retrying idempotent methods with exponential backoff
+ * Retries network failures and the status codes listed in the retry policy
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: {
+    timeout: number;
+    signal?: AbortSignal;
+    retryPolicy: RetryPolicy | null;
+    onUploadProgress?: (progress: TransferProgress) => void;
+  }
+): Promise<PendingResponse> {
+  const { timeout, signal, retryPolicy, onUploadProgress } = options;
+  const maxAttempts = retryPolicy ? retryPolicy.retries + 1 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let pending: PendingResponse | null = null;
+
+    try {
+      pending = await fetchWithTimeout(url, init, timeout, signal, onUploadProgress);
+    } catch (error) {
+      // Cancellations and timeouts are final, plain network failures may be retried
+      if (error instanceof ApiError || !retryPolicy || attempt >= maxAttempts) {
+        throw error;
+      }
+    }
+
+    if (pending && (!retryPolicy || !retryPolicy.retryOn.includes(pending.response.status))) {
+      return pending;
+    }
+    if (pending && attempt >= maxAttempts) {
+      return pending;
+    }
+    pending?.release(); // The body of a response that is retried is never read
+
+    // Prefer the server's Retry-After hint, otherwise back off exponentially
+    const policy = retryPolicy as RetryPolicy;
+    const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+    const retryAfter = pending
+      ? parseRetryAfter(pending.response.headers.get("Retry-After"))
+      : null;
+    await sleep(Math.min(retryAfter ?? backoff, policy.maxDelayMs), signal);
+  }
+}
+
+/**
+ * Validate response data against the schema expected by the caller
+ * Throws a ResponseValidationError in development and logs it in production
+ * @returns Parsed data with the schema's transforms applied, the raw data if it did not match
+ */
+function validateResponse(
+  schema: ZodType,
+  data: unknown,
+  endpoint: string,
+  status: number
+): unknown {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const [issue] = result.error.issues;
+  const error = new ResponseValidationError(
+    status,
+    endpoint,
+    issue.path.join("."),
+    issue.message,
+    data
+  );
+
+  if (STRICT_RESPONSE_VALIDATION) {
+    throw error;
+  }
+  console.error(error.message, result.error.issues);
+  return data;
 }
 
 /**
@@ -69,23 +583,52 @@ export async function apiRequest<R, T = Record<string, unknown>>(
   options: RequestOptions<T> = {}
 ): Promise<R> {
   // Destructure options with default values
-  const { method = "GET", body, headers = {}, requiresAuth = true, responseType = "json" } = options;
+  const {
+    method = "GET",
+    body,
+    headers = {},
+    requiresAuth = true,
+    responseType = "json",
+    timeout = DEFAULT_TIMEOUT_MS,
+    signal,
+    retry,
+    schema,
+    onUploadProgress,
+    onDownloadProgress,
+  } = options;
+
+  // Only idempotent methods are retried, since replaying a POST could duplicate data
+  const retryPolicy =
+    retry !== false && IDEMPOTENT_METHODS.includes(method)
+      ? { ...DEFAULT_RETRY_POLICY, ...retry }
+      : null;
+  // The fake backend only intercepts fetch, so uploads are not sent through XMLHttpRequest then
+  const sendOptions = {
+    timeout,
+    signal,
+    retryPolicy,
+    onUploadProgress: FAKE_BACKEND_ENABLED ? undefined : onUploadProgress,
+  };
 
-  // Get authentication token if required
-  const token = requiresAuth ? getAuthToken() : null;
+  // Requests wait until the fake backend, when enabled, is ready to answer them
+  await fakeBackendReady;
 
-  // If auth is required but no token is present, throw an error
-  if (requiresAuth && !token) {
+  // Make sure a session exists if auth is required, refreshing first when only the refresh token is left
+  if (requiresAuth && !hasSession() && !(await refreshSession())) {
     throw new ApiError(401, "Authentication required");
   }
+  const token = requiresAuth ? getAccessToken() : null;
+
+  // Multipart bodies get their Content-Type, including the boundary, from the browser
+  const isMultipart = typeof FormData !== "undefined" && body instanceof FormData;
 
   // Prepare base headers with JSON content type
   const requestHeaders: HeadersInit = {
-    "Content-Type": "application/json",
+    ...(isMultipart ? {} : { "Content-Type": "application/json" }),
     ...headers, // Merge any additional headers
   };
 
-  // Add authorization header if token exists
+  // Add authorization header if token exists, cookie sessions are authenticated by the route handler
   if (token) {
     requestHeaders["Authorization"] = `Bearer ${token}`;
   }
@@ -94,27 +637,50 @@ export async function apiRequest<R, T = Record<string, unknown>>(
   const requestOptions: RequestInit = {
     method,
     headers: requestHeaders,
+    credentials: REQUEST_CREDENTIALS,
   };
 
   // Add body to request if it exists and method supports it
   if (body && method !== "GET") {
-    requestOptions.body = JSON.stringify(body);
+    requestOptions.body = isMultipart ? (body as FormData) : JSON.stringify(body);
   }
 
+  // Response whose body is still covered by the timeout and the caller's signal
+  let pending: PendingResponse | null = null;
+
   try {
     // Make the HTTP request to the API
-    const response = await fetch(`${API_URL}${endpoint}`, requestOptions);
+    pending = await fetchWithRetry(`${API_URL}${endpoint}`, requestOptions, sendOptions);
+
+    // An expired access token is refreshed transparently and the request replayed once
+    if (pending.response.status === 401 && requiresAuth) {
+      // Another request may already have refreshed the token while this one was in flight
+      const storedToken = getAccessToken();
+      const refreshed = (storedToken && storedToken !== token) || (await refreshSession());
+
+      if (refreshed) {
+        const freshToken = getAccessToken();
+        if (freshToken) requestHeaders["Authorization"] = `Bearer ${freshToken}`;
+        pending.release();
+        pending = await fetchWithRetry(`${API_URL}${endpoint}`, requestOptions, sendOptions);
+      }
+    }
+    const { response, read } = pending;
 
     // Handle non-successful HTTP responses
     if (!response.ok) {
       // Parse error response first to get detailed error information
       let errorData;
+      const errorText = await read(response => response.text()).catch(error => {
+        if (error instanceof ApiError) throw error; // Cancelled or timed out while reading
+        return "";
+      });
       try {
         // Try to parse error as JSON for structured error handling
-        errorData = await response.json();
+        errorData = JSON.parse(errorText);
       } catch (e) {
-        // Error response wasn't valid JSON, set to null
-        errorData = null;
+        // Error response wasn't valid JSON, keep the raw text (e.g. an HTML error page)
+        errorData = errorText || null;
       }
       
       // Create appropriate error message
@@ -139,7 +705,14 @@ export async function apiRequest<R, T = Record<string, unknown>>(
     let data: any;
     if (responseType === "blob") {
       // Handle binary responses (file downloads, etc.)
-      data = await response.blob();
+      data = await read(response => readResponseBody(response, onDownloadProgress));
+    } else if (responseType === "file") {
+      // Handle file downloads that keep the filename chosen by the server
+      const download: FileDownload = {
+        blob: await read(response => readResponseBody(response, onDownloadProgress)),
+        filename: parseContentDispositionFilename(response.headers.get("Content-Disposition")),
+      };
+      data = download;
     } else {
       // Handle JSON responses with proper content checking
       // Status 204 (No Content) and 205 (Reset Content) should not have a body
@@ -153,7 +726,9 @@ export async function apiRequest<R, T = Record<string, unknown>>(
         
         if (hasContent) {
           // Try to parse as JSON, but handle empty responses gracefully
-          const text = await response.text();
+          const text = await read(async response =>
+            (await readResponseBody(response, onDownloadProgress)).text()
+          );
           if (text.trim() === '') {
             data = null; // Empty response body
           } else {
@@ -170,6 +745,11 @@ export async function apiRequest<R, T = Record<string, unknown>>(
       }
     }
 
+    // Check the parsed JSON against the expected shape, callers get the parsed result
+    if (schema && responseType === "json") {
+      data = validateResponse(schema, data, endpoint, response.status);
+    }
+
     return data as R; // Return typed response data
   } catch (error) {
     // Catch network errors or JSON parsing errors
@@ -183,6 +763,9 @@ export async function apiRequest<R, T = Record<string, unknown>>(
     
     // Re-throw API errors as-is
     throw error;
+  } finally {
+    // Responses without a body, or whose body was not read, stop their timer here
+    pending?.release();
   }
 }
 
@@ -234,7 +817,8 @@ export function useApi() {
 
   /**
    * Internal request wrapper that handles authentication errors
-   * Automatically redirects to login on 401 errors
+   * apiRequest already refreshes expired tokens, so a 401 here means the session is over
+   * and the user is redirected to login
    */
   const request = async <R, T = Record<string, unknown>>(
     endpoint: string,
@@ -335,6 +919,11 @@ export function setLocalStorageItem(key: string, value: string): void {
 
   // Dispatch custom event to notify other components of the change
   window.dispatchEvent(new CustomEvent("companyChanged", { detail: { key, value } }));
+
+  // Other tabs follow a newly selected company
+  if (key === "selected_company_id") {
+    broadcastTabSync({ type: "companyChanged", companyId: value });
+  }
 }
 
 /**
@@ -356,6 +945,10 @@ export function removeLocalStorageItem(key: string): void {
   // Only dispatch event if there was actually a value removed
   if (hadValue) {
     window.dispatchEvent(new CustomEvent("companyChanged", { detail: { key, value: null } }));
+
+    if (key === "selected_company_id") {
+      broadcastTabSync({ type: "companyChanged", companyId: null });
+    }
   }
 }
 
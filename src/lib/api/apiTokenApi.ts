@@ -0,0 +1,70 @@
+/**
+ * Personal API tokens API client
+ * Manages the tokens scripts use instead of a signed-in session. A token is sent as
+ * bearer token like the access token of the app, limited to the companies and access
+ * level chosen when it was created
+ */
+
+import { apiRequest, RequestControl } from "./apiClient";
+
+// What a token may do: read company data only, or also change it
+export type ApiTokenAccess = "read" | "read_write";
+
+// Interface for a personal API token as listed on the account page
+export interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string; // First characters of the token, to recognise it without the secret
+  access: ApiTokenAccess;
+  companies: number[]; // IDs of the companies the token may access
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null; // Null until the token is first used
+}
+
+// Interface for a newly created token, the only response that contains the full key
+export interface CreatedApiToken extends ApiToken {
+  key: string;
+}
+
+// Interface for creating a personal API token
+export interface ApiTokenCreateData {
+  name: string;
+  access: ApiTokenAccess;
+  companies: number[];
+  expires_at: string; // ISO date, at most one year ahead
+}
+
+/**
+ * Personal API token endpoints
+ * Provides methods for listing, creating and revoking the tokens of the current user
+ */
+export const apiTokenApi = {
+  /**
+   * Get the personal API tokens of the current user
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the tokens, without their keys
+   */
+  list: (options?: RequestControl) => apiRequest<ApiToken[]>("/api_tokens/", options),
+
+  /**
+   * Create a personal API token
+   * @param data - Name, access level, companies and expiry date of the token
+   * @returns Promise resolving to the token including its key, which is not shown again
+   */
+  create: (data: ApiTokenCreateData) =>
+    apiRequest<CreatedApiToken>("/api_tokens/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+    }),
+
+  /**
+   * Revoke a personal API token, requests made with it fail from now on
+   * @param tokenId - ID of the token to revoke
+   * @returns Promise resolving when the token was revoked
+   */
+  revoke: (tokenId: number) =>
+    apiRequest<void>(`/api_tokens/${tokenId}/`, {
+      method: "DELETE",
+    }),
+};
@@ -3,18 +3,22 @@
  * Provides access to system audit trails for companies and products
  */
 
-import { apiRequest } from "./apiClient";
+import { z } from "zod";
+import { apiRequest, RequestControl } from "./apiClient";
 
 // Type for content type labels in audit logs
-export type ContentTypeLabel = "core";
+const contentTypeLabelSchema = z.literal("core");
+export type ContentTypeLabel = z.infer<typeof contentTypeLabelSchema>;
 
 // Types for different models that can be audited
-export type ContentTypeModel =
-  | "company"
-  | "product"
-  | "productionenergyemission"
-  | "transportemission"
-  | "userenergyemission";
+const contentTypeModelSchema = z.enum([
+  "company",
+  "product",
+  "productionenergyemission",
+  "transportemission",
+  "userenergyemission",
+]);
+export type ContentTypeModel = z.infer<typeof contentTypeModelSchema>;
 
 /* 
  * Defines the type of action that was performed in audit logs:
@@ -23,7 +27,8 @@ export type ContentTypeModel =
  * 2: delete - Record removed
  * 3: access - Record accessed/viewed
  */
-export type AuditLogAction = 0 | 1 | 2 | 3;
+const auditLogActionSchema = z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)]);
+export type AuditLogAction = z.infer<typeof auditLogActionSchema>;
 
 // Human-readable labels for audit log actions
 export const AuditLogActionDefinition: Record<AuditLogAction, string> = {
@@ -33,17 +38,19 @@ export const AuditLogActionDefinition: Record<AuditLogAction, string> = {
   3: "Access",
 };
 
-// Interface representing a single audit log entry
-export interface LogItem {
-  id: number;
-  timestamp: string;
-  actor_username: string;
-  content_type_app_label: ContentTypeLabel;
-  content_type_model: ContentTypeModel;
-  object_pk: string;
-  action: AuditLogAction;
-  changes: string;
-}
+// Schema for a single audit log entry
+export const logItemSchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  actor_username: z.string(),
+  content_type_app_label: contentTypeLabelSchema,
+  content_type_model: contentTypeModelSchema,
+  object_pk: z.string(),
+  action: auditLogActionSchema,
+  changes: z.string(),
+});
+
+export type LogItem = z.infer<typeof logItemSchema>;
 
 /**
  * Audit log API endpoints
@@ -54,18 +61,26 @@ export const auditLogApi = {
    * Get audit logs for all activities within a company
    * Returns chronological log of all actions performed on company data
    * @param companyId - ID of the company to get audit logs for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of audit log entries
    */
-  getCompanyAuditLogs: (companyId: number) =>
-    apiRequest<LogItem[]>(`/companies/${companyId}/audit/`),
+  getCompanyAuditLogs: (companyId: number, options?: RequestControl) =>
+    apiRequest<LogItem[]>(`/companies/${companyId}/audit/`, {
+      ...options,
+      schema: z.array(logItemSchema),
+    }),
 
   /**
    * Get audit logs for a specific product
    * Returns chronological log of all actions performed on the product
    * @param companyId - ID of the company owning the product
    * @param productId - ID of the product to get audit logs for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of product-specific audit log entries
    */
-  getProductAuditLogs: (companyId: number, productId: number) =>
-    apiRequest<LogItem[]>(`/companies/${companyId}/products/${productId}/audit/`),
+  getProductAuditLogs: (companyId: number, productId: number, options?: RequestControl) =>
+    apiRequest<LogItem[]>(`/companies/${companyId}/products/${productId}/audit/`, {
+      ...options,
+      schema: z.array(logItemSchema),
+    }),
 };
@@ -4,6 +4,8 @@
  */
 
 import { apiRequest } from "./apiClient";
+import { SsoCallbackData } from "./oidc";
+import { getRefreshToken } from "./session";
 
 // Interface for user login credentials
 export interface LoginCredentials {
@@ -21,11 +23,51 @@ export interface RegisterData {
 }
 
 // Interface for authentication tokens returned by login
+// In cookie session mode the route handler moves the tokens into cookies and removes them here
 export interface AuthTokens {
   access: string;
   refresh: string;
 }
 
+// Interface for the second login step, returned by login instead of tokens
+// when the account has two-factor authentication enabled
+export interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string; // Short-lived token identifying the login attempt
+}
+
+// Interface for completing a login with a two-factor code
+export interface MfaVerifyData {
+  mfa_token: string;
+  code: string; // Code from the authenticator app or an unused recovery code
+}
+
+/**
+ * Check whether a login response asks for a two-factor code
+ * @param response - Response of the login endpoint
+ * @returns Boolean indicating if the login needs a second step
+ */
+export const isMfaChallenge = (response: AuthTokens | MfaChallenge): response is MfaChallenge =>
+  "mfa_required" in response && response.mfa_required;
+
+// Interface for requesting a password reset link by email
+export interface PasswordResetRequestData {
+  email: string;
+}
+
+// Interface for setting a new password with the token from the reset link
+export interface PasswordResetConfirmData {
+  uid: string; // Encoded user ID from the reset link
+  token: string; // Single-use reset token from the reset link
+  new_password: string;
+  new_password_confirm: string;
+}
+
+// Interface for confirming an email address with the key from the verification link
+export interface EmailVerificationData {
+  key: string;
+}
+
 // Interface for registration response including user data and tokens
 export interface RegisterResponse {
   user: {
@@ -34,6 +76,7 @@ export interface RegisterResponse {
     email: string;
     first_name: string;
     last_name: string;
+    email_verified?: boolean; // New accounts start unverified
   };
   access: string;
   refresh: string;
@@ -47,15 +90,42 @@ export const authApi = {
   /**
    * Authenticate user with username and password
    * @param credentials - User login credentials
-   * @returns Promise resolving to access and refresh tokens
+   * @returns Promise resolving to access and refresh tokens, or to a two-factor
+   * challenge when the account requires a second step
    */
   login: (credentials: LoginCredentials) =>
-    apiRequest<AuthTokens>("/login/", {
+    apiRequest<AuthTokens | MfaChallenge>("/login/", {
       method: "POST",
       body: credentials as unknown as Record<string, unknown>,
       requiresAuth: false, // No authentication needed for login
     }),
 
+  /**
+   * Complete a login that requires two-factor authentication
+   * @param data - Token of the login attempt and the two-factor code
+   * @returns Promise resolving to access and refresh tokens
+   */
+  verifyMfa: (data: MfaVerifyData) =>
+    apiRequest<AuthTokens>("/login/mfa/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      requiresAuth: false, // The login attempt is identified by its MFA token
+    }),
+
+  /**
+   * Sign in with the result of an identity provider login
+   * The backend exchanges the code with the provider and signs in the account
+   * matching the identity, creating it on first use
+   * @param data - Authorization code and PKCE verifier of the SSO login
+   * @returns Promise resolving to access and refresh tokens
+   */
+  ssoLogin: (data: SsoCallbackData) =>
+    apiRequest<AuthTokens>("/login/sso/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      requiresAuth: false, // The authorization code identifies the user
+    }),
+
   /**
    * Register a new user account
    * @param userData - User registration information
@@ -79,4 +149,64 @@ export const authApi = {
       body: { refresh: refreshToken } as Record<string, unknown>,
       requiresAuth: false, // Refresh doesn't require existing auth
     }),
+
+  /**
+   * Request an email with a password reset link
+   * Succeeds whether or not an account uses the address, so it reveals no accounts
+   * @param data - Email address of the account
+   * @returns Promise resolving when the request was accepted
+   */
+  requestPasswordReset: (data: PasswordResetRequestData) =>
+    apiRequest<{ detail: string }>("/password_reset/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      requiresAuth: false, // Users who forgot their password are not signed in
+    }),
+
+  /**
+   * Set a new password with the token from a reset link
+   * @param data - Link parameters and the new password
+   * @returns Promise resolving when the password was changed
+   */
+  confirmPasswordReset: (data: PasswordResetConfirmData) =>
+    apiRequest<{ detail: string }>("/password_reset/confirm/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      requiresAuth: false, // The reset token identifies the user
+    }),
+
+  /**
+   * Confirm the email address with the key from a verification link
+   * The key identifies the account, so the link also works when signed out
+   * @param data - Key from the verification link
+   * @returns Promise resolving when the address was verified
+   */
+  verifyEmail: (data: EmailVerificationData) =>
+    apiRequest<{ detail: string }>("/verify_email/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      requiresAuth: false, // The key identifies the user
+    }),
+
+  /**
+   * Send the verification email for the current user's address again
+   * @returns Promise resolving when the email was sent
+   */
+  resendVerificationEmail: () =>
+    apiRequest<{ detail: string }>("/verify_email/resend/", {
+      method: "POST",
+    }),
+
+  /**
+   * End the session on the backend, so it disappears from the list of active sessions
+   * The refresh token identifies the session, in cookie mode the session route handler
+   * adds it from its httpOnly cookie and clears the cookies
+   * @returns Promise resolving when the session was ended
+   */
+  logout: () =>
+    apiRequest<void>("/logout/", {
+      method: "POST",
+      body: { refresh: getRefreshToken() },
+      requiresAuth: false, // The session is ended even if the access token expired
+    }),
 };
@@ -3,49 +3,59 @@
  * Manages product line items and their associated emission calculations
  */
 
-import { apiRequest } from "./apiClient";
+import { z } from "zod";
+import { apiRequest, RequestControl } from "./apiClient";
+import { cachedQuery, queryKeys } from "./queryCache";
+import { mutateOrQueue } from "./offlineQueue";
 
-// Types for different emission calculation categories
-type EmissionType =
-  | "TransportEmission"
-  | "MaterialEmission"
-  | "UserEnergyEmission"
-  | "ProductionEnergyEmission";
+// Emission records reference BOM line items, so they change together with the BOM
+const BOM_DEPENDENT_RESOURCES = [
+  "bom",
+  "transport_emissions",
+  "production_energy_emissions",
+  "user_energy_emissions",
+];
 
-// Status types for product sharing requests
-type Status = "Pending" | "Accepted" | "Rejected" | "Not requested";
+// Schema for emission calculations associated with line items
+const emissionSchema = z.object({
+  id: z.number(),
+  quantity: z.number(),
+  // Types for different emission calculation categories
+  type: z.enum([
+    "TransportEmission",
+    "MaterialEmission",
+    "UserEnergyEmission",
+    "ProductionEnergyEmission",
+  ]),
+  url: z.string().nullable(),
+});
 
-// Interface for emission calculations associated with line items
-interface Emission {
-  id: number;
-  quantity: number;
-  type: EmissionType;
-  url: string | null;
-}
+// Schema for a product used in BOM line items
+const lineItemProductSchema = z.object({
+  id: z.number(),
+  supplier: z.number(),
+  emission_total: z.number(),
+  name: z.string(),
+  description: z.string(),
+  manufacturer_name: z.string(),
+  supplier_name: z.string(),
+  sku: z.string(),
+  is_public: z.boolean(),
+  reference_impact_unit: z.string(),
+});
 
-// Interface representing a product used in BOM line items
-interface Product {
-  id: number;
-  supplier: number;
-  emission_total: number;
-  name: string;
-  description: string;
-  manufacturer_name: string;
-  supplier_name: string;
-  sku: string;
-  is_public: boolean;
-  reference_impact_unit: string;
-}
+// Schema for a line item in a Bill of Materials
+export const lineItemSchema = z.object({
+  id: z.number(),
+  quantity: z.number(),
+  line_item_product: lineItemProductSchema,
+  parent_product: z.number(),
+  calculate_emissions: z.array(emissionSchema).optional(),
+  // Status types for product sharing requests
+  product_sharing_request_status: z.enum(["Pending", "Accepted", "Rejected", "Not requested"]),
+});
 
-// Interface representing a line item in a Bill of Materials
-export interface LineItem {
-  id: number;
-  quantity: number;
-  line_item_product: Product;
-  parent_product: number;
-  calculate_emissions?: Emission[];
-  product_sharing_request_status: Status;
-}
+export type LineItem = z.infer<typeof lineItemSchema>;
 
 // Interface for creating new line items
 export interface CreateLineItemData {
@@ -68,24 +78,43 @@ export const bomApi = {
    * Get all line items for a specific product's BOM
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to get line items for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of line items
    */
-  getAllLineItems: (company_id: number, product_id: number) =>
-    apiRequest<LineItem[]>(`/companies/${company_id}/products/${product_id}/bom/`, {
-      method: "GET",
-    }),
+  getAllLineItems: (company_id: number, product_id: number, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productResource(company_id, product_id, "bom"),
+      control =>
+        apiRequest<LineItem[]>(`/companies/${company_id}/products/${product_id}/bom/`, {
+          method: "GET",
+          ...control,
+          schema: z.array(lineItemSchema),
+        }),
+      options
+    ),
 
   /**
    * Create a new line item in a product's BOM
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to add line item to
    * @param data - Line item creation data
-   * @returns Promise resolving to created line item
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the created line item, or to the queued mutation while offline
    */
-  createNewLineItem: (company_id: number, product_id: number, data: CreateLineItemData) =>
-    apiRequest<LineItem>(`/companies/${company_id}/products/${product_id}/bom/`, {
+  createNewLineItem: (
+    company_id: number,
+    product_id: number,
+    data: CreateLineItemData,
+    description = "Add a line item to the bill of materials"
+  ) =>
+    mutateOrQueue<LineItem>({
+      endpoint: `/companies/${company_id}/products/${product_id}/bom/`,
       method: "POST",
       body: data as unknown as Record<string, unknown>,
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: BOM_DEPENDENT_RESOURCES,
     }),
 
   /**
@@ -107,37 +136,47 @@ export const bomApi = {
    * @param product_id - ID of the product containing the line item
    * @param line_item_id - ID of the line item to update
    * @param data - Updated line item data
-   * @returns Promise resolving to updated line item
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the updated line item, or to the queued mutation while offline
    */
   updateLineItem: (
     company_id: number,
     product_id: number,
     line_item_id: number,
-    data: UpdateLineItemData
-  ) => {
-    // Use PUT for complete updates, PATCH for partial updates
-    if (data.line_item_product_id != null && data.quantity != null) {
-      return apiRequest(`/companies/${company_id}/products/${product_id}/bom/${line_item_id}/`, {
-        method: "PUT",
-        body: data as unknown as Record<string, unknown>,
-      });
-    } else {
-      return apiRequest(`/companies/${company_id}/products/${product_id}/bom/${line_item_id}/`, {
-        method: "PATCH",
-        body: data as unknown as Record<string, unknown>,
-      });
-    }
-  },
+    data: UpdateLineItemData,
+    description = "Update a line item of the bill of materials"
+  ) =>
+    mutateOrQueue<LineItem>({
+      endpoint: `/companies/${company_id}/products/${product_id}/bom/${line_item_id}/`,
+      // Use PUT for complete updates, PATCH for partial updates
+      method: data.line_item_product_id != null && data.quantity != null ? "PUT" : "PATCH",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: BOM_DEPENDENT_RESOURCES,
+    }),
 
   /**
    * Delete a line item from a product's BOM
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product containing the line item
    * @param line_item_id - ID of the line item to delete
-   * @returns Promise resolving when deletion is complete
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving once the deletion is sent or queued
    */
-  deleteLineItem: (company_id: number, product_id: number, line_item_id: number) =>
-    apiRequest(`/companies/${company_id}/products/${product_id}/bom/${line_item_id}/`, {
+  deleteLineItem: (
+    company_id: number,
+    product_id: number,
+    line_item_id: number,
+    description = "Remove a line item from the bill of materials"
+  ) =>
+    mutateOrQueue<void>({
+      endpoint: `/companies/${company_id}/products/${product_id}/bom/${line_item_id}/`,
       method: "DELETE",
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: BOM_DEPENDENT_RESOURCES,
     }),
 };
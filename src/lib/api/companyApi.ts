@@ -1,25 +1,75 @@
 /**
  * Company management API client
- * Handles company CRUD operations, user management, and company search functionality
+ * Handles company CRUD operations, company profiles and logos, defaults for new products,
+ * user management, and company search functionality
  */
 
-import { apiRequest } from "./apiClient";
+import { apiRequest, RequestControl } from "./apiClient";
+import { fetchPage } from "./pagination";
+import { cachedQuery, invalidateQueries, queryKeys } from "./queryCache";
+import type { CompanyRole } from "../companyPermissions";
+
+// Interface for a production site of a company, used to prefill the manufacturer of products
+export interface CompanySite {
+  id?: number; // Assigned by the server, missing for sites that were not saved yet
+  name: string;
+  street: string;
+  zip_code: string;
+  city: string;
+  country: string; // Country code, the same choices as the manufacturer country of products
+}
+
+// Interface for the extended company profile, shown in reports and AAS exports
+export interface CompanyProfile {
+  address_street: string; // Registered address
+  address_zip_code: string;
+  address_city: string;
+  address_country: string;
+  nace_code: string; // NACE Rev. 2 code of the main activity, e.g. "C26.1"
+  website: string;
+  contact_name: string; // Contact person for product carbon footprint questions
+  contact_email: string;
+  sites: CompanySite[];
+}
 
 // Interface representing a company entity
-export interface Company {
+// Profile fields are optional, since older backends do not return them
+export interface Company extends Partial<CompanyProfile> {
   id: string;
   name: string;
   business_registration_number: string;
   vat_number: string;
+  logo?: string | null; // URL of the logo image, null if none was uploaded
+  role?: CompanyRole | null; // Role of the current user, null if they are not a member
 }
 
 // Interface for creating new companies
-export interface CompanyCreateData {
+export interface CompanyCreateData extends CompanyProfile {
   name: string;
   vat_number: string;
   business_registration_number: string;
 }
 
+// Interface for the defaults new products and emissions of a company start from
+// References are IDs of emission references, null leaves the choice to the user
+export interface ProductDefaults {
+  pcf_calculation_method: string;
+  reference_impact_unit: string;
+  is_public: boolean;
+  manufacturer_site: number | null; // Site whose address prefills the manufacturer fields
+  production_energy_reference: number | null;
+  user_energy_reference: number | null;
+  transport_reference: number | null;
+}
+
+// Interface for the OPTIONS metadata of the company endpoint
+// Lists the country choices of the registered address and the sites
+export interface CompanySchema {
+  actions?: {
+    POST?: Record<string, { choices?: { value: string; display_name: string }[] }>;
+  };
+}
+
 // Interface representing an authenticated user within a company context
 export interface AuthenticatedUser {
   id: number;
@@ -27,6 +77,7 @@ export interface AuthenticatedUser {
   email: string;
   first_name: string;
   last_name: string;
+  role: CompanyRole; // Role of the user within the company
 }
 
 /**
@@ -35,26 +86,45 @@ export interface AuthenticatedUser {
  */
 export const companyApi = {
   /**
-   * Search for companies across the entire system
-   * @param searchTerm - Search query string, if empty returns all companies
-   * @returns Promise resolving to array of matching companies
+   * List a single page of all companies in the system, searched and ordered by the server
+   * @param query - Query string of the page, built with listQuery or taken from Page.next
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the requested page of companies
    */
-  searchAllCompanies: (searchTerm: string) =>
-    apiRequest<Company[]>(searchTerm ? `/companies/${searchTerm}` : `/companies/`),
+  listCompaniesPage: (query: string, options?: RequestControl) =>
+    fetchPage<Company>("/companies/", undefined, query, options),
 
   /**
    * List all companies the current user has access to
    * Returns only companies where user is a member
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of user's companies
    */
-  listCompanies: () => apiRequest<Company[]>("/companies/my/"),
+  listCompanies: (options?: RequestControl) => apiRequest<Company[]>("/companies/my/", options),
 
   /**
    * Get detailed information for a specific company
    * @param companyId - Unique identifier for the company
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to company details
    */
-  getCompany: (companyId: string) => apiRequest<Company>(`/companies/${companyId}/`),
+  getCompany: (companyId: string, options?: RequestControl) =>
+    apiRequest<Company>(`/companies/${companyId}/`, options),
+
+  /**
+   * Get the role of the current user in a company
+   * Cached, since every company page checks it to decide which actions to offer
+   * @param companyId - ID of the company
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the role, or null if the user is not a member
+   */
+  getMyRole: (companyId: string, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.companyRole(companyId),
+      control =>
+        apiRequest<Company>(`/companies/${companyId}/`, control).then(company => company.role ?? null),
+      options
+    ),
 
   /**
    * Create a new company in the system
@@ -79,6 +149,76 @@ export const companyApi = {
       body: data as unknown as Record<string, unknown>,
     }),
 
+  /**
+   * Get OPTIONS metadata for the company endpoint
+   * Used to fill the country dropdowns of the company profile
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the company schema
+   */
+  getCompanyOptions: (options?: RequestControl) =>
+    apiRequest<CompanySchema>("/companies/", {
+      method: "OPTIONS",
+      ...options,
+    }),
+
+  /**
+   * Upload a new logo for a company, replacing the current one
+   * @param companyId - ID of the company
+   * @param file - PNG, JPEG, SVG or WebP image of at most 1 MB
+   * @returns Promise resolving to the URL of the uploaded logo
+   */
+  uploadLogo: (companyId: string, file: File) => {
+    const formData = new FormData();
+    formData.append("logo", file);
+    return apiRequest<{ logo: string }, FormData>(`/companies/${companyId}/logo/`, {
+      method: "PUT",
+      body: formData,
+    });
+  },
+
+  /**
+   * Remove the logo of a company
+   * @param companyId - ID of the company
+   * @returns Promise resolving when the logo was removed
+   */
+  deleteLogo: (companyId: string) =>
+    apiRequest<void>(`/companies/${companyId}/logo/`, {
+      method: "DELETE",
+    }),
+
+  /**
+   * Get the defaults of new products and emissions of a company
+   * Cached, since every product tab prefills its forms from them
+   * @param companyId - ID of the company
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the product defaults
+   */
+  getProductDefaults: (companyId: string, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productDefaults(companyId),
+      control => apiRequest<ProductDefaults>(`/companies/${companyId}/product_defaults/`, control),
+      options
+    ),
+
+  /**
+   * Update the defaults of new products and emissions of a company
+   * Existing products and emissions are not changed
+   * @param companyId - ID of the company
+   * @param data - New defaults
+   * @returns Promise resolving to the saved defaults
+   */
+  updateProductDefaults: async (companyId: string, data: ProductDefaults) => {
+    const defaults = await apiRequest<ProductDefaults>(
+      `/companies/${companyId}/product_defaults/`,
+      {
+        method: "PUT",
+        body: data as unknown as Record<string, unknown>,
+      }
+    );
+    invalidateQueries(queryKeys.productDefaults(companyId));
+    return defaults;
+  },
+
   /**
    * Delete a company from the system
    * This action permanently removes the company and all associated data
@@ -95,24 +235,43 @@ export const companyApi = {
   /**
    * List all users who have access to a specific company
    * @param companyId - ID of company to get users for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of company users
    */
-  listUsers: (companyId: string) =>
-    apiRequest<AuthenticatedUser[]>(`/companies/${companyId}/users/`),
+  listUsers: (companyId: string, options?: RequestControl) =>
+    apiRequest<AuthenticatedUser[]>(`/companies/${companyId}/users/`, options),
 
   /**
    * Add a user to a company by username
-   * Grants the user access to the company's data and operations
+   * Grants the user access to the company's data with the given role
    * @param companyId - ID of company to add user to
    * @param username - Username of user to add
+   * @param role - Role of the new member
    * @returns Promise resolving to success confirmation
    */
-  addUser: (companyId: string, username: string) =>
+  addUser: (companyId: string, username: string, role: CompanyRole) =>
     apiRequest<{ success: boolean }>(`/companies/${companyId}/users/`, {
       method: "POST",
-      body: { username } as unknown as Record<string, unknown>,
+      body: { username, role } as unknown as Record<string, unknown>,
     }),
 
+  /**
+   * Change the role of a company member
+   * @param companyId - ID of the company
+   * @param userId - ID of the member
+   * @param role - New role of the member
+   * @returns Promise resolving to the updated member
+   */
+  updateUserRole: async (companyId: string, userId: number, role: CompanyRole) => {
+    const user = await apiRequest<AuthenticatedUser>(`/companies/${companyId}/users/${userId}/`, {
+      method: "PATCH",
+      body: { role } as unknown as Record<string, unknown>,
+    });
+    // Members may have changed their own role
+    invalidateQueries(queryKeys.companyRole(companyId));
+    return user;
+  },
+
   /**
    * Remove a user from a company
    * Revokes the user's access to the company's data
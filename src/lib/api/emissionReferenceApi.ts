@@ -3,8 +3,9 @@
  * Provides access to standardized emission factors for different calculation types
  */
 
-import { apiRequest } from "./apiClient";
+import { apiRequest, RequestControl } from "./apiClient";
 import { OverrideFactor } from "./productionEmissionApi";
+import { cachedQuery, queryKeys } from "./queryCache";
 
 // Interface representing emission reference data with associated factors
 export interface EmissionReference {
@@ -13,6 +14,9 @@ export interface EmissionReference {
   emission_factors: OverrideFactor[];
 }
 
+// Reference databases change rarely, so cached lists are revalidated less often
+const REFERENCE_STALE_TIME_MS = 10 * 60 * 1000;
+
 /**
  * Emission reference API endpoints
  * Provides access to standardized emission factor databases
@@ -23,10 +27,15 @@ export const emissionReferenceApi = {
   /**
    * Get all available production energy emission references
    * Returns standardized emission factors for production energy calculations
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of production energy references
    */
-  getAllProductionEnergyReferences: () =>
-    apiRequest<EmissionReference[]>(`/reference/production_energy/`),
+  getAllProductionEnergyReferences: (options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.references("production_energy"),
+      control => apiRequest<EmissionReference[]>(`/reference/production_energy/`, control),
+      { staleTime: REFERENCE_STALE_TIME_MS, ...options }
+    ),
 
   /**
    * Get a specific production energy emission reference
@@ -41,9 +50,15 @@ export const emissionReferenceApi = {
   /**
    * Get all available transport emission references
    * Returns standardized emission factors for transportation calculations
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of transport references
    */
-  getAllTransportReferences: () => apiRequest<EmissionReference[]>(`/reference/transport/`),
+  getAllTransportReferences: (options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.references("transport"),
+      control => apiRequest<EmissionReference[]>(`/reference/transport/`, control),
+      { staleTime: REFERENCE_STALE_TIME_MS, ...options }
+    ),
 
   /**
    * Get a specific transport emission reference
@@ -58,9 +73,15 @@ export const emissionReferenceApi = {
   /**
    * Get all available user energy emission references
    * Returns standardized emission factors for user energy consumption calculations
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of user energy references
    */
-  getAllUserEnergyReferences: () => apiRequest<EmissionReference[]>(`/reference/user_energy/`),
+  getAllUserEnergyReferences: (options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.references("user_energy"),
+      control => apiRequest<EmissionReference[]>(`/reference/user_energy/`, control),
+      { staleTime: REFERENCE_STALE_TIME_MS, ...options }
+    ),
 
   /**
    * Get a specific user energy emission reference
@@ -8,10 +8,17 @@
 export * from "./apiClient";
 export * from "./authApi";
 export * from "./userApi";
+export * from "./mfaApi";
+export * from "./sessionsApi";
+export * from "./apiTokenApi";
 export * from "./companyApi";
+export * from "./invitationApi";
 export * from "./productApi";
 export * from "./bomApi";
 export * from "./productionEmissionApi";
 export * from "./userEnergyEmissionApi";
 export * from "./transportEmissionApi";
 export * from "./overrideEmissionApi";
+export * from "./queryCache";
+export * from "./pagination";
+export * from "./uploadApi";
@@ -0,0 +1,104 @@
+/**
+ * Company invitations API client
+ * Invites people to a company by email with a role. The invitation email links to the
+ * accept page, where the invited person signs in or registers and joins the company
+ */
+
+import { apiRequest, RequestControl } from "./apiClient";
+import { Company } from "./companyApi";
+import { invalidateQueries, queryKeys } from "./queryCache";
+import type { CompanyRole } from "../companyPermissions";
+
+// Interface for a pending invitation as listed on the manage users page
+export interface Invitation {
+  id: number;
+  email: string;
+  role: CompanyRole; // Role the invited person gets on accepting
+  invited_by: string | null; // Email address of the member who sent the invitation
+  created_at: string;
+  expires_at: string; // Expired invitations can be resent with a new link
+}
+
+// Interface for an invitation as shown to the invited person
+export interface InvitationDetails {
+  company: Company;
+  email: string;
+  role: CompanyRole;
+  invited_by: string | null;
+  expires_at: string;
+}
+
+/**
+ * Company invitation endpoints
+ * Provides methods for managing the invitations of a company and for accepting one
+ */
+export const invitationApi = {
+  /**
+   * Get the pending invitations of a company
+   * @param companyId - ID of the company
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the invitations that were not accepted or revoked yet
+   */
+  list: (companyId: string, options?: RequestControl) =>
+    apiRequest<Invitation[]>(`/companies/${companyId}/invitations/`, options),
+
+  /**
+   * Invite a person to a company by email
+   * @param companyId - ID of the company
+   * @param email - Email address to send the invitation to
+   * @param role - Role the person gets on accepting
+   * @returns Promise resolving to the new invitation
+   */
+  create: (companyId: string, email: string, role: CompanyRole) =>
+    apiRequest<Invitation>(`/companies/${companyId}/invitations/`, {
+      method: "POST",
+      body: { email, role } as unknown as Record<string, unknown>,
+    }),
+
+  /**
+   * Send an invitation again with a new link and expiry date, the old link stops working
+   * @param companyId - ID of the company
+   * @param invitationId - ID of the invitation
+   * @returns Promise resolving to the updated invitation
+   */
+  resend: (companyId: string, invitationId: number) =>
+    apiRequest<Invitation>(`/companies/${companyId}/invitations/${invitationId}/resend/`, {
+      method: "POST",
+    }),
+
+  /**
+   * Revoke an invitation, its link stops working
+   * @param companyId - ID of the company
+   * @param invitationId - ID of the invitation
+   * @returns Promise resolving when the invitation was revoked
+   */
+  revoke: (companyId: string, invitationId: number) =>
+    apiRequest<void>(`/companies/${companyId}/invitations/${invitationId}/`, {
+      method: "DELETE",
+    }),
+
+  /**
+   * Get the invitation of an invitation link, works without signing in
+   * @param key - Key from the invitation link
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the company, role and address of the invitation
+   */
+  get: (key: string, options?: RequestControl) =>
+    apiRequest<InvitationDetails>(`/invitations/${encodeURIComponent(key)}/`, {
+      ...options,
+      requiresAuth: false, // The key identifies the invitation
+    }),
+
+  /**
+   * Accept an invitation as the current user, who needs the invited email address
+   * @param key - Key from the invitation link
+   * @returns Promise resolving to the company the user joined, with their role
+   */
+  accept: async (key: string) => {
+    const company = await apiRequest<Company>(`/invitations/${encodeURIComponent(key)}/accept/`, {
+      method: "POST",
+    });
+    invalidateQueries(queryKeys.companyRole(String(company.id)));
+    return company;
+  },
+};
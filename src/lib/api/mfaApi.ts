@@ -0,0 +1,87 @@
+/**
+ * Two-factor authentication API client
+ * Handles enrolling an authenticator app (TOTP), disabling it and managing recovery codes
+ */
+
+import { apiRequest, RequestControl } from "./apiClient";
+
+// Interface for the two-factor state of the current user
+export interface MfaStatus {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+// Interface for a pending enrollment, confirmed with a code from the app
+export interface TotpSetup {
+  secret: string; // Base32 key for entering the account by hand
+  otpauth_url: string; // otpauth:// URI encoded in the QR code
+  qr_code?: string; // QR code rendered by the backend as image data URL
+}
+
+// Interface for freshly issued recovery codes, only shown once
+export interface RecoveryCodes {
+  recovery_codes: string[];
+}
+
+// Interface for disabling two-factor authentication
+export interface MfaDisableData {
+  password: string;
+  code: string;
+}
+
+/**
+ * Two-factor authentication API endpoints
+ * Provides methods for enrollment and recovery code management
+ */
+export const mfaApi = {
+  /**
+   * Get the two-factor state of the current user
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the two-factor status
+   */
+  getStatus: (options?: RequestControl) => apiRequest<MfaStatus>("/mfa/", options),
+
+  /**
+   * Start enrolling an authenticator app
+   * Replaces any earlier enrollment that was not confirmed
+   * @returns Promise resolving to the secret and QR code to scan
+   */
+  setupTotp: () =>
+    apiRequest<TotpSetup>("/mfa/totp/setup/", {
+      method: "POST",
+    }),
+
+  /**
+   * Confirm the enrollment with a code from the authenticator app
+   * @param code - Current code shown by the app
+   * @returns Promise resolving to the recovery codes of the account
+   */
+  confirmTotp: (code: string) =>
+    apiRequest<RecoveryCodes>("/mfa/totp/confirm/", {
+      method: "POST",
+      body: { code } as Record<string, unknown>,
+    }),
+
+  /**
+   * Disable two-factor authentication
+   * Requires the password and a current code for security verification
+   * @param data - Password and two-factor code
+   * @returns Promise resolving when two-factor authentication is disabled
+   */
+  disable: (data: MfaDisableData) =>
+    apiRequest<void>("/mfa/disable/", {
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+    }),
+
+  /**
+   * Replace all recovery codes, the previous ones stop working
+   * @param code - Current code from the authenticator app
+   * @returns Promise resolving to the new recovery codes
+   */
+  regenerateRecoveryCodes: (code: string) =>
+    apiRequest<RecoveryCodes>("/mfa/recovery-codes/", {
+      method: "POST",
+      body: { code } as Record<string, unknown>,
+    }),
+};
@@ -0,0 +1,298 @@
+/**
+ * Offline mutation queue
+ * Product tab mutations that cannot reach the server are stored in IndexedDB and
+ * replayed in order once the connection returns. Mutations the server rejects on
+ * replay are kept as conflicts until the user retries or discards them.
+ * Every mutation belongs to the user who made it and is only shown and replayed while
+ * that user is signed in, so a shared device never sends one user's changes as another
+ */
+
+import { ApiError, apiRequest, isAbortError, RequestMethod } from "./apiClient";
+import { invalidateProductEmissions } from "./queryCache";
+
+const DB_NAME = "carboninsight-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "mutations";
+
+// Window event dispatched whenever the queue changes, e.g. to update the queue status
+export const OFFLINE_QUEUE_EVENT = "offlineQueueChanged";
+
+/**
+ * Interface for a mutation of a product resource
+ * Holds everything needed to send the request again after a reload
+ */
+export interface MutationRequest {
+  endpoint: string; // API endpoint path
+  method: Exclude<RequestMethod, "GET" | "OPTIONS">;
+  body?: Record<string, unknown>; // Request body, stored as sent
+  description: string; // Human-readable summary shown in the conflict view
+  companyId: number; // Company owning the product
+  productId: number; // Product the mutation belongs to
+  resources: string[]; // Cached product resources that change with the mutation
+}
+
+/**
+ * Interface for a mutation stored in the queue
+ */
+export interface QueuedMutation extends MutationRequest {
+  id: string; // Unique identifier of the queued mutation
+  userId: number; // User who made the mutation, only their session replays it
+  createdAt: number; // Timestamp the mutation was queued at, replay follows this order
+  status: "pending" | "conflict"; // Conflicts were rejected by the server on replay
+  error?: string; // Message returned by the server for conflicts
+}
+
+/**
+ * Result of a mutation that may have been queued
+ * @template T - Type of the response data
+ */
+export type QueueResult<T> =
+  | { queued: false; data: T } // Sent to the server
+  | { queued: true; mutation: QueuedMutation }; // Stored for replay
+
+// ── IndexedDB helpers ────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open the queue database, creating its store on first use
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against the mutation store
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Notify listeners, e.g. the queue status, that the queue changed
+function notifyChange() {
+  window.dispatchEvent(new CustomEvent(OFFLINE_QUEUE_EVENT));
+}
+
+// Signed-in user whose mutations are queued and replayed, null while signed out
+let queueUserId: number | null = null;
+
+// Read a mutation of the signed-in user, mutations of other users are left alone
+async function getOwnMutation(id: string): Promise<QueuedMutation | null> {
+  const mutation = await withStore<QueuedMutation | undefined>("readonly", store => store.get(id));
+  return mutation && mutation.userId === queueUserId ? mutation : null;
+}
+
+// ── Queue operations ─────────────────────────────────────────────
+
+/**
+ * Check whether an error means the server could not be reached
+ * @param error - Error thrown by an API call
+ * @returns Boolean indicating if the request should be queued for replay
+ */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 0 && !isAbortError(error);
+}
+
+/**
+ * Get the signed-in user's queued mutations in replay order
+ * @returns Promise resolving to pending mutations and conflicts, empty while signed out
+ */
+export async function getQueuedMutations(): Promise<QueuedMutation[]> {
+  if (queueUserId === null) return [];
+  const mutations = await withStore<QueuedMutation[]>("readonly", store => store.getAll());
+  return mutations.filter(m => m.userId === queueUserId).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Store a mutation of the signed-in user for replay
+ * @param request - Mutation that could not be sent
+ * @returns Promise resolving to the queued mutation
+ * @throws ApiError if nobody is signed in, so the mutation could never be replayed
+ */
+export async function enqueueMutation(request: MutationRequest): Promise<QueuedMutation> {
+  if (queueUserId === null) {
+    throw new ApiError(0, "You are offline and not signed in, the change could not be saved.");
+  }
+
+  const mutation: QueuedMutation = {
+    ...request,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    userId: queueUserId,
+    createdAt: Date.now(),
+    status: "pending",
+  };
+  await withStore("readwrite", store => store.put(mutation));
+  notifyChange();
+  return mutation;
+}
+
+/**
+ * Remove a mutation from the queue without sending it
+ * @param id - ID of the queued mutation
+ */
+export async function discardMutation(id: string): Promise<void> {
+  if (!(await getOwnMutation(id))) return;
+  await withStore("readwrite", store => store.delete(id));
+  notifyChange();
+}
+
+// Send a mutation and refresh the cached resources it changes
+async function sendMutation<T>(request: MutationRequest): Promise<T> {
+  const data = await apiRequest<T>(request.endpoint, {
+    method: request.method,
+    body: request.body,
+  });
+  invalidateProductEmissions(request.companyId, request.productId, ...request.resources);
+  return data;
+}
+
+/**
+ * Send a mutation, or queue it for replay if the server cannot be reached
+ * Requests made while the browser is offline are queued without being sent
+ * @template T - Expected response data type
+ * @param request - Mutation to send
+ * @returns Promise resolving to the response data, or to the queued mutation
+ * @throws ApiError if the server rejects the mutation
+ */
+export async function mutateOrQueue<T>(request: MutationRequest): Promise<QueueResult<T>> {
+  if (navigator.onLine) {
+    try {
+      return { queued: false, data: await sendMutation<T>(request) };
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+
+  return { queued: true, mutation: await enqueueMutation(request) };
+}
+
+/**
+ * Show a queued create or update in a locally held list before it reaches the server
+ * Created items get a negative temporary ID until the list is loaded again
+ * @template T - Type of the listed items
+ * @param items - Items currently shown
+ * @param id - ID of the updated item, null for a created item
+ * @param data - Data sent with the queued mutation
+ * @returns New list including the queued change
+ */
+export function applyQueuedChange<T extends { id: number }>(
+  items: T[],
+  id: number | null,
+  data: Partial<T>
+): T[] {
+  if (id === null) return [...items, { ...data, id: -Date.now() } as T];
+  return items.map(item => (item.id === id ? { ...item, ...data } : item));
+}
+
+/**
+ * Check whether a listed item was created offline and has not reached the server yet
+ * The server does not know its temporary ID, so it cannot be edited or deleted until the
+ * list was loaded again after the queue was replayed
+ * @param item - Item of a locally held list
+ * @returns Boolean indicating if the item still has a temporary ID
+ */
+export function isUnsyncedItem(item: { id: number }): boolean {
+  return item.id < 0;
+}
+
+// Tooltip of the actions that are unavailable for items that have not synced yet
+export const UNSYNCED_ITEM_HINT =
+  "This item is not saved on the server yet. Reload the page once you are back online to change it.";
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Send the signed-in user's pending mutations in the order they were queued
+ * Replay stops at the first mutation that still cannot reach the server, so later
+ * mutations never overtake earlier ones. Rejected mutations become conflicts, except
+ * when the session ended, then they wait for the user to sign in again
+ * @returns Promise resolving once the replay finished
+ */
+export function replayQueue(): Promise<void> {
+  if (!replaying) {
+    replaying = (async () => {
+      try {
+        const userId = queueUserId;
+        const pending = (await getQueuedMutations()).filter(m => m.status === "pending");
+        for (const mutation of pending) {
+          // Stop as soon as the user signs out or another user signs in
+          if (queueUserId !== userId) break;
+
+          try {
+            await sendMutation(mutation);
+            await withStore("readwrite", store => store.delete(mutation.id));
+          } catch (error) {
+            const sessionEnded = error instanceof ApiError && error.status === 401;
+            if (isOfflineError(error) || sessionEnded) break;
+
+            const conflict: QueuedMutation = {
+              ...mutation,
+              status: "conflict",
+              error: error instanceof Error ? error.message : "The server rejected this change.",
+            };
+            await withStore("readwrite", store => store.put(conflict));
+          }
+          notifyChange();
+        }
+      } finally {
+        replaying = null;
+      }
+    })();
+  }
+  return replaying;
+}
+
+/**
+ * Send a conflicting mutation again, e.g. after the blocking data was fixed
+ * @param id - ID of the queued mutation
+ * @returns Promise resolving once the queue was replayed
+ */
+export async function retryMutation(id: string): Promise<void> {
+  const mutation = await getOwnMutation(id);
+  if (!mutation) return;
+
+  await withStore("readwrite", store => store.put({ ...mutation, status: "pending" }));
+  notifyChange();
+  await replayQueue();
+}
+
+/**
+ * Queue the signed-in user's mutations and replay them now and whenever the connection returns
+ * Mutations of other users stay stored until they sign in on this device again
+ * @param userId - ID of the signed-in user
+ * @returns Cleanup function to call on logout, stops queueing and replaying for the user
+ */
+export function startOfflineQueue(userId: number): () => void {
+  queueUserId = userId;
+  notifyChange();
+
+  const onOnline = () => {
+    replayQueue().catch(error => console.error("Failed to replay offline changes:", error));
+  };
+
+  window.addEventListener("online", onOnline);
+  if (navigator.onLine) onOnline();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    if (queueUserId === userId) queueUserId = null;
+    notifyChange();
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Single sign-on through an OpenID Connect identity provider
+ * Runs the authorization code flow with PKCE: the browser is sent to the provider
+ * and comes back to the SSO callback page with a code, which the backend exchanges
+ * for the provider's tokens and answers with CarbonInsight tokens.
+ * SSO is offered when NEXT_PUBLIC_OIDC_ISSUER and NEXT_PUBLIC_OIDC_CLIENT_ID are set
+ */
+
+// Provider configuration, chosen at build time
+export const OIDC_ISSUER = (process.env.NEXT_PUBLIC_OIDC_ISSUER ?? "").replace(/\/+$/, "");
+export const OIDC_CLIENT_ID = process.env.NEXT_PUBLIC_OIDC_CLIENT_ID ?? "";
+const OIDC_SCOPES = process.env.NEXT_PUBLIC_OIDC_SCOPES ?? "openid email profile";
+
+// Whether the login page offers single sign-on
+export const SSO_ENABLED = OIDC_ISSUER !== "" && OIDC_CLIENT_ID !== "";
+
+// Page the provider redirects back to, it has to be registered with the provider
+export const SSO_CALLBACK_PATH = "/login/sso/";
+
+// Login started in this tab, kept until the provider redirects back
+const PENDING_LOGIN_KEY = "sso_pending_login";
+
+/**
+ * Interface for the endpoints read from the provider's discovery document
+ */
+export interface OidcProviderMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+/**
+ * Interface for the result of the provider's redirect, sent to the backend
+ * to be exchanged for CarbonInsight tokens
+ */
+export interface SsoCallbackData {
+  code: string;
+  code_verifier: string; // PKCE secret matching the challenge sent to the provider
+  redirect_uri: string; // Has to equal the redirect URI of the authorization request
+  nonce: string; // Expected in the ID token, binds it to this login
+}
+
+// Data of a started login, stored while the user is at the provider
+interface PendingSsoLogin {
+  state: string;
+  code_verifier: string;
+  nonce: string;
+  redirect_uri: string;
+  return_to: string; // Page to continue to once signed in
+}
+
+/**
+ * Interface for a checked provider redirect
+ */
+export interface SsoCallback {
+  data: SsoCallbackData;
+  returnTo: string;
+}
+
+// Random URL-safe string from the given number of random bytes
+const randomString = (bytes: number) =>
+  encodeBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// PKCE S256 challenge: the base64url encoded SHA-256 hash of the verifier
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Read the endpoints of an identity provider from its discovery document
+ * @param issuer - Issuer URL of the provider, the configured one by default
+ * @returns Promise resolving to the provider's endpoints
+ */
+export async function discoverOidcProvider(issuer = OIDC_ISSUER): Promise<OidcProviderMetadata> {
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`Identity provider discovery failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Send the browser to the identity provider to sign in
+ * The PKCE verifier, state and nonce stay in sessionStorage for the callback
+ * @param returnTo - Page to continue to once signed in
+ * @returns Promise resolving once the browser is leaving the page
+ */
+export async function startSsoLogin(returnTo: string): Promise<void> {
+  const { authorization_endpoint } = await discoverOidcProvider();
+
+  const pending: PendingSsoLogin = {
+    state: randomString(16),
+    code_verifier: randomString(32),
+    nonce: randomString(16),
+    redirect_uri: `${window.location.origin}${SSO_CALLBACK_PATH}`,
+    return_to: returnTo,
+  };
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: pending.redirect_uri,
+    scope: OIDC_SCOPES,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.code_verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/**
+ * Check the provider's redirect against the login started in this tab
+ * The pending login is removed, so a callback URL can only be used once
+ *
+ * @param params - Query parameters of the callback page
+ * @returns Data to exchange for CarbonInsight tokens and the page to continue to
+ * @throws Error if the provider reported an error or the redirect does not match a started login
+ */
+export function readSsoCallback(params: URLSearchParams): SsoCallback {
+  const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  const providerError = params.get("error");
+  if (providerError) {
+    throw new Error(
+      params.get("error_description") || `Sign-in was not completed (${providerError}).`
+    );
+  }
+
+  const pending: PendingSsoLogin | null = stored ? JSON.parse(stored) : null;
+  const code = params.get("code");
+  // A state that does not match may be a forged redirect, so it is never exchanged
+  if (!pending || !code || params.get("state") !== pending.state) {
+    throw new Error("This sign-in link is invalid or was already used. Please sign in again.");
+  }
+
+  return {
+    data: {
+      code,
+      code_verifier: pending.code_verifier,
+      redirect_uri: pending.redirect_uri,
+      nonce: pending.nonce,
+    },
+    returnTo: pending.return_to,
+  };
+}
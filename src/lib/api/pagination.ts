@@ -0,0 +1,101 @@
+/**
+ * Pagination helpers for list endpoints
+ * List endpoints return a page of results when a page size is requested, either
+ * with a page number or with an opaque cursor in the link to the next page
+ */
+
+import { z, ZodTypeAny } from "zod";
+import { apiRequest, RequestControl } from "./apiClient";
+
+// Number of items requested per page when the caller does not choose one
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Interface for the server-side search, ordering and page size of a list request
+ */
+export interface ListParams {
+  search?: string; // Search term, matched by the server against names and identifiers
+  ordering?: string; // Field to order by, prefixed with "-" for descending order
+  pageSize?: number; // Number of items per page
+}
+
+/**
+ * Interface representing a single page of a list
+ * @template T - Type of the listed items
+ */
+export interface Page<T> {
+  results: T[]; // Items on this page
+  count: number | null; // Total number of matching items, null if the server does not count them
+  next: string | null; // Query string of the next page, null on the last page
+}
+
+/**
+ * Schema for a paginated list response
+ * Servers without pagination answer with a plain array, which is accepted as a single page
+ * @param itemSchema - Schema of a single item
+ */
+export const pageSchema = <S extends ZodTypeAny>(itemSchema: S) =>
+  z.union([
+    z.array(itemSchema),
+    z.object({
+      count: z.number().nullable().optional(),
+      next: z.string().nullable(),
+      previous: z.string().nullable().optional(),
+      results: z.array(itemSchema),
+    }),
+  ]);
+
+// Raw response of a list endpoint, with or without pagination
+type PageResponse<T> = T[] | { count?: number | null; next: string | null; results: T[] };
+
+/**
+ * Build the query string of the first page of a list
+ * @param params - Search, ordering and page size
+ * @returns Query string without the leading "?"
+ */
+export function listQuery(params: ListParams = {}): string {
+  const query = new URLSearchParams();
+  if (params.search) query.set("search", params.search);
+  if (params.ordering) query.set("ordering", params.ordering);
+  query.set("page_size", String(params.pageSize ?? DEFAULT_PAGE_SIZE));
+  return query.toString();
+}
+
+/**
+ * Convert a list response into a page
+ * The link to the next page is reduced to its query string, so it can be requested
+ * through the API client regardless of the host the server put in the link
+ */
+export function toPage<T>(data: PageResponse<T>): Page<T> {
+  if (Array.isArray(data)) {
+    return { results: data, count: data.length, next: null };
+  }
+
+  return {
+    results: data.results,
+    count: data.count ?? null,
+    next: data.next ? new URL(data.next, "http://localhost").search.slice(1) || null : null,
+  };
+}
+
+/**
+ * Fetch a single page of a list endpoint
+ * @template T - Type of the listed items
+ * @param endpoint - List endpoint path ending with a slash
+ * @param itemSchema - Optional schema of a single item
+ * @param query - Query string of the page, see listQuery and Page.next
+ * @param options - Optional request control (abort signal, timeout, retry policy)
+ * @returns Promise resolving to the requested page
+ */
+export async function fetchPage<T>(
+  endpoint: string,
+  itemSchema: ZodTypeAny | undefined,
+  query: string,
+  options?: RequestControl
+): Promise<Page<T>> {
+  const data = await apiRequest<PageResponse<T>>(`${endpoint}?${query}`, {
+    ...options,
+    schema: itemSchema && pageSchema(itemSchema),
+  });
+  return toPage(data);
+}
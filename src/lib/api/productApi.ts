@@ -1,32 +1,38 @@
-import { apiRequest } from "./apiClient";
-import { OverrideFactor } from "./productionEmissionApi";
+import { z } from "zod";
+import { apiRequest, RequestControl } from "./apiClient";
+import { LifecycleStageChoice } from "./overrideEmissionApi";
+import { overrideFactorSchema } from "./productionEmissionApi";
+import { fetchPage } from "./pagination";
+import { cachedQuery, invalidateQueries, queryKeys } from "./queryCache";
 
 /**
- * Interface representing a product in the system
+ * Schema for a product in the system
  * Contains all product information including emissions data and metadata
  */
-export interface Product {
-  id: string; // Unique identifier for the product
-  supplier: number; // ID of the supplier company
-  supplier_name: string; // Name of the supplier company
-  emission_total: number; // Total carbon emissions for the product (kg CO₂-eq)
-  emission_total_biogenic: number; // Biogenic carbon emissions component
-  emission_total_non_biogenic: number; // Non-biogenic carbon emissions component
-  override_factors: OverrideFactor[]; // Custom emission factors that override defaults
-  name: string; // Product name/title
-  description: string; // Detailed product description
-  manufacturer_name: string; // Name of the manufacturing company
-  manufacturer_country: string; // Country where product is manufactured
-  manufacturer_city: string; // City where product is manufactured
-  manufacturer_street: string; // Street address of manufacturer
-  manufacturer_zip_code: string; // Postal code of manufacturer
-  year_of_construction: number; // Year the product was manufactured
-  family: string; // Product family or category
-  sku: string; // Stock Keeping Unit identifier
-  reference_impact_unit: string; // Unit of measurement for impact calculations
-  pcf_calculation_method: string; // Method used for Product Carbon Footprint calculation
-  is_public: boolean; // Whether product data is publicly shareable
-}
+export const productSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String), // Unique identifier, typed as a string
+  supplier: z.number(), // ID of the supplier company
+  supplier_name: z.string(), // Name of the supplier company
+  emission_total: z.number(), // Total carbon emissions for the product (kg CO₂-eq)
+  emission_total_biogenic: z.number(), // Biogenic carbon emissions component
+  emission_total_non_biogenic: z.number(), // Non-biogenic carbon emissions component
+  override_factors: z.array(overrideFactorSchema), // Custom emission factors that override defaults
+  name: z.string(), // Product name/title
+  description: z.string(), // Detailed product description
+  manufacturer_name: z.string(), // Name of the manufacturing company
+  manufacturer_country: z.string(), // Country where product is manufactured
+  manufacturer_city: z.string(), // City where product is manufactured
+  manufacturer_street: z.string(), // Street address of manufacturer
+  manufacturer_zip_code: z.string(), // Postal code of manufacturer
+  year_of_construction: z.number(), // Year the product was manufactured
+  family: z.string(), // Product family or category
+  sku: z.string(), // Stock Keeping Unit identifier
+  reference_impact_unit: z.string(), // Unit of measurement for impact calculations
+  pcf_calculation_method: z.string(), // Method used for Product Carbon Footprint calculation
+  is_public: z.boolean(), // Whether product data is publicly shareable
+});
+
+export type Product = z.infer<typeof productSchema>;
 
 /**
  * Interface for data required to create a new product
@@ -55,25 +61,42 @@ export interface ProductSharingRequest {
 }
 
 /**
- * Interface for system mentions/notifications in emission traces
+ * Schema for system mentions/notifications in emission traces
  * Provides contextual information about calculation quality or issues
  */
-interface Mention {
-  mention_class: MentionClass; // Severity level of the mention
-  message: string; // Human-readable message content
-}
-
-// Type definition for mention severity levels
-type MentionClass = "Information" | "Warning" | "Error";
+const mentionSchema = z.object({
+  mention_class: z.enum(["Information", "Warning", "Error"]), // Severity level of the mention
+  message: z.string(), // Human-readable message content
+});
 
 /**
- * Type for emission data split between biogenic and non-biogenic sources
+ * Schema for emission data split between biogenic and non-biogenic sources
  * Used in detailed emission breakdowns
  */
-type EmissionSplit = {
-  biogenic: number; // Emissions from biological sources (kg CO₂-eq)
-  non_biogenic: number; // Emissions from non-biological sources (kg CO₂-eq)
-};
+const emissionSplitSchema = z.object({
+  biogenic: z.number(), // Emissions from biological sources (kg CO₂-eq)
+  non_biogenic: z.number(), // Emissions from non-biological sources (kg CO₂-eq)
+});
+
+/**
+ * Interface for the OPTIONS metadata of the product list endpoint
+ * Lists the choices of the product form's dropdown fields and override factors
+ */
+export interface ProductSchema {
+  actions?: {
+    POST?: Record<string, { choices?: LifecycleStageChoice[] }> & {
+      override_factors?: {
+        child?: {
+          children?: {
+            lifecycle_stage?: {
+              choices: LifecycleStageChoice[];
+            };
+          };
+        };
+      };
+    };
+  };
+}
 
 /**
  * Interface representing AI-generated advice for a product
@@ -86,36 +109,51 @@ export interface AiAdvice {
   created_at: string; // ISO timestamp when advice was generated
 }
 
+// Fields of an emission trace node, without its recursive children
+const emissionTraceNodeSchema = z.object({
+  label: z.string(), // Human-readable label for this emission source
+  reference_impact_unit: z.string(), // Unit used for impact calculations
+  methodology: z.string(), // Calculation methodology used
+  emissions_subtotal: z.record(emissionSplitSchema), // Emissions by lifecycle stage
+  mentions: z.array(mentionSchema), // System notifications about this emission source
+  total: z.number(), // Total emissions for this source (kg CO₂-eq)
+  source: z.enum([
+    "Product", // Emissions from the product itself
+    "ProductReference", // Emissions from reference product data
+    "TransportEmission", // Emissions from transportation
+    "TransportEmissionReference", // Reference transport emission data
+    "Material", // Emissions from materials
+    "MaterialReference", // Reference material emission data
+    "UserEnergy", // Emissions from user energy consumption
+    "UserEnergyReference", // Reference user energy data
+    "ProductionEnergy", // Emissions from production energy
+    "ProductionEnergyReference", // Reference production energy data
+    "Other", // Other emission sources
+    "OtherReference", // Reference data for other sources
+  ]),
+  pcf_calculation_method: z.string(), // Method used for PCF calculation
+});
+
 /**
- * Interface representing detailed emission trace data
+ * Type representing detailed emission trace data
  * Provides hierarchical breakdown of product carbon footprint sources
  */
-export interface EmissionTrace {
-  label: string; // Human-readable label for this emission source
-  reference_impact_unit: string; // Unit used for impact calculations
-  methodology: string; // Calculation methodology used
-  emissions_subtotal: Record<string, EmissionSplit>; // Emissions by lifecycle stage
+export type EmissionTrace = z.infer<typeof emissionTraceNodeSchema> & {
   children: {
     emission_trace: EmissionTrace; // Nested emission trace for sub-components
     quantity: number; // Quantity of the sub-component used
   }[]; // Array of child emission sources
-  mentions: Mention[]; // System notifications about this emission source
-  total: number; // Total emissions for this source (kg CO₂-eq)
-  source:
-    | "Product" // Emissions from the product itself
-    | "ProductReference" // Emissions from reference product data
-    | "TransportEmission" // Emissions from transportation
-    | "TransportEmissionReference" // Reference transport emission data
-    | "Material" // Emissions from materials
-    | "MaterialReference" // Reference material emission data
-    | "UserEnergy" // Emissions from user energy consumption
-    | "UserEnergyReference" // Reference user energy data
-    | "ProductionEnergy" // Emissions from production energy
-    | "ProductionEnergyReference" // Reference production energy data
-    | "Other" // Other emission sources
-    | "OtherReference"; // Reference data for other sources
-  pcf_calculation_method: string; // Method used for PCF calculation
-}
+};
+
+// Recursive schemas need an explicit type, the children are validated lazily
+export const emissionTraceSchema: z.ZodType<EmissionTrace> = emissionTraceNodeSchema.extend({
+  children: z.array(
+    z.object({
+      emission_trace: z.lazy(() => emissionTraceSchema),
+      quantity: z.number(),
+    })
+  ),
+});
 
 /**
  * API client object containing all product-related API operations
@@ -125,41 +163,84 @@ export const productApi = {
   /**
    * List all products for a specific company
    * @param companyId - ID of the company whose products to retrieve
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of products
    */
-  listProducts: (companyId: string) => apiRequest<Product[]>(`/companies/${companyId}/products/`),
+  listProducts: (companyId: string, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productList(companyId),
+      control =>
+        apiRequest<Product[]>(`/companies/${companyId}/products/`, {
+          ...control,
+          schema: z.array(productSchema),
+        }),
+      options
+    ),
 
   /**
-   * Search products by name for a specific company
-   * @param companyId - ID of the company to search within
-   * @param searchTerm - Search query string
-   * @returns Promise resolving to array of matching products
+   * List a single page of a company's products, searched and ordered by the server
+   * Pages are cached below the product list, so invalidating the list also drops them
+   * @param companyId - ID of the company whose products to retrieve
+   * @param query - Query string of the page, built with listQuery or taken from Page.next
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the requested page of products
    */
-  searchProducts: (companyId: string, searchTerm: string) =>
-    apiRequest<Product[]>(
-      searchTerm
-        ? `/companies/${companyId}/products${searchTerm}` // Include search term if provided
-        : `/companies/${companyId}/products/` // List all if no search term
+  listProductsPage: (companyId: string, query: string, options?: RequestControl) =>
+    cachedQuery(
+      [...queryKeys.productList(companyId), query],
+      control => fetchPage<Product>(`/companies/${companyId}/products/`, productSchema, query, control),
+      options
     ),
 
   /**
    * Get detailed information for a specific product
    * @param companyId - ID of the company that owns the product
    * @param productId - ID of the product to retrieve
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to product details
    */
-  getProduct: (companyId: string, productId: string) =>
-    apiRequest<Product>(`/companies/${companyId}/products/${productId}/`),
+  getProduct: (companyId: string, productId: string, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productResource(companyId, productId, "detail"),
+      control =>
+        apiRequest<Product>(`/companies/${companyId}/products/${productId}/`, {
+          ...control,
+          schema: productSchema,
+        }),
+      options
+    ),
 
   /**
    * Get detailed emission trace data for a product
    * Provides hierarchical breakdown of all emission sources
    * @param companyId - ID of the company that owns the product
    * @param productId - ID of the product to analyze
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to emission trace tree
    */
-  getProductEmissionTrace: (companyId: string, productId: string) =>
-    apiRequest<EmissionTrace>(`/companies/${companyId}/products/${productId}/emission_traces/`),
+  getProductEmissionTrace: (companyId: string, productId: string, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productResource(companyId, productId, "emission_trace"),
+      control =>
+        apiRequest<EmissionTrace>(
+          `/companies/${companyId}/products/${productId}/emission_traces/`,
+          { ...control, schema: emissionTraceSchema }
+        ),
+      options
+    ),
+
+  /**
+   * Get OPTIONS metadata for the product list endpoint
+   * Used to fill the dropdown fields of the product form
+   * @param companyId - ID of the company whose product endpoint to inspect
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the product schema
+   */
+  getProductOptions: (companyId: string, options?: RequestControl) =>
+    apiRequest<ProductSchema>(`/companies/${companyId}/products/`, {
+      method: "OPTIONS",
+      ...options,
+    }),
 
   /**
    * Create a new product in the system
@@ -167,11 +248,14 @@ export const productApi = {
    * @param data - Product creation data
    * @returns Promise resolving to created product
    */
-  createProduct: (companyId: string, data: ProductCreateData) =>
-    apiRequest<Product>(`companies/${companyId}/products/`, {
+  createProduct: async (companyId: string, data: ProductCreateData) => {
+    const product = await apiRequest<Product>(`/companies/${companyId}/products/`, {
       method: "POST",
       body: data as unknown as Record<string, unknown>,
-    }),
+    });
+    invalidateQueries(queryKeys.productList(companyId));
+    return product;
+  },
 
   /**
    * Update an existing product's information
@@ -180,11 +264,14 @@ export const productApi = {
    * @param data - Partial product data to update
    * @returns Promise resolving to updated product
    */
-  updateProduct: (productId: string, companyId: string, data: Partial<ProductCreateData>) =>
-    apiRequest<Product>(`companies/${companyId}/products/${productId}/`, {
+  updateProduct: async (productId: string, companyId: string, data: Partial<ProductCreateData>) => {
+    const product = await apiRequest<Product>(`/companies/${companyId}/products/${productId}/`, {
       method: "PUT",
       body: data as unknown as Record<string, unknown>,
-    }),
+    });
+    invalidateQueries(queryKeys.productList(companyId), queryKeys.product(companyId, productId));
+    return product;
+  },
 
   /**
    * Delete a product from the system
@@ -192,10 +279,13 @@ export const productApi = {
    * @param productId - ID of the product to delete
    * @returns Promise resolving when deletion is complete
    */
-  deleteProduct: (companyId: string, productId: string) =>
-    apiRequest(`companies/${companyId}/products/${productId}/`, {
+  deleteProduct: async (companyId: string, productId: string) => {
+    await apiRequest(`/companies/${companyId}/products/${productId}/`, {
       method: "DELETE",
-    }),
+    });
+    // Other products may still list the deleted one in their BOM
+    invalidateQueries(queryKeys.productList(companyId), ["companies", companyId, "products"]);
+  },
 
   /**
    * Request AI-generated advice for improving product carbon footprint
@@ -235,10 +325,14 @@ export const productApi = {
    * Get all product sharing requests for a company
    * Returns requests from other companies wanting access to this company's products
    * @param companyId - ID of the company to get requests for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of sharing requests
    */
-  getProductSharingRequests: (companyId: string) =>
-    apiRequest<ProductSharingRequest[]>(`/companies/${companyId}/product_sharing_requests/`),
+  getProductSharingRequests: (companyId: string, options?: RequestControl) =>
+    apiRequest<ProductSharingRequest[]>(
+      `/companies/${companyId}/product_sharing_requests/`,
+      options
+    ),
 
   /**
    * Approve multiple product sharing requests in bulk
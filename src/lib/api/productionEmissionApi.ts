@@ -3,49 +3,53 @@
  * Manages energy consumption data and emission calculations for manufacturing processes
  */
 
-import { apiRequest } from "./apiClient";
+import { z } from "zod";
+import { apiRequest, RequestControl } from "./apiClient";
+import { cachedQuery, queryKeys } from "./queryCache";
+import { mutateOrQueue } from "./offlineQueue";
 import { EmissionReference } from "./emissionReferenceApi";
 
 // Lifecycle stage definitions following industry standards (ISO 14040/14044)
-export type LifecycleStage =
-  | "A1"    // Raw material supply
-  | "A2"    // Transport to manufacturer
-  | "A3"    // Manufacturing
-  | "A4"    // Transport to construction site
-  | "A5"    // Installation process
-  | "A1-A3" // Combined product stage
-  | "A4-A5" // Combined construction stage
-  | "B1"    // Use
-  | "B2"    // Maintenance
-  | "B3"    // Repair
-  | "B4"    // Replacement
-  | "B5"    // Refurbishment
-  | "B6"    // Operational energy use
-  | "B7"    // Operational water use
-  | "B1-B7" // Combined use stage
-  | "C1"    // Deconstruction/demolition
-  | "C2"    // Transport to waste processing
-  | "C3"    // Waste processing
-  | "C4"    // Disposal
-  | "C1-C4" // Combined end-of-life stage
-  | "C2-C4" // End-of-life excluding deconstruction
-  | "D"     // Benefits beyond system boundary
-  | "Other"; // Custom lifecycle stages
+export const lifecycleStageSchema = z.enum([
+  "A1", // Raw material supply
+  "A2", // Transport to manufacturer
+  "A3", // Manufacturing
+  "A4", // Transport to construction site
+  "A5", // Installation process
+  "A1-A3", // Combined product stage
+  "A4-A5", // Combined construction stage
+  "B1", // Use
+  "B2", // Maintenance
+  "B3", // Repair
+  "B4", // Replacement
+  "B5", // Refurbishment
+  "B6", // Operational energy use
+  "B7", // Operational water use
+  "B1-B7", // Combined use stage
+  "C1", // Deconstruction/demolition
+  "C2", // Transport to waste processing
+  "C3", // Waste processing
+  "C4", // Disposal
+  "C1-C4", // Combined end-of-life stage
+  "C2-C4", // End-of-life excluding deconstruction
+  "D", // Benefits beyond system boundary
+  "Other", // Custom lifecycle stages
+]);
+
+export type LifecycleStage = z.infer<typeof lifecycleStageSchema>;
 
 // Array of all available lifecycle stages for validation and UI components
-export const lifecycleStages = [
-  "A1", "A2", "A3", "A4", "A5", "A1-A3", "A4-A5",
-  "B1", "B2", "B3", "B4", "B5", "B6", "B7", "B1-B7",
-  "C1", "C2", "C3", "C4", "C1-C4", "C2-C4", "D", "Other",
-];
+export const lifecycleStages: string[] = lifecycleStageSchema.options;
 
-// Interface for custom emission factors that override default reference values
-export interface OverrideFactor {
-  id?: number;
-  lifecycle_stage?: LifecycleStage;
-  co_2_emission_factor_biogenic?: number;     // Biogenic CO2 emissions (kg CO2-eq)
-  co_2_emission_factor_non_biogenic?: number; // Non-biogenic CO2 emissions (kg CO2-eq)
-}
+// Schema for custom emission factors that override default reference values
+export const overrideFactorSchema = z.object({
+  id: z.number().optional(),
+  lifecycle_stage: lifecycleStageSchema.optional(),
+  co_2_emission_factor_biogenic: z.number().optional(), // Biogenic CO2 emissions (kg CO2-eq)
+  co_2_emission_factor_non_biogenic: z.number().optional(), // Non-biogenic CO2 emissions (kg CO2-eq)
+});
+
+export type OverrideFactor = z.infer<typeof overrideFactorSchema>;
 
 // Interface representing production energy emission data
 export interface ProductionEnergyEmission {
@@ -75,14 +79,22 @@ export const productionEnergyApi = {
    * Returns comprehensive list of energy consumption records and calculations
    * @param companyId - ID of the company owning the product
    * @param productId - ID of the product to get emissions for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of production energy emissions
    */
   getAllProductionEmissions: async (
     companyId: number,
-    productId: number
+    productId: number,
+    options?: RequestControl
   ): Promise<ProductionEnergyEmission[]> => {
-    return apiRequest<ProductionEnergyEmission[]>(
-      `/companies/${companyId}/products/${productId}/emissions/production_energy/`
+    return cachedQuery(
+      queryKeys.productResource(companyId, productId, "production_energy_emissions"),
+      control =>
+        apiRequest<ProductionEnergyEmission[]>(
+          `/companies/${companyId}/products/${productId}/emissions/production_energy/`,
+          control
+        ),
+      options
     );
   },
 
@@ -108,21 +120,24 @@ export const productionEnergyApi = {
    * @param companyId - ID of the company owning the product
    * @param productId - ID of the product to add emission data to
    * @param data - Production energy emission data
-   * @returns Promise resolving to created emission record
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the created emission record, or to the queued mutation while offline
    */
-  createProductionEmission: async (
+  createProductionEmission: (
     companyId: number,
     productId: number,
-    data: CreateProductionEnergyEmissionRequest
-  ): Promise<ProductionEnergyEmission> => {
-    return apiRequest<ProductionEnergyEmission, Partial<CreateProductionEnergyEmissionRequest>>(
-      `/companies/${companyId}/products/${productId}/emissions/production_energy/`,
-      {
-        method: "POST",
-        body: data,
-      }
-    );
-  },
+    data: CreateProductionEnergyEmissionRequest,
+    description = "Add a production energy emission"
+  ) =>
+    mutateOrQueue<ProductionEnergyEmission>({
+      endpoint: `/companies/${companyId}/products/${productId}/emissions/production_energy/`,
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId,
+      productId,
+      resources: ["production_energy_emissions"],
+    }),
 
   /**
    * Update an existing production energy emission record
@@ -131,22 +146,25 @@ export const productionEnergyApi = {
    * @param productId - ID of the product containing the emission
    * @param emissionId - ID of the emission record to update
    * @param data - Partial production energy emission data to update
-   * @returns Promise resolving to updated emission record
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the updated emission record, or to the queued mutation while offline
    */
-  updateProductionEmission: async (
+  updateProductionEmission: (
     companyId: number,
     productId: number,
     emissionId: number,
-    data: Partial<CreateProductionEnergyEmissionRequest>
-  ): Promise<ProductionEnergyEmission> => {
-    return apiRequest<ProductionEnergyEmission, Partial<CreateProductionEnergyEmissionRequest>>(
-      `/companies/${companyId}/products/${productId}/emissions/production_energy/${emissionId}/`,
-      {
-        method: "PATCH",
-        body: data,
-      }
-    );
-  },
+    data: Partial<CreateProductionEnergyEmissionRequest>,
+    description = "Update a production energy emission"
+  ) =>
+    mutateOrQueue<ProductionEnergyEmission>({
+      endpoint: `/companies/${companyId}/products/${productId}/emissions/production_energy/${emissionId}/`,
+      method: "PATCH",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId,
+      productId,
+      resources: ["production_energy_emissions"],
+    }),
 
   /**
    * Delete a production energy emission record
@@ -154,16 +172,21 @@ export const productionEnergyApi = {
    * @param companyId - ID of the company owning the product
    * @param productId - ID of the product containing the emission
    * @param emissionId - ID of the emission record to delete
-   * @returns Promise resolving when deletion is complete
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving once the deletion is sent or queued
    */
-  deleteProductionEmission: async (
+  deleteProductionEmission: (
     companyId: number,
     productId: number,
-    emissionId: number
-  ): Promise<void> => {
-    return apiRequest<void>(
-      `/companies/${companyId}/products/${productId}/emissions/production_energy/${emissionId}/`,
-      { method: "DELETE" }
-    );
-  },
+    emissionId: number,
+    description = "Remove a production energy emission"
+  ) =>
+    mutateOrQueue<void>({
+      endpoint: `/companies/${companyId}/products/${productId}/emissions/production_energy/${emissionId}/`,
+      method: "DELETE",
+      description,
+      companyId,
+      productId,
+      resources: ["production_energy_emissions"],
+    }),
 };
@@ -0,0 +1,204 @@
+/**
+ * Shared client-side query cache
+ * Deduplicates identical in-flight reads and serves cached responses with
+ * stale-while-revalidate semantics, so pages and tabs reuse each other's data
+ */
+
+import { RequestAbortedError, RequestControl } from "./apiClient";
+
+/**
+ * Hierarchical cache key, e.g. ["companies", 1, "products", 2, "bom"]
+ * Invalidating a key also invalidates every key that starts with it
+ */
+export type QueryKey = readonly (string | number)[];
+
+// Time in milliseconds a cached response is served without revalidating
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+/**
+ * Interface for options accepted by cachedQuery
+ * Extends the request control forwarded by API modules with cache settings
+ */
+export interface QueryOptions extends RequestControl {
+  staleTime?: number; // Milliseconds before cached data is revalidated in the background
+}
+
+/**
+ * Interface for a single cache entry
+ * @template T - Type of the cached response data
+ */
+interface CacheEntry<T> {
+  data?: T; // Last successful response, undefined until the first fetch resolves
+  updatedAt: number; // Timestamp of the last successful response
+  promise?: Promise<T>; // Pending request shared by all callers of this key
+}
+
+const cache = new Map<string, CacheEntry<unknown>>();
+
+// Keys are stored as "/"-joined strings so prefixes can be matched cheaply
+const serializeKey = (key: QueryKey) => key.join("/");
+
+/**
+ * Cache keys used by the API modules
+ * Everything that belongs to a product lives under its product key
+ */
+export const queryKeys = {
+  company: (companyId: string | number) => ["companies", companyId] as const,
+  companyRole: (companyId: string | number) => ["companies", companyId, "role"] as const,
+  productDefaults: (companyId: string | number) =>
+    ["companies", companyId, "product_defaults"] as const,
+  productList: (companyId: string | number) => ["companies", companyId, "product_list"] as const,
+  product: (companyId: string | number, productId: string | number) =>
+    ["companies", companyId, "products", productId] as const,
+  productResource: (companyId: string | number, productId: string | number, resource: string) =>
+    ["companies", companyId, "products", productId, resource] as const,
+  references: (kind: string) => ["references", kind] as const,
+};
+
+// Product resources that show emission totals of the product or its BOM components
+const EMISSION_TOTAL_RESOURCES = ["detail", "bom", "emission_trace"];
+
+/**
+ * Resolve with the shared promise unless the caller's own signal aborts first
+ * A single caller cancelling must not cancel the request for everyone else
+ */
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new RequestAbortedError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError());
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      data => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(data);
+      },
+      error => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Start a request for the entry and store its result
+ * Results are dropped if the entry was invalidated while the request was pending
+ */
+function startFetch<T>(
+  id: string,
+  entry: CacheEntry<T>,
+  fetcher: (options: RequestControl) => Promise<T>,
+  options: RequestControl
+): Promise<T> {
+  const promise = fetcher(options).then(
+    data => {
+      if (cache.get(id) === entry) {
+        entry.data = data;
+        entry.updatedAt = Date.now();
+        entry.promise = undefined;
+      }
+      return data;
+    },
+    error => {
+      if (cache.get(id) === entry) {
+        entry.promise = undefined;
+        // Forget entries that never loaded so the next caller tries again
+        if (entry.data === undefined) cache.delete(id);
+      }
+      throw error;
+    }
+  );
+
+  entry.promise = promise;
+  return promise;
+}
+
+/**
+ * Read data through the cache
+ * Fresh data is returned immediately, stale data is returned immediately and
+ * refreshed in the background, missing data is fetched once for all callers
+ *
+ * @template T - Type of the response data
+ * @param key - Cache key identifying the resource
+ * @param fetcher - Function performing the actual request
+ * @param options - Request control and cache settings
+ * @returns Promise resolving to the cached or freshly fetched data
+ */
+export function cachedQuery<T>(
+  key: QueryKey,
+  fetcher: (options: RequestControl) => Promise<T>,
+  options: QueryOptions = {}
+): Promise<T> {
+  const { staleTime = DEFAULT_STALE_TIME_MS, signal, ...control } = options;
+  const id = serializeKey(key);
+
+  let entry = cache.get(id) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = { updatedAt: 0 };
+    cache.set(id, entry);
+  }
+
+  if (entry.data !== undefined) {
+    // Revalidate stale data without making the caller wait for it
+    if (Date.now() - entry.updatedAt > staleTime && !entry.promise) {
+      startFetch(id, entry, fetcher, control).catch(error => {
+        console.error(`Background refresh of ${id} failed:`, error);
+      });
+    }
+    return Promise.resolve(entry.data);
+  }
+
+  // The shared request deliberately ignores the caller's signal, see withSignal
+  return withSignal(entry.promise ?? startFetch(id, entry, fetcher, control), signal);
+}
+
+/**
+ * Invalidate cached data so the next read fetches it again
+ * @param keys - Keys to invalidate, each one also invalidates all keys below it
+ */
+export function invalidateQueries(...keys: QueryKey[]): void {
+  const prefixes = keys.map(serializeKey);
+
+  Array.from(cache.keys()).forEach(id => {
+    if (prefixes.some(prefix => id === prefix || id.startsWith(`${prefix}/`))) {
+      cache.delete(id);
+    }
+  });
+}
+
+/**
+ * Invalidate emission traces and totals after one of a product's emissions changed
+ * Parent products in the same company include this product's emissions through
+ * their BOM, so their traces and totals are dropped as well
+ * @param companyId - ID of the company owning the product
+ * @param productId - ID of the changed product
+ * @param resources - Product resources that were changed directly
+ */
+export function invalidateProductEmissions(
+  companyId: string | number,
+  productId: string | number,
+  ...resources: string[]
+): void {
+  invalidateQueries(
+    queryKeys.productList(companyId),
+    ...resources.map(resource => queryKeys.productResource(companyId, productId, resource))
+  );
+
+  const productsPrefix = `${serializeKey(["companies", companyId, "products"])}/`;
+  Array.from(cache.keys()).forEach(id => {
+    const resource = id.split("/").pop() ?? "";
+    if (id.startsWith(productsPrefix) && EMISSION_TOTAL_RESOURCES.includes(resource)) {
+      cache.delete(id);
+    }
+  });
+}
+
+/**
+ * Remove all cached data, e.g. when the user logs out
+ */
+export function clearQueryCache(): void {
+  cache.clear();
+}
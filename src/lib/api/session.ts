@@ -0,0 +1,146 @@
+/**
+ * Storage of the signed-in user's session
+ * In "token" mode the JWTs are kept in localStorage and sent as bearer tokens.
+ * In "cookie" mode the session route handler keeps them in httpOnly cookies, so
+ * scripts never see them and only a marker for the signed-in state is stored.
+ * Pages use these helpers instead of reading tokens themselves
+ */
+
+// Where the session lives, chosen at build time through NEXT_PUBLIC_SESSION_MODE
+export type SessionMode = "token" | "cookie";
+
+export const SESSION_MODE: SessionMode =
+  process.env.NEXT_PUBLIC_SESSION_MODE === "cookie" ? "cookie" : "token";
+
+// Path of the route handler that proxies API calls in cookie mode, see app/api/session
+export const SESSION_PROXY_PATH = "/api/session";
+
+// Endpoints whose responses carry the session's tokens, which cookie mode keeps from the browser.
+// Other responses are passed through as they are, even if they have fields of the same name
+export const TOKEN_ENDPOINTS = [
+  "/login/",
+  "/login/mfa/",
+  "/login/sso/",
+  "/register/",
+  "/token/refresh/",
+];
+
+// Cookie marking a cookie session on every path, so the middleware can protect pages.
+// The token cookies themselves are only sent to the route handler
+export const SESSION_COOKIE = "carboninsight_session";
+
+const ACCESS_TOKEN_KEY = "access_token";
+const REFRESH_TOKEN_KEY = "refresh_token";
+// Marker for an active cookie session, the cookies themselves are not readable
+const SESSION_MARKER_KEY = "has_session";
+// How the user signed in, see AuthMethod
+const AUTH_METHOD_KEY = "auth_method";
+
+// Why this tab was signed out, shown once on the login page
+const SIGN_OUT_REASON_KEY = "sign_out_reason";
+
+// How the session was started: with a CarbonInsight password or through single sign-on.
+// SSO accounts have no password of their own, it is managed by the identity provider
+export type AuthMethod = "password" | "sso";
+
+/**
+ * Interface for the tokens returned by login, registration and refresh
+ * In cookie mode the route handler removes them from the response
+ */
+export interface SessionTokens {
+  access?: string;
+  refresh?: string;
+}
+
+/**
+ * Get the access token to send as bearer token
+ * @returns Access token, or null in cookie mode and when signed out
+ */
+export function getAccessToken(): string | null {
+  if (typeof window === "undefined" || SESSION_MODE === "cookie") return null;
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+/**
+ * Get the refresh token to exchange for a new access token
+ * @returns Refresh token, or null in cookie mode and when signed out
+ */
+export function getRefreshToken(): string | null {
+  if (typeof window === "undefined" || SESSION_MODE === "cookie") return null;
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Check whether requests can currently be authenticated
+ * An expired access token still counts, the API client refreshes it on demand
+ * @returns Boolean indicating if a session is stored
+ */
+export function hasSession(): boolean {
+  if (typeof window === "undefined") return false;
+  if (SESSION_MODE === "cookie") return localStorage.getItem(SESSION_MARKER_KEY) === "true";
+  return localStorage.getItem(ACCESS_TOKEN_KEY) !== null;
+}
+
+/**
+ * Store the session after login, registration or a token refresh
+ * @param tokens - Tokens from the response, ignored in cookie mode
+ */
+export function storeSession(tokens: SessionTokens): void {
+  if (SESSION_MODE === "cookie") {
+    localStorage.setItem(SESSION_MARKER_KEY, "true");
+    return;
+  }
+
+  if (tokens.access) localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access);
+  // Keep the current refresh token unless the backend rotated it
+  if (tokens.refresh) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh);
+}
+
+/**
+ * Remember how the current session was started
+ * @param method - Password login or single sign-on
+ */
+export function storeAuthMethod(method: AuthMethod): void {
+  localStorage.setItem(AUTH_METHOD_KEY, method);
+}
+
+/**
+ * Get how the current session was started
+ * @returns Auth method, "password" for sessions stored before it was recorded
+ */
+export function getAuthMethod(): AuthMethod {
+  if (typeof window === "undefined") return "password";
+  return localStorage.getItem(AUTH_METHOD_KEY) === "sso" ? "sso" : "password";
+}
+
+/**
+ * Remember why the session ended for the login page
+ * Kept in sessionStorage, so only the tab that was signed out shows it
+ * @param reason - "revoked" when the session was signed out from another device
+ */
+export function storeSignOutReason(reason: "revoked"): void {
+  sessionStorage.setItem(SIGN_OUT_REASON_KEY, reason);
+}
+
+/**
+ * Read and forget why the session ended
+ * @returns Reason stored by storeSignOutReason, or null
+ */
+export function takeSignOutReason(): string | null {
+  if (typeof window === "undefined") return null;
+  const reason = sessionStorage.getItem(SIGN_OUT_REASON_KEY);
+  sessionStorage.removeItem(SIGN_OUT_REASON_KEY);
+  return reason;
+}
+
+/**
+ * Forget the stored session
+ * The cookies of a cookie session are cleared by the route handler on logout
+ */
+export function clearSession(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(SESSION_MARKER_KEY);
+  localStorage.removeItem(AUTH_METHOD_KEY);
+}
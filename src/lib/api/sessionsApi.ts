@@ -0,0 +1,54 @@
+/**
+ * Active sessions API client
+ * Lists the devices the current user is signed in on and signs them out
+ */
+
+import { apiRequest, RequestControl } from "./apiClient";
+
+// Interface for a signed-in device, backed by one refresh token
+export interface ActiveSession {
+  id: string;
+  device: string; // Platform read from the user agent, e.g. "Windows" or "iPhone"
+  browser: string;
+  ip_address: string;
+  created_at: string; // When the user signed in on the device
+  last_used_at: string; // Last request or token refresh of the session
+  is_current: boolean; // Session of this browser
+}
+
+// Interface for the result of signing out the other devices
+export interface RevokeSessionsResult {
+  revoked: number;
+}
+
+/**
+ * Active sessions API endpoints
+ * Revoked sessions can no longer refresh their tokens and are signed out
+ */
+export const sessionsApi = {
+  /**
+   * Get the active sessions of the current user
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the sessions, most recently used first
+   */
+  list: (options?: RequestControl) => apiRequest<ActiveSession[]>("/sessions/", options),
+
+  /**
+   * Sign out a single session
+   * @param sessionId - ID of the session to end
+   * @returns Promise resolving when the session was revoked
+   */
+  revoke: (sessionId: string) =>
+    apiRequest<void>(`/sessions/${sessionId}/`, {
+      method: "DELETE",
+    }),
+
+  /**
+   * Sign out all sessions except the current one
+   * @returns Promise resolving to the number of revoked sessions
+   */
+  revokeOthers: () =>
+    apiRequest<RevokeSessionsResult>("/sessions/revoke_others/", {
+      method: "POST",
+    }),
+};
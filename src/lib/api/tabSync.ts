@@ -0,0 +1,55 @@
+/**
+ * Synchronisation of the session and the selected company between open tabs
+ * Tabs share localStorage, so a message only tells the other tabs to pick up what changed.
+ * Messages are never delivered to the tab that sent them
+ */
+
+// Name of the channel shared by all tabs of the app
+const CHANNEL_NAME = "carboninsight-sync";
+
+// Changes other tabs have to follow
+export type TabSyncMessage =
+  | { type: "login" }
+  | { type: "logout" }
+  | { type: "sessionRefreshed" }
+  | { type: "userUpdated" }
+  | { type: "companyChanged"; companyId: string | null };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+const listeners = new Set<TabSyncListener>();
+let channel: BroadcastChannel | null = null;
+
+// Open the channel on first use, browsers without BroadcastChannel simply do not sync
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return null;
+
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+/**
+ * Tell the other open tabs about a change made in this tab
+ * @param message - Change to broadcast
+ */
+export function broadcastTabSync(message: TabSyncMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Listen for changes made in other tabs
+ * @param listener - Called with every message from another tab
+ * @returns Function that stops listening
+ */
+export function subscribeTabSync(listener: TabSyncListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -3,7 +3,9 @@
  * Manages transportation-related carbon emissions for products and materials
  */
 
-import { apiRequest } from "./apiClient";
+import { apiRequest, RequestControl } from "./apiClient";
+import { cachedQuery, queryKeys } from "./queryCache";
+import { mutateOrQueue } from "./offlineQueue";
 import { EmissionReference } from "./emissionReferenceApi";
 import { LifecycleStageChoice } from "./overrideEmissionApi";
 import { OverrideFactor } from "./productionEmissionApi";
@@ -64,14 +66,21 @@ export const transportEmissionApi = {
    * Returns comprehensive list of transportation-related emissions
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to get transport emissions for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of transport emissions
    */
-  getAllTransportEmissions: (company_id: number, product_id: number) =>
-    apiRequest<TransportEmission[]>(
-      `/companies/${company_id}/products/${product_id}/emissions/transport/`,
-      {
-        method: "GET",
-      }
+  getAllTransportEmissions: (company_id: number, product_id: number, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productResource(company_id, product_id, "transport_emissions"),
+      control =>
+        apiRequest<TransportEmission[]>(
+          `/companies/${company_id}/products/${product_id}/emissions/transport/`,
+          {
+            method: "GET",
+            ...control,
+          }
+        ),
+      options
     ),
 
   /**
@@ -79,20 +88,24 @@ export const transportEmissionApi = {
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to add transport emission to
    * @param data - Transport emission data including distance and weight
-   * @returns Promise resolving to created transport emission
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the created transport emission, or to the queued mutation while offline
    */
   createTransportEmission: (
     company_id: number,
     product_id: number,
-    data: CreateTransportEmission
+    data: CreateTransportEmission,
+    description = "Add a transport emission"
   ) =>
-    apiRequest<TransportEmission>(
-      `/companies/${company_id}/products/${product_id}/emissions/transport/`,
-      {
-        method: "POST",
-        body: data as unknown as Record<string, unknown>,
-      }
-    ),
+    mutateOrQueue<TransportEmission>({
+      endpoint: `/companies/${company_id}/products/${product_id}/emissions/transport/`,
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: ["transport_emissions"],
+    }),
 
   /**
    * Get details of a specific transport emission record
@@ -114,13 +127,19 @@ export const transportEmissionApi = {
    * Useful for understanding available lifecycle stage choices
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to get options for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to transport emission schema
    */
-  getTransportEmissionOptions: (company_id: number, product_id: number) =>
+  getTransportEmissionOptions: (
+    company_id: number,
+    product_id: number,
+    options?: RequestControl
+  ) =>
     apiRequest<TransportEmissionSchema>(
       `/companies/${company_id}/products/${product_id}/emissions/transport/`,
       {
         method: "OPTIONS",
+        ...options,
       }
     ),
 
@@ -131,34 +150,26 @@ export const transportEmissionApi = {
    * @param product_id - ID of the product containing the emission
    * @param emission_id - ID of the transport emission to update
    * @param data - Updated transport emission data
-   * @returns Promise resolving to updated transport emission
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the updated transport emission, or to the queued mutation while offline
    */
   updateTransportEmission: (
     company_id: number,
     product_id: number,
     emission_id: number,
-    data: UpdateTransportEmission
-  ) => {
-    // Use PUT for complete updates (both distance and weight provided)
-    if (data.distance !== undefined && data.weight !== undefined) {
-      return apiRequest(
-        `/companies/${company_id}/products/${product_id}/emissions/transport/${emission_id}/`,
-        {
-          method: "PUT",
-          body: data as unknown as Record<string, unknown>,
-        }
-      );
-    } else {
-      // Use PATCH for partial updates
-      return apiRequest(
-        `/companies/${company_id}/products/${product_id}/emissions/transport/${emission_id}/`,
-        {
-          method: "PATCH",
-          body: data as unknown as Record<string, unknown>,
-        }
-      );
-    }
-  },
+    data: UpdateTransportEmission,
+    description = "Update a transport emission"
+  ) =>
+    mutateOrQueue<TransportEmission>({
+      endpoint: `/companies/${company_id}/products/${product_id}/emissions/transport/${emission_id}/`,
+      // Use PUT for complete updates (both distance and weight provided), PATCH for partial updates
+      method: data.distance !== undefined && data.weight !== undefined ? "PUT" : "PATCH",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: ["transport_emissions"],
+    }),
 
   /**
    * Delete a transport emission record
@@ -166,13 +177,21 @@ export const transportEmissionApi = {
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product containing the emission
    * @param emission_id - ID of the transport emission to delete
-   * @returns Promise resolving when deletion is complete
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving once the deletion is sent or queued
    */
-  deleteTransportEmission: (company_id: number, product_id: number, emission_id: number) =>
-    apiRequest(
-      `/companies/${company_id}/products/${product_id}/emissions/transport/${emission_id}/`,
-      {
-        method: "DELETE",
-      }
-    ),
+  deleteTransportEmission: (
+    company_id: number,
+    product_id: number,
+    emission_id: number,
+    description = "Remove a transport emission"
+  ) =>
+    mutateOrQueue<void>({
+      endpoint: `/companies/${company_id}/products/${product_id}/emissions/transport/${emission_id}/`,
+      method: "DELETE",
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: ["transport_emissions"],
+    }),
 };
@@ -0,0 +1,351 @@
+/**
+ * File import API client
+ * Uploads import files with byte-level progress, splits large files into chunks
+ * that resume after a network failure, and follows server-side import jobs
+ */
+
+import {
+  apiRequest,
+  ApiError,
+  DEFAULT_TIMEOUT_MS,
+  isAbortError,
+  RequestAbortedError,
+  RequestControl,
+  RequestTimeoutError,
+  TransferProgress,
+} from "./apiClient";
+
+// Files above this size are uploaded in chunks through an upload session
+export const CHUNKED_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+
+// Chunk size used when the server does not suggest one
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Attempts per chunk before a network failure is reported to the caller
+const MAX_CHUNK_ATTEMPTS = 5;
+
+// Slowest upload speed a chunk is given time for, in bytes per millisecond (32 KB/s)
+const MIN_CHUNK_UPLOAD_RATE = 32;
+
+// A chunk may take the regular request timeout plus the time to send it on a slow line
+const chunkTimeout = (chunk: Blob) =>
+  DEFAULT_TIMEOUT_MS + Math.ceil(chunk.size / MIN_CHUNK_UPLOAD_RATE);
+
+// Milliseconds between two status requests of a running import job, also the base retry delay
+const IMPORT_JOB_POLL_INTERVAL_MS = 1000;
+
+// localStorage key prefix remembering unfinished upload sessions per file
+const UPLOAD_SESSION_STORAGE_PREFIX = "upload_session:";
+
+/**
+ * Interface representing a resumable upload session
+ */
+export interface UploadSession {
+  id: string; // Unique identifier of the session
+  filename: string; // Name of the uploaded file
+  size: number; // Total file size in bytes
+  offset: number; // Bytes received by the server so far
+  chunk_size: number; // Chunk size in bytes preferred by the server
+}
+
+/**
+ * Interface representing a server-side import job
+ * Tabular imports of many products are processed in the background
+ * @template R - Type of the import result
+ */
+export interface ImportJob<R = unknown> {
+  id: string; // Unique identifier of the job
+  status: "pending" | "processing" | "completed" | "failed"; // Current processing state
+  processed: number; // Rows processed so far
+  total: number | null; // Total rows, null until the file has been read
+  result?: R; // Import result, set once the job completed
+  detail?: string; // Error message, set when the job failed
+  errors?: { attr: string; detail: string }[]; // Validation errors of a failed job
+}
+
+/**
+ * Interface describing the progress of an import
+ * Reported while uploading the file and while the server processes it
+ */
+export type ImportProgress =
+  | ({ phase: "uploading" } & TransferProgress)
+  | { phase: "processing"; processed: number; total: number | null };
+
+/**
+ * Interface for options accepted by importFile
+ */
+export interface ImportFileOptions extends RequestControl {
+  onProgress?: (progress: ImportProgress) => void; // Called on upload and processing progress
+}
+
+const IMPORT_JOB_STATUSES: ImportJob["status"][] = ["pending", "processing", "completed", "failed"];
+
+// Import endpoints answer with a job instead of the result when processing runs in the background
+const isImportJob = (data: unknown): data is ImportJob =>
+  typeof data === "object" &&
+  data !== null &&
+  !Array.isArray(data) &&
+  "id" in data &&
+  IMPORT_JOB_STATUSES.includes((data as ImportJob).status);
+
+// Uploads of the same file share one session, so they can resume where the last attempt stopped
+const sessionStorageKey = (companyId: string, endpoint: string, file: File) =>
+  `${UPLOAD_SESSION_STORAGE_PREFIX}${companyId}:${endpoint}:${file.name}:${file.size}:${file.lastModified}`;
+
+/**
+ * Upload and import job API endpoints
+ */
+export const uploadApi = {
+  /**
+   * Start a resumable upload session
+   * @param companyId - ID of the company importing the file
+   * @param file - File that will be uploaded
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the new upload session
+   */
+  createSession: (companyId: string, file: File, options?: RequestControl) =>
+    apiRequest<UploadSession>(`/companies/${companyId}/uploads/`, {
+      method: "POST",
+      body: { filename: file.name, size: file.size },
+      ...options,
+    }),
+
+  /**
+   * Get the current state of an upload session
+   * Used to find the offset to resume from after a failure
+   * @param companyId - ID of the company importing the file
+   * @param sessionId - ID of the upload session
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the upload session
+   */
+  getSession: (companyId: string, sessionId: string, options?: RequestControl) =>
+    apiRequest<UploadSession>(`/companies/${companyId}/uploads/${sessionId}/`, options),
+
+  /**
+   * Upload a single chunk of a file
+   * @param companyId - ID of the company importing the file
+   * @param sessionId - ID of the upload session
+   * @param offset - Byte offset of the chunk within the file
+   * @param chunk - Chunk contents
+   * @param options - Request control and upload progress callback
+   * @returns Promise resolving to the updated upload session
+   */
+  uploadChunk: (
+    companyId: string,
+    sessionId: string,
+    offset: number,
+    chunk: Blob,
+    options?: RequestControl & { onUploadProgress?: (progress: TransferProgress) => void }
+  ) => {
+    const formData = new FormData();
+    formData.append("offset", String(offset));
+    formData.append("chunk", chunk);
+
+    return apiRequest<UploadSession, FormData>(`/companies/${companyId}/uploads/${sessionId}/`, {
+      method: "PATCH",
+      body: formData,
+      ...options,
+    });
+  },
+
+  /**
+   * Get the status of a server-side import job
+   * @param companyId - ID of the company importing the file
+   * @param jobId - ID of the import job
+   * @param options - Optional request control (abort signal, timeout, retry policy)
+   * @returns Promise resolving to the import job
+   */
+  getImportJob: <R>(companyId: string, jobId: string, options?: RequestControl) =>
+    apiRequest<ImportJob<R>>(`/companies/${companyId}/import_jobs/${jobId}/`, options),
+};
+
+/**
+ * Wait for the given delay, rejecting early if the signal is aborted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Open a new upload session or resume the one left behind by an earlier attempt
+ */
+async function openSession(
+  companyId: string,
+  storageKey: string,
+  file: File,
+  options: RequestControl
+): Promise<UploadSession> {
+  const storedId = localStorage.getItem(storageKey);
+  if (storedId) {
+    try {
+      return await uploadApi.getSession(companyId, storedId, options);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // The session expired on the server, start over
+      localStorage.removeItem(storageKey);
+    }
+  }
+
+  const session = await uploadApi.createSession(companyId, file, options);
+  localStorage.setItem(storageKey, session.id);
+  return session;
+}
+
+/**
+ * Upload a file chunk by chunk
+ * Network failures re-read the server's offset and continue from there
+ * @returns ID of the completed upload session
+ */
+async function uploadInChunks(
+  companyId: string,
+  storageKey: string,
+  file: File,
+  options: ImportFileOptions
+): Promise<string> {
+  const { onProgress, ...control } = options;
+  let session = await openSession(companyId, storageKey, file, control);
+  const chunkSize = session.chunk_size || DEFAULT_CHUNK_SIZE;
+  let failedAttempts = 0;
+
+  while (session.offset < file.size) {
+    const offset = session.offset;
+    const chunk = file.slice(offset, offset + chunkSize);
+    onProgress?.({ phase: "uploading", loaded: offset, total: file.size });
+
+    try {
+      session = await uploadApi.uploadChunk(companyId, session.id, offset, chunk, {
+        ...control,
+        timeout: control.timeout ?? chunkTimeout(chunk),
+        // The multipart envelope makes the request slightly larger than the chunk itself
+        onUploadProgress: ({ loaded }) =>
+          onProgress?.({
+            phase: "uploading",
+            loaded: offset + Math.min(loaded, chunk.size),
+            total: file.size,
+          }),
+      });
+      failedAttempts = 0;
+    } catch (error) {
+      // A 409 means the server's offset differs, e.g. when a response got lost after the
+      // chunk arrived. Network failures and timeouts are retried, cancellations and rejected
+      // chunks are final.
+      const isOffsetConflict = error instanceof ApiError && error.status === 409;
+      const isNetworkFailure =
+        error instanceof RequestTimeoutError || (error instanceof ApiError && error.status === 0);
+      if (isAbortError(error) || !(isOffsetConflict || isNetworkFailure)) throw error;
+      if (++failedAttempts >= MAX_CHUNK_ATTEMPTS) throw error;
+
+      if (isNetworkFailure) {
+        await wait(IMPORT_JOB_POLL_INTERVAL_MS * 2 ** (failedAttempts - 1), control.signal);
+      }
+      // Continue from the offset the server actually received
+      session = await uploadApi.getSession(companyId, session.id, control);
+    }
+  }
+
+  onProgress?.({ phase: "uploading", loaded: file.size, total: file.size });
+  return session.id;
+}
+
+/**
+ * Poll an import job until the server finished processing it
+ * @returns Import result of the completed job
+ * @throws ApiError with the job's errors if the import failed
+ */
+async function waitForImportJob<R>(
+  companyId: string,
+  job: ImportJob<R>,
+  options: ImportFileOptions
+): Promise<R> {
+  const { onProgress, ...control } = options;
+
+  while (job.status === "pending" || job.status === "processing") {
+    onProgress?.({ phase: "processing", processed: job.processed, total: job.total });
+    await wait(IMPORT_JOB_POLL_INTERVAL_MS, control.signal);
+    job = await uploadApi.getImportJob<R>(companyId, job.id, control);
+  }
+
+  if (job.status === "failed") {
+    // Report failed jobs in the backend's regular error format
+    const data = job.errors?.length
+      ? { type: "validation_error", errors: job.errors }
+      : { detail: job.detail ?? "Import failed" };
+    throw new ApiError(400, job.detail ?? "Import failed", data);
+  }
+
+  onProgress?.({ phase: "processing", processed: job.processed, total: job.total });
+  return job.result as R;
+}
+
+/**
+ * Upload a file to an import endpoint and wait for the import to finish
+ * Small files are sent in one request, large files through a resumable upload
+ * session. Servers without upload sessions receive large files in one request too.
+ *
+ * @template R - Type of the import result
+ * @param companyId - ID of the company importing the file
+ * @param endpoint - Import endpoint path, e.g. /companies/1/products/import/tabular/
+ * @param file - File to import
+ * @param options - Request control and progress callback
+ * @returns Promise resolving to the import result
+ */
+export async function importFile<R>(
+  companyId: string,
+  endpoint: string,
+  file: File,
+  options: ImportFileOptions = {}
+): Promise<R> {
+  const { onProgress, ...control } = options;
+  const storageKey = sessionStorageKey(companyId, endpoint, file);
+  let uploadId: string | null = null;
+
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+    try {
+      uploadId = await uploadInChunks(companyId, storageKey, file, options);
+    } catch (error) {
+      // Fall back to a single request when the server has no upload sessions
+      if (!(error instanceof ApiError && error.status === 404)) throw error;
+      localStorage.removeItem(storageKey);
+    }
+  }
+
+  let response: R | ImportJob<R>;
+  if (uploadId) {
+    // The uploaded file is referenced by its session instead of being sent again
+    response = await apiRequest<R | ImportJob<R>>(endpoint, {
+      method: "POST",
+      body: { upload_id: uploadId },
+      ...control,
+    });
+    localStorage.removeItem(storageKey);
+  } else {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    response = await apiRequest<R | ImportJob<R>, FormData>(endpoint, {
+      method: "POST",
+      body: formData,
+      ...control,
+      // A single large upload easily takes longer than the default timeout
+      timeout: control.timeout ?? 0,
+      onUploadProgress: progress => onProgress?.({ phase: "uploading", ...progress }),
+    });
+  }
+
+  return isImportJob(response) ? waitForImportJob(companyId, response, options) : response;
+}
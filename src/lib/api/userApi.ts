@@ -3,7 +3,7 @@
  * Handles user profile operations, account updates, and password changes
  */
 
-import { apiRequest } from "./apiClient";
+import { apiRequest, RequestControl } from "./apiClient";
 
 // Interface representing a user in the system
 export interface User {
@@ -12,6 +12,7 @@ export interface User {
   email: string;
   first_name?: string;
   last_name?: string;
+  email_verified?: boolean; // False until the user opened the link from the verification email
 }
 
 // Interface for updating user profile information
@@ -35,9 +36,10 @@ export interface PasswordChangeData {
 export const userApi = {
   /**
    * Get the current authenticated user's profile
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to user profile data
    */
-  getProfile: () => apiRequest<User>("/user_profile/"),
+  getProfile: (options?: RequestControl) => apiRequest<User>("/user_profile/", options),
 
   /**
    * Update the current user's profile information
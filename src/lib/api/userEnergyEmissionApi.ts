@@ -3,7 +3,9 @@
  * Manages energy consumption data during product use phase
  */
 
-import { apiRequest } from "./apiClient";
+import { apiRequest, RequestControl } from "./apiClient";
+import { cachedQuery, queryKeys } from "./queryCache";
+import { mutateOrQueue } from "./offlineQueue";
 import { EmissionReference } from "./emissionReferenceApi";
 import { OverrideFactor } from "./productionEmissionApi";
 
@@ -43,14 +45,21 @@ export const userEnergyEmissionApi = {
    * Returns comprehensive list of use-phase energy consumption records
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product to get user energy emissions for
+   * @param options - Optional request control (abort signal, timeout, retry policy)
    * @returns Promise resolving to array of user energy emissions
    */
-  getAllUserEnergyEmissions: (company_id: number, product_id: number) =>
-    apiRequest<UserEnergyEmission[]>(
-      `/companies/${company_id}/products/${product_id}/emissions/user_energy/`,
-      {
-        method: "GET",
-      }
+  getAllUserEnergyEmissions: (company_id: number, product_id: number, options?: RequestControl) =>
+    cachedQuery(
+      queryKeys.productResource(company_id, product_id, "user_energy_emissions"),
+      control =>
+        apiRequest<UserEnergyEmission[]>(
+          `/companies/${company_id}/products/${product_id}/emissions/user_energy/`,
+          {
+            method: "GET",
+            ...control,
+          }
+        ),
+      options
     ),
 
   /**
@@ -58,21 +67,24 @@ export const userEnergyEmissionApi = {
    * @param companyId - ID of the company owning the product
    * @param productId - ID of the product to add user energy emission to
    * @param data - User energy emission data including consumption values
-   * @returns Promise resolving to created user energy emission
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the created user energy emission, or to the queued mutation while offline
    */
-  createUserEnergyEmission: async (
+  createUserEnergyEmission: (
     companyId: number,
     productId: number,
-    data: CreateUserEnergyEmissionRequest
-  ): Promise<UserEnergyEmission> => {
-    return apiRequest<UserEnergyEmission, Partial<CreateUserEnergyEmissionRequest>>(
-      `/companies/${companyId}/products/${productId}/emissions/user_energy/`,
-      {
-        method: "POST",
-        body: data,
-      }
-    );
-  },
+    data: CreateUserEnergyEmissionRequest,
+    description = "Add a user energy emission"
+  ) =>
+    mutateOrQueue<UserEnergyEmission>({
+      endpoint: `/companies/${companyId}/products/${productId}/emissions/user_energy/`,
+      method: "POST",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId,
+      productId,
+      resources: ["user_energy_emissions"],
+    }),
 
   /**
    * Get details of a specific user energy emission record
@@ -96,22 +108,25 @@ export const userEnergyEmissionApi = {
    * @param productId - ID of the product containing the emission
    * @param emissionId - ID of the user energy emission to update
    * @param data - Partial user energy emission data to update
-   * @returns Promise resolving to updated user energy emission
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving to the updated user energy emission, or to the queued mutation while offline
    */
-  updateUserEnergyEmission: async (
+  updateUserEnergyEmission: (
     companyId: number,
     productId: number,
     emissionId: number,
-    data: Partial<CreateUserEnergyEmissionRequest>
-  ): Promise<UserEnergyEmission> => {
-    return apiRequest<UserEnergyEmission, Partial<CreateUserEnergyEmissionRequest>>(
-      `/companies/${companyId}/products/${productId}/emissions/user_energy/${emissionId}/`,
-      {
-        method: "PATCH",
-        body: data,
-      }
-    );
-  },
+    data: Partial<CreateUserEnergyEmissionRequest>,
+    description = "Update a user energy emission"
+  ) =>
+    mutateOrQueue<UserEnergyEmission>({
+      endpoint: `/companies/${companyId}/products/${productId}/emissions/user_energy/${emissionId}/`,
+      method: "PATCH",
+      body: data as unknown as Record<string, unknown>,
+      description,
+      companyId,
+      productId,
+      resources: ["user_energy_emissions"],
+    }),
 
   /**
    * Delete a user energy emission record
@@ -119,13 +134,21 @@ export const userEnergyEmissionApi = {
    * @param company_id - ID of the company owning the product
    * @param product_id - ID of the product containing the emission
    * @param emission_id - ID of the user energy emission to delete
-   * @returns Promise resolving when deletion is complete
+   * @param description - Summary of the change, shown if the server rejects it on replay
+   * @returns Promise resolving once the deletion is sent or queued
    */
-  deleteUserEnergyEmission: (company_id: number, product_id: number, emission_id: number) =>
-    apiRequest(
-      `/companies/${company_id}/products/${product_id}/emissions/user_energy/${emission_id}/`,
-      {
-        method: "DELETE",
-      }
-    ),
+  deleteUserEnergyEmission: (
+    company_id: number,
+    product_id: number,
+    emission_id: number,
+    description = "Remove a user energy emission"
+  ) =>
+    mutateOrQueue<void>({
+      endpoint: `/companies/${company_id}/products/${product_id}/emissions/user_energy/${emission_id}/`,
+      method: "DELETE",
+      description,
+      companyId: company_id,
+      productId: product_id,
+      resources: ["user_energy_emissions"],
+    }),
 };
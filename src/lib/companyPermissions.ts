@@ -0,0 +1,67 @@
+/**
+ * Roles of company members and what each role may do
+ * The backend enforces the same rules, the UI uses them to hide or disable actions
+ * the current user cannot perform in the selected company
+ */
+
+// Role of a user within a company, from most to least privileged
+export type CompanyRole = "owner" | "admin" | "editor" | "viewer";
+
+// Actions that need more than read access to a company
+export type CompanyAction =
+  | "edit_products" // Create, change, import and delete products and their emissions
+  | "manage_sharing" // Approve or deny requests for access to product data
+  | "edit_company" // Change the company details
+  | "manage_users" // Add and remove members and change their roles
+  | "delete_company";
+
+export const COMPANY_ROLES: CompanyRole[] = ["owner", "admin", "editor", "viewer"];
+
+export const ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<CompanyRole, string> = {
+  owner: "Full access, including deleting the company and managing owners",
+  admin: "Manages users, company details and data sharing",
+  editor: "Creates and edits products and their emissions",
+  viewer: "Can only view company data",
+};
+
+const ROLE_PERMISSIONS: Record<CompanyRole, CompanyAction[]> = {
+  owner: ["edit_products", "manage_sharing", "edit_company", "manage_users", "delete_company"],
+  admin: ["edit_products", "manage_sharing", "edit_company", "manage_users"],
+  editor: ["edit_products"],
+  viewer: [],
+};
+
+/**
+ * Check whether a role allows an action
+ * @param role - Role of the user, null while it is unknown
+ * @param action - Action to perform
+ * @returns True if the action is allowed, false for unknown roles
+ */
+export function hasCompanyPermission(role: CompanyRole | null, action: CompanyAction): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(action);
+}
+
+/**
+ * Check whether a member may give another member a role, or remove them
+ * Only owners can change owners or make someone an owner, so admins cannot take over
+ * @param actorRole - Role of the user making the change
+ * @param currentRole - Current role of the member being changed
+ * @param newRole - Role to assign, omitted when removing the member
+ * @returns True if the change is allowed
+ */
+export function canManageMember(
+  actorRole: CompanyRole | null,
+  currentRole: CompanyRole,
+  newRole?: CompanyRole
+): boolean {
+  if (!hasCompanyPermission(actorRole, "manage_users")) return false;
+  if (actorRole === "owner") return true;
+  return currentRole !== "owner" && newRole !== "owner";
+}
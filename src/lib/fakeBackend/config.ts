@@ -0,0 +1,17 @@
+/**
+ * Switch for the in-memory fake backend
+ * Kept apart from the fake backend itself, so the API client can check it without
+ * bundling the routes and seed data into builds that talk to the real API
+ */
+
+// Whether the app should talk to the fake backend instead of the real API
+export const FAKE_BACKEND_ENABLED = process.env.NEXT_PUBLIC_FAKE_BACKEND === "true";
+
+/**
+ * Load the fake backend if it is enabled
+ * Checks the environment variable itself instead of FAKE_BACKEND_ENABLED, since the bundler
+ * only leaves the import out when it sees the build-time constant in the same expression
+ * @returns Promise resolving to the fake backend module, or to null when it is disabled
+ */
+export const loadFakeBackend = () =>
+  process.env.NEXT_PUBLIC_FAKE_BACKEND === "true" ? import("./index") : Promise.resolve(null);
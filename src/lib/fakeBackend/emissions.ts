@@ -0,0 +1,206 @@
+/**
+ * Emission calculations for the fake backend
+ * Builds emission traces the same way the backend reports them: a product's
+ * total is the sum of its own override factors, its emission records and its
+ * BOM components multiplied by their quantity
+ */
+
+import type { EmissionTrace } from "@/lib/api/productApi";
+import type { OverrideFactor } from "@/lib/api/productionEmissionApi";
+import { EmissionKind, FakeDatabase, FakeEmission } from "./fixtures";
+
+type Subtotal = EmissionTrace["emissions_subtotal"];
+type Mention = EmissionTrace["mentions"][number];
+
+// Labels and sources used by the backend for each emission category
+const EMISSION_TRACE_INFO: Record<
+  EmissionKind,
+  { label: string; source: EmissionTrace["source"]; unit: string }
+> = {
+  transport: { label: "Transport Emission", source: "TransportEmission", unit: "tkm" },
+  production_energy: {
+    label: "Production energy consumption emission",
+    source: "ProductionEnergy",
+    unit: "kWh",
+  },
+  user_energy: {
+    label: "User energy consumption emission",
+    source: "UserEnergy",
+    unit: "kWh",
+  },
+};
+
+/**
+ * Add the emissions of the given factors to a subtotal
+ * @param subtotal - Subtotal per lifecycle stage, updated in place
+ * @param factors - Emission factors per unit
+ * @param amount - Number of units the factors apply to
+ */
+function addFactors(subtotal: Subtotal, factors: OverrideFactor[], amount: number): void {
+  factors.forEach(factor => {
+    const stage = factor.lifecycle_stage ?? "Other";
+    const current = subtotal[stage] ?? { biogenic: 0, non_biogenic: 0 };
+    subtotal[stage] = {
+      biogenic: current.biogenic + (factor.co_2_emission_factor_biogenic ?? 0) * amount,
+      non_biogenic: current.non_biogenic + (factor.co_2_emission_factor_non_biogenic ?? 0) * amount,
+    };
+  });
+}
+
+/**
+ * Add another subtotal, scaled by a quantity, to a subtotal
+ * @param subtotal - Subtotal per lifecycle stage, updated in place
+ * @param other - Subtotal to add
+ * @param quantity - Multiplier applied to the other subtotal
+ */
+function addSubtotal(subtotal: Subtotal, other: Subtotal, quantity: number): void {
+  Object.entries(other).forEach(([stage, split]) => {
+    const current = subtotal[stage] ?? { biogenic: 0, non_biogenic: 0 };
+    subtotal[stage] = {
+      biogenic: current.biogenic + split.biogenic * quantity,
+      non_biogenic: current.non_biogenic + split.non_biogenic * quantity,
+    };
+  });
+}
+
+// Sum all lifecycle stages of a subtotal
+const sumSubtotal = (subtotal: Subtotal) =>
+  Object.values(subtotal).reduce((sum, split) => sum + split.biogenic + split.non_biogenic, 0);
+
+/**
+ * Number of reference units an emission record stands for
+ * Transport factors are given per tonne-km, energy factors per kWh
+ */
+function emissionAmount(emission: FakeEmission): number {
+  if (emission.kind === "transport") {
+    return ((emission.distance ?? 0) * (emission.weight ?? 0)) / 1000;
+  }
+  return emission.energy_consumption ?? 0;
+}
+
+/**
+ * Build the trace of a single emission record
+ * Override factors replace the reference factors of the same lifecycle stage
+ */
+function buildEmissionTrace(
+  db: FakeDatabase,
+  emission: FakeEmission,
+  pcfCalculationMethod: string
+): EmissionTrace {
+  const info = EMISSION_TRACE_INFO[emission.kind];
+  const reference = db.references[emission.kind].find(ref => ref.id === emission.reference);
+  const overriddenStages = emission.override_factors.map(factor => factor.lifecycle_stage);
+  const factors = [
+    ...(reference?.emission_factors ?? []).filter(
+      factor => !overriddenStages.includes(factor.lifecycle_stage)
+    ),
+    ...emission.override_factors,
+  ];
+
+  const subtotal: Subtotal = {};
+  addFactors(subtotal, factors, emissionAmount(emission));
+
+  const mentions: Mention[] = [];
+  if (factors.length === 0) {
+    mentions.push({
+      mention_class: "Warning",
+      message: "No reference or override factors are set, so this emission counts as zero.",
+    });
+  }
+
+  return {
+    label: info.label,
+    reference_impact_unit: info.unit,
+    methodology: reference ? `Reference: ${reference.name}` : "Override factors",
+    emissions_subtotal: subtotal,
+    children: [],
+    mentions,
+    total: sumSubtotal(subtotal),
+    source: info.source,
+    pcf_calculation_method: pcfCalculationMethod,
+  };
+}
+
+/**
+ * Build the emission trace of a product, including its whole BOM
+ * @param db - Fake backend state
+ * @param productId - ID of the product to trace
+ * @param visited - Products already on the current BOM path, used to stop cycles
+ * @returns Emission trace as returned by the emission_traces endpoint
+ */
+export function buildProductTrace(
+  db: FakeDatabase,
+  productId: number,
+  visited: number[] = []
+): EmissionTrace {
+  const product = db.products.find(p => p.id === productId);
+  if (!product) {
+    throw new Error(`Product ${productId} does not exist`);
+  }
+
+  const subtotal: Subtotal = {};
+  const mentions: Mention[] = [];
+  const children: EmissionTrace["children"] = [];
+
+  // Product-level override factors describe the product's own emissions per unit
+  addFactors(subtotal, product.override_factors, 1);
+
+  if (visited.includes(productId)) {
+    mentions.push({
+      mention_class: "Error",
+      message: "The bill of materials contains this product itself, components were skipped.",
+    });
+  } else {
+    db.lineItems
+      .filter(item => item.parent_product === productId)
+      .forEach(item => {
+        const childTrace = buildProductTrace(db, item.line_item_product, [...visited, productId]);
+        addSubtotal(subtotal, childTrace.emissions_subtotal, item.quantity);
+        children.push({ emission_trace: childTrace, quantity: item.quantity });
+      });
+  }
+
+  db.emissions
+    .filter(emission => emission.product === productId)
+    .forEach(emission => {
+      const emissionTrace = buildEmissionTrace(db, emission, product.pcf_calculation_method);
+      addSubtotal(subtotal, emissionTrace.emissions_subtotal, 1);
+      children.push({ emission_trace: emissionTrace, quantity: 1 });
+    });
+
+  if (children.length === 0 && product.override_factors.length === 0) {
+    mentions.push({
+      mention_class: "Warning",
+      message: "No emission data has been entered for this product yet.",
+    });
+  }
+
+  return {
+    label: product.name,
+    reference_impact_unit: product.reference_impact_unit,
+    methodology: "Sum of override factors, emissions and bill of materials components",
+    emissions_subtotal: subtotal,
+    children,
+    mentions,
+    total: sumSubtotal(subtotal),
+    source: "Product",
+    pcf_calculation_method: product.pcf_calculation_method,
+  };
+}
+
+/**
+ * Calculate the emission totals shown on a product
+ * @param db - Fake backend state
+ * @param productId - ID of the product
+ * @returns Total emissions split into biogenic and non-biogenic parts
+ */
+export function productEmissionTotals(db: FakeDatabase, productId: number) {
+  const { emissions_subtotal } = buildProductTrace(db, productId);
+  const splits = Object.values(emissions_subtotal);
+
+  return {
+    emission_total: sumSubtotal(emissions_subtotal),
+    emission_total_biogenic: splits.reduce((sum, split) => sum + split.biogenic, 0),
+    emission_total_non_biogenic: splits.reduce((sum, split) => sum + split.non_biogenic, 0),
+  };
+}
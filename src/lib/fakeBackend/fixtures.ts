@@ -0,0 +1,551 @@
+/**
+ * Seed data and record types for the fake backend
+ * Describes a small supply chain: two companies, a product whose BOM uses a
+ * supplier's product, and at least one record of every emission type
+ */
+
+import type { CompanyProfile, CompanySite, ProductDefaults } from "@/lib/api/companyApi";
+import type { EmissionReference } from "@/lib/api/emissionReferenceApi";
+import type { LogItem } from "@/lib/api/auditLogApi";
+import type { OverrideFactor } from "@/lib/api/productionEmissionApi";
+import type { CompanyRole } from "@/lib/companyPermissions";
+
+// Emission categories, named after their URL segment
+export type EmissionKind = "transport" | "production_energy" | "user_energy";
+
+export const EMISSION_KINDS: EmissionKind[] = ["transport", "production_energy", "user_energy"];
+
+// Stored user account, including the password the fake login checks against
+export interface FakeUser {
+  id: number;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  password: string;
+  email_verified: boolean; // False until the user opened the link from the verification email
+  mfa_secret?: string; // TOTP secret once two-factor authentication is enabled
+  mfa_pending_secret?: string; // TOTP secret of an enrollment that was not confirmed yet
+  recovery_codes?: string[]; // Unused recovery codes
+}
+
+// Stored company with its profile and the IDs of its member users and their roles
+export interface FakeCompany extends Omit<CompanyProfile, "sites"> {
+  id: number;
+  name: string;
+  vat_number: string;
+  business_registration_number: string;
+  logo: string | null; // Data URL of the uploaded logo
+  sites: Required<CompanySite>[];
+  product_defaults: ProductDefaults;
+  members: number[];
+  roles: Record<number, CompanyRole>; // Role per member ID
+}
+
+// Stored product, emission totals are calculated when it is serialized
+export interface FakeProduct {
+  id: number;
+  company: number;
+  name: string;
+  description: string;
+  manufacturer_name: string;
+  manufacturer_country: string;
+  manufacturer_city: string;
+  manufacturer_street: string;
+  manufacturer_zip_code: string;
+  year_of_construction: number;
+  family: string;
+  sku: string;
+  reference_impact_unit: string;
+  pcf_calculation_method: string;
+  is_public: boolean;
+  override_factors: OverrideFactor[];
+}
+
+// Stored BOM line item linking a parent product to a component product
+export interface FakeLineItem {
+  id: number;
+  parent_product: number;
+  line_item_product: number;
+  quantity: number;
+}
+
+// Stored emission record of any kind, only the fields of its kind are set
+export interface FakeEmission {
+  id: number;
+  kind: EmissionKind;
+  product: number;
+  distance?: number; // Transport distance (km)
+  weight?: number; // Transported weight (kg)
+  energy_consumption?: number; // Consumed energy (kWh)
+  reference: number | null;
+  override_factors: OverrideFactor[];
+  line_items: number[];
+}
+
+// Stored request of one company for access to another company's product
+export interface FakeSharingRequest {
+  id: number;
+  product: number;
+  requester: number;
+  status: "Pending" | "Accepted" | "Rejected";
+  created_at: string;
+}
+
+// Stored audit log entry, scoped to a company and optionally a product
+export interface FakeLogItem extends LogItem {
+  company: number;
+  product: number | null;
+}
+
+// Stored resumable upload session with the chunks received so far
+export interface FakeUpload {
+  id: number;
+  company: number;
+  filename: string;
+  size: number;
+  offset: number;
+  parts: Blob[];
+}
+
+// Stored background import job, rows are imported a batch at a time when it is polled
+export interface FakeImportJob {
+  id: number;
+  company: number;
+  status: "processing" | "completed" | "failed";
+  rows: Record<string, string>[];
+  processed: number;
+  result: unknown[];
+  errors: { attr: string; detail: string }[];
+}
+
+// Signed-in device, one per refresh token
+// Tokens carry the session ID, so revoking the session invalidates them
+export interface FakeSession {
+  id: string; // Random, since tokens outlive the in-memory data when the page reloads
+  user: number;
+  user_agent: string;
+  ip_address: string;
+  created_at: string;
+  last_used_at: string;
+}
+
+// Personal API token for scripted access, used as bearer token instead of a JWT
+export interface FakeApiToken {
+  id: number;
+  user: number;
+  name: string;
+  key: string; // Full token, the backend only keeps a hash of it
+  access: "read" | "read_write";
+  companies: number[]; // Companies the token may access
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+}
+
+// Pending invitation to join a company, removed once accepted or revoked
+export interface FakeInvitation {
+  id: number;
+  company: number;
+  email: string;
+  role: CompanyRole; // Role the invited person gets on accepting
+  key: string; // Secret in the invitation link, replaced when the email is resent
+  invited_by: number;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Complete state of the fake backend
+ * All collections are plain arrays so tests can inspect and modify them directly
+ */
+export interface FakeDatabase {
+  users: FakeUser[];
+  companies: FakeCompany[];
+  products: FakeProduct[];
+  lineItems: FakeLineItem[];
+  emissions: FakeEmission[];
+  references: Record<EmissionKind, EmissionReference[]>;
+  sharingRequests: FakeSharingRequest[];
+  auditLogs: FakeLogItem[];
+  uploads: FakeUpload[];
+  importJobs: FakeImportJob[];
+  sessions: FakeSession[];
+  revokedSessions: string[]; // IDs of ended sessions, whose tokens are rejected
+  apiTokens: FakeApiToken[];
+  invitations: FakeInvitation[];
+  nextId: number; // Next ID handed out for any newly created record
+}
+
+// Credentials of the seeded demo account
+export const DEMO_CREDENTIALS = {
+  username: "demo@carboninsight.test",
+  password: "demo1234",
+};
+
+// Lifecycle stages offered by the OPTIONS responses, mirroring the backend's choices
+export const LIFECYCLE_STAGE_CHOICES = [
+  ["A1", "A1 - Raw material supply"],
+  ["A2", "A2 - Transport to manufacturer"],
+  ["A3", "A3 - Manufacturing"],
+  ["A4", "A4 - Transport to construction site"],
+  ["A5", "A5 - Installation process"],
+  ["A1-A3", "A1-A3 - Product stage"],
+  ["A4-A5", "A4-A5 - Construction stage"],
+  ["B1", "B1 - Use"],
+  ["B2", "B2 - Maintenance"],
+  ["B3", "B3 - Repair"],
+  ["B4", "B4 - Replacement"],
+  ["B5", "B5 - Refurbishment"],
+  ["B6", "B6 - Operational energy use"],
+  ["B7", "B7 - Operational water use"],
+  ["B1-B7", "B1-B7 - Use stage"],
+  ["C1", "C1 - Deconstruction/demolition"],
+  ["C2", "C2 - Transport to waste processing"],
+  ["C3", "C3 - Waste processing"],
+  ["C4", "C4 - Disposal"],
+  ["C1-C4", "C1-C4 - End-of-life stage"],
+  ["C2-C4", "C2-C4 - End-of-life excluding deconstruction"],
+  ["D", "D - Benefits beyond system boundary"],
+  ["Other", "Other"],
+].map(([value, display_name]) => ({ value, display_name }));
+
+// Dropdown choices of the product form, served through OPTIONS /products/
+export const PRODUCT_FIELD_CHOICES: Record<string, string[]> = {
+  manufacturer_country: ["NL", "BE", "DE", "FR", "GB", "US", "CN"],
+  reference_impact_unit: ["g", "kg", "t", "ml", "l", "m3", "m2", "pc", "kWh", "MJ", "Other"],
+  pcf_calculation_method: ["ISO 14040/14044", "ISO 14067", "GHG Protocol", "PEF", "Other"],
+};
+
+/**
+ * Defaults of new products in a new company, the values the product form used to start from
+ * @returns Defaults without manufacturer site or emission references
+ */
+export function initialProductDefaults(): ProductDefaults {
+  return {
+    pcf_calculation_method: "ISO 14040/14044",
+    reference_impact_unit: "",
+    is_public: false,
+    manufacturer_site: null,
+    production_energy_reference: null,
+    user_energy_reference: null,
+    transport_reference: null,
+  };
+}
+
+/**
+ * Create a fresh copy of the seed data
+ * Every backend instance gets its own copy, so mutations never leak between instances
+ * @returns Database populated with the demo supply chain
+ */
+export function createSeedData(): FakeDatabase {
+  return {
+    users: [
+      {
+        id: 1,
+        username: DEMO_CREDENTIALS.username,
+        email: DEMO_CREDENTIALS.username,
+        first_name: "Demo",
+        last_name: "User",
+        password: DEMO_CREDENTIALS.password,
+        email_verified: true,
+      },
+      {
+        id: 2,
+        username: "supplier@carboninsight.test",
+        email: "supplier@carboninsight.test",
+        first_name: "Sam",
+        last_name: "Supplier",
+        password: "supplier1234",
+        email_verified: true,
+      },
+    ],
+    companies: [
+      {
+        id: 1,
+        name: "Brainport Devices B.V.",
+        vat_number: "NL123456782B01",
+        business_registration_number: "12345678",
+        address_street: "High Tech Campus 1",
+        address_zip_code: "5656 AE",
+        address_city: "Eindhoven",
+        address_country: "NL",
+        nace_code: "C26.1",
+        website: "https://brainport-devices.example",
+        contact_name: "Demo User",
+        contact_email: DEMO_CREDENTIALS.username,
+        logo: null,
+        sites: [
+          {
+            id: 1,
+            name: "Eindhoven campus",
+            street: "High Tech Campus 1",
+            zip_code: "5656 AE",
+            city: "Eindhoven",
+            country: "NL",
+          },
+          {
+            id: 2,
+            name: "Aachen assembly",
+            street: "Jülicher Straße 209",
+            zip_code: "52070",
+            city: "Aachen",
+            country: "DE",
+          },
+        ],
+        product_defaults: {
+          ...initialProductDefaults(),
+          reference_impact_unit: "pc",
+          manufacturer_site: 1,
+          production_energy_reference: 3,
+          transport_reference: 1,
+        },
+        members: [1],
+        roles: { 1: "owner" },
+      },
+      {
+        id: 2,
+        name: "Eindhoven Metals B.V.",
+        vat_number: "NL987654329B01",
+        business_registration_number: "87654321",
+        address_street: "Hurksestraat 20",
+        address_zip_code: "5652 AJ",
+        address_city: "Eindhoven",
+        address_country: "NL",
+        nace_code: "C25.6",
+        website: "",
+        contact_name: "Sam Supplier",
+        contact_email: "supplier@carboninsight.test",
+        logo: null,
+        sites: [
+          {
+            id: 3,
+            name: "Kanaaldijk foundry",
+            street: "Kanaaldijk 12",
+            zip_code: "5611 AA",
+            city: "Eindhoven",
+            country: "NL",
+          },
+        ],
+        product_defaults: initialProductDefaults(),
+        members: [2],
+        roles: { 2: "owner" },
+      },
+    ],
+    products: [
+      {
+        id: 1,
+        company: 1,
+        name: "Smart Thermostat",
+        description: "Wall-mounted thermostat with wireless connectivity",
+        manufacturer_name: "Brainport Devices B.V.",
+        manufacturer_country: "NL",
+        manufacturer_city: "Eindhoven",
+        manufacturer_street: "High Tech Campus 1",
+        manufacturer_zip_code: "5656 AE",
+        year_of_construction: 2024,
+        family: "Climate control",
+        sku: "BD-THERM-01",
+        reference_impact_unit: "pc",
+        pcf_calculation_method: "ISO 14040/14044",
+        is_public: true,
+        override_factors: [],
+      },
+      {
+        id: 2,
+        company: 1,
+        name: "Controller PCB",
+        description: "Populated printed circuit board for the thermostat",
+        manufacturer_name: "Brainport Devices B.V.",
+        manufacturer_country: "NL",
+        manufacturer_city: "Eindhoven",
+        manufacturer_street: "High Tech Campus 1",
+        manufacturer_zip_code: "5656 AE",
+        year_of_construction: 2024,
+        family: "Electronics",
+        sku: "BD-PCB-07",
+        reference_impact_unit: "pc",
+        pcf_calculation_method: "ISO 14040/14044",
+        is_public: false,
+        override_factors: [
+          {
+            id: 1,
+            lifecycle_stage: "A1-A3",
+            co_2_emission_factor_biogenic: 0.05,
+            co_2_emission_factor_non_biogenic: 2.4,
+          },
+        ],
+      },
+      {
+        id: 3,
+        company: 2,
+        name: "Aluminium Housing",
+        description: "Die-cast aluminium enclosure",
+        manufacturer_name: "Eindhoven Metals B.V.",
+        manufacturer_country: "NL",
+        manufacturer_city: "Eindhoven",
+        manufacturer_street: "Kanaaldijk 12",
+        manufacturer_zip_code: "5611 AA",
+        year_of_construction: 2023,
+        family: "Enclosures",
+        sku: "EM-HOUS-22",
+        reference_impact_unit: "pc",
+        pcf_calculation_method: "ISO 14067",
+        is_public: true,
+        override_factors: [
+          {
+            id: 2,
+            lifecycle_stage: "A1-A3",
+            co_2_emission_factor_biogenic: 0,
+            co_2_emission_factor_non_biogenic: 3.1,
+          },
+        ],
+      },
+    ],
+    lineItems: [
+      { id: 1, parent_product: 1, line_item_product: 2, quantity: 1 },
+      { id: 2, parent_product: 1, line_item_product: 3, quantity: 1 },
+    ],
+    emissions: [
+      {
+        id: 1,
+        kind: "transport",
+        product: 1,
+        distance: 250,
+        weight: 1.2,
+        reference: 1,
+        override_factors: [],
+        line_items: [2],
+      },
+      {
+        id: 2,
+        kind: "production_energy",
+        product: 1,
+        energy_consumption: 3.5,
+        reference: 3,
+        override_factors: [],
+        line_items: [],
+      },
+      {
+        id: 3,
+        kind: "user_energy",
+        product: 1,
+        energy_consumption: 45,
+        reference: 5,
+        override_factors: [],
+        line_items: [],
+      },
+    ],
+    references: {
+      transport: [
+        {
+          id: 1,
+          name: "Truck, 16-32 t, EURO 6 (per tonne-km)",
+          emission_factors: [
+            {
+              lifecycle_stage: "A2",
+              co_2_emission_factor_biogenic: 0.002,
+              co_2_emission_factor_non_biogenic: 0.17,
+            },
+          ],
+        },
+        {
+          id: 2,
+          name: "Container ship, transoceanic (per tonne-km)",
+          emission_factors: [
+            {
+              lifecycle_stage: "A2",
+              co_2_emission_factor_biogenic: 0,
+              co_2_emission_factor_non_biogenic: 0.012,
+            },
+          ],
+        },
+      ],
+      production_energy: [
+        {
+          id: 3,
+          name: "Electricity, Dutch grid mix (per kWh)",
+          emission_factors: [
+            {
+              lifecycle_stage: "A3",
+              co_2_emission_factor_biogenic: 0.01,
+              co_2_emission_factor_non_biogenic: 0.33,
+            },
+          ],
+        },
+        {
+          id: 4,
+          name: "Natural gas, industrial boiler (per kWh)",
+          emission_factors: [
+            {
+              lifecycle_stage: "A3",
+              co_2_emission_factor_biogenic: 0,
+              co_2_emission_factor_non_biogenic: 0.2,
+            },
+          ],
+        },
+      ],
+      user_energy: [
+        {
+          id: 5,
+          name: "Electricity, EU-27 mix (per kWh)",
+          emission_factors: [
+            {
+              lifecycle_stage: "B6",
+              co_2_emission_factor_biogenic: 0.01,
+              co_2_emission_factor_non_biogenic: 0.25,
+            },
+          ],
+        },
+      ],
+    },
+    sharingRequests: [
+      {
+        id: 1,
+        product: 3,
+        requester: 1,
+        status: "Accepted",
+        created_at: "2025-01-15T09:30:00Z",
+      },
+      {
+        id: 2,
+        product: 2,
+        requester: 2,
+        status: "Pending",
+        created_at: "2025-02-03T14:10:00Z",
+      },
+    ],
+    auditLogs: [
+      {
+        id: 1,
+        company: 1,
+        product: 1,
+        timestamp: "2025-01-14T12:00:00Z",
+        actor_username: DEMO_CREDENTIALS.username,
+        content_type_app_label: "core",
+        content_type_model: "product",
+        object_pk: "1",
+        action: 0,
+        changes: JSON.stringify({ name: [null, "Smart Thermostat"] }),
+      },
+    ],
+    uploads: [],
+    importJobs: [],
+    sessions: [
+      {
+        // A second device of the demo user, so the sessions list has something to revoke
+        id: "demo-phone-session",
+        user: 1,
+        user_agent:
+          "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+        ip_address: "192.0.2.24",
+        created_at: "2025-02-10T08:15:00Z",
+        last_used_at: "2025-02-14T19:42:00Z",
+      },
+    ],
+    revokedSessions: [],
+    apiTokens: [],
+    invitations: [],
+    nextId: 100,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * In-memory fake of the CarbonInsight backend
+ * Serves the full API from seeded fixture data so the frontend can be developed
+ * and demonstrated offline. Enable it with NEXT_PUBLIC_FAKE_BACKEND=true.
+ */
+
+import { TOKEN_ENDPOINTS } from "@/lib/api/session";
+import { createSeedData, FakeDatabase } from "./fixtures";
+import { authenticate, checkApiTokenScope, FakeHttpError, json, matchRoute } from "./routes";
+
+export { FAKE_BACKEND_ENABLED } from "./config";
+export { DEMO_CREDENTIALS, createSeedData } from "./fixtures";
+export type { FakeDatabase } from "./fixtures";
+
+/**
+ * Interface for options accepted by createFakeBackend
+ */
+export interface FakeBackendOptions {
+  seed?: FakeDatabase; // Initial state, a fresh copy of the demo data by default
+  latency?: number; // Artificial delay in milliseconds before every response
+}
+
+/**
+ * Interface for a fake backend instance
+ */
+export interface FakeBackend {
+  db: FakeDatabase; // Current state, can be inspected and modified directly
+  handle: (request: Request, baseUrl: string) => Promise<Response>; // Serve a single request
+}
+
+/**
+ * Wait for the given time, rejecting like fetch does when the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Read the body of a request as JSON or multipart form data
+ * @returns JSON body (empty object if absent) and form data (null if not multipart)
+ */
+async function readBody(
+  request: Request
+): Promise<{ body: Record<string, unknown>; form: FormData | null }> {
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (contentType.includes("multipart/form-data")) {
+    return { body: {}, form: await request.formData() };
+  }
+
+  const text = await request.text();
+  if (!text) return { body: {}, form: null };
+  try {
+    return { body: JSON.parse(text), form: null };
+  } catch {
+    throw new FakeHttpError(400, { detail: "JSON parse error." });
+  }
+}
+
+/**
+ * Create a fake backend instance with its own state
+ * @param options - Seed data and artificial latency
+ * @returns Fake backend serving requests from memory
+ */
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const { seed = createSeedData(), latency = 0 } = options;
+
+  const backend: FakeBackend = {
+    db: seed,
+    handle: async (request, baseUrl) => {
+      if (latency > 0) await delay(latency, request.signal);
+
+      const url = new URL(request.url);
+      const relative = url.href.slice(baseUrl.length).split("?")[0];
+      const path = `/${relative}/`.replace(/\/{2,}/g, "/");
+
+      try {
+        const match = matchRoute(request.method, path);
+        if (!match) {
+          throw new FakeHttpError(404, { detail: "Not found." });
+        }
+
+        const auth = authenticate(backend.db, request.headers.get("Authorization"));
+        if (!match.route.isPublic && !auth) {
+          throw new FakeHttpError(401, {
+            detail: "Given token not valid for any token type",
+            code: "token_not_valid",
+          });
+        }
+        if (auth?.apiToken) {
+          checkApiTokenScope(auth.apiToken, request.method, path, match.params);
+        }
+
+        const { body, form } = await readBody(request);
+        return await match.route.handler({
+          db: backend.db,
+          method: request.method,
+          params: match.params,
+          query: url.searchParams,
+          body,
+          form,
+          user: auth?.user ?? null,
+          session: auth?.session ?? null,
+        });
+      } catch (error) {
+        if (error instanceof FakeHttpError) {
+          return json(error.body, error.status);
+        }
+        console.error("Fake backend failed to handle request:", error);
+        return json({ detail: "A server error occurred." }, 500);
+      }
+    },
+  };
+
+  return backend;
+}
+
+/**
+ * Interface for options accepted by installFakeBackend
+ */
+export interface InstallFakeBackendOptions extends FakeBackendOptions {
+  cookieSession?: boolean; // Keep the tokens away from the app like the session route handler
+}
+
+// Storage key of the tokens kept in place of the session route handler's cookies
+const SESSION_COOKIES_KEY = "fake_backend_session";
+
+/**
+ * Serve a request the way the session route handler proxies it in cookie mode
+ * The tokens are stored by the fake backend instead of in httpOnly cookies, so the app
+ * never sees them and requests are authenticated without an Authorization header
+ */
+async function handleCookieSession(
+  backend: FakeBackend,
+  request: Request,
+  baseUrl: string
+): Promise<Response> {
+  const endpoint = request.url.slice(baseUrl.length).split("?")[0];
+  const stored: { access?: string; refresh?: string } = JSON.parse(
+    localStorage.getItem(SESSION_COOKIES_KEY) ?? "{}"
+  );
+
+  // The cookies are cleared even if the backend could not end the session
+  if (endpoint === "/logout/") {
+    localStorage.removeItem(SESSION_COOKIES_KEY);
+    if (stored.refresh) {
+      await backend.handle(
+        new Request(request, {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refresh: stored.refresh }),
+        }),
+        baseUrl
+      );
+    }
+    return new Response(null, { status: 204 });
+  }
+
+  const headers = new Headers(request.headers);
+  let forwarded: Request;
+  if (endpoint === "/token/refresh/") {
+    // The app does not know the refresh token, it is taken from the stored cookies
+    if (!stored.refresh) {
+      localStorage.removeItem(SESSION_COOKIES_KEY);
+      return json({ detail: "No session." }, 401);
+    }
+    headers.set("Content-Type", "application/json");
+    forwarded = new Request(request, {
+      headers,
+      body: JSON.stringify({ refresh: stored.refresh }),
+    });
+  } else {
+    if (stored.access) headers.set("Authorization", `Bearer ${stored.access}`);
+    forwarded = new Request(request, { headers });
+  }
+
+  const response = await backend.handle(forwarded, baseUrl);
+  // A rejected refresh token ends the session
+  if (endpoint === "/token/refresh/" && response.status === 401) {
+    localStorage.removeItem(SESSION_COOKIES_KEY);
+  }
+  if (
+    !response.ok ||
+    !TOKEN_ENDPOINTS.includes(endpoint) ||
+    !response.headers.get("Content-Type")?.includes("application/json")
+  ) {
+    return response;
+  }
+
+  // Token responses are JSON objects, their tokens never reach the app
+  const data = await response.json();
+  if (typeof data !== "object" || data === null || Array.isArray(data) || !("access" in data)) {
+    return json(data, response.status);
+  }
+  const { access, refresh, ...rest } = data;
+  localStorage.setItem(
+    SESSION_COOKIES_KEY,
+    JSON.stringify({ access: access ?? stored.access, refresh: refresh ?? stored.refresh })
+  );
+  return json(rest, response.status);
+}
+
+/**
+ * Route all fetch calls to the given base URL through a fake backend
+ * Other requests, e.g. to static assets, still reach the network
+ *
+ * @param baseUrl - API base URL whose requests are answered by the fake backend, may be
+ * relative to the current page like the session route handler's path
+ * @param options - Seed data, artificial latency and whether sessions are kept in cookies
+ * @returns Function restoring the original fetch
+ */
+export function installFakeBackend(
+  baseUrl: string,
+  options: InstallFakeBackendOptions = {}
+): () => void {
+  const { cookieSession = false, ...backendOptions } = options;
+  const backend = createFakeBackend(backendOptions);
+  const originalFetch = globalThis.fetch;
+  // Request URLs are always absolute, so a relative base URL is resolved first
+  const absoluteBaseUrl = new URL(baseUrl, globalThis.location?.href).href;
+
+  globalThis.fetch = (input, init) => {
+    const request = new Request(input, init);
+    if (!request.url.startsWith(absoluteBaseUrl)) {
+      return originalFetch(input, init);
+    }
+    return cookieSession
+      ? handleCookieSession(backend, request, absoluteBaseUrl)
+      : backend.handle(request, absoluteBaseUrl);
+  };
+
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
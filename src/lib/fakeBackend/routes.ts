@@ -0,0 +1,2378 @@
+/**
+ * Route handlers of the fake backend
+ * Implements every endpoint called by the lib/api modules and the remaining
+ * direct fetch calls, with the response and error shapes of the Django backend
+ */
+
+import type { CompanyProfile, ProductDefaults } from "@/lib/api/companyApi";
+import { discoverOidcProvider, OIDC_CLIENT_ID, SSO_ENABLED } from "@/lib/api/oidc";
+import type { OverrideFactor } from "@/lib/api/productionEmissionApi";
+import {
+  canManageMember,
+  COMPANY_ROLES,
+  CompanyAction,
+  CompanyRole,
+  hasCompanyPermission,
+} from "@/lib/companyPermissions";
+import { buildProductTrace, productEmissionTotals } from "./emissions";
+import { generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import {
+  EMISSION_KINDS,
+  EmissionKind,
+  FakeApiToken,
+  FakeCompany,
+  FakeDatabase,
+  FakeEmission,
+  FakeImportJob,
+  FakeInvitation,
+  FakeLineItem,
+  FakeLogItem,
+  FakeProduct,
+  FakeSession,
+  FakeUser,
+  initialProductDefaults,
+  LIFECYCLE_STAGE_CHOICES,
+  PRODUCT_FIELD_CHOICES,
+} from "./fixtures";
+
+type Body = Record<string, unknown>;
+
+/**
+ * Interface for the request details passed to every route handler
+ */
+export interface RouteContext {
+  db: FakeDatabase;
+  method: string;
+  params: Record<string, string>; // Path parameters, named after the route's placeholders
+  query: URLSearchParams;
+  body: Body; // Parsed JSON body, empty for other content types
+  form: FormData | null; // Parsed multipart body for file uploads
+  user: FakeUser | null; // Authenticated user, null for public routes
+  session: FakeSession | null; // Session of the access token, null for public routes and API tokens
+}
+
+type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  isPublic: boolean; // Whether the route can be called without an access token
+}
+
+/**
+ * Error thrown by route handlers to produce an error response
+ * Carries the status code and the JSON body the backend would send
+ */
+export class FakeHttpError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(`Fake backend responded with ${status}`);
+    this.name = "FakeHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// ── Response helpers ─────────────────────────────────────────────
+
+export const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const noContent = () => new Response(null, { status: 204 });
+
+const file = (content: string, filename: string, contentType: string) =>
+  new Response(content, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+
+const notFound = () => new FakeHttpError(404, { detail: "Not found." });
+
+const forbidden = () =>
+  new FakeHttpError(403, { detail: "You do not have permission to perform this action." });
+
+/**
+ * Create a validation error in the backend's standardized error format
+ * @param errors - Error message per field, "non_field_errors" for form-level errors
+ */
+const validationError = (errors: Record<string, string>) =>
+  new FakeHttpError(400, {
+    type: "validation_error",
+    errors: Object.entries(errors).map(([attr, detail]) => ({ code: "invalid", detail, attr })),
+  });
+
+/**
+ * Respond with a list, ordered and paginated like the backend's list endpoints
+ * Lists are only paginated when the client asks for a page size, with an opaque
+ * cursor in the link to the next page and the total count of matching items
+ * @param query - Query parameters of the request: ordering, page_size and cursor
+ * @param items - Serialized items matching the request's search
+ */
+function paginatedList(query: URLSearchParams, items: Record<string, unknown>[]): Response {
+  const ordering = query.get("ordering");
+  if (ordering) {
+    const field = ordering.replace(/^-/, "");
+    const direction = ordering.startsWith("-") ? -1 : 1;
+    items = [...items].sort((a, b) => {
+      const [x, y] = [a[field], b[field]];
+      const order =
+        typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+      return order * direction;
+    });
+  }
+
+  const pageSize = Number(query.get("page_size"));
+  if (!pageSize) return json(items);
+
+  const offset = query.has("cursor") ? Number(atob(query.get("cursor") ?? "")) || 0 : 0;
+  const hasNext = offset + pageSize < items.length;
+  const next = new URLSearchParams(query);
+  next.set("cursor", btoa(String(offset + pageSize)));
+
+  return json({
+    count: items.length,
+    next: hasNext ? `?${next.toString()}` : null,
+    previous: null,
+    results: items.slice(offset, offset + pageSize),
+  });
+}
+
+// ── Token helpers ────────────────────────────────────────────────
+
+interface TokenPayload {
+  user_id: number;
+  token_type: "access" | "refresh" | "mfa" | "reset" | "verify";
+  session_id?: string; // Session that access and refresh tokens belong to
+  exp: number;
+}
+
+// MFA tokens identify a login attempt that still needs its two-factor code,
+// reset and verify tokens are sent in password reset and email verification links
+const TOKEN_LIFETIMES_S: Record<TokenPayload["token_type"], number> = {
+  access: 15 * 60,
+  refresh: 24 * 60 * 60,
+  mfa: 5 * 60,
+  reset: 60 * 60,
+  verify: 3 * 24 * 60 * 60,
+};
+
+const encodeBase64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/**
+ * Issue an unsigned JWT that the client can decode like a real one
+ * Tokens only reference the user and session, so they stay valid when the page reloads
+ */
+function issueToken(
+  userId: number,
+  tokenType: TokenPayload["token_type"],
+  sessionId?: string
+): string {
+  const lifetime = TOKEN_LIFETIMES_S[tokenType];
+  const payload: TokenPayload = {
+    user_id: userId,
+    token_type: tokenType,
+    session_id: sessionId,
+    exp: Math.floor(Date.now() / 1000) + lifetime,
+  };
+  const header = encodeBase64Url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  return `${header}.${encodeBase64Url(JSON.stringify(payload))}.fake`;
+}
+
+/**
+ * Decode a token issued by issueToken
+ * @returns Payload, or null if the token is malformed, expired or of another type
+ */
+function readToken(token: string, tokenType: TokenPayload["token_type"]): TokenPayload | null {
+  try {
+    const base64 = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const payload = JSON.parse(atob(base64)) as TokenPayload;
+    if (payload.token_type !== tokenType || payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start a session for a user who just signed in
+ * @returns Access and refresh token of the new session
+ */
+function issueTokens(db: FakeDatabase, userId: number) {
+  const now = new Date().toISOString();
+  const session: FakeSession = {
+    id: crypto.randomUUID(),
+    user: userId,
+    // The fake backend runs in the browser it serves
+    user_agent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+    ip_address: "127.0.0.1",
+    created_at: now,
+    last_used_at: now,
+  };
+  db.sessions.push(session);
+  return {
+    access: issueToken(userId, "access", session.id),
+    refresh: issueToken(userId, "refresh", session.id),
+  };
+}
+
+/**
+ * Look up the session of a token and record that it was used
+ * Sessions of tokens issued before the page reloaded are restored, only revoked ones stay ended
+ * @returns Session, or null if it was revoked
+ */
+function touchSession(db: FakeDatabase, payload: TokenPayload): FakeSession | null {
+  const id = payload.session_id ?? `user-${payload.user_id}`;
+  if (db.revokedSessions.includes(id)) return null;
+
+  const now = new Date().toISOString();
+  let session = db.sessions.find(s => s.id === id);
+  if (!session) {
+    session = {
+      id,
+      user: payload.user_id,
+      user_agent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+      ip_address: "127.0.0.1",
+      created_at: now,
+      last_used_at: now,
+    };
+    db.sessions.push(session);
+  }
+  session.last_used_at = now;
+  return session;
+}
+
+// End a session, its tokens are rejected from now on
+function revokeSession(db: FakeDatabase, session: FakeSession): void {
+  db.revokedSessions.push(session.id);
+  db.sessions = db.sessions.filter(s => s.id !== session.id);
+}
+
+// There is no mail server, so the link the verification email would contain is logged instead
+function sendVerificationEmail(user: FakeUser): void {
+  const params = new URLSearchParams({ key: issueToken(user.id, "verify") });
+  console.info(`[fake backend] Email verification link for ${user.email}: /verify-email/?${params}`);
+}
+
+// Random secret for API tokens and invitation links, as hex characters
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+
+// How long an invitation link can be used, resending it starts over
+const INVITATION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Like verification emails, invitations are logged instead of sent
+function sendInvitationEmail(db: FakeDatabase, invitation: FakeInvitation): void {
+  const company = db.companies.find(c => c.id === invitation.company);
+  const params = new URLSearchParams({ key: invitation.key });
+  console.info(
+    `[fake backend] Invitation to ${company?.name} for ${invitation.email}: /accept-invite/?${params}`
+  );
+}
+
+// Prefix of personal API tokens, tells them apart from JWT access tokens
+const API_TOKEN_PREFIX = "ci_";
+
+// Longest validity of a personal API token
+const API_TOKEN_MAX_LIFETIME_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Interface for the credentials a request was authenticated with
+ * Requests with a personal API token have no session
+ */
+interface Authentication {
+  user: FakeUser;
+  session: FakeSession | null;
+  apiToken: FakeApiToken | null;
+}
+
+/**
+ * Resolve the user and session of a request from its Authorization header
+ * The bearer token is either a JWT access token or a personal API token
+ * @returns Authenticated user and session, or null if the header is missing, invalid,
+ * expired or belongs to a revoked session
+ */
+export function authenticate(
+  db: FakeDatabase,
+  authorization: string | null
+): Authentication | null {
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  if (token?.startsWith(API_TOKEN_PREFIX)) {
+    const apiToken = db.apiTokens.find(t => t.key === token);
+    const user = apiToken && db.users.find(u => u.id === apiToken.user);
+    if (!apiToken || !user || new Date(apiToken.expires_at).getTime() <= Date.now()) return null;
+    apiToken.last_used_at = new Date().toISOString();
+    return { user, session: null, apiToken };
+  }
+
+  const payload = token ? readToken(token, "access") : null;
+  const user = payload && db.users.find(u => u.id === payload.user_id);
+  const session = user ? touchSession(db, payload) : null;
+  return user && session ? { user, session, apiToken: null } : null;
+}
+
+/**
+ * Check that a request made with a personal API token stays within the token's scope
+ * Tokens reach company and reference data only, so they cannot manage the account
+ * @param apiToken - Token the request was authenticated with
+ * @param method - HTTP method of the request
+ * @param path - Matched path of the request
+ * @param params - Path parameters of the matched route
+ * @throws FakeHttpError 403 if the token does not cover the request
+ */
+export function checkApiTokenScope(
+  apiToken: FakeApiToken,
+  method: string,
+  path: string,
+  params: Record<string, string>
+): void {
+  const deny = (detail: string) => new FakeHttpError(403, { detail, code: "api_token_scope" });
+
+  if (!path.startsWith("/companies/") && !path.startsWith("/reference/")) {
+    throw deny("API tokens cannot be used for this endpoint.");
+  }
+  if (apiToken.access === "read" && !["GET", "HEAD", "OPTIONS"].includes(method)) {
+    throw deny("This API token is read-only.");
+  }
+  if (params.companyId && !apiToken.companies.includes(Number(params.companyId))) {
+    throw deny("This API token does not grant access to this company.");
+  }
+}
+
+// ── Body readers ─────────────────────────────────────────────────
+
+const readString = (body: Body, key: string, fallback = "") =>
+  typeof body[key] === "string" ? (body[key] as string) : fallback;
+
+const readNumber = (body: Body, key: string, fallback = 0) => {
+  const value = typeof body[key] === "string" ? Number(body[key]) : body[key];
+  return typeof value === "number" && !isNaN(value) ? value : fallback;
+};
+
+/**
+ * Check that all listed fields are present and not blank
+ * @throws FakeHttpError with a validation error for every missing field
+ */
+function requireFields(body: Body, fields: string[]): void {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const value = body[field];
+    if (value === undefined || value === null || (typeof value === "string" && !value.trim())) {
+      errors[field] = "This field is required.";
+    }
+  });
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+}
+
+// Assign IDs to override factors so the client can tell them apart
+const withFactorIds = (db: FakeDatabase, factors: unknown): OverrideFactor[] =>
+  Array.isArray(factors)
+    ? (factors as OverrideFactor[]).map(factor => ({ ...factor, id: factor.id ?? db.nextId++ }))
+    : [];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// NACE Rev. 2 codes: a section letter, optionally followed by division, group and class
+const NACE_CODE_PATTERN = /^[A-U](\d{2}(\.\d{1,2})?)?$/;
+
+// Company addresses and sites use the countries manufacturers of products can be in
+const COUNTRY_CHOICES = PRODUCT_FIELD_CHOICES.manufacturer_country;
+
+const PROFILE_TEXT_FIELDS = [
+  "address_street",
+  "address_zip_code",
+  "address_city",
+  "address_country",
+  "nace_code",
+  "website",
+  "contact_name",
+  "contact_email",
+] as const;
+
+const SITE_FIELDS = ["name", "street", "zip_code", "city", "country"] as const;
+
+/**
+ * Read the profile fields of a company from the request body
+ * Fields missing from the body keep their current value, sites are replaced as a whole
+ * @param current - Company being updated, omitted when creating one
+ * @throws FakeHttpError with a validation error per invalid field, e.g. "sites.0.city"
+ */
+function readCompanyProfile(
+  db: FakeDatabase,
+  body: Body,
+  current?: FakeCompany
+): Pick<FakeCompany, keyof CompanyProfile> {
+  const errors: Record<string, string> = {};
+  const profile = Object.fromEntries(
+    PROFILE_TEXT_FIELDS.map(field => [field, readString(body, field, current?.[field]).trim()])
+  ) as Record<(typeof PROFILE_TEXT_FIELDS)[number], string>;
+
+  profile.nace_code = profile.nace_code.toUpperCase();
+  if (profile.address_country && !COUNTRY_CHOICES.includes(profile.address_country)) {
+    errors.address_country = `"${profile.address_country}" is not a valid choice.`;
+  }
+  if (profile.nace_code && !NACE_CODE_PATTERN.test(profile.nace_code)) {
+    errors.nace_code = "Enter a NACE code such as C26.1.";
+  }
+  if (profile.website && !/^https?:\/\/[^\s/]+\.[^\s]+$/i.test(profile.website)) {
+    errors.website = "Enter a valid URL.";
+  }
+  if (profile.contact_email && !EMAIL_PATTERN.test(profile.contact_email)) {
+    errors.contact_email = "Enter a valid email address.";
+  }
+
+  let sites = current?.sites ?? [];
+  if (body.sites !== undefined) {
+    if (!Array.isArray(body.sites)) {
+      errors.sites = "Expected a list of sites.";
+    } else {
+      sites = body.sites.map((item: unknown, index) => {
+        const site = (typeof item === "object" && item !== null ? item : {}) as Body;
+        const values = Object.fromEntries(
+          SITE_FIELDS.map(field => [field, readString(site, field).trim()])
+        ) as Record<(typeof SITE_FIELDS)[number], string>;
+        SITE_FIELDS.filter(field => !values[field]).forEach(field => {
+          errors[`sites.${index}.${field}`] = "This field may not be blank.";
+        });
+        if (values.country && !COUNTRY_CHOICES.includes(values.country)) {
+          errors[`sites.${index}.country`] = `"${values.country}" is not a valid choice.`;
+        }
+        // Edited sites keep their ID, new ones get one
+        const existing = current?.sites.find(s => s.id === Number(site.id));
+        return { id: existing?.id ?? db.nextId++, ...values };
+      });
+    }
+  }
+
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+  return { ...profile, sites };
+}
+
+/**
+ * Read the product defaults of a company from the request body
+ * Fields missing from the body keep their current value, blank choices are allowed
+ * @throws FakeHttpError with a validation error per invalid field
+ */
+function readProductDefaults(db: FakeDatabase, body: Body, company: FakeCompany): ProductDefaults {
+  const current = company.product_defaults;
+  const errors: Record<string, string> = {};
+  const readId = (field: keyof ProductDefaults, exists: (id: number) => boolean) => {
+    if (body[field] === undefined) return current[field] as number | null;
+    if (body[field] === null || body[field] === "") return null;
+    const id = readNumber(body, field, NaN);
+    if (!exists(id)) errors[field] = `Invalid pk "${String(body[field])}" - object does not exist.`;
+    return id;
+  };
+  const readReference = (kind: EmissionKind) =>
+    readId(`${kind}_reference` as keyof ProductDefaults, id =>
+      db.references[kind].some(ref => ref.id === id)
+    );
+
+  const defaults: ProductDefaults = {
+    pcf_calculation_method: readString(
+      body,
+      "pcf_calculation_method",
+      current.pcf_calculation_method
+    ),
+    reference_impact_unit: readString(body, "reference_impact_unit", current.reference_impact_unit),
+    is_public: typeof body.is_public === "boolean" ? body.is_public : current.is_public,
+    manufacturer_site: readId("manufacturer_site", id => company.sites.some(s => s.id === id)),
+    production_energy_reference: readReference("production_energy"),
+    user_energy_reference: readReference("user_energy"),
+    transport_reference: readReference("transport"),
+  };
+  (["pcf_calculation_method", "reference_impact_unit"] as const).forEach(field => {
+    const value = defaults[field];
+    if (value && !PRODUCT_FIELD_CHOICES[field].includes(value)) {
+      errors[field] = `"${value}" is not a valid choice.`;
+    }
+  });
+
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+  return defaults;
+}
+
+// ── Lookups and permissions ──────────────────────────────────────
+
+// Accounts that did not verify their email address yet cannot act for a company
+function requireVerifiedEmail(ctx: RouteContext): void {
+  if (!ctx.user?.email_verified) {
+    throw new FakeHttpError(403, {
+      detail: "Verify your email address to perform this action.",
+      code: "email_not_verified",
+    });
+  }
+}
+
+function findCompany(ctx: RouteContext): FakeCompany {
+  const company = ctx.db.companies.find(c => c.id === Number(ctx.params.companyId));
+  if (!company) throw notFound();
+  return company;
+}
+
+// Role of a user in a company, null if they are not a member
+const memberRole = (company: FakeCompany, userId: number): CompanyRole | null =>
+  company.members.includes(userId) ? (company.roles[userId] ?? "viewer") : null;
+
+/**
+ * Company the current user belongs to, required for every write operation
+ * Writes need permission to edit products unless the route asks for another action,
+ * and reads only need membership
+ * @param action - Action the current user's role has to allow, null for membership only
+ * @throws FakeHttpError 403 if the user is not a member or their role does not allow the action
+ */
+function findMemberCompany(
+  ctx: RouteContext,
+  action: CompanyAction | null = ["GET", "HEAD", "OPTIONS"].includes(ctx.method)
+    ? null
+    : "edit_products"
+): FakeCompany {
+  const company = findCompany(ctx);
+  const role = ctx.user ? memberRole(company, ctx.user.id) : null;
+  if (!role || (action && !hasCompanyPermission(role, action))) throw forbidden();
+  return company;
+}
+
+function findProduct(ctx: RouteContext, company: FakeCompany): FakeProduct {
+  const product = ctx.db.products.find(
+    p => p.id === Number(ctx.params.productId) && p.company === company.id
+  );
+  if (!product) throw notFound();
+  return product;
+}
+
+function findEmission(ctx: RouteContext, product: FakeProduct): FakeEmission {
+  const emission = ctx.db.emissions.find(
+    e =>
+      e.id === Number(ctx.params.emissionId) &&
+      e.product === product.id &&
+      e.kind === ctx.params.kind
+  );
+  if (!emission) throw notFound();
+  return emission;
+}
+
+function findLineItem(ctx: RouteContext, product: FakeProduct): FakeLineItem {
+  const lineItem = ctx.db.lineItems.find(
+    item => item.id === Number(ctx.params.lineItemId) && item.parent_product === product.id
+  );
+  if (!lineItem) throw notFound();
+  return lineItem;
+}
+
+/**
+ * Append an audit log entry for a change made by the current user
+ */
+function logAction(
+  ctx: RouteContext,
+  entry: Pick<FakeLogItem, "company" | "product" | "content_type_model" | "object_pk" | "action">,
+  changes: Body = {}
+): void {
+  ctx.db.auditLogs.push({
+    ...entry,
+    id: ctx.db.nextId++,
+    timestamp: new Date().toISOString(),
+    actor_username: ctx.user?.username ?? "",
+    content_type_app_label: "core",
+    changes: JSON.stringify(changes),
+  });
+}
+
+// ── Serializers ──────────────────────────────────────────────────
+
+const serializeUser = ({
+  id,
+  username,
+  email,
+  first_name,
+  last_name,
+  email_verified,
+}: FakeUser) => ({
+  id,
+  username,
+  email,
+  first_name,
+  last_name,
+  email_verified,
+});
+
+// User agent patterns by device and browser name, the first match wins
+const DEVICE_PATTERNS: [RegExp, string][] = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Macintosh|Mac OS X/, "Mac"],
+  [/Linux/, "Linux"],
+];
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const matchUserAgent = (userAgent: string, patterns: [RegExp, string][], fallback: string) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? fallback;
+
+// The key is only returned when the token is created, afterwards its prefix identifies it
+const serializeApiToken = ({ key, user: _user, ...fields }: FakeApiToken) => ({
+  ...fields,
+  prefix: key.slice(0, API_TOKEN_PREFIX.length + 6),
+});
+
+// The key is only sent in the invitation email, members of the company never see it
+const serializeInvitation = (
+  db: FakeDatabase,
+  { key: _key, company: _company, invited_by, ...fields }: FakeInvitation
+) => ({
+  ...fields,
+  invited_by: db.users.find(u => u.id === invited_by)?.email ?? null,
+});
+
+const serializeSession = (session: FakeSession, current: FakeSession | null) => ({
+  id: session.id,
+  device: matchUserAgent(session.user_agent, DEVICE_PATTERNS, "Unknown device"),
+  browser: matchUserAgent(session.user_agent, BROWSER_PATTERNS, "Unknown browser"),
+  ip_address: session.ip_address,
+  created_at: session.created_at,
+  last_used_at: session.last_used_at,
+  is_current: session.id === current?.id,
+});
+
+const serializeCompany = ({
+  members: _members,
+  roles: _roles,
+  product_defaults: _productDefaults,
+  ...fields
+}: FakeCompany) => fields;
+
+function serializeProduct(db: FakeDatabase, product: FakeProduct) {
+  const { company, ...fields } = product;
+  return {
+    ...fields,
+    ...productEmissionTotals(db, product.id),
+    supplier: company,
+    supplier_name: db.companies.find(c => c.id === company)?.name ?? "",
+  };
+}
+
+/**
+ * Serialize a BOM line item as seen by the company owning the parent product
+ * Components of other companies need an accepted sharing request unless they are public
+ */
+function serializeLineItem(db: FakeDatabase, item: FakeLineItem) {
+  const parent = db.products.find(p => p.id === item.parent_product);
+  const component = db.products.find(p => p.id === item.line_item_product) as FakeProduct;
+  const request = db.sharingRequests
+    .filter(r => r.product === component.id && r.requester === parent?.company)
+    .pop();
+  const accessible = component.company === parent?.company || component.is_public;
+  const product = serializeProduct(db, component);
+
+  return {
+    id: item.id,
+    quantity: item.quantity,
+    parent_product: item.parent_product,
+    line_item_product: {
+      id: component.id,
+      supplier: product.supplier,
+      emission_total: product.emission_total,
+      name: product.name,
+      description: product.description,
+      manufacturer_name: product.manufacturer_name,
+      supplier_name: product.supplier_name,
+      sku: product.sku,
+      is_public: product.is_public,
+      reference_impact_unit: product.reference_impact_unit,
+    },
+    calculate_emissions: [],
+    product_sharing_request_status: accessible ? "Accepted" : (request?.status ?? "Not requested"),
+  };
+}
+
+function serializeEmission(db: FakeDatabase, emission: FakeEmission) {
+  const { id, kind, distance, weight, energy_consumption, reference } = emission;
+  const amounts = kind === "transport" ? { distance, weight } : { energy_consumption };
+  return {
+    id,
+    ...amounts,
+    reference,
+    reference_details: db.references[kind].find(ref => ref.id === reference),
+    override_factors: emission.override_factors,
+    line_items: emission.line_items,
+  };
+}
+
+// OPTIONS metadata describing the lifecycle stage choices of override factors
+const overrideFactorOptions = () => ({
+  child: { children: { lifecycle_stage: { choices: LIFECYCLE_STAGE_CHOICES } } },
+});
+
+// ── CSV helpers ──────────────────────────────────────────────────
+
+/**
+ * Parse a CSV file with a header row into one record per row
+ * Supports quoted values with escaped quotes, which is all our templates need
+ */
+function parseCsv(text: string): Record<string, string>[] {
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => {
+      const cells: string[] = [];
+      let cell = "";
+      let quoted = false;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && quoted && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = !quoted;
+        } else if (char === "," && !quoted) {
+          cells.push(cell);
+          cell = "";
+        } else {
+          cell += char;
+        }
+      }
+      return [...cells, cell].map(value => value.trim());
+    });
+
+  const [header = [], ...records] = rows;
+  return records.map(cells =>
+    Object.fromEntries(header.map((column, index) => [column, cells[index] ?? ""]))
+  );
+}
+
+const toCsv = (columns: string[], rows: Record<string, unknown>[]) =>
+  [columns, ...rows.map(row => columns.map(column => row[column] ?? ""))]
+    .map(cells => cells.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+
+const PRODUCT_CSV_COLUMNS = [
+  "name",
+  "description",
+  "manufacturer_name",
+  "manufacturer_country",
+  "manufacturer_city",
+  "manufacturer_street",
+  "manufacturer_zip_code",
+  "year_of_construction",
+  "family",
+  "sku",
+  "reference_impact_unit",
+  "pcf_calculation_method",
+  "is_public",
+];
+
+const EMISSION_CSV_COLUMNS: Record<EmissionKind, string[]> = {
+  transport: ["distance", "weight", "reference"],
+  production_energy: ["energy_consumption", "reference"],
+  user_energy: ["energy_consumption", "reference"],
+};
+
+// XLSX files cannot be produced or read without a spreadsheet library
+const xlsxUnsupported = () =>
+  new FakeHttpError(501, { detail: "XLSX files are not supported by the fake backend, use CSV." });
+
+// Chunk size suggested to clients of the upload sessions
+const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+
+// Rows an import job processes per status request
+const IMPORT_JOB_BATCH_SIZE = 25;
+
+/**
+ * Read the file of an import request
+ * Accepts a multipart file or the ID of a completed upload session, which is consumed
+ * @throws FakeHttpError if no file or an incomplete upload was submitted
+ */
+function readImportFile(ctx: RouteContext): { file: Blob; name: string } {
+  if (ctx.body.upload_id !== undefined) {
+    const upload = ctx.db.uploads.find(
+      u => u.id === readNumber(ctx.body, "upload_id") && u.company === Number(ctx.params.companyId)
+    );
+    if (!upload || upload.offset < upload.size) {
+      throw validationError({ upload_id: "The upload does not exist or is incomplete." });
+    }
+    ctx.db.uploads = ctx.db.uploads.filter(u => u !== upload);
+    return { file: new Blob(upload.parts), name: upload.filename };
+  }
+
+  const upload = ctx.form?.get("file");
+  if (!(upload instanceof Blob)) {
+    throw validationError({ file: "No file was submitted." });
+  }
+  return { file: upload, name: "name" in upload ? String(upload.name) : "" };
+}
+
+/**
+ * Read the uploaded CSV file of an import request
+ * @throws FakeHttpError if no file or a non-CSV file was uploaded
+ */
+async function readUploadedCsv(ctx: RouteContext): Promise<Record<string, string>[]> {
+  const { file, name } = readImportFile(ctx);
+  if (name.toLowerCase().endsWith(".xlsx")) {
+    throw xlsxUnsupported();
+  }
+  return parseCsv(await file.text());
+}
+
+const serializeImportJob = ({ id, status, processed, rows, result, errors }: FakeImportJob) => ({
+  id: String(id),
+  status,
+  processed,
+  total: rows.length,
+  ...(status === "completed" ? { result } : {}),
+  ...(status === "failed" ? { detail: "Import failed.", errors } : {}),
+});
+
+// ── Product helpers ──────────────────────────────────────────────
+
+/**
+ * Create or update a product from request data
+ * @param existing - Product to update, omitted when creating a new product
+ */
+function writeProduct(
+  ctx: RouteContext,
+  company: FakeCompany,
+  data: Body,
+  existing?: FakeProduct
+): FakeProduct {
+  const current = existing ?? ({} as Partial<FakeProduct>);
+  const read = (key: keyof FakeProduct) => readString(data, key, (current[key] as string) ?? "");
+
+  const product: FakeProduct = {
+    id: existing?.id ?? ctx.db.nextId++,
+    company: company.id,
+    name: read("name"),
+    description: read("description"),
+    manufacturer_name: read("manufacturer_name"),
+    manufacturer_country: read("manufacturer_country"),
+    manufacturer_city: read("manufacturer_city"),
+    manufacturer_street: read("manufacturer_street"),
+    manufacturer_zip_code: read("manufacturer_zip_code"),
+    year_of_construction: readNumber(
+      data,
+      "year_of_construction",
+      current.year_of_construction ?? new Date().getFullYear()
+    ),
+    family: read("family"),
+    sku: read("sku"),
+    reference_impact_unit: read("reference_impact_unit") || "pc",
+    pcf_calculation_method: read("pcf_calculation_method") || "ISO 14040/14044",
+    is_public:
+      typeof data.is_public === "boolean"
+        ? data.is_public
+        : data.is_public === undefined
+          ? (current.is_public ?? true)
+          : String(data.is_public).toLowerCase() === "true",
+    override_factors:
+      data.override_factors !== undefined
+        ? withFactorIds(ctx.db, data.override_factors)
+        : (current.override_factors ?? []),
+  };
+
+  if (!product.name.trim()) {
+    throw validationError({ name: "This field is required." });
+  }
+  const duplicate = ctx.db.products.find(
+    p => p.company === company.id && p.sku === product.sku && p.id !== product.id
+  );
+  if (product.sku && duplicate) {
+    throw validationError({ sku: "A product with this SKU already exists in this company." });
+  }
+
+  if (existing) {
+    Object.assign(existing, product);
+  } else {
+    ctx.db.products.push(product);
+  }
+  logAction(
+    ctx,
+    {
+      company: company.id,
+      product: product.id,
+      content_type_model: "product",
+      object_pk: String(product.id),
+      action: existing ? 1 : 0,
+    },
+    data
+  );
+  return product;
+}
+
+/**
+ * Remove a product together with everything that references it
+ */
+function deleteProduct(db: FakeDatabase, productId: number): void {
+  db.products = db.products.filter(p => p.id !== productId);
+  db.lineItems = db.lineItems.filter(
+    item => item.parent_product !== productId && item.line_item_product !== productId
+  );
+  db.emissions = db.emissions.filter(e => e.product !== productId);
+  db.sharingRequests = db.sharingRequests.filter(r => r.product !== productId);
+}
+
+// Audit log model names of the emission kinds
+const EMISSION_LOG_MODELS = {
+  transport: "transportemission",
+  production_energy: "productionenergyemission",
+  user_energy: "userenergyemission",
+} as const;
+
+/**
+ * Create or update an emission record from request data
+ * @param existing - Emission to update, omitted when creating a new record
+ */
+function writeEmission(
+  ctx: RouteContext,
+  company: FakeCompany,
+  product: FakeProduct,
+  data: Body,
+  existing?: FakeEmission
+): FakeEmission {
+  const kind = ctx.params.kind as EmissionKind;
+  const amountFields = EMISSION_CSV_COLUMNS[kind].filter(field => field !== "reference");
+  if (!existing) requireFields(data, amountFields);
+
+  const reference =
+    data.reference === undefined ? (existing?.reference ?? null) : readNumber(data, "reference");
+  if (reference && !ctx.db.references[kind].some(ref => ref.id === reference)) {
+    throw validationError({ reference: `Invalid pk "${reference}" - object does not exist.` });
+  }
+
+  const lineItems = Array.isArray(data.line_items) ? (data.line_items as number[]) : undefined;
+  const emission: FakeEmission = {
+    id: existing?.id ?? ctx.db.nextId++,
+    kind,
+    product: product.id,
+    reference: reference || null,
+    override_factors:
+      data.override_factors !== undefined
+        ? withFactorIds(ctx.db, data.override_factors)
+        : (existing?.override_factors ?? []),
+    line_items: lineItems ?? existing?.line_items ?? [],
+  };
+  amountFields.forEach(field => {
+    const key = field as "distance" | "weight" | "energy_consumption";
+    emission[key] = readNumber(data, field, existing?.[key] ?? 0);
+  });
+
+  if (existing) {
+    Object.assign(existing, emission);
+  } else {
+    ctx.db.emissions.push(emission);
+  }
+  logAction(
+    ctx,
+    {
+      company: company.id,
+      product: product.id,
+      content_type_model: EMISSION_LOG_MODELS[kind],
+      object_pk: String(emission.id),
+      action: existing ? 1 : 0,
+    },
+    data
+  );
+  return emission;
+}
+
+/**
+ * Compose a short markdown advice from the largest lifecycle stages of a product
+ */
+function composeAdvice(db: FakeDatabase, product: FakeProduct, prompt: string): string {
+  const trace = buildProductTrace(db, product.id);
+  const stages = Object.entries(trace.emissions_subtotal)
+    .map(([stage, split]) => [stage, split.biogenic + split.non_biogenic] as const)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3);
+
+  if (stages.length === 0) {
+    return `**${product.name}** has no emission data yet. Add a bill of materials or emissions first, then ask again.`;
+  }
+
+  return [
+    `You asked: _${prompt}_`,
+    "",
+    `The largest contributors to the footprint of **${product.name}** are:`,
+    ...stages.map(([stage, total]) => `- **${stage}**: ${total.toFixed(2)} kg CO₂-eq`),
+    "",
+    `Focus on reducing ${stages[0][0]} first, for example by choosing suppliers with lower emission factors or renewable energy.`,
+  ].join("\n");
+}
+
+// ── Route table ──────────────────────────────────────────────────
+
+const routes: Route[] = [];
+
+/**
+ * Register a route, ":name" placeholders match numeric IDs and ":kind" an emission kind
+ */
+function route(method: string, path: string, handler: RouteHandler, isPublic = false): void {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_match, key: string) => {
+    keys.push(key);
+    if (key === "kind") return `(${EMISSION_KINDS.join("|")})`;
+    if (key === "format") return "([\\w-]+)";
+    if (key === "sessionId" || key === "key") return "([\\w-]+)"; // Random IDs and keys, not numbers
+    return "(\\d+)";
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler, isPublic });
+}
+
+// Authentication
+
+route(
+  "POST",
+  "/login/",
+  ({ db, body }) => {
+    // Accounts created through single sign-on have no password to sign in with
+    const user = db.users.find(
+      u =>
+        u.password !== "" &&
+        u.username === readString(body, "username") &&
+        u.password === readString(body, "password")
+    );
+    if (!user) {
+      throw new FakeHttpError(401, {
+        detail: "No active account found with the given credentials",
+      });
+    }
+    if (user.mfa_secret) {
+      return json({ mfa_required: true, mfa_token: issueToken(user.id, "mfa") });
+    }
+    return json(issueTokens(db, user.id));
+  },
+  true
+);
+
+route(
+  "POST",
+  "/login/mfa/",
+  async ({ db, body }) => {
+    const payload = readToken(readString(body, "mfa_token"), "mfa");
+    const user = payload && db.users.find(u => u.id === payload.user_id);
+    if (!user?.mfa_secret) {
+      throw new FakeHttpError(401, { detail: "The login attempt has expired." });
+    }
+
+    const code = readString(body, "code").trim().toLowerCase();
+    if (user.recovery_codes?.includes(code)) {
+      // Recovery codes can only be used once
+      user.recovery_codes = user.recovery_codes.filter(c => c !== code);
+    } else if (!(await verifyTotp(user.mfa_secret, code))) {
+      throw validationError({ code: "Invalid code." });
+    }
+    return json(issueTokens(db, user.id));
+  },
+  true
+);
+
+route(
+  "POST",
+  "/login/sso/",
+  async ({ db, body }) => {
+    requireFields(body, ["code", "code_verifier", "redirect_uri", "nonce"]);
+    if (!SSO_ENABLED) {
+      throw validationError({ non_field_errors: "Single sign-on is not configured." });
+    }
+
+    // The real backend is a confidential client, the fake one redeems the code like
+    // a public client, which PKCE allows without a client secret
+    const { token_endpoint } = await discoverOidcProvider();
+    const response = await fetch(token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        client_id: OIDC_CLIENT_ID,
+        code: readString(body, "code"),
+        code_verifier: readString(body, "code_verifier"),
+        redirect_uri: readString(body, "redirect_uri"),
+      }),
+    });
+    if (!response.ok) {
+      throw validationError({ code: "The identity provider rejected the authorization code." });
+    }
+
+    // The ID token's signature is not checked here, only its claims are read
+    const { id_token } = (await response.json()) as { id_token?: string };
+    let claims: Record<string, unknown> = {};
+    try {
+      const base64 = (id_token ?? "").split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+      claims = JSON.parse(atob(base64));
+    } catch {
+      throw validationError({ code: "The identity provider returned no valid ID token." });
+    }
+    if (claims.nonce !== readString(body, "nonce")) {
+      throw validationError({ nonce: "The ID token does not belong to this login." });
+    }
+    const email = readString(claims, "email").trim().toLowerCase();
+    if (!email) {
+      throw validationError({ code: "The identity provider did not share an email address." });
+    }
+
+    // Identities are matched to accounts by email, new ones get an account on first login.
+    // Only an address the provider verified may take over an existing account, otherwise
+    // anyone could sign in to it with an identity provider account claiming that address
+    const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+    let user = db.users.find(u => u.email === email);
+    if (user && !emailVerified) {
+      throw validationError({
+        code: "The identity provider has not verified this email address. Sign in with your password instead.",
+      });
+    }
+    if (!user) {
+      user = {
+        id: db.nextId++,
+        username: email,
+        email,
+        first_name: readString(claims, "given_name"),
+        last_name: readString(claims, "family_name"),
+        password: "",
+        email_verified: emailVerified, // Verified by the identity provider, if it says so
+      };
+      db.users.push(user);
+    }
+    return json(issueTokens(db, user.id));
+  },
+  true
+);
+
+route(
+  "POST",
+  "/register/",
+  ({ db, body }) => {
+    requireFields(body, ["first_name", "last_name", "email", "password", "confirm_password"]);
+    const email = readString(body, "email").trim().toLowerCase();
+    const password = readString(body, "password");
+
+    const errors: Record<string, string> = {};
+    if (db.users.some(u => u.email === email)) {
+      errors.email = "A user with this email already exists.";
+    }
+    if (password.length < 8) {
+      errors.password = "This password is too short. It must contain at least 8 characters.";
+    }
+    if (password !== readString(body, "confirm_password")) {
+      errors.confirm_password = "Passwords do not match.";
+    }
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+
+    const user: FakeUser = {
+      id: db.nextId++,
+      username: email,
+      email,
+      first_name: readString(body, "first_name"),
+      last_name: readString(body, "last_name"),
+      password,
+      email_verified: false,
+    };
+    db.users.push(user);
+    sendVerificationEmail(user);
+    return json({ user: serializeUser(user), ...issueTokens(db, user.id) }, 201);
+  },
+  true
+);
+
+route(
+  "POST",
+  "/token/refresh/",
+  ({ db, body }) => {
+    const payload = readToken(readString(body, "refresh"), "refresh");
+    if (!payload || !db.users.some(u => u.id === payload.user_id)) {
+      throw new FakeHttpError(401, {
+        detail: "Token is invalid or expired",
+        code: "token_not_valid",
+      });
+    }
+    if (!touchSession(db, payload)) {
+      throw new FakeHttpError(401, {
+        detail: "This session has been signed out.",
+        code: "session_revoked",
+      });
+    }
+    return json({ access: issueToken(payload.user_id, "access", payload.session_id) });
+  },
+  true
+);
+
+// The refresh token identifies the session to end
+route(
+  "POST",
+  "/logout/",
+  ({ db, body }) => {
+    const payload = readToken(readString(body, "refresh"), "refresh");
+    // Signing out also succeeds once the token expired, the session then ends on its own
+    const session = payload && touchSession(db, payload);
+    if (session) revokeSession(db, session);
+    return noContent();
+  },
+  true
+);
+
+route(
+  "POST",
+  "/password_reset/",
+  ({ db, body }) => {
+    requireFields(body, ["email"]);
+    const email = readString(body, "email").trim().toLowerCase();
+    const user = db.users.find(u => u.email === email);
+    if (user) {
+      // There is no mail server, so the link the email would contain is logged instead
+      const params = new URLSearchParams({
+        uid: encodeBase64Url(String(user.id)),
+        token: issueToken(user.id, "reset"),
+      });
+      console.info(`[fake backend] Password reset link: /reset-password/?${params}`);
+    }
+    // Same response for unknown addresses, so accounts cannot be discovered
+    return json({ detail: "Password reset e-mail has been sent." });
+  },
+  true
+);
+
+route(
+  "POST",
+  "/password_reset/confirm/",
+  ({ db, body }) => {
+    requireFields(body, ["uid", "token", "new_password", "new_password_confirm"]);
+    const payload = readToken(readString(body, "token"), "reset");
+    const user =
+      payload &&
+      encodeBase64Url(String(payload.user_id)) === readString(body, "uid") &&
+      db.users.find(u => u.id === payload.user_id);
+    if (!user) {
+      throw validationError({ token: "Invalid value" });
+    }
+
+    const newPassword = readString(body, "new_password");
+    if (newPassword.length < 8) {
+      throw validationError({
+        new_password: "This password is too short. It must contain at least 8 characters.",
+      });
+    }
+    if (/^\d+$/.test(newPassword)) {
+      throw validationError({ new_password: "This password is entirely numeric." });
+    }
+    if (newPassword !== readString(body, "new_password_confirm")) {
+      throw validationError({ new_password_confirm: "Passwords do not match." });
+    }
+
+    user.password = newPassword;
+    return json({ detail: "Password has been reset with the new password." });
+  },
+  true
+);
+
+route(
+  "POST",
+  "/verify_email/",
+  ({ db, body }) => {
+    requireFields(body, ["key"]);
+    const payload = readToken(readString(body, "key"), "verify");
+    const user = payload && db.users.find(u => u.id === payload.user_id);
+    if (!user) {
+      throw validationError({ key: "This verification link is invalid or has expired." });
+    }
+    // Opening the link again is harmless, it stays verified
+    user.email_verified = true;
+    return json({ detail: "Email address verified." });
+  },
+  true
+);
+
+route("POST", "/verify_email/resend/", ({ user }) => {
+  const current = user as FakeUser;
+  if (!current.email_verified) sendVerificationEmail(current);
+  return json({ detail: "Verification email sent." });
+});
+
+// User profile
+
+route("GET", "/user_profile/", ({ user }) => json(serializeUser(user as FakeUser)));
+
+route("PATCH", "/user_profile/", ({ user, body }) => {
+  const current = user as FakeUser;
+  current.first_name = readString(body, "first_name", current.first_name);
+  current.last_name = readString(body, "last_name", current.last_name);
+  const email = readString(body, "email", current.email);
+  // A new address has to be verified again
+  if (email !== current.email) {
+    current.email = email;
+    current.email_verified = false;
+    sendVerificationEmail(current);
+  }
+  return json(serializeUser(current));
+});
+
+route("DELETE", "/user_profile/", ({ db, user }) => {
+  const userId = (user as FakeUser).id;
+  db.users = db.users.filter(u => u.id !== userId);
+  db.companies.forEach(company => {
+    company.members = company.members.filter(id => id !== userId);
+    delete company.roles[userId];
+  });
+  return noContent();
+});
+
+route("POST", "/change_password/", ({ user, body }) => {
+  const current = user as FakeUser;
+  requireFields(body, ["old_password", "new_password", "new_password_confirm"]);
+  const newPassword = readString(body, "new_password");
+
+  if (readString(body, "old_password") !== current.password) {
+    throw validationError({ old_password: "Your old password was entered incorrectly." });
+  }
+  if (newPassword.length < 8) {
+    throw validationError({
+      new_password: "This password is too short. It must contain at least 8 characters.",
+    });
+  }
+  if (newPassword !== readString(body, "new_password_confirm")) {
+    throw validationError({ new_password_confirm: "Passwords do not match." });
+  }
+
+  current.password = newPassword;
+  return json({ detail: "Password changed successfully." });
+});
+
+// Two-factor authentication
+
+route("GET", "/mfa/", ({ user }) => {
+  const current = user as FakeUser;
+  return json({
+    enabled: !!current.mfa_secret,
+    recovery_codes_remaining: current.recovery_codes?.length ?? 0,
+  });
+});
+
+route("POST", "/mfa/totp/setup/", ({ user }) => {
+  const current = user as FakeUser;
+  if (current.mfa_secret) {
+    throw validationError({ non_field_errors: "Two-factor authentication is already enabled." });
+  }
+  current.mfa_pending_secret = generateTotpSecret();
+  // The backend also renders the QR code, which the fake backend leaves out
+  return json({
+    secret: current.mfa_pending_secret,
+    otpauth_url: totpUri(current.mfa_pending_secret, current.email),
+  });
+});
+
+route("POST", "/mfa/totp/confirm/", async ({ user, body }) => {
+  const current = user as FakeUser;
+  if (!current.mfa_pending_secret) {
+    throw validationError({ non_field_errors: "Start the two-factor setup first." });
+  }
+  if (!(await verifyTotp(current.mfa_pending_secret, readString(body, "code")))) {
+    throw validationError({ code: "Invalid code." });
+  }
+  current.mfa_secret = current.mfa_pending_secret;
+  current.mfa_pending_secret = undefined;
+  current.recovery_codes = generateRecoveryCodes();
+  return json({ recovery_codes: current.recovery_codes });
+});
+
+route("POST", "/mfa/disable/", async ({ user, body }) => {
+  const current = user as FakeUser;
+  if (!current.mfa_secret) {
+    throw validationError({ non_field_errors: "Two-factor authentication is not enabled." });
+  }
+  if (readString(body, "password") !== current.password) {
+    throw validationError({ password: "Your password was entered incorrectly." });
+  }
+  if (!(await verifyTotp(current.mfa_secret, readString(body, "code")))) {
+    throw validationError({ code: "Invalid code." });
+  }
+  current.mfa_secret = undefined;
+  current.recovery_codes = undefined;
+  return noContent();
+});
+
+route("POST", "/mfa/recovery-codes/", async ({ user, body }) => {
+  const current = user as FakeUser;
+  if (!current.mfa_secret) {
+    throw validationError({ non_field_errors: "Two-factor authentication is not enabled." });
+  }
+  if (!(await verifyTotp(current.mfa_secret, readString(body, "code")))) {
+    throw validationError({ code: "Invalid code." });
+  }
+  current.recovery_codes = generateRecoveryCodes();
+  return json({ recovery_codes: current.recovery_codes });
+});
+
+// Sessions
+
+route("GET", "/sessions/", ({ db, user, session }) =>
+  json(
+    db.sessions
+      .filter(s => s.user === user?.id)
+      .sort((a, b) => b.last_used_at.localeCompare(a.last_used_at))
+      .map(s => serializeSession(s, session))
+  )
+);
+
+route("DELETE", "/sessions/:sessionId/", ({ db, user, params }) => {
+  const target = db.sessions.find(s => s.id === params.sessionId && s.user === user?.id);
+  if (!target) throw notFound();
+  revokeSession(db, target);
+  return noContent();
+});
+
+route("POST", "/sessions/revoke_others/", ({ db, user, session }) => {
+  const others = db.sessions.filter(s => s.user === user?.id && s.id !== session?.id);
+  others.forEach(s => revokeSession(db, s));
+  return json({ revoked: others.length });
+});
+
+// Personal API tokens
+
+route("GET", "/api_tokens/", ({ db, user }) =>
+  json(db.apiTokens.filter(t => t.user === user?.id).map(serializeApiToken))
+);
+
+route("POST", "/api_tokens/", ({ db, user, body }) => {
+  const current = user as FakeUser;
+  requireFields(body, ["name", "access", "companies", "expires_at"]);
+
+  const access = readString(body, "access");
+  if (access !== "read" && access !== "read_write") {
+    throw validationError({ access: `"${access}" is not a valid choice.` });
+  }
+  const companies = Array.isArray(body.companies) ? body.companies.map(Number) : [];
+  if (companies.length === 0) {
+    throw validationError({ companies: "Select at least one company." });
+  }
+  const isMember = (id: number) =>
+    db.companies.some(c => c.id === id && c.members.includes(current.id));
+  if (!companies.every(isMember)) {
+    throw validationError({ companies: "You can only grant access to your own companies." });
+  }
+  const expiresAt = new Date(readString(body, "expires_at")).getTime();
+  if (isNaN(expiresAt) || expiresAt <= Date.now()) {
+    throw validationError({ expires_at: "The expiry date must be in the future." });
+  }
+  if (expiresAt > Date.now() + API_TOKEN_MAX_LIFETIME_MS) {
+    throw validationError({ expires_at: "API tokens can be valid for at most one year." });
+  }
+
+  const apiToken: FakeApiToken = {
+    id: db.nextId++,
+    user: current.id,
+    name: readString(body, "name").trim(),
+    key: API_TOKEN_PREFIX + randomHex(20),
+    access,
+    companies,
+    created_at: new Date().toISOString(),
+    expires_at: new Date(expiresAt).toISOString(),
+    last_used_at: null,
+  };
+  db.apiTokens.push(apiToken);
+  return json({ ...serializeApiToken(apiToken), key: apiToken.key }, 201);
+});
+
+route("DELETE", "/api_tokens/:tokenId/", ({ db, user, params }) => {
+  const apiToken = db.apiTokens.find(t => t.id === Number(params.tokenId) && t.user === user?.id);
+  if (!apiToken) throw notFound();
+  db.apiTokens = db.apiTokens.filter(t => t !== apiToken);
+  return noContent();
+});
+
+// Companies
+
+// Searches names, VAT numbers and registration numbers, like the search fields of the backend
+route("GET", "/companies/", ({ db, query }) => {
+  const search = (query.get("search") ?? "").toLowerCase();
+  return paginatedList(
+    query,
+    db.companies
+      .filter(c =>
+        [c.name, c.vat_number, c.business_registration_number].some(value =>
+          value.toLowerCase().includes(search)
+        )
+      )
+      .map(serializeCompany)
+  );
+});
+
+route("POST", "/companies/", ctx => {
+  const { db, user, body } = ctx;
+  requireVerifiedEmail(ctx);
+  requireFields(body, ["name", "vat_number", "business_registration_number"]);
+  if (db.companies.some(c => c.vat_number === readString(body, "vat_number"))) {
+    throw validationError({ vat_number: "A company with this VAT number already exists." });
+  }
+
+  const company: FakeCompany = {
+    id: db.nextId++,
+    name: readString(body, "name"),
+    vat_number: readString(body, "vat_number"),
+    business_registration_number: readString(body, "business_registration_number"),
+    ...readCompanyProfile(db, body),
+    logo: null,
+    product_defaults: initialProductDefaults(),
+    members: [(user as FakeUser).id],
+    roles: { [(user as FakeUser).id]: "owner" },
+  };
+  db.companies.push(company);
+  logAction(
+    ctx,
+    {
+      company: company.id,
+      product: null,
+      content_type_model: "company",
+      object_pk: String(company.id),
+      action: 0,
+    },
+    body
+  );
+  return json(serializeCompany(company), 201);
+});
+
+route("OPTIONS", "/companies/", () => {
+  const choices = COUNTRY_CHOICES.map(value => ({ value, display_name: value }));
+  return json({ name: "Company List", actions: { POST: { address_country: { choices } } } });
+});
+
+route("GET", "/companies/my/", ({ db, user }) => {
+  const userId = (user as FakeUser).id;
+  return json(
+    db.companies
+      .filter(c => c.members.includes(userId))
+      .map(c => ({ ...serializeCompany(c), role: memberRole(c, userId) }))
+  );
+});
+
+route("GET", "/companies/:companyId/", ctx => {
+  const company = findCompany(ctx);
+  return json({
+    ...serializeCompany(company),
+    role: ctx.user ? memberRole(company, ctx.user.id) : null,
+  });
+});
+
+route("PUT", "/companies/:companyId/", ctx => {
+  const company = findMemberCompany(ctx, "edit_company");
+  company.name = readString(ctx.body, "name", company.name);
+  company.vat_number = readString(ctx.body, "vat_number", company.vat_number);
+  company.business_registration_number = readString(
+    ctx.body,
+    "business_registration_number",
+    company.business_registration_number
+  );
+  Object.assign(company, readCompanyProfile(ctx.db, ctx.body, company));
+  // New products no longer default to a site that was removed
+  const { product_defaults: defaults } = company;
+  if (!company.sites.some(site => site.id === defaults.manufacturer_site)) {
+    defaults.manufacturer_site = null;
+  }
+  logAction(
+    ctx,
+    {
+      company: company.id,
+      product: null,
+      content_type_model: "company",
+      object_pk: String(company.id),
+      action: 1,
+    },
+    ctx.body
+  );
+  return json(serializeCompany(company));
+});
+
+// Logos are kept as data URLs, the real backend serves them from its media storage
+const LOGO_TYPES = ["image/png", "image/jpeg", "image/svg+xml", "image/webp"];
+const LOGO_MAX_SIZE = 1024 * 1024;
+
+route("PUT", "/companies/:companyId/logo/", async ctx => {
+  const company = findMemberCompany(ctx, "edit_company");
+  const logo = ctx.form?.get("logo");
+  if (!(logo instanceof Blob)) {
+    throw validationError({ logo: "No file was submitted." });
+  }
+  if (!LOGO_TYPES.includes(logo.type)) {
+    throw validationError({ logo: "Upload a PNG, JPEG, SVG or WebP image." });
+  }
+  if (logo.size > LOGO_MAX_SIZE) {
+    throw validationError({ logo: "The logo can be at most 1 MB." });
+  }
+
+  const bytes = new Uint8Array(await logo.arrayBuffer());
+  const binary = Array.from(bytes, b => String.fromCharCode(b)).join("");
+  company.logo = `data:${logo.type};base64,${btoa(binary)}`;
+  return json({ logo: company.logo });
+});
+
+route("DELETE", "/companies/:companyId/logo/", ctx => {
+  const company = findMemberCompany(ctx, "edit_company");
+  company.logo = null;
+  return noContent();
+});
+
+route("GET", "/companies/:companyId/product_defaults/", ctx =>
+  json(findMemberCompany(ctx).product_defaults)
+);
+
+route("PUT", "/companies/:companyId/product_defaults/", ctx => {
+  const company = findMemberCompany(ctx, "edit_company");
+  company.product_defaults = readProductDefaults(ctx.db, ctx.body, company);
+  logAction(
+    ctx,
+    {
+      company: company.id,
+      product: null,
+      content_type_model: "company",
+      object_pk: String(company.id),
+      action: 1,
+    },
+    ctx.body
+  );
+  return json(company.product_defaults);
+});
+
+route("DELETE", "/companies/:companyId/", ctx => {
+  const company = findMemberCompany(ctx, "delete_company");
+  ctx.db.products
+    .filter(p => p.company === company.id)
+    .forEach(product => deleteProduct(ctx.db, product.id));
+  ctx.db.companies = ctx.db.companies.filter(c => c.id !== company.id);
+  ctx.db.invitations = ctx.db.invitations.filter(i => i.company !== company.id);
+  return noContent();
+});
+
+const serializeMember = (company: FakeCompany, user: FakeUser) => ({
+  ...serializeUser(user),
+  role: memberRole(company, user.id),
+});
+
+/**
+ * Read the role of a member from the request body
+ * @throws FakeHttpError with a validation error for unknown roles
+ */
+function readRole(body: Body, fallback: CompanyRole): CompanyRole {
+  const role = readString(body, "role", fallback);
+  if (!COMPANY_ROLES.includes(role as CompanyRole)) {
+    throw validationError({ role: `"${role}" is not a valid choice.` });
+  }
+  return role as CompanyRole;
+}
+
+/**
+ * Member of the company targeted by the request, that the current user may manage
+ * @throws FakeHttpError 404 for non-members, 403 if the current user's role is too low
+ */
+function findManagedMember(ctx: RouteContext, company: FakeCompany, newRole?: CompanyRole) {
+  const user = ctx.db.users.find(u => u.id === Number(ctx.params.userId));
+  const role = user && memberRole(company, user.id);
+  if (!user || !role) throw notFound();
+  if (!canManageMember(memberRole(company, (ctx.user as FakeUser).id), role, newRole)) {
+    throw forbidden();
+  }
+  return { user, role };
+}
+
+// Companies cannot be left without an owner
+function requireOtherOwner(company: FakeCompany, userId: number): void {
+  const owners = company.members.filter(id => company.roles[id] === "owner");
+  if (owners.length === 1 && owners[0] === userId) {
+    throw validationError({ role: "A company needs at least one owner." });
+  }
+}
+
+route("GET", "/companies/:companyId/users/", ctx => {
+  const company = findMemberCompany(ctx);
+  return json(
+    ctx.db.users.filter(u => company.members.includes(u.id)).map(u => serializeMember(company, u))
+  );
+});
+
+route("POST", "/companies/:companyId/users/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  const role = readRole(ctx.body, "viewer");
+  if (!canManageMember(memberRole(company, (ctx.user as FakeUser).id), "viewer", role)) {
+    throw forbidden();
+  }
+  const user = ctx.db.users.find(u => u.username === readString(ctx.body, "username"));
+  if (!user) {
+    throw validationError({ username: "User with this username does not exist." });
+  }
+  if (!company.members.includes(user.id)) {
+    company.members.push(user.id);
+    company.roles[user.id] = role;
+  }
+  return json({ success: true }, 201);
+});
+
+route("PATCH", "/companies/:companyId/users/:userId/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  const role = readRole(ctx.body, "viewer");
+  const { user } = findManagedMember(ctx, company, role);
+  if (role !== "owner") requireOtherOwner(company, user.id);
+  company.roles[user.id] = role;
+  return json(serializeMember(company, user));
+});
+
+route("DELETE", "/companies/:companyId/users/:userId/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  const { user } = findManagedMember(ctx, company);
+  requireOtherOwner(company, user.id);
+  company.members = company.members.filter(id => id !== user.id);
+  delete company.roles[user.id];
+  return noContent();
+});
+
+// Company invitations
+
+/**
+ * Pending invitation of the company targeted by the request, that the current user may manage
+ * Only owners can resend or revoke invitations that would make someone an owner
+ * @throws FakeHttpError 404 for unknown invitations, 403 if the current user's role is too low
+ */
+function findManagedInvitation(ctx: RouteContext, company: FakeCompany): FakeInvitation {
+  const invitation = ctx.db.invitations.find(
+    i => i.id === Number(ctx.params.invitationId) && i.company === company.id
+  );
+  if (!invitation) throw notFound();
+  if (!canManageMember(memberRole(company, (ctx.user as FakeUser).id), invitation.role)) {
+    throw forbidden();
+  }
+  return invitation;
+}
+
+/**
+ * Invitation of an invitation link
+ * @throws FakeHttpError 404 if the key is unknown, the invitation expired or its company is gone
+ */
+function findInvitationByKey(ctx: RouteContext) {
+  const invitation = ctx.db.invitations.find(i => i.key === ctx.params.key);
+  const company = invitation && ctx.db.companies.find(c => c.id === invitation.company);
+  if (!invitation || !company || new Date(invitation.expires_at).getTime() <= Date.now()) {
+    throw new FakeHttpError(404, { detail: "This invitation is invalid or has expired." });
+  }
+  return { invitation, company };
+}
+
+// Expired invitations stay listed, so they can be resent
+route("GET", "/companies/:companyId/invitations/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  return json(
+    ctx.db.invitations
+      .filter(i => i.company === company.id)
+      .map(invitation => serializeInvitation(ctx.db, invitation))
+  );
+});
+
+route("POST", "/companies/:companyId/invitations/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  requireFields(ctx.body, ["email"]);
+  const currentUser = ctx.user as FakeUser;
+  const role = readRole(ctx.body, "viewer");
+  if (!canManageMember(memberRole(company, currentUser.id), "viewer", role)) {
+    throw forbidden();
+  }
+
+  const email = readString(ctx.body, "email").trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw validationError({ email: "Enter a valid email address." });
+  }
+  if (ctx.db.users.some(u => u.email === email && company.members.includes(u.id))) {
+    throw validationError({ email: "This person is already a member of the company." });
+  }
+  if (ctx.db.invitations.some(i => i.company === company.id && i.email === email)) {
+    throw validationError({ email: "This email address has already been invited." });
+  }
+
+  const now = Date.now();
+  const invitation: FakeInvitation = {
+    id: ctx.db.nextId++,
+    company: company.id,
+    email,
+    role,
+    key: randomHex(20),
+    invited_by: currentUser.id,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + INVITATION_LIFETIME_MS).toISOString(),
+  };
+  ctx.db.invitations.push(invitation);
+  sendInvitationEmail(ctx.db, invitation);
+  return json(serializeInvitation(ctx.db, invitation), 201);
+});
+
+// A new link replaces the old one, which stops working
+route("POST", "/companies/:companyId/invitations/:invitationId/resend/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  const invitation = findManagedInvitation(ctx, company);
+  invitation.key = randomHex(20);
+  invitation.expires_at = new Date(Date.now() + INVITATION_LIFETIME_MS).toISOString();
+  sendInvitationEmail(ctx.db, invitation);
+  return json(serializeInvitation(ctx.db, invitation));
+});
+
+route("DELETE", "/companies/:companyId/invitations/:invitationId/", ctx => {
+  const company = findMemberCompany(ctx, "manage_users");
+  const invitation = findManagedInvitation(ctx, company);
+  ctx.db.invitations = ctx.db.invitations.filter(i => i !== invitation);
+  return noContent();
+});
+
+// Shown on the invitation page before the invited person signed in or registered
+route(
+  "GET",
+  "/invitations/:key/",
+  ctx => {
+    const { invitation, company } = findInvitationByKey(ctx);
+    return json({
+      company: serializeCompany(company),
+      email: invitation.email,
+      role: invitation.role,
+      invited_by: serializeInvitation(ctx.db, invitation).invited_by,
+      expires_at: invitation.expires_at,
+    });
+  },
+  true
+);
+
+route("POST", "/invitations/:key/accept/", ctx => {
+  const { invitation, company } = findInvitationByKey(ctx);
+  const user = ctx.user as FakeUser;
+  if (user.email !== invitation.email) {
+    throw validationError({
+      email: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+    });
+  }
+
+  if (!company.members.includes(user.id)) {
+    company.members.push(user.id);
+    company.roles[user.id] = invitation.role;
+  }
+  // Opening the link proves the address, like the verification email would
+  user.email_verified = true;
+  ctx.db.invitations = ctx.db.invitations.filter(i => i !== invitation);
+  return json({ ...serializeCompany(company), role: memberRole(company, user.id) });
+});
+
+route("GET", "/companies/:companyId/audit/", ctx => {
+  const company = findMemberCompany(ctx);
+  return json(
+    ctx.db.auditLogs
+      .filter(log => log.company === company.id)
+      .map(({ company: _company, product: _product, ...log }) => log)
+  );
+});
+
+// Product sharing requests
+
+route("GET", "/companies/:companyId/product_sharing_requests/", ctx => {
+  const company = findMemberCompany(ctx);
+  const productIds = ctx.db.products.filter(p => p.company === company.id).map(p => p.id);
+  return json(
+    ctx.db.sharingRequests
+      .filter(r => productIds.includes(r.product))
+      .map(r => ({
+        ...r,
+        product_name: ctx.db.products.find(p => p.id === r.product)?.name ?? "",
+      }))
+  );
+});
+
+/**
+ * Set the status of the company's sharing requests listed in the request body
+ */
+const updateSharingRequests =
+  (status: "Accepted" | "Rejected"): RouteHandler =>
+  ctx => {
+    const company = findMemberCompany(ctx, "manage_sharing");
+    requireVerifiedEmail(ctx);
+    const ids = (Array.isArray(ctx.body.ids) ? ctx.body.ids : []).map(Number);
+    ctx.db.sharingRequests
+      .filter(r => ids.includes(r.id))
+      .filter(r => ctx.db.products.find(p => p.id === r.product)?.company === company.id)
+      .forEach(r => {
+        r.status = status;
+      });
+    return json({ success: true });
+  };
+
+route(
+  "POST",
+  "/companies/:companyId/product_sharing_requests/bulk_approve/",
+  updateSharingRequests("Accepted")
+);
+route(
+  "POST",
+  "/companies/:companyId/product_sharing_requests/bulk_deny/",
+  updateSharingRequests("Rejected")
+);
+
+route("POST", "/companies/:companyId/products/:productId/request_access/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  const requester = ctx.db.companies.find(c => c.id === readNumber(ctx.body, "requester"));
+  if (!requester || !requester.members.includes((ctx.user as FakeUser).id)) throw forbidden();
+
+  const existing = ctx.db.sharingRequests.find(
+    r => r.product === product.id && r.requester === requester.id && r.status !== "Rejected"
+  );
+  if (existing) {
+    throw validationError({ non_field_errors: "Access to this product was already requested." });
+  }
+
+  const request = {
+    id: ctx.db.nextId++,
+    product: product.id,
+    requester: requester.id,
+    status: "Pending" as const,
+    created_at: new Date().toISOString(),
+  };
+  ctx.db.sharingRequests.push(request);
+  return json({ id: String(request.id) }, 201);
+});
+
+// Products
+
+route("GET", "/companies/:companyId/products/", ctx => {
+  const company = findCompany(ctx);
+  const search = (ctx.query.get("search") ?? "").toLowerCase();
+  const isMember = !!ctx.user && company.members.includes(ctx.user.id);
+
+  return paginatedList(
+    ctx.query,
+    ctx.db.products
+      .filter(p => p.company === company.id && (isMember || p.is_public))
+      .filter(p => [p.name, p.sku, p.manufacturer_name].join(" ").toLowerCase().includes(search))
+      .map(p => serializeProduct(ctx.db, p))
+  );
+});
+
+route("OPTIONS", "/companies/:companyId/products/", ctx => {
+  findCompany(ctx);
+  const fields = Object.fromEntries(
+    Object.entries(PRODUCT_FIELD_CHOICES).map(([field, values]) => [
+      field,
+      { choices: values.map(value => ({ value, display_name: value })) },
+    ])
+  );
+  return json({
+    name: "Product List",
+    actions: { POST: { ...fields, override_factors: overrideFactorOptions() } },
+  });
+});
+
+route("POST", "/companies/:companyId/products/", ctx => {
+  const company = findMemberCompany(ctx);
+  requireFields(ctx.body, ["name"]);
+  return json(serializeProduct(ctx.db, writeProduct(ctx, company, ctx.body)), 201);
+});
+
+route("GET", "/companies/:companyId/products/:productId/", ctx =>
+  json(serializeProduct(ctx.db, findProduct(ctx, findCompany(ctx))))
+);
+
+const updateProduct: RouteHandler = ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  return json(serializeProduct(ctx.db, writeProduct(ctx, company, ctx.body, product)));
+};
+route("PUT", "/companies/:companyId/products/:productId/", updateProduct);
+route("PATCH", "/companies/:companyId/products/:productId/", updateProduct);
+
+route("DELETE", "/companies/:companyId/products/:productId/", ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  deleteProduct(ctx.db, product.id);
+  logAction(ctx, {
+    company: company.id,
+    product: product.id,
+    content_type_model: "product",
+    object_pk: String(product.id),
+    action: 2,
+  });
+  return noContent();
+});
+
+route("GET", "/companies/:companyId/products/:productId/emission_traces/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  return json(buildProductTrace(ctx.db, product.id));
+});
+
+route("GET", "/companies/:companyId/products/:productId/audit/", ctx => {
+  const product = findProduct(ctx, findMemberCompany(ctx));
+  return json(
+    ctx.db.auditLogs
+      .filter(log => log.product === product.id)
+      .map(({ company: _company, product: _product, ...log }) => log)
+  );
+});
+
+route("POST", "/companies/:companyId/products/:productId/ai/", ctx => {
+  // Asking for advice changes nothing, so viewers may do it as well
+  const product = findProduct(ctx, findMemberCompany(ctx, null));
+  requireFields(ctx.body, ["user_prompt"]);
+  const prompt = readString(ctx.body, "user_prompt");
+  return json({
+    id: ctx.db.nextId++,
+    user_prompt: prompt,
+    response: composeAdvice(ctx.db, product, prompt),
+    created_at: new Date().toISOString(),
+  });
+});
+
+// Product export and import
+
+route("GET", "/companies/:companyId/products/export/:format/", ctx => {
+  const company = findMemberCompany(ctx);
+  if (ctx.params.format === "xlsx") throw xlsxUnsupported();
+  if (ctx.params.format !== "csv") throw notFound();
+
+  const products =
+    ctx.query.get("template") === "true"
+      ? []
+      : ctx.db.products.filter(p => p.company === company.id).map(p => serializeProduct(ctx.db, p));
+  return file(toCsv(PRODUCT_CSV_COLUMNS, products), "products.csv", "text/csv");
+});
+
+route("GET", "/companies/:companyId/products/:productId/export/:format/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  const data = {
+    ...serializeProduct(ctx.db, product),
+    emission_trace: buildProductTrace(ctx.db, product.id),
+  };
+  const name = product.name.replace(/[^a-zA-Z0-9]/g, "_");
+
+  // The fake backend has no AAS or SCSN serializer, every format carries the same JSON or XML
+  switch (ctx.params.format) {
+    case "aas_json":
+    case "aasx":
+    case "zip":
+      return file(JSON.stringify(data, null, 2), `${name}.json`, "application/json");
+    case "aas_xml":
+    case "scsn_pcf_xml":
+    case "scsn_full_xml":
+      return file(
+        `<?xml version="1.0" encoding="UTF-8"?>\n<product id="${product.id}" name="${product.name}" emission_total="${data.emission_total}" />`,
+        `${name}.xml`,
+        "application/xml"
+      );
+    default:
+      throw notFound();
+  }
+});
+
+// Tabular imports run as background jobs, the rows are imported while the job is polled
+route("POST", "/companies/:companyId/products/import/tabular/", async ctx => {
+  const company = findMemberCompany(ctx);
+  const job: FakeImportJob = {
+    id: ctx.db.nextId++,
+    company: company.id,
+    status: "processing",
+    rows: await readUploadedCsv(ctx),
+    processed: 0,
+    result: [],
+    errors: [],
+  };
+  ctx.db.importJobs.push(job);
+  return json(serializeImportJob(job), 202);
+});
+
+route("GET", "/companies/:companyId/import_jobs/:jobId/", ctx => {
+  const company = findMemberCompany(ctx);
+  const job = ctx.db.importJobs.find(
+    j => j.id === Number(ctx.params.jobId) && j.company === company.id
+  );
+  if (!job) throw notFound();
+
+  if (job.status === "processing") {
+    const batch = job.rows.slice(job.processed, job.processed + IMPORT_JOB_BATCH_SIZE);
+    try {
+      batch.forEach(row => {
+        // Rows whose SKU already exists are skipped, like the backend does with duplicates
+        if (!ctx.db.products.some(p => p.company === company.id && p.sku === row.sku)) {
+          job.result.push(serializeProduct(ctx.db, writeProduct(ctx, company, row)));
+        }
+        job.processed++;
+      });
+      if (job.processed >= job.rows.length) job.status = "completed";
+    } catch (error) {
+      if (!(error instanceof FakeHttpError)) throw error;
+      job.status = "failed";
+      job.errors = (error.body as { errors?: FakeImportJob["errors"] }).errors ?? [];
+    }
+  }
+  return json(serializeImportJob(job));
+});
+
+route("POST", "/companies/:companyId/products/import/:format/", ctx => {
+  const company = findMemberCompany(ctx);
+  if (!["aas_aasx", "aas_json", "aas_xml"].includes(ctx.params.format)) throw notFound();
+  const { name } = readImportFile(ctx);
+
+  // AAS files are not parsed, the product is named after the uploaded file
+  const productName = name.replace(/\.[^.]+$/, "") || "Imported product";
+  const product = writeProduct(ctx, company, { name: productName });
+  return json({ ...serializeProduct(ctx.db, product), product_id: product.id }, 201);
+});
+
+// Resumable upload sessions for large import files
+
+const serializeUpload = ({ id, filename, size, offset }: FakeDatabase["uploads"][number]) => ({
+  id: String(id),
+  filename,
+  size,
+  offset,
+  chunk_size: UPLOAD_CHUNK_SIZE,
+});
+
+const findUpload = (ctx: RouteContext) => {
+  const company = findMemberCompany(ctx);
+  const upload = ctx.db.uploads.find(
+    u => u.id === Number(ctx.params.uploadId) && u.company === company.id
+  );
+  if (!upload) throw notFound();
+  return upload;
+};
+
+route("POST", "/companies/:companyId/uploads/", ctx => {
+  const company = findMemberCompany(ctx);
+  requireFields(ctx.body, ["filename", "size"]);
+  const upload = {
+    id: ctx.db.nextId++,
+    company: company.id,
+    filename: readString(ctx.body, "filename"),
+    size: readNumber(ctx.body, "size"),
+    offset: 0,
+    parts: [],
+  };
+  ctx.db.uploads.push(upload);
+  return json(serializeUpload(upload), 201);
+});
+
+route("GET", "/companies/:companyId/uploads/:uploadId/", ctx =>
+  json(serializeUpload(findUpload(ctx)))
+);
+
+route("PATCH", "/companies/:companyId/uploads/:uploadId/", ctx => {
+  const upload = findUpload(ctx);
+  const chunk = ctx.form?.get("chunk");
+  if (!(chunk instanceof Blob)) {
+    throw validationError({ chunk: "No chunk was submitted." });
+  }
+
+  // Chunks must arrive in order, clients resume from the offset reported here
+  if (Number(ctx.form?.get("offset")) !== upload.offset) {
+    throw new FakeHttpError(409, { detail: "Chunk offset does not match.", offset: upload.offset });
+  }
+  if (upload.offset + chunk.size > upload.size) {
+    throw validationError({ chunk: "Chunk exceeds the announced file size." });
+  }
+
+  upload.parts.push(chunk);
+  upload.offset += chunk.size;
+  return json(serializeUpload(upload));
+});
+
+// Bill of materials
+
+route("GET", "/companies/:companyId/products/:productId/bom/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  return json(
+    ctx.db.lineItems
+      .filter(item => item.parent_product === product.id)
+      .map(item => serializeLineItem(ctx.db, item))
+  );
+});
+
+route("OPTIONS", "/companies/:companyId/products/:productId/bom/", () =>
+  json({ name: "Line Item List", actions: { POST: {} } })
+);
+
+route("POST", "/companies/:companyId/products/:productId/bom/", ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  requireFields(ctx.body, ["quantity", "line_item_product_id"]);
+
+  const componentId = readNumber(ctx.body, "line_item_product_id");
+  if (!ctx.db.products.some(p => p.id === componentId)) {
+    throw validationError({ line_item_product_id: "Product does not exist." });
+  }
+  if (componentId === product.id) {
+    throw validationError({ line_item_product_id: "A product cannot contain itself." });
+  }
+
+  const lineItem: FakeLineItem = {
+    id: ctx.db.nextId++,
+    parent_product: product.id,
+    line_item_product: componentId,
+    quantity: readNumber(ctx.body, "quantity", 1),
+  };
+  ctx.db.lineItems.push(lineItem);
+  return json(serializeLineItem(ctx.db, lineItem), 201);
+});
+
+route("GET", "/companies/:companyId/products/:productId/bom/:lineItemId/", ctx => {
+  const lineItem = findLineItem(ctx, findProduct(ctx, findCompany(ctx)));
+  return json(serializeLineItem(ctx.db, lineItem));
+});
+
+const updateLineItem: RouteHandler = ctx => {
+  const lineItem = findLineItem(ctx, findProduct(ctx, findMemberCompany(ctx)));
+  lineItem.quantity = readNumber(ctx.body, "quantity", lineItem.quantity);
+  lineItem.line_item_product = readNumber(
+    ctx.body,
+    "line_item_product_id",
+    lineItem.line_item_product
+  );
+  return json(serializeLineItem(ctx.db, lineItem));
+};
+route("PUT", "/companies/:companyId/products/:productId/bom/:lineItemId/", updateLineItem);
+route("PATCH", "/companies/:companyId/products/:productId/bom/:lineItemId/", updateLineItem);
+
+route("DELETE", "/companies/:companyId/products/:productId/bom/:lineItemId/", ctx => {
+  const lineItem = findLineItem(ctx, findProduct(ctx, findMemberCompany(ctx)));
+  ctx.db.lineItems = ctx.db.lineItems.filter(item => item.id !== lineItem.id);
+  ctx.db.emissions.forEach(emission => {
+    emission.line_items = emission.line_items.filter(id => id !== lineItem.id);
+  });
+  return noContent();
+});
+
+// Emissions, shared by the transport, production energy and user energy endpoints
+
+route("GET", "/companies/:companyId/products/:productId/emissions/:kind/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  return json(
+    ctx.db.emissions
+      .filter(e => e.product === product.id && e.kind === ctx.params.kind)
+      .map(e => serializeEmission(ctx.db, e))
+  );
+});
+
+route("OPTIONS", "/companies/:companyId/products/:productId/emissions/:kind/", ctx => {
+  findProduct(ctx, findCompany(ctx));
+  return json({
+    name: "Emission List",
+    actions: { POST: { override_factors: overrideFactorOptions() } },
+  });
+});
+
+route("POST", "/companies/:companyId/products/:productId/emissions/:kind/", ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  return json(serializeEmission(ctx.db, writeEmission(ctx, company, product, ctx.body)), 201);
+});
+
+route("GET", "/companies/:companyId/products/:productId/emissions/:kind/:emissionId/", ctx => {
+  const emission = findEmission(ctx, findProduct(ctx, findCompany(ctx)));
+  return json(serializeEmission(ctx.db, emission));
+});
+
+const updateEmission: RouteHandler = ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  const emission = findEmission(ctx, product);
+  return json(serializeEmission(ctx.db, writeEmission(ctx, company, product, ctx.body, emission)));
+};
+route(
+  "PUT",
+  "/companies/:companyId/products/:productId/emissions/:kind/:emissionId/",
+  updateEmission
+);
+route(
+  "PATCH",
+  "/companies/:companyId/products/:productId/emissions/:kind/:emissionId/",
+  updateEmission
+);
+
+route("DELETE", "/companies/:companyId/products/:productId/emissions/:kind/:emissionId/", ctx => {
+  const company = findMemberCompany(ctx);
+  const product = findProduct(ctx, company);
+  const emission = findEmission(ctx, product);
+  ctx.db.emissions = ctx.db.emissions.filter(e => e !== emission);
+  logAction(ctx, {
+    company: company.id,
+    product: product.id,
+    content_type_model: EMISSION_LOG_MODELS[emission.kind],
+    object_pk: String(emission.id),
+    action: 2,
+  });
+  return noContent();
+});
+
+route("GET", "/companies/:companyId/products/:productId/emissions/:kind/export/:format/", ctx => {
+  const product = findProduct(ctx, findCompany(ctx));
+  const kind = ctx.params.kind as EmissionKind;
+  if (ctx.params.format === "xlsx") throw xlsxUnsupported();
+  if (ctx.params.format !== "csv") throw notFound();
+
+  const rows =
+    ctx.query.get("template") === "true"
+      ? []
+      : ctx.db.emissions
+          .filter(e => e.product === product.id && e.kind === kind)
+          .map(e => ({ ...e, reference: e.reference ?? "" }));
+  return file(toCsv(EMISSION_CSV_COLUMNS[kind], rows), `${kind}_emissions.csv`, "text/csv");
+});
+
+route(
+  "POST",
+  "/companies/:companyId/products/:productId/emissions/:kind/import/tabular/",
+  async ctx => {
+    const company = findMemberCompany(ctx);
+    const product = findProduct(ctx, company);
+    const rows = await readUploadedCsv(ctx);
+    const created = rows.map(row => writeEmission(ctx, company, product, row));
+    return json(
+      created.map(e => serializeEmission(ctx.db, e)),
+      201
+    );
+  }
+);
+
+// Emission references
+
+route("GET", "/reference/:kind/", ({ db, params }) =>
+  json(db.references[params.kind as EmissionKind])
+);
+
+route("GET", "/reference/:kind/:referenceId/", ({ db, params }) => {
+  const reference = db.references[params.kind as EmissionKind].find(
+    ref => ref.id === Number(params.referenceId)
+  );
+  if (!reference) throw notFound();
+  return json(reference);
+});
+
+/**
+ * Find the route matching a request
+ * @param method - HTTP method of the request
+ * @param path - Request path relative to the API base URL, with a trailing slash
+ * @returns Matching route with its path parameters, or null if no route matches
+ */
+export function matchRoute(
+  method: string,
+  path: string
+): { route: Route; params: Record<string, string> } | null {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (match) {
+      const params = Object.fromEntries(candidate.keys.map((key, i) => [key, match[i + 1]]));
+      return { route: candidate, params };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for the fake backend's two-factor routes
+ * Uses the same parameters as authenticator apps: SHA-1, 6 digits and 30 second steps,
+ * so the demo account can be enrolled with a real app
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TIME_STEP_S = 30;
+const DIGITS = 6;
+// Codes of the neighbouring time steps are accepted to allow for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+function encodeBase32(bytes: Uint8Array): string {
+  let bits = "";
+  bytes.forEach(byte => {
+    bits += byte.toString(2).padStart(8, "0");
+  });
+  return (bits.match(/.{1,5}/g) ?? [])
+    .map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, "0"), 2)])
+    .join("");
+}
+
+function decodeBase32(value: string): Uint8Array {
+  const bits = value
+    .toUpperCase()
+    .replace(/[^A-Z2-7]/g, "")
+    .split("")
+    .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, "0"))
+    .join("");
+  return new Uint8Array((bits.match(/.{8}/g) ?? []).map(byte => parseInt(byte, 2)));
+}
+
+/**
+ * Generate a random secret to share with the authenticator app
+ * @returns Base32 encoded 160-bit secret
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Build the URI that authenticator apps read from the enrollment QR code
+ */
+export function totpUri(secret: string, accountName: string): string {
+  const issuer = "CarbonInsight";
+  return `otpauth://totp/${encodeURIComponent(`${issuer}:${accountName}`)}?secret=${secret}&issuer=${issuer}`;
+}
+
+async function codeForStep(key: CryptoKey, step: number): Promise<string> {
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step % 2 ** 32);
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter.buffer));
+
+  // Dynamic truncation as described in RFC 4226
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Check a code entered by the user against the secret
+ * @returns Promise resolving to true if the code belongs to the current time step
+ */
+export async function verifyTotp(secret: string, code: string): Promise<boolean> {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase32(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const step = Math.floor(Date.now() / 1000 / TIME_STEP_S);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    if ((await codeForStep(key, step + drift)) === normalized) return true;
+  }
+  return false;
+}
+
+/**
+ * Generate single-use recovery codes
+ * @returns Ten codes formatted as two groups of four characters
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: 10 }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(4));
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
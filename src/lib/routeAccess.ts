@@ -0,0 +1,70 @@
+/**
+ * Access rules of the app's routes
+ * Declares which pages need a signed-in user and which also need a selected company.
+ * The route guard in the root layout enforces them before a page renders, and in
+ * cookie session mode the middleware already does so for the sign-in requirement
+ */
+
+/**
+ * Interface for the requirements of a protected route
+ */
+export interface RouteAccess {
+  auth: boolean; // Only signed-in users may open the route
+  company: boolean; // A company has to be selected, otherwise the user picks one first
+}
+
+// Protected routes by path prefix, every page below a prefix shares its rule
+const PROTECTED_ROUTES: Record<string, RouteAccess> = {
+  "/dashboard": { auth: true, company: true },
+  "/product-list": { auth: true, company: true },
+  "/product-data-sharing": { auth: true, company: true },
+  "/manage-user": { auth: true, company: true },
+  "/company-details": { auth: true, company: true },
+  "/company-settings": { auth: true, company: true },
+  "/list-companies": { auth: true, company: false },
+  "/create-company": { auth: true, company: false },
+  "/account": { auth: true, company: false },
+};
+
+// Query parameter carrying the page to return to after signing in
+export const RETURN_URL_PARAM = "next";
+
+// Page users without a selected company are sent to
+export const SELECT_COMPANY_PATH = "/list-companies";
+
+/**
+ * Look up the access rule of a page
+ * @param pathname - Path of the page, with or without trailing slash
+ * @returns Requirements of the route, or null for public pages
+ */
+export function getRouteAccess(pathname: string): RouteAccess | null {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  const prefix = Object.keys(PROTECTED_ROUTES).find(
+    route => path === route || path.startsWith(`${route}/`)
+  );
+  return prefix ? PROTECTED_ROUTES[prefix] : null;
+}
+
+/**
+ * Build the login URL that returns to the given page after signing in
+ * @param returnTo - Path and query of the page the user wanted to open
+ * @returns Login page URL with the return URL
+ */
+export function loginUrl(returnTo: string): string {
+  return `/login?${new URLSearchParams({ [RETURN_URL_PARAM]: returnTo })}`;
+}
+
+/**
+ * Validate a return URL taken from the query string
+ * Only paths within the app are followed, so the login cannot be abused to
+ * send users to another site
+ *
+ * @param returnTo - Value of the return URL parameter
+ * @param fallback - Page to use when the return URL is missing or unsafe
+ * @returns Path to navigate to after signing in
+ */
+export function safeReturnUrl(returnTo: string | null, fallback = "/dashboard"): string {
+  if (!returnTo || !returnTo.startsWith("/") || returnTo.startsWith("//")) return fallback;
+  if (returnTo.includes("\\") || returnTo.startsWith("/login")) return fallback;
+  return returnTo;
+}
@@ -0,0 +1,29 @@
+/**
+ * Route protection for the cookie session mode
+ * Redirects visitors without a session to the login page before a protected page is
+ * rendered, keeping the requested page as return URL. Whether a company is selected
+ * is only known in the browser, so RouteGuard checks that requirement.
+ *
+ * Like the session route handler, the ".server.ts" extension is only picked up in
+ * cookie mode, see next.config.ts. Token sessions live in localStorage, which only
+ * RouteGuard can see
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/api/session";
+import { getRouteAccess, loginUrl } from "@/lib/routeAccess";
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const access = getRouteAccess(pathname);
+
+  if (!access?.auth || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+  return NextResponse.redirect(new URL(loginUrl(`${pathname}${search}`), request.url));
+}
+
+// Pages only, API calls, build assets and static files are never redirected
+export const config = {
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+};
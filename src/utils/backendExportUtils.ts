@@ -1,7 +1,7 @@
 // This file provides utilities for exporting product data in various formats
 // It handles both backend API exports and frontend-generated PDF reports
 
-import { apiRequest } from "@/lib/api/apiClient";
+import { apiRequest, FileDownload } from "@/lib/api/apiClient";
 import { Product } from "@/lib/api/productApi";
 import { generatePDFReportHTML } from "@/utils/generatePdfUtil";
 
@@ -37,19 +37,13 @@ function downloadFile(blob: Blob, filename: string, mimeType: string) {
 // Main export function that calls appropriate backend endpoints based on the requested format
 // All formats except PDF are handled here (PDF is generated on frontend)
 // Takes company ID, product ID, export format to use, and product name for the filename
-// May throw errors if authentication token is missing or export fails
+// May throw errors if the user is not authenticated or export fails
 export async function exportProduct(
   companyId: string,
   productId: string,
   format: Exclude<ExportFormat, "pdf">,
   productName: string = "product"
 ): Promise<void> {
-  // Check for authentication token
-  const token = localStorage.getItem("access_token");
-  if (!token) {
-    throw new Error("No authentication token available");
-  }
-
   // Map frontend format names to actual backend endpoint paths
   // Note: CSV and XLSX are company-level exports, others are product-level
   const formatEndpoints = {
@@ -92,30 +86,20 @@ export async function exportProduct(
   try {
     // Construct the API endpoint based on format
     const endpoint = `/companies/${companyId}/${formatEndpoints[format]}/`;
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
+    const { blob, filename: serverFilename } = await apiRequest<FileDownload>(endpoint, {
+      responseType: "file",
     });
 
-    // Handle unsuccessful responses
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Export failed: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`Export failed: ${response.status} ${response.statusText}`);
-    }
-
-    // Get the file content as a blob
-    const blob = await response.blob();
     // Clean product name to use in filename (remove special characters)
     const cleanProductName = productName.replace(/[^a-zA-Z0-9]/g, "_");
     const formatSuffix = format.replace("_", "_");
 
-    // Generate an appropriate filename based on the export type
+    // Prefer the filename chosen by the backend, otherwise generate one based on the export type
     // Company-level exports use a different naming convention
     let filename: string;
-    if (format === "csv" || format === "xlsx") {
+    if (serverFilename) {
+      filename = serverFilename;
+    } else if (format === "csv" || format === "xlsx") {
       filename = `company_products_${formatSuffix}_${new Date().toISOString().split("T")[0]}.${fileExtensions[format]}`;
     } else {
       filename = `${cleanProductName}_${formatSuffix}_${new Date().toISOString().split("T")[0]}.${fileExtensions[format]}`;
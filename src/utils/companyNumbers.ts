@@ -0,0 +1,316 @@
+// This utility file holds the format and checksum rules of EU VAT numbers and of the company
+// registration numbers of common countries. They catch typos before a company is created,
+// since mistyped numbers make AAS and SCSN imports fail further down the supply chain.
+// The backend stays the authority, numbers that pass here can still be rejected there
+
+interface NumberRule {
+  pattern: RegExp; // Format of the number without country prefix, after normalizing
+  format: string; // Format described for the error message
+  checksum?: (number: string) => boolean;
+}
+
+// Removes the separators people type or copy along with the number
+export function normalizeCompanyNumber(value: string): string {
+  return value.toUpperCase().replace(/[\s.\-/]/g, "");
+}
+
+const digitsOf = (number: string) => number.split("").map(Number);
+
+// Sum of the digits multiplied by their weights, extra digits are ignored
+const weightedSum = (number: string, weights: number[]) =>
+  weights.reduce((sum, weight, i) => sum + Number(number[i]) * weight, 0);
+
+// Luhn check over all digits, used in Italy, Sweden and for French SIREN numbers
+const luhn = (number: string) =>
+  digitsOf(number)
+    .reverse()
+    .reduce((sum, digit, i) => {
+      const value = i % 2 === 1 ? digit * 2 : digit;
+      return sum + (value > 9 ? value - 9 : value);
+    }, 0) %
+    10 ===
+  0;
+
+// ISO 7064 MOD 11,10 check, the last digit checks the ones before it (Germany, Croatia)
+const mod11_10 = (number: string) => {
+  let product = 10;
+  for (const digit of digitsOf(number.slice(0, -1))) {
+    const sum = (digit + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+  return (11 - product) % 10 === Number(number.slice(-1));
+};
+
+// Remainder of a long numeric string divided by 97, without losing precision
+const mod97 = (number: string) =>
+  number.split("").reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0);
+
+// Belgian enterprise numbers end in 97 minus the remainder of the first eight digits
+const belgianChecksum = (number: string) =>
+  97 - mod97(number.slice(0, 8)) === Number(number.slice(8));
+
+// Dutch VAT numbers pass the 11-test of companies or, since 2020, the MOD 97 check of
+// sole proprietors, which runs over the number with its letters (N=23, L=21, B=11)
+const dutchChecksum = (number: string) => {
+  const digits = number.slice(0, 9);
+  const elevenTest = weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2, -1]) % 11 === 0;
+  const mod97Test = mod97(`2321${digits}11${number.slice(10)}`) === 1;
+  return elevenTest || mod97Test;
+};
+
+// Danish CVR numbers, used both as VAT and registration number
+const danishChecksum = (number: string) => weightedSum(number, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0;
+
+// Spanish NIF, company numbers (CIF) start with a letter and end in a check digit or letter,
+// numbers of self-employed people end in a check letter, those of foreigners start with X, Y or Z
+const spanishChecksum = (number: string) => {
+  const letters = "TRWAGMYFPDXBNJZSQVHLCKE";
+  const personal = number.match(/^(\d{8}|[KLM]\d{7}|[XYZ]\d{7})([A-Z])$/);
+  if (personal) {
+    const digits = personal[1]
+      .replace(/^[KLM]/, "")
+      .replace(/^[XYZ]/, x => String("XYZ".indexOf(x)));
+    return letters[Number(digits) % 23] === personal[2];
+  }
+  if (!/^[ABCDEFGHJNPQRSUVW]\d{7}[0-9A-J]$/.test(number)) return false;
+  const sum = digitsOf(number.slice(1, 8)).reduce((total, digit, i) => {
+    const value = i % 2 === 0 ? digit * 2 : digit;
+    return total + Math.floor(value / 10) + (value % 10);
+  }, 0);
+  const check = (10 - (sum % 10)) % 10;
+  return number[8] === String(check) || number[8] === "JABCDEFGHI"[check];
+};
+
+// Check digit computed as 11 minus the remainder of the weighted sum, 10 and 11 count as 0
+const mod11CheckDigit = (number: string, weights: number[]) => {
+  const check = 11 - (weightedSum(number, weights) % 11);
+  return check > 9 ? 0 : check;
+};
+
+// VAT number rules per country prefix, the prefix of Greece is EL instead of GR
+const VAT_RULES: Record<string, NumberRule> = {
+  AT: {
+    pattern: /^U\d{8}$/,
+    format: "ATU followed by 8 digits",
+    checksum: number => {
+      const sum = digitsOf(number.slice(1, 8)).reduce((total, digit, i) => {
+        const value = i % 2 === 1 ? digit * 2 : digit;
+        return total + Math.floor(value / 10) + (value % 10);
+      }, 0);
+      return (10 - ((sum + 4) % 10)) % 10 === Number(number[8]);
+    },
+  },
+  BE: { pattern: /^[01]\d{9}$/, format: "BE followed by 10 digits", checksum: belgianChecksum },
+  BG: { pattern: /^\d{9,10}$/, format: "BG followed by 9 or 10 digits" },
+  CY: { pattern: /^\d{8}[A-Z]$/, format: "CY followed by 8 digits and a letter" },
+  CZ: { pattern: /^\d{8,10}$/, format: "CZ followed by 8 to 10 digits" },
+  DE: { pattern: /^\d{9}$/, format: "DE followed by 9 digits", checksum: mod11_10 },
+  DK: { pattern: /^\d{8}$/, format: "DK followed by 8 digits", checksum: danishChecksum },
+  EE: {
+    pattern: /^10\d{7}$/,
+    format: "EE followed by 9 digits starting with 10",
+    checksum: number =>
+      (10 - (weightedSum(number, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === Number(number[8]),
+  },
+  EL: {
+    pattern: /^\d{9}$/,
+    format: "EL followed by 9 digits",
+    checksum: number =>
+      (weightedSum(number, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === Number(number[8]),
+  },
+  ES: {
+    pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+    format: "ES followed by 9 characters, starting or ending with a letter",
+    checksum: spanishChecksum,
+  },
+  FI: {
+    pattern: /^\d{8}$/,
+    format: "FI followed by 8 digits",
+    checksum: number => {
+      const remainder = weightedSum(number, [7, 9, 10, 5, 8, 4, 2]) % 11;
+      return remainder !== 1 && (remainder === 0 ? 0 : 11 - remainder) === Number(number[7]);
+    },
+  },
+  FR: {
+    pattern: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+    format: "FR followed by a 2 character key and the 9 digit SIREN number",
+    // Only numeric keys are derived from the SIREN number, letters are assigned
+    checksum: number =>
+      !/^\d{2}/.test(number) ||
+      (12 + 3 * (Number(number.slice(2)) % 97)) % 97 === Number(number.slice(0, 2)),
+  },
+  HR: { pattern: /^\d{11}$/, format: "HR followed by 11 digits", checksum: mod11_10 },
+  HU: {
+    pattern: /^\d{8}$/,
+    format: "HU followed by 8 digits",
+    checksum: number =>
+      (10 - (weightedSum(number, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 === Number(number[7]),
+  },
+  IE: {
+    pattern: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+    format: "IE followed by 8 or 9 characters, such as 1234567T",
+  },
+  IT: { pattern: /^\d{11}$/, format: "IT followed by 11 digits", checksum: luhn },
+  LT: { pattern: /^(\d{9}|\d{12})$/, format: "LT followed by 9 or 12 digits" },
+  LU: {
+    pattern: /^\d{8}$/,
+    format: "LU followed by 8 digits",
+    checksum: number => Number(number.slice(0, 6)) % 89 === Number(number.slice(6)),
+  },
+  LV: { pattern: /^\d{11}$/, format: "LV followed by 11 digits" },
+  MT: { pattern: /^\d{8}$/, format: "MT followed by 8 digits" },
+  NL: {
+    pattern: /^\d{9}B\d{2}$/,
+    format: "NL followed by 9 digits, B and 2 digits",
+    checksum: dutchChecksum,
+  },
+  PL: {
+    pattern: /^\d{10}$/,
+    format: "PL followed by 10 digits",
+    checksum: number => weightedSum(number, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === Number(number[9]),
+  },
+  PT: {
+    pattern: /^\d{9}$/,
+    format: "PT followed by 9 digits",
+    checksum: number => mod11CheckDigit(number, [9, 8, 7, 6, 5, 4, 3, 2]) === Number(number[8]),
+  },
+  RO: {
+    pattern: /^[1-9]\d{1,9}$/,
+    format: "RO followed by 2 to 10 digits",
+    checksum: number => {
+      const padded = number.padStart(10, "0");
+      const sum = weightedSum(padded, [7, 5, 3, 2, 1, 7, 5, 3, 2]);
+      return ((sum * 10) % 11) % 10 === Number(padded[9]);
+    },
+  },
+  SE: {
+    pattern: /^\d{10}01$/,
+    format: "SE followed by 12 digits ending in 01",
+    checksum: number => luhn(number.slice(0, 10)),
+  },
+  SI: {
+    pattern: /^[1-9]\d{7}$/,
+    format: "SI followed by 8 digits",
+    checksum: number => {
+      const check = 11 - (weightedSum(number, [8, 7, 6, 5, 4, 3, 2]) % 11);
+      return check !== 11 && check % 10 === Number(number[7]);
+    },
+  },
+  SK: {
+    pattern: /^[1-9]\d{9}$/,
+    format: "SK followed by 10 digits",
+    checksum: number => Number(number) % 11 === 0,
+  },
+};
+
+// Registration number rules of common countries, keyed by ISO country code
+const REGISTRATION_RULES: Record<string, NumberRule & { register: string }> = {
+  AT: {
+    register: "Firmenbuch number",
+    pattern: /^(FN)?\d{1,6}[A-Z]$/,
+    format: "up to 6 digits and a letter, such as FN 123456a",
+  },
+  BE: {
+    register: "enterprise number",
+    pattern: /^[01]\d{9}$/,
+    format: "10 digits, such as 0123.456.749",
+    checksum: belgianChecksum,
+  },
+  DE: {
+    register: "Handelsregister number",
+    pattern: /^HR[AB]\d{1,6}[A-Z]?$/,
+    format: "HRA or HRB followed by up to 6 digits, such as HRB 12345",
+  },
+  DK: {
+    register: "CVR number",
+    pattern: /^\d{8}$/,
+    format: "8 digits",
+    checksum: danishChecksum,
+  },
+  ES: {
+    register: "NIF",
+    pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+    format: "9 characters, starting or ending with a letter",
+    checksum: spanishChecksum,
+  },
+  FR: {
+    register: "SIREN or SIRET number",
+    pattern: /^(\d{9}|\d{14})$/,
+    format: "9 digits, or 14 digits for an establishment",
+    checksum: luhn,
+  },
+  GB: {
+    register: "Companies House number",
+    pattern: /^([A-Z]{2}\d{6}|\d{8})$/,
+    format: "8 digits, or 2 letters and 6 digits",
+  },
+  IE: { register: "CRO number", pattern: /^\d{1,6}$/, format: "up to 6 digits" },
+  IT: {
+    register: "codice fiscale",
+    pattern: /^\d{11}$/,
+    format: "11 digits",
+    checksum: luhn,
+  },
+  LU: {
+    register: "RCS number",
+    pattern: /^[A-Z]\d{1,6}$/,
+    format: "a letter and up to 6 digits, such as B123456",
+  },
+  NL: { register: "KvK number", pattern: /^\d{8}$/, format: "8 digits, such as 12345678" },
+  PL: { register: "KRS number", pattern: /^\d{10}$/, format: "10 digits" },
+};
+
+/**
+ * Get the country of a VAT number from its prefix
+ * @param vatNumber - VAT number as entered
+ * @returns ISO country code, with GR for the EL prefix, or null if the prefix is unknown
+ */
+export function vatNumberCountry(vatNumber: string): string | null {
+  const prefix = normalizeCompanyNumber(vatNumber).slice(0, 2);
+  if (!(prefix in VAT_RULES)) return null;
+  return prefix === "EL" ? "GR" : prefix;
+}
+
+/**
+ * Check the format and check digits of an EU VAT number
+ * @param vatNumber - VAT number as entered, separators are ignored
+ * @returns Message describing the problem, or null if the number is valid
+ */
+export function checkVatNumber(vatNumber: string): string | null {
+  const normalized = normalizeCompanyNumber(vatNumber);
+  const rule = VAT_RULES[normalized.slice(0, 2)];
+  if (!rule) {
+    return "Start the VAT number with the country code of an EU member state, such as NL.";
+  }
+  const number = normalized.slice(2);
+  if (!rule.pattern.test(number)) {
+    return `Enter a VAT number of the form ${rule.format}.`;
+  }
+  if (rule.checksum && !rule.checksum(number)) {
+    return "This VAT number is not valid, please check it for typos.";
+  }
+  return null;
+}
+
+/**
+ * Check the format and check digits of a company registration number
+ * Countries without known rules accept any number
+ * @param registrationNumber - Registration number as entered, separators are ignored
+ * @param country - ISO code of the country the company is registered in
+ * @returns Message describing the problem, or null if the number is valid
+ */
+export function checkRegistrationNumber(
+  registrationNumber: string,
+  country: string
+): string | null {
+  const rule = REGISTRATION_RULES[country];
+  if (!rule) return null;
+  const number = normalizeCompanyNumber(registrationNumber);
+  if (!rule.pattern.test(number)) {
+    return `Enter a ${rule.register} of ${rule.format}.`;
+  }
+  if (rule.checksum && !rule.checksum(number)) {
+    return `This ${rule.register} is not valid, please check it for typos.`;
+  }
+  return null;
+}
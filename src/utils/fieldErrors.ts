@@ -0,0 +1,131 @@
+// This utility file normalizes validation errors returned by the backend into
+// per-field form errors. The backend reports them in two shapes:
+// - standardized: { type: "validation_error", errors: [{ attr: "override_factors.2.lifecycle_stage", detail }] }
+// - plain DRF: { sku: ["..."], override_factors: [{}, {}, { lifecycle_stage: ["..."] }] }
+// Both are turned into messages keyed by field path, e.g. "override_factors[2].lifecycle_stage"
+
+import { ApiError } from "@/lib/api/apiClient";
+import { translateImportError } from "@/utils/translateImportError";
+
+// Attributes the backend uses for errors that belong to the whole form
+const FORM_ERROR_ATTRS = ["", "non_field_errors", "detail"];
+
+// Error messages keyed by field path
+export type FieldErrorMap = Record<string, string>;
+
+// Validation errors of a request, split into field errors and a message for the whole form
+export interface NormalizedErrors {
+  fieldErrors: FieldErrorMap;
+  formError: string;
+}
+
+// Validation errors mapped onto the fields of a specific form
+export interface FormErrors<F extends string> {
+  fieldErrors: Partial<Record<F, string>>;
+  formError: string;
+}
+
+// Empty error state, used to reset a form before it is submitted again
+export const NO_ERRORS: NormalizedErrors = { fieldErrors: {}, formError: "" };
+
+// Converts a dotted attribute into a field path
+// "override_factors.2.lifecycle_stage" becomes "override_factors[2].lifecycle_stage"
+export function toFieldPath(attr: string): string {
+  return attr
+    .split(".")
+    .reduce(
+      (path, segment) =>
+        /^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+      ""
+    );
+}
+
+// Returns the top-level field of a path, e.g. "override_factors" for "override_factors[2].lifecycle_stage"
+export function topLevelField(path: string): string {
+  return path.split(/[.[]/)[0];
+}
+
+// Describes a field path for display next to a message
+// "override_factors[2].lifecycle_stage" becomes "Override factors 3, lifecycle stage"
+// and "[2].lifecycle_stage" becomes "Row 3, lifecycle stage"
+export function describeFieldPath(path: string): string {
+  const description = path
+    .replace(/^\[(\d+)\]/, (_, index) => `row ${Number(index) + 1}`)
+    .replace(/\[(\d+)\]/g, (_, index) => ` ${Number(index) + 1}`)
+    .split(".")
+    .map(segment => segment.replace(/_/g, " ").trim())
+    .join(", ");
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+// Walks a plain DRF error body and collects the first message of every field path
+function collectDrfErrors(value: unknown, path: string, into: FieldErrorMap) {
+  if (typeof value === "string") {
+    if (!(path in into)) into[path] = value;
+  } else if (Array.isArray(value)) {
+    // Lists hold either the messages of a field or the errors of each nested item
+    value.forEach((item, index) =>
+      collectDrfErrors(item, typeof item === "string" ? path : `${path}[${index}]`, into)
+    );
+  } else if (typeof value === "object" && value !== null) {
+    Object.entries(value).forEach(([key, nested]) =>
+      collectDrfErrors(nested, path ? `${path}.${key}` : key, into)
+    );
+  }
+}
+
+// Normalizes the validation errors of a failed request
+// Returns null if the error is not a validation error, so callers can fall back to their own message
+export function normalizeFieldErrors(error: unknown): NormalizedErrors | null {
+  if (!(error instanceof ApiError) || error.status !== 400) return null;
+  if (typeof error.data !== "object" || error.data === null) return null;
+
+  const raw: FieldErrorMap = {};
+  const { errors } = error.data as { errors?: { attr: string | null; detail: string }[] };
+
+  if (Array.isArray(errors)) {
+    errors.forEach(({ attr, detail }) => {
+      const path = toFieldPath(attr ?? "");
+      if (!(path in raw)) raw[path] = detail;
+    });
+  } else {
+    collectDrfErrors(error.data, "", raw);
+  }
+
+  const fieldErrors: FieldErrorMap = {};
+  const formErrors: string[] = [];
+
+  Object.entries(raw).forEach(([path, detail]) => {
+    const message = translateImportError(detail, path);
+    if (FORM_ERROR_ATTRS.includes(path)) {
+      formErrors.push(message);
+    } else {
+      fieldErrors[path] = message;
+    }
+  });
+
+  return { fieldErrors, formError: formErrors.join(" ") };
+}
+
+// Maps normalized errors onto the fields of a form
+// Errors of nested items are shown on their top-level field, errors of fields
+// the form does not have are added to the form error
+export function pickFieldErrors<F extends string>(
+  errors: NormalizedErrors,
+  fields: readonly F[]
+): FormErrors<F> {
+  const fieldErrors: Partial<Record<F, string>> = {};
+  const formErrors = errors.formError ? [errors.formError] : [];
+
+  Object.entries(errors.fieldErrors).forEach(([path, message]) => {
+    const field = topLevelField(path) as F;
+    if (!fields.includes(field)) {
+      formErrors.push(`${describeFieldPath(path)}: ${message}`);
+    } else if (!fieldErrors[field]) {
+      fieldErrors[field] =
+        path === field ? message : `${describeFieldPath(path.slice(field.length))}: ${message}`;
+    }
+  });
+
+  return { fieldErrors, formError: formErrors.join(" ") };
+}
@@ -0,0 +1,20 @@
+// This utility file holds the password strength rules shared by the forms that set a password.
+// They mirror the backend's validators, so most mistakes are caught before the form is sent.
+// The backend still validates every password and its errors are shown per field
+
+// Requirements shown under every new password field
+export const PASSWORD_REQUIREMENTS =
+  "Password must be at least 8 characters long and must not be entirely numeric.";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Returns the first rule the password breaks, or null if it meets all of them
+export function checkPasswordStrength(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `This password is too short. It must contain at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (/^\d+$/.test(password)) {
+    return "This password is entirely numeric.";
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+// This utility file keeps unsaved product tab state as drafts in localStorage.
+// Drafts are written when the session ends while a tab still has unsaved changes,
+// and the tab offers to continue from them the next time the same user opens the product.
+// A draft is scoped to the user, company, product and tab, new products use "new"
+
+const DRAFT_KEY_PREFIX = "product_draft";
+
+// Unsaved values of a tab with the moment they were kept
+export interface ProductDraft<T> {
+  values: T;
+  savedAt: string;
+}
+
+// Identifies the tab a draft belongs to
+export interface DraftScope {
+  userId: number;
+  companyId: string;
+  productId: string;
+  tabKey: string;
+}
+
+const draftKey = ({ userId, companyId, productId, tabKey }: DraftScope) =>
+  `${DRAFT_KEY_PREFIX}:${userId}:${companyId}:${productId || "new"}:${tabKey}`;
+
+// Stores the unsaved values of a tab, replacing any earlier draft
+export function saveProductDraft<T>(scope: DraftScope, values: T): void {
+  const draft: ProductDraft<T> = { values, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(draftKey(scope), JSON.stringify(draft));
+  } catch (error) {
+    // A full storage must not keep the session from ending
+    console.error("Failed to save the product draft:", error);
+  }
+}
+
+// Returns the draft of a tab, or null if there is none or it cannot be read
+export function loadProductDraft<T>(scope: DraftScope): ProductDraft<T> | null {
+  const stored = localStorage.getItem(draftKey(scope));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as ProductDraft<T>;
+  } catch {
+    localStorage.removeItem(draftKey(scope));
+    return null;
+  }
+}
+
+// Removes the draft of a tab once its values were saved or discarded
+export function clearProductDraft(scope: DraftScope): void {
+  localStorage.removeItem(draftKey(scope));
+}